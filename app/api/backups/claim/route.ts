@@ -89,7 +89,7 @@ export async function POST() {
       }
     }
 
-    const [{ error: mediaError }, { error: jobsError }] = await Promise.all([
+    const [{ error: mediaError }, { error: jobsError }, ...contentResults] = await Promise.all([
       supabase
         .from('media_files')
         .update({ user_id: user.id })
@@ -98,6 +98,12 @@ export async function POST() {
         .from('backup_jobs')
         .update({ user_id: user.id })
         .eq('user_id', sourceActorId),
+      ...(['backup_tweets', 'backup_likes', 'backup_connections', 'backup_conversations'] as const).map((table) =>
+        supabase
+          .from(table)
+          .update({ user_id: user.id })
+          .eq('user_id', sourceActorId),
+      ),
     ])
 
     if (mediaError) {
@@ -106,6 +112,10 @@ export async function POST() {
     if (jobsError) {
       throw new Error(`Failed to claim backup jobs: ${jobsError.message}`)
     }
+    const contentError = contentResults.find((result) => result.error)?.error
+    if (contentError) {
+      throw new Error(`Failed to claim backup content: ${contentError.message}`)
+    }
 
     const { data: socialProfiles, error: socialLoadError } = await supabase
       .from('social_profiles')
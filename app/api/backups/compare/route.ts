@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { diffBackupContent, loadBackupDiffContent, type BackupDiff } from '@/lib/backups/backup-diff'
+import { isGuestBackupExpired } from '@/lib/backups/retention'
+import {
+  formatBackupMethodLabel,
+  getBackupPartialDetails,
+  inferBackupPlatform,
+  isSocialGraphTruncated,
+} from '@/lib/platforms/backup'
+import { getRequestActorId } from '@/lib/request-actor'
+
+const supabase = createAdminClient()
+
+const MAX_LIST_ITEMS = 200
+
+type CompareBackupRow = {
+  id: string
+  backup_type: string | null
+  source: string | null
+  uploaded_at: string | null
+  created_at: string
+  platform: string | null
+  profile: { username?: string } | null
+  scrape: Record<string, unknown> | null
+  retention: unknown
+}
+
+function readHandle(backup: CompareBackupRow): string {
+  return typeof backup.profile?.username === 'string' ? backup.profile.username.trim().toLowerCase() : ''
+}
+
+function readBackupDate(backup: CompareBackupRow): string {
+  return backup.uploaded_at || backup.created_at
+}
+
+function toBackupLike(backup: CompareBackupRow) {
+  return {
+    backup_type: backup.backup_type,
+    source: backup.source,
+    data: { platform: backup.platform || undefined, profile: backup.profile || undefined, scrape: backup.scrape },
+  }
+}
+
+// Handles are only unique within a platform, so both have to match.
+function isSameAccount(a: CompareBackupRow, b: CompareBackupRow): boolean {
+  const handle = readHandle(a)
+  return (
+    Boolean(handle)
+    && readHandle(b) === handle
+    && inferBackupPlatform(toBackupLike(a)) === inferBackupPlatform(toBackupLike(b))
+  )
+}
+
+function describeBackup(backup: CompareBackupRow) {
+  const likeBackup = toBackupLike(backup)
+  return {
+    id: backup.id,
+    label: formatBackupMethodLabel(likeBackup),
+    date: readBackupDate(backup),
+    partialReasons: getBackupPartialDetails(likeBackup).reasons,
+  }
+}
+
+// Counts cover the full diff; each list is capped so large accounts keep the response small.
+function summarizeDiff(diff: BackupDiff) {
+  const cap = <T,>(items: T[]) => items.slice(0, MAX_LIST_ITEMS)
+  return {
+    counts: {
+      tweetsAdded: diff.tweets.added.length,
+      tweetsRemoved: diff.tweets.removed.length,
+      tweetsEdited: diff.tweets.edited.length,
+      engagementChanged: diff.tweets.engagement.length,
+      followersGained: diff.followers.gained.length,
+      followersLost: diff.followers.lost.length,
+      followingAdded: diff.following.added.length,
+      followingRemoved: diff.following.removed.length,
+    },
+    tweets: {
+      ...diff.tweets,
+      added: cap(diff.tweets.added),
+      removed: cap(diff.tweets.removed),
+      edited: cap(diff.tweets.edited),
+      engagement: cap(diff.tweets.engagement),
+    },
+    followers: {
+      ...diff.followers,
+      gained: cap(diff.followers.gained),
+      lost: cap(diff.followers.lost),
+    },
+    following: {
+      ...diff.following,
+      added: cap(diff.following.added),
+      removed: cap(diff.following.removed),
+    },
+  }
+}
+
+/**
+ * Without `compareTo`, lists the other backups of the same handle and platform that `backupId` can be compared with.
+ * With it, diffs the two backups, always treating the older one as the baseline.
+ */
+export async function GET(request: Request) {
+  try {
+    const actorId = await getRequestActorId()
+    if (!actorId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const backupId = searchParams.get('backupId')?.trim()
+    const compareTo = searchParams.get('compareTo')?.trim() || null
+    if (!backupId) {
+      return NextResponse.json({ success: false, error: 'backupId is required' }, { status: 400 })
+    }
+    if (compareTo === backupId) {
+      return NextResponse.json({ success: false, error: 'Pick a different backup to compare with' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('backups')
+      .select('id, backup_type, source, uploaded_at, created_at, platform:data->>platform, profile:data->profile, scrape:data->scrape, retention:data->retention')
+      .eq('user_id', actorId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch backups: ${error.message}`)
+    }
+
+    const backups = ((data || []) as CompareBackupRow[]).filter(
+      (backup) => !isGuestBackupExpired({ retention: backup.retention }),
+    )
+    const current = backups.find((backup) => backup.id === backupId)
+    if (!current) {
+      return NextResponse.json({ success: false, error: 'Backup not found' }, { status: 404 })
+    }
+
+    const candidates = backups.filter((backup) => backup.id !== current.id && isSameAccount(current, backup))
+
+    if (!compareTo) {
+      return NextResponse.json({ success: true, candidates: candidates.map(describeBackup) })
+    }
+
+    const other = backups.find((backup) => backup.id === compareTo)
+    if (!other) {
+      return NextResponse.json({ success: false, error: 'Backup not found' }, { status: 404 })
+    }
+    if (!isSameAccount(current, other)) {
+      return NextResponse.json(
+        { success: false, error: 'Backups can only be compared with another backup of the same account' },
+        { status: 400 },
+      )
+    }
+
+    const [older, newer] =
+      readBackupDate(other) <= readBackupDate(current) ? [other, current] : [current, other]
+    const [olderContent, newerContent] = await Promise.all([
+      loadBackupDiffContent(supabase, older.id, { socialGraphTruncated: isSocialGraphTruncated(toBackupLike(older)) }),
+      loadBackupDiffContent(supabase, newer.id, { socialGraphTruncated: isSocialGraphTruncated(toBackupLike(newer)) }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      older: describeBackup(older),
+      newer: describeBackup(newer),
+      diff: summarizeDiff(diffBackupContent(olderContent, newerContent)),
+    })
+  } catch (error) {
+    console.error('[Backup Compare API] Error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to compare backups',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  BACKUP_CONTENT_PAGE_TYPES,
+  DATED_BACKUP_CONTENT_PAGE_TYPES,
+  decodeBackupContentCursor,
+  listBackupContentPage,
+  type BackupContentCursor,
+  type BackupContentPageType,
+} from '@/lib/backups/backup-content'
+import { isGuestBackupExpired } from '@/lib/backups/retention'
+import { getRequestActorId } from '@/lib/request-actor'
+import { getShareGrantFromCookies } from '@/lib/share-links'
+
+const supabase = createAdminClient()
+
+const DEFAULT_PAGE_LIMIT = 50
+const MAX_PAGE_LIMIT = 200
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseDateParam(value: string | null, endOfDay: boolean): string | null | undefined {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  const normalized = DATE_ONLY_PATTERN.test(trimmed)
+    ? `${trimmed}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`
+    : trimmed
+  const parsed = Date.parse(normalized)
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : undefined
+}
+
+function parseLimitParam(value: string | null): number | null {
+  if (!value?.trim()) return DEFAULT_PAGE_LIMIT
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) return null
+  return Math.min(parsed, MAX_PAGE_LIMIT)
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const backupId = searchParams.get('backupId')?.trim()
+    if (!backupId) {
+      return NextResponse.json({ success: false, error: 'backupId is required' }, { status: 400 })
+    }
+
+    const type = searchParams.get('type')?.trim() as BackupContentPageType | undefined
+    if (!type || !BACKUP_CONTENT_PAGE_TYPES.includes(type)) {
+      return NextResponse.json({ success: false, error: 'Invalid content type' }, { status: 400 })
+    }
+
+    const order = searchParams.get('order')?.trim() || 'desc'
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ success: false, error: 'order must be asc or desc' }, { status: 400 })
+    }
+
+    const limit = parseLimitParam(searchParams.get('limit'))
+    if (limit === null) {
+      return NextResponse.json({ success: false, error: 'limit must be a positive integer' }, { status: 400 })
+    }
+
+    const from = parseDateParam(searchParams.get('from'), false)
+    const to = parseDateParam(searchParams.get('to'), true)
+    if (from === undefined || to === undefined) {
+      return NextResponse.json({ success: false, error: 'from and to must be valid dates' }, { status: 400 })
+    }
+    if ((from || to) && !DATED_BACKUP_CONTENT_PAGE_TYPES.has(type)) {
+      return NextResponse.json({ success: false, error: `Date filters are not supported for ${type}` }, { status: 400 })
+    }
+
+    const rawCursor = searchParams.get('cursor')?.trim()
+    let cursor: BackupContentCursor | null = null
+    if (rawCursor) {
+      cursor = decodeBackupContentCursor(rawCursor)
+      if (!cursor) {
+        return NextResponse.json({ success: false, error: 'Invalid cursor' }, { status: 400 })
+      }
+    }
+
+    const { data: backup, error: backupError } = await supabase
+      .from('backups')
+      .select('id, user_id, retention:data->retention')
+      .eq('id', backupId)
+      .maybeSingle()
+
+    if (backupError) {
+      throw new Error(`Failed to fetch backup: ${backupError.message}`)
+    }
+    if (!backup || isGuestBackupExpired({ retention: backup.retention })) {
+      return NextResponse.json({ success: false, error: 'Backup not found' }, { status: 404 })
+    }
+
+    // Owners read their own backups; anyone else needs a share cookie granted for this backup.
+    const actorId = await getRequestActorId()
+    if (!actorId || actorId !== backup.user_id) {
+      const shareGrant = await getShareGrantFromCookies()
+      if (!shareGrant || shareGrant.backupId !== backupId) {
+        return NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 })
+      }
+    }
+
+    const page = await listBackupContentPage(supabase, backupId, { type, order, limit, cursor, from, to })
+
+    return NextResponse.json({
+      success: true,
+      items: page.items,
+      pinned: page.pinned,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    })
+  } catch (error) {
+    console.error('[Backup Content API] Error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load backup content',
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { buildFollowerTimeline, listSnapshotHistoryForUser } from '@/lib/backups/follower-timeline'
+import { getRequestActorId } from '@/lib/request-actor'
+
+const supabase = createAdminClient()
+
+const TWITTER_USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/
+const DEFAULT_SNAPSHOT_LIMIT = 12
+const MAX_SNAPSHOT_LIMIT = 24
+
+export async function GET(request: Request) {
+  try {
+    const actorId = await getRequestActorId()
+    if (!actorId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedUsername = searchParams.get('username')?.trim().replace(/^@/, '') || ''
+    if (requestedUsername && !TWITTER_USERNAME_PATTERN.test(requestedUsername)) {
+      return NextResponse.json({ success: false, error: 'Invalid username format' }, { status: 400 })
+    }
+
+    const limitParam = Number(searchParams.get('limit') || DEFAULT_SNAPSHOT_LIMIT)
+    if (!Number.isInteger(limitParam) || limitParam < 2) {
+      return NextResponse.json({ success: false, error: 'limit must be an integer of at least 2' }, { status: 400 })
+    }
+
+    // Handles are listed newest first, so the default view is the account snapshotted most recently.
+    const history = await listSnapshotHistoryForUser(supabase, actorId)
+    const snapshotsByHandle = new Map<string, { username: string; snapshots: number }>()
+    for (const entry of history) {
+      const key = entry.username.toLowerCase()
+      const existing = snapshotsByHandle.get(key)
+      if (existing) existing.snapshots += 1
+      else snapshotsByHandle.set(key, { username: entry.username, snapshots: 1 })
+    }
+    const handles = [...snapshotsByHandle.values()]
+
+    const username = requestedUsername || handles[0]?.username
+    if (!username) {
+      return NextResponse.json({ success: true, handles, timeline: null })
+    }
+
+    const timeline = await buildFollowerTimeline(supabase, {
+      userId: actorId,
+      username,
+      limit: Math.min(limitParam, MAX_SNAPSHOT_LIMIT),
+    })
+
+    return NextResponse.json({ success: true, handles, timeline })
+  } catch (error) {
+    console.error('[Follower Timeline API] Error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load follower timeline',
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { createAdminClient } from '@/lib/supabase/admin'
 import { findActiveBackupJobForUser, listBackupJobsForUser } from '@/lib/jobs/backup-jobs'
 import { TWITTER_SCRAPE_LIMITS, USER_STORAGE_LIMITS } from '@/lib/platforms/twitter/limits'
 import { getTwitterApiUsageSummary } from '@/lib/platforms/twitter/api-usage'
+import { withoutPagedBackupContent } from '@/lib/backups/backup-content'
 import { deleteBackupAndStorageById } from '@/lib/backups/delete-backup-data'
 import { isGuestBackupExpired } from '@/lib/backups/retention'
 import { getRequestActorId } from '@/lib/request-actor'
@@ -44,6 +45,29 @@ export async function GET(request: Request) {
       }, { status: 403 })
     }
 
+    // Single-backup requests come from the viewer, which pages tweets, the social graph and chats via /api/backups/content.
+    const backupId = searchParams.get('backupId')?.trim()
+    if (backupId) {
+      const { data: backup, error: backupError } = await supabase
+        .from('backups')
+        .select('*')
+        .eq('id', backupId)
+        .eq('user_id', actorId)
+        .maybeSingle()
+
+      if (backupError) {
+        throw new Error(`Failed to fetch backup: ${backupError.message}`)
+      }
+      if (!backup || isGuestBackupExpired(backup.data)) {
+        return NextResponse.json({ success: false, error: 'Backup not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        backup: withoutPagedBackupContent(backup),
+      })
+    }
+
     // Reconcile stale queued jobs before loading dashboard payload.
     await findActiveBackupJobForUser(supabase, actorId)
 
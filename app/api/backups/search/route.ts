@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { hasBackupSearchCriteria, parseBackupSearchQuery, searchBackupContent } from '@/lib/backups/backup-search'
+import { isGuestBackupExpired } from '@/lib/backups/retention'
+import { formatBackupMethodLabel } from '@/lib/platforms/backup'
+import { getRequestActorId } from '@/lib/request-actor'
+
+const supabase = createAdminClient()
+
+const DEFAULT_PAGE_LIMIT = 20
+const MAX_PAGE_LIMIT = 100
+const MAX_QUERY_LENGTH = 500
+
+export async function GET(request: Request) {
+  try {
+    const actorId = await getRequestActorId()
+    if (!actorId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const rawQuery = searchParams.get('q')?.trim() || ''
+    if (rawQuery.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ success: false, error: `q must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 })
+    }
+
+    const query = parseBackupSearchQuery(rawQuery)
+    if (query.errors.length > 0) {
+      return NextResponse.json({ success: false, error: query.errors[0] }, { status: 400 })
+    }
+    if (!hasBackupSearchCriteria(query)) {
+      return NextResponse.json({ success: false, error: 'q is required' }, { status: 400 })
+    }
+
+    const limitParam = Number(searchParams.get('limit') || DEFAULT_PAGE_LIMIT)
+    const offsetParam = Number(searchParams.get('offset') || 0)
+    if (!Number.isInteger(limitParam) || limitParam < 1 || !Number.isInteger(offsetParam) || offsetParam < 0) {
+      return NextResponse.json({ success: false, error: 'limit and offset must be non-negative integers' }, { status: 400 })
+    }
+
+    const { data: backups, error: backupsError } = await supabase
+      .from('backups')
+      .select('id, backup_type, uploaded_at, created_at, retention:data->retention, profile:data->profile')
+      .eq('user_id', actorId)
+
+    if (backupsError) {
+      throw new Error(`Failed to fetch backups: ${backupsError.message}`)
+    }
+
+    const searchableBackups = (backups || []).filter((backup) => !isGuestBackupExpired({ retention: backup.retention }))
+    const { hits, hasMore } = await searchBackupContent(supabase, {
+      backupIds: searchableBackups.map((backup) => backup.id),
+      query,
+      limit: Math.min(limitParam, MAX_PAGE_LIMIT),
+      offset: offsetParam,
+    })
+
+    const backupsById = new Map(searchableBackups.map((backup) => [backup.id, backup]))
+    return NextResponse.json({
+      success: true,
+      highlightTerms: query.highlightTerms,
+      hasMore,
+      hits: hits.map((hit) => {
+        const backup = backupsById.get(hit.backupId)
+        return {
+          ...hit,
+          backupLabel: backup
+            ? formatBackupMethodLabel({ backup_type: backup.backup_type, data: { profile: (backup.profile as { username?: string } | null) || undefined } })
+            : null,
+          backupDate: backup?.uploaded_at || backup?.created_at || null,
+        }
+      }),
+    })
+  } catch (error) {
+    console.error('[Backup Search API] Error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to search backups',
+    }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { withoutPagedBackupContent } from '@/lib/backups/backup-content'
 import { deleteBackupAndStorageById } from '@/lib/backups/delete-backup-data'
 import { isGuestBackupExpired } from '@/lib/backups/retention'
 import { getShareGrantFromCookies } from '@/lib/share-links'
@@ -43,7 +44,7 @@ export async function GET(request: Request) {
 
     return NextResponse.json({
       success: true,
-      backup,
+      backup: withoutPagedBackupContent(backup),
     })
   } catch (error) {
     console.error('[Shared Backup API] Error:', error)
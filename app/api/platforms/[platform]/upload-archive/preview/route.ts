@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { openStagedPlatformArchive, type StagedPlatformArchive } from '@/lib/platforms/archive-import-job'
+import { getPlatformArchiveImporter } from '@/lib/platforms/archive-importers'
+import { ensureUserScopedStagedPath } from '@/lib/platforms/twitter/archive-upload-intake'
+import { createClient as createServerClient } from '@/lib/supabase/server'
+
+type PreviewBody = {
+  stagedInputPath?: string
+}
+
+type RouteContext = {
+  params: Promise<{ platform: string }>
+}
+
+function statusForPreviewError(message: string): number {
+  if (message.includes('Invalid staged upload path')) return 400
+  if (message.includes('Unauthorized')) return 401
+  return 500
+}
+
+// Twitter has its own static route next to this one; every other platform with an archive importer lands here.
+export async function POST(request: Request, context: RouteContext) {
+  const { platform } = await context.params
+  const importer = getPlatformArchiveImporter(platform)
+  if (!importer) {
+    return NextResponse.json({ success: false, error: 'Archive imports are not supported for this platform' }, { status: 404 })
+  }
+
+  let archive: StagedPlatformArchive | null = null
+
+  try {
+    const authClient = await createServerClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = (await request.json().catch(() => ({}))) as PreviewBody
+    const stagedInputPath = ensureUserScopedStagedPath(body.stagedInputPath || '', user.id)
+
+    archive = await openStagedPlatformArchive(stagedInputPath, importer)
+    if (!archive) {
+      return NextResponse.json({ success: false, error: 'Uploaded file not found. Please retry upload.' }, { status: 404 })
+    }
+
+    const preview = await importer.preview(archive.reader)
+    if (!preview.recognized) {
+      return NextResponse.json({ success: false, error: importer.unrecognizedMessage }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, preview })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to inspect uploaded archive'
+    const status = statusForPreviewError(message)
+    const clientMessage = status >= 500 ? 'Failed to inspect uploaded archive' : message
+    console.error(`[Platform Archive Preview] ${platform} error:`, error)
+    return NextResponse.json({ success: false, error: clientMessage }, { status })
+  } finally {
+    archive?.close()
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server'
+import { loadBackupContentItems } from '@/lib/backups/backup-content'
 import { verifyMediaOwnership } from '@/lib/auth-helpers'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { getRequestActorId } from '@/lib/request-actor'
@@ -81,17 +82,18 @@ export async function GET(request: Request) {
 
     const { data: backupMediaFiles, error } = await supabase
       .from('media_files')
-      .select('file_path, file_name')
+      .select('file_path, file_name, media_type')
       .eq('backup_id', backupId)
 
     if (error) {
       throw error
     }
 
-    const looksLikeProfileMedia = (filePath?: string, fileName?: string) => {
+    const looksLikeProfileMedia = (filePath?: string, fileName?: string, mediaType?: string | null) => {
       const path = (filePath || '').toLowerCase()
       const name = (fileName || '').toLowerCase()
       return (
+        mediaType === 'profile_media' ||
         path.includes('/profile_media/') ||
         path.includes('_media/profile_') ||
         name.includes('profile') ||
@@ -104,7 +106,7 @@ export async function GET(request: Request) {
     }
 
     const mediaFileList = backupMediaFiles || []
-    const profileFiles = mediaFileList.filter((f) => looksLikeProfileMedia(f.file_path, f.file_name))
+    const profileFiles = mediaFileList.filter((f) => looksLikeProfileMedia(f.file_path, f.file_name, f.media_type))
     const candidateFiles = profileFiles.length > 0 ? profileFiles : mediaFileList
 
     const findFile = (filename: string | null, excludePath?: string) => {
@@ -122,8 +124,12 @@ export async function GET(request: Request) {
       return null
     }
 
-    let avatarFile = findFile(storedProfileImageFilename)
-    let headerFile = findFile(storedCoverImageFilename)
+    // Snapshots store the storage path itself, which is a content hash rather than a readable file name.
+    const findFileByPath = (storedPath: unknown) =>
+      typeof storedPath === 'string' ? candidateFiles.find((f) => f.file_path === storedPath) || null : null
+
+    let avatarFile = findFileByPath(profile?.profileImageUrl) || findFile(storedProfileImageFilename)
+    let headerFile = findFileByPath(profile?.coverImageUrl) || findFile(storedCoverImageFilename)
 
     if (!avatarFile) {
       avatarFile =
@@ -167,8 +173,11 @@ export async function GET(request: Request) {
       })
     }
 
+    const sampleTweets = Array.isArray(backup.data?.tweets)
+      ? backup.data.tweets
+      : await loadBackupContentItems(supabase, backupId, 'tweets', { limit: 50 })
     const firstTweetWithAvatar =
-      backup.data?.tweets?.find((tweet: unknown) => {
+      sampleTweets.find((tweet: unknown) => {
         const t = tweet as Record<string, unknown>
         const author = t.author as Record<string, unknown> | undefined
         const userTweet = t.user as Record<string, unknown> | undefined
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { parseScrapeTargets } from '@/lib/platforms/twitter/snapshot-request'
+import {
+  deleteSnapshotSchedule,
+  isSnapshotScheduleFrequency,
+  listSnapshotSchedulesForUser,
+  saveSnapshotSchedule,
+} from '@/lib/platforms/twitter/snapshot-schedules'
+import { getRequestActorId } from '@/lib/request-actor'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+const supabase = createAdminClient()
+const TWITTER_USERNAME_PATTERN = /^[A-Za-z0-9_]{1,15}$/
+
+function parseOptionalBoolean(value: unknown, fallback: boolean): boolean | null {
+  if (value === undefined || value === null) return fallback
+  if (typeof value === 'boolean') return value
+  return null
+}
+
+export async function GET() {
+  try {
+    const actorId = await getRequestActorId()
+    if (!actorId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const schedules = await listSnapshotSchedulesForUser(supabase, actorId)
+    return NextResponse.json({ success: true, schedules })
+  } catch (error) {
+    console.error('[Snapshot Schedule API] Error:', error)
+    return NextResponse.json({ success: false, error: 'Failed to load snapshot schedules' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const actorId = await getRequestActorId()
+    if (!actorId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>
+    const username = typeof body.username === 'string' ? body.username.trim().replace(/^@/, '') : ''
+    if (!TWITTER_USERNAME_PATTERN.test(username)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid username format. Use 1-15 letters, numbers, or underscores.' },
+        { status: 400 },
+      )
+    }
+    if (!isSnapshotScheduleFrequency(body.frequency)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid frequency. Use daily, weekly, or monthly.' },
+        { status: 400 },
+      )
+    }
+
+    const targets = parseScrapeTargets(body.targets)
+    if (!targets || !Object.values(targets).some(Boolean)) {
+      return NextResponse.json(
+        { success: false, error: 'Select at least one type of data to scrape.' },
+        { status: 400 },
+      )
+    }
+
+    const includeMedia = parseOptionalBoolean(body.includeMedia, true)
+    const incremental = parseOptionalBoolean(body.incremental, true)
+    const enabled = parseOptionalBoolean(body.enabled, true)
+    if (includeMedia === null || incremental === null || enabled === null) {
+      return NextResponse.json(
+        { success: false, error: 'includeMedia, incremental and enabled must be booleans.' },
+        { status: 400 },
+      )
+    }
+
+    const schedule = await saveSnapshotSchedule(supabase, actorId, {
+      username,
+      frequency: body.frequency,
+      targets,
+      includeMedia,
+      incremental,
+      enabled,
+    })
+    return NextResponse.json({ success: true, schedule })
+  } catch (error) {
+    console.error('[Snapshot Schedule API] Error:', error)
+    return NextResponse.json({ success: false, error: 'Failed to save snapshot schedule' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const actorId = await getRequestActorId()
+    if (!actorId) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const scheduleId = new URL(request.url).searchParams.get('id')?.trim() || ''
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'Schedule ID is required' }, { status: 400 })
+    }
+
+    await deleteSnapshotSchedule(supabase, actorId, scheduleId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[Snapshot Schedule API] Error:', error)
+    return NextResponse.json({ success: false, error: 'Failed to delete snapshot schedule' }, { status: 500 })
+  }
+}
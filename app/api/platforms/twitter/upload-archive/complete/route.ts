@@ -15,6 +15,8 @@ type CompleteUploadBody = {
   username?: string
   importSelection?: unknown
   dmEncryption?: unknown
+  grokChatEncryption?: unknown
+  accountHistoryEncryption?: unknown
   preserveArchiveFile?: boolean
 }
 
@@ -84,6 +86,8 @@ export async function POST(request: Request) {
       stagedInputPath,
       importSelection: body.importSelection,
       dmEncryption: body.dmEncryption,
+      grokChatEncryption: body.grokChatEncryption,
+      accountHistoryEncryption: body.accountHistoryEncryption,
       preserveArchiveFile: body.preserveArchiveFile,
     })
 
@@ -1,5 +1,6 @@
 import { randomUUID } from 'node:crypto'
 import { NextResponse } from 'next/server'
+import { getPlatformArchiveImporter } from '@/lib/platforms/archive-importers'
 import {
   enqueueArchiveUploadJob,
   ensureUserScopedStagedPath,
@@ -22,6 +23,8 @@ type MultipartInitBody = {
   fileName?: string
   fileType?: string
   fileSize?: number
+  // Staging is shared with the other platform importers, which send their id here.
+  platform?: string
 }
 
 type MultipartSignBody = {
@@ -42,6 +45,8 @@ type MultipartCompleteBody = {
   startProcessing?: boolean
   importSelection?: unknown
   dmEncryption?: unknown
+  grokChatEncryption?: unknown
+  accountHistoryEncryption?: unknown
   preserveArchiveFile?: boolean
   parts?: Array<{
     partNumber?: number
@@ -122,11 +127,15 @@ export async function POST(request: Request) {
         return NextResponse.json({ success: false, error: 'fileName is required' }, { status: 400 })
       }
 
+      const importer = getPlatformArchiveImporter(body.platform)
+
       await validateArchiveUploadRequest({
         userId: user.id,
         fileName,
         fileType,
         fileSize,
+        archiveLabel: importer?.archiveLabel,
+        singleFileName: importer?.singleFileName,
       })
 
       const stagedInputPath = `${user.id}/job-inputs/${randomUUID()}-${getSafeFileName(fileName)}`
@@ -231,6 +240,8 @@ export async function POST(request: Request) {
         stagedInputPath,
         importSelection: body.importSelection,
         dmEncryption: body.dmEncryption,
+        grokChatEncryption: body.grokChatEncryption,
+        accountHistoryEncryption: body.accountHistoryEncryption,
         preserveArchiveFile: body.preserveArchiveFile,
       })
 
@@ -1,5 +1,6 @@
 import { randomUUID } from 'node:crypto'
 import { NextResponse } from 'next/server'
+import { getPlatformArchiveImporter } from '@/lib/platforms/archive-importers'
 import { validateArchiveUploadRequest } from '@/lib/platforms/twitter/archive-upload-intake'
 import { createClient as createServerClient } from '@/lib/supabase/server'
 import { createSignedPutUrl } from '@/lib/storage/r2'
@@ -8,6 +9,8 @@ type PresignBody = {
   fileName?: string
   fileType?: string
   fileSize?: number
+  // Staging is shared with the other platform importers, which send their id here.
+  platform?: string
 }
 
 function statusForArchiveError(message: string): number {
@@ -41,11 +44,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: 'fileName is required' }, { status: 400 })
     }
 
+    const importer = getPlatformArchiveImporter(body.platform)
+
     await validateArchiveUploadRequest({
       userId: user.id,
       fileName,
       fileType,
       fileSize,
+      archiveLabel: importer?.archiveLabel,
+      singleFileName: importer?.singleFileName,
     })
 
     const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_')
@@ -1,13 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import fs from 'node:fs'
-import { randomUUID } from 'node:crypto'
-import yauzl from 'yauzl'
 import { NextResponse } from 'next/server'
 import { ensureUserScopedStagedPath } from '@/lib/platforms/twitter/archive-upload-intake'
 import { TWITTER_UPLOAD_LIMITS } from '@/lib/platforms/twitter/limits'
 import { createClient as createServerClient } from '@/lib/supabase/server'
-import { downloadObjectFromR2, getObjectMetadataFromR2 } from '@/lib/storage/r2'
-import type { ArchivePreviewData } from '@/lib/platforms/twitter/archive-import'
+import { openR2ZipArchive, type R2ZipArchive } from '@/lib/storage/r2-zip'
+import {
+  normalizeAccountHistoryItems,
+  normalizeBroadcastItems,
+  type ArchivePreviewData,
+} from '@/lib/platforms/twitter/archive-import'
 
 type PreviewBody = {
   stagedInputPath?: string
@@ -19,7 +20,17 @@ type ArchiveMetadataBucket =
   | 'followers'
   | 'following'
   | 'likes'
+  | 'lists'
+  | 'blocks'
+  | 'mutes'
+  | 'deletedTweets'
+  | 'communityTweets'
+  | 'communityNotes'
+  | 'moments'
+  | 'broadcasts'
   | 'directMessages'
+  | 'grokChats'
+  | 'accountHistory'
 
 const ARCHIVE_METADATA_FILE_PATTERNS: Record<ArchiveMetadataBucket, RegExp[]> = {
   account: [/^data\/account(?:-part\d+)?\.js$/i],
@@ -27,10 +38,38 @@ const ARCHIVE_METADATA_FILE_PATTERNS: Record<ArchiveMetadataBucket, RegExp[]> =
   followers: [/^data\/followers?(?:-part\d+)?\.js$/i],
   following: [/^data\/following(?:-part\d+)?\.js$/i],
   likes: [/^data\/likes?(?:-part\d+)?\.js$/i],
+  lists: [/^data\/lists[-_](?:created|member|subscribed)(?:-part\d+)?\.js$/i],
+  blocks: [/^data\/block(?:-part\d+)?\.js$/i],
+  mutes: [/^data\/mute(?:-part\d+)?\.js$/i],
+  deletedTweets: [
+    /^data\/deleted-tweets?(?:-part\d+)?\.js$/i,
+    /^data\/deleted_tweets?(?:-part\d+)?\.js$/i,
+  ],
+  communityTweets: [
+    /^data\/community-tweet(?:-part\d+)?\.js$/i,
+    /^data\/community_tweet(?:-part\d+)?\.js$/i,
+  ],
+  communityNotes: [/^data\/community-note(?:-rating)?(?:-part\d+)?\.js$/i],
+  moments: [/^data\/moments?(?:-part\d+)?\.js$/i],
+  broadcasts: [
+    /^data\/spaces-metadata(?:-part\d+)?\.js$/i,
+    /^data\/periscope-broadcast-metadata(?:-part\d+)?\.js$/i,
+  ],
   directMessages: [
     /^data\/direct-messages(?:-part\d+)?\.js$/i,
     /^data\/direct_messages(?:-part\d+)?\.js$/i,
   ],
+  grokChats: [
+    /^data\/grok-chat-item(?:-part\d+)?\.js$/i,
+    /^data\/grok_chat_item(?:-part\d+)?\.js$/i,
+  ],
+  accountHistory: [
+    /^data\/screen-name-change(?:-part\d+)?\.js$/i,
+    /^data\/email-address-change(?:-part\d+)?\.js$/i,
+    /^data\/ip-audit(?:-part\d+)?\.js$/i,
+    /^data\/connected-application(?:-part\d+)?\.js$/i,
+    /^data\/device-token(?:-part\d+)?\.js$/i,
+  ],
 }
 
 const MEDIA_FOLDERS = [
@@ -180,119 +219,8 @@ function parseTwitterJSON(content: string) {
   return []
 }
 
-async function listZipEntries(zipPath: string): Promise<any[]> {
-  const zipfile: any = await new Promise((resolve, reject) => {
-    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zf) => {
-      if (err) reject(err)
-      else resolve(zf)
-    })
-  })
-
-  return new Promise<any[]>((resolve, reject) => {
-    const entries: any[] = []
-    let settled = false
-
-    const finishResolve = () => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      resolve(entries)
-    }
-
-    const finishReject = (error: unknown) => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      reject(error instanceof Error ? error : new Error('Failed to read ZIP entries'))
-    }
-
-    zipfile.on('entry', (entry: any) => {
-      entries.push(entry)
-      if (entries.length > TWITTER_UPLOAD_LIMITS.maxZipEntries) {
-        finishReject(
-          new Error(
-            `Archive contains too many entries (${entries.length}). Limit is ${TWITTER_UPLOAD_LIMITS.maxZipEntries}.`,
-          ),
-        )
-        return
-      }
-      zipfile.readEntry()
-    })
-
-    zipfile.on('error', finishReject)
-    zipfile.on('end', finishResolve)
-    zipfile.readEntry()
-  })
-}
-
-async function readZipEntryBufferWithLimit(
-  zipPath: string,
-  targetFileName: string,
-  maxBytes: number,
-): Promise<Buffer | null> {
-  const zipfile: any = await new Promise((resolve, reject) => {
-    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zf) => {
-      if (err) reject(err)
-      else resolve(zf)
-    })
-  })
-
-  return new Promise<Buffer | null>((resolve, reject) => {
-    let settled = false
-
-    const finishResolve = (value: Buffer | null) => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      resolve(value)
-    }
-
-    const finishReject = (error: unknown) => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      reject(error instanceof Error ? error : new Error('Failed to read ZIP entry'))
-    }
-
-    zipfile.on('entry', (entry: any) => {
-      if (entry.fileName !== targetFileName) {
-        zipfile.readEntry()
-        return
-      }
-
-      zipfile.openReadStream(entry, (err: any, stream: any) => {
-        if (err || !stream) {
-          finishReject(err || new Error(`Could not open ZIP stream for ${targetFileName}`))
-          return
-        }
-
-        const chunks: Buffer[] = []
-        let totalBytes = 0
-
-        stream.on('data', (chunk: Buffer) => {
-          totalBytes += chunk.length
-          if (totalBytes > maxBytes) {
-            stream.destroy(
-              new Error(`Entry ${targetFileName} exceeds max allowed size of ${maxBytes} bytes.`),
-            )
-            return
-          }
-          chunks.push(chunk)
-        })
-
-        stream.on('end', () => finishResolve(Buffer.concat(chunks)))
-        stream.on('error', finishReject)
-      })
-    })
-
-    zipfile.on('error', finishReject)
-    zipfile.on('end', () => finishResolve(null))
-    zipfile.readEntry()
-  })
-}
-
 export async function POST(request: Request) {
-  let tmpPath = ''
+  let archive: R2ZipArchive | null = null
 
   try {
     const authClient = await createServerClient()
@@ -308,20 +236,15 @@ export async function POST(request: Request) {
     const body = (await request.json().catch(() => ({}))) as PreviewBody
     const stagedInputPath = ensureUserScopedStagedPath(body.stagedInputPath || '', user.id)
 
-    const metadata = await getObjectMetadataFromR2(stagedInputPath)
-    if (!metadata) {
-      return NextResponse.json({ success: false, error: 'Uploaded file not found. Please retry upload.' }, { status: 404 })
-    }
-
-    const archiveBuffer = await downloadObjectFromR2(stagedInputPath)
-    if (!archiveBuffer) {
+    archive = await openR2ZipArchive(stagedInputPath, {
+      maxEntries: TWITTER_UPLOAD_LIMITS.maxZipEntries,
+    })
+    if (!archive) {
       return NextResponse.json({ success: false, error: 'Uploaded file not found. Please retry upload.' }, { status: 404 })
     }
 
-    tmpPath = `/tmp/archive-preview-${randomUUID()}.zip`
-    fs.writeFileSync(tmpPath, archiveBuffer)
-
-    const entries = await listZipEntries(tmpPath)
+    const zipArchive = archive
+    const entries = zipArchive.entries
 
     const metadataEntriesByBucket: Record<ArchiveMetadataBucket, any[]> = {
       account: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.account),
@@ -329,7 +252,17 @@ export async function POST(request: Request) {
       followers: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.followers),
       following: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.following),
       likes: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.likes),
+      lists: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.lists),
+      blocks: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.blocks),
+      mutes: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.mutes),
+      deletedTweets: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.deletedTweets),
+      communityTweets: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.communityTweets),
+      communityNotes: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.communityNotes),
+      moments: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.moments),
+      broadcasts: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.broadcasts),
       directMessages: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.directMessages),
+      grokChats: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.grokChats),
+      accountHistory: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.accountHistory),
     }
 
     const hasCoreArchiveFiles =
@@ -351,17 +284,23 @@ export async function POST(request: Request) {
       followers: 0,
       following: 0,
       likes: 0,
+      lists: 0,
+      blocks: 0,
+      mutes: 0,
+      deleted_tweets: 0,
+      community_tweets: 0,
+      community_notes: 0,
+      moments: 0,
+      broadcasts: 0,
       dms: 0,
+      grok_chats: 0,
+      account_history: 0,
       media_files: mediaEntries.length,
     }
 
     for (const entry of metadataEntriesByBucket.tweets) {
-      const contentBuffer = await readZipEntryBufferWithLimit(
-        tmpPath,
-        entry.fileName,
-        TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
-      )
-      const content = contentBuffer ? contentBuffer.toString('utf8') : ''
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
       if (!content) continue
 
       const tweets = parseTwitterJSON(content)
@@ -371,12 +310,8 @@ export async function POST(request: Request) {
     }
 
     for (const entry of metadataEntriesByBucket.followers) {
-      const contentBuffer = await readZipEntryBufferWithLimit(
-        tmpPath,
-        entry.fileName,
-        TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
-      )
-      const content = contentBuffer ? contentBuffer.toString('utf8') : ''
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
       if (!content) continue
 
       const followers = parseTwitterJSON(content).filter((item: any) => Boolean(item?.follower?.accountId))
@@ -384,12 +319,8 @@ export async function POST(request: Request) {
     }
 
     for (const entry of metadataEntriesByBucket.following) {
-      const contentBuffer = await readZipEntryBufferWithLimit(
-        tmpPath,
-        entry.fileName,
-        TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
-      )
-      const content = contentBuffer ? contentBuffer.toString('utf8') : ''
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
       if (!content) continue
 
       const following = parseTwitterJSON(content).filter((item: any) => Boolean(item?.following?.accountId))
@@ -397,25 +328,94 @@ export async function POST(request: Request) {
     }
 
     for (const entry of metadataEntriesByBucket.likes) {
-      const contentBuffer = await readZipEntryBufferWithLimit(
-        tmpPath,
-        entry.fileName,
-        TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
-      )
-      const content = contentBuffer ? contentBuffer.toString('utf8') : ''
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
       if (!content) continue
 
       const likes = parseTwitterJSON(content).filter((item: any) => Boolean(item?.like?.tweetId))
       stats.likes += likes.length
     }
 
-    for (const entry of metadataEntriesByBucket.directMessages) {
-      const contentBuffer = await readZipEntryBufferWithLimit(
-        tmpPath,
-        entry.fileName,
-        TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
+    for (const entry of metadataEntriesByBucket.lists) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const lists = parseTwitterJSON(content).filter((item: any) => typeof item?.userListInfo?.url === 'string')
+      stats.lists += lists.length
+    }
+
+    for (const entry of metadataEntriesByBucket.blocks) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const blocks = parseTwitterJSON(content).filter((item: any) => Boolean(item?.blocking?.accountId))
+      stats.blocks += blocks.length
+    }
+
+    for (const entry of metadataEntriesByBucket.mutes) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const mutes = parseTwitterJSON(content).filter((item: any) => Boolean(item?.muting?.accountId))
+      stats.mutes += mutes.length
+    }
+
+    for (const entry of metadataEntriesByBucket.deletedTweets) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const deletedTweets = parseTwitterJSON(content)
+        .map((item: any) => item?.tweet || item)
+        .filter((tweet: any) => Boolean(tweet?.id_str || tweet?.id))
+      stats.deleted_tweets += deletedTweets.length
+    }
+
+    for (const entry of metadataEntriesByBucket.communityTweets) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const communityTweets = parseTwitterJSON(content)
+        .map((item: any) => item?.tweet || item)
+        .filter((tweet: any) => Boolean(tweet?.id_str || tweet?.id))
+      stats.community_tweets += communityTweets.length
+    }
+
+    for (const entry of metadataEntriesByBucket.communityNotes) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const communityNotes = parseTwitterJSON(content).filter(
+        (item: any) => Boolean(item?.communityNote?.noteId || item?.communityNoteRating?.noteId),
       )
-      const content = contentBuffer ? contentBuffer.toString('utf8') : ''
+      stats.community_notes += communityNotes.length
+    }
+
+    for (const entry of metadataEntriesByBucket.moments) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const moments = parseTwitterJSON(content).filter((item: any) => Boolean(item?.moment?.momentId))
+      stats.moments += moments.length
+    }
+
+    for (const entry of metadataEntriesByBucket.broadcasts) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      stats.broadcasts += normalizeBroadcastItems(parseTwitterJSON(content)).length
+    }
+
+    for (const entry of metadataEntriesByBucket.directMessages) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
       if (!content) continue
 
       const dmsData = parseTwitterJSON(content)
@@ -427,6 +427,23 @@ export async function POST(request: Request) {
       stats.dms += messageCount
     }
 
+    for (const entry of metadataEntriesByBucket.grokChats) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      const grokMessages = parseTwitterJSON(content).filter((item: any) => Boolean(item?.grokChatItem?.chatId))
+      stats.grok_chats += grokMessages.length
+    }
+
+    for (const entry of metadataEntriesByBucket.accountHistory) {
+      const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+      const content = contentBuffer.toString('utf8')
+      if (!content) continue
+
+      stats.account_history += normalizeAccountHistoryItems(parseTwitterJSON(content)).length
+    }
+
     const preview: ArchivePreviewData = {
       stats,
       available: {
@@ -434,7 +451,17 @@ export async function POST(request: Request) {
         followers: metadataEntriesByBucket.followers.length > 0,
         following: metadataEntriesByBucket.following.length > 0,
         likes: metadataEntriesByBucket.likes.length > 0,
+        lists: metadataEntriesByBucket.lists.length > 0,
+        blocks: metadataEntriesByBucket.blocks.length > 0,
+        mutes: metadataEntriesByBucket.mutes.length > 0,
+        deleted_tweets: metadataEntriesByBucket.deletedTweets.length > 0,
+        community_tweets:
+          metadataEntriesByBucket.communityTweets.length > 0 || metadataEntriesByBucket.communityNotes.length > 0,
+        moments: metadataEntriesByBucket.moments.length > 0,
+        broadcasts: metadataEntriesByBucket.broadcasts.length > 0,
         direct_messages: metadataEntriesByBucket.directMessages.length > 0,
+        grok_chats: metadataEntriesByBucket.grokChats.length > 0,
+        account_history: metadataEntriesByBucket.accountHistory.length > 0,
         media: mediaEntries.length > 0,
       },
     }
@@ -447,8 +474,6 @@ export async function POST(request: Request) {
     console.error('[Archive Preview] Error:', error)
     return NextResponse.json({ success: false, error: clientMessage }, { status })
   } finally {
-    if (tmpPath && fs.existsSync(tmpPath)) {
-      fs.unlinkSync(tmpPath)
-    }
+    archive?.close()
   }
 }
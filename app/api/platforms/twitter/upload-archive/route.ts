@@ -36,6 +36,8 @@ export async function POST(request: Request) {
     const username = (formData.get('username') as string) || user.email?.split('@')[0] || 'twitter-user'
     const importSelection = formData.get('importSelection')
     const dmEncryption = formData.get('dmEncryption')
+    const grokChatEncryption = formData.get('grokChatEncryption')
+    const accountHistoryEncryption = formData.get('accountHistoryEncryption')
     const preserveArchiveFile = formData.get('preserveArchiveFile')
     const parsedImportSelection = (() => {
       if (typeof importSelection !== 'string' || !importSelection.trim()) return undefined
@@ -53,6 +55,22 @@ export async function POST(request: Request) {
         return undefined
       }
     })()
+    const parsedGrokChatEncryption = (() => {
+      if (typeof grokChatEncryption !== 'string' || !grokChatEncryption.trim()) return undefined
+      try {
+        return JSON.parse(grokChatEncryption)
+      } catch {
+        return undefined
+      }
+    })()
+    const parsedAccountHistoryEncryption = (() => {
+      if (typeof accountHistoryEncryption !== 'string' || !accountHistoryEncryption.trim()) return undefined
+      try {
+        return JSON.parse(accountHistoryEncryption)
+      } catch {
+        return undefined
+      }
+    })()
     const parsedPreserveArchiveFile =
       typeof preserveArchiveFile === 'string'
         ? preserveArchiveFile.trim().toLowerCase() === 'true'
@@ -88,6 +106,8 @@ export async function POST(request: Request) {
       stagedInputPath,
       importSelection: parsedImportSelection,
       dmEncryption: parsedDmEncryption,
+      grokChatEncryption: parsedGrokChatEncryption,
+      accountHistoryEncryption: parsedAccountHistoryEncryption,
       preserveArchiveFile: parsedPreserveArchiveFile,
     })
 
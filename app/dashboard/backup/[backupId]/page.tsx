@@ -2,8 +2,13 @@
 
 import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { useCallback, useEffect, useState } from 'react'
+import { BlueskyBackupViewer } from '@/components/platforms/bluesky/backup/BlueskyBackupViewer'
+import { InstagramBackupViewer } from '@/components/platforms/instagram/backup/InstagramBackupViewer'
+import { MetaBackupViewer } from '@/components/platforms/meta/backup/MetaBackupViewer'
+import { TikTokBackupViewer } from '@/components/platforms/tiktok/backup/TikTokBackupViewer'
 import { BackupViewer } from '@/components/platforms/twitter/backup/BackupViewer'
 import { ThemeLoadingScreen } from '@/components/theme-loading-screen'
+import { inferBackupPlatform, type BackupLike } from '@/lib/platforms/backup'
 import { createClient } from '@/lib/supabase/client'
 
 type BackupRecord = {
@@ -57,19 +62,18 @@ export default function BackupDetailPage() {
         }
       }
 
-      const response = await fetch('/api/backups', { cache: 'no-store' })
-      const result = (await response.json()) as { success?: boolean; error?: string; backups?: BackupRecord[] }
+      const response = await fetch(`/api/backups?backupId=${backupId}`, { cache: 'no-store' })
+      const result = (await response.json()) as { success?: boolean; error?: string; backup?: BackupRecord }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to fetch backup')
       }
 
-      const foundBackup = result.backups?.find((item) => item.id === backupId)
-      if (!foundBackup) {
+      if (!result.backup) {
         throw new Error('Backup not found')
       }
 
-      setBackup(foundBackup)
+      setBackup(result.backup)
     } catch (err) {
       console.error('Error fetching backup:', err)
       setError(err instanceof Error ? err.message : 'Failed to load backup')
@@ -120,6 +124,7 @@ export default function BackupDetailPage() {
   }
 
   const guestDaysLeft = getGuestDaysLeft(backup)
+  const backupPlatform = inferBackupPlatform(backup as BackupLike)
 
   return (
     <>
@@ -133,7 +138,17 @@ export default function BackupDetailPage() {
           </a>
         </div>
       )}
-      <BackupViewer backup={backup} />
+      {backupPlatform === 'instagram' ? (
+        <InstagramBackupViewer backup={backup} />
+      ) : backupPlatform === 'tiktok' ? (
+        <TikTokBackupViewer backup={backup} />
+      ) : backupPlatform === 'bluesky' ? (
+        <BlueskyBackupViewer backup={backup} />
+      ) : backupPlatform === 'threads' || backupPlatform === 'facebook' ? (
+        <MetaBackupViewer backup={backup} platform={backupPlatform} />
+      ) : (
+        <BackupViewer backup={backup} />
+      )}
     </>
   )
 }
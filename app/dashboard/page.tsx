@@ -2,7 +2,7 @@
 
 import Image from 'next/image'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent, type ReactNode } from 'react'
 import type { User } from '@supabase/supabase-js'
 import {
   Archive,
@@ -23,6 +23,15 @@ import {
 import { ThemeLoadingScreen } from '@/components/theme-loading-screen'
 import { AppModeTabs } from '@/components/app-mode-tabs'
 import { TweetAnalyzerPanel } from '@/components/scanner/tweet-analyzer-panel'
+import { FollowerTimelinePanel } from '@/components/dashboard/FollowerTimelinePanel'
+import { SnapshotScheduleEditor } from '@/components/dashboard/SnapshotScheduleEditor'
+import { BlueskyPanel } from '@/components/dashboard/platforms/BlueskyPanel'
+import { FacebookPanel } from '@/components/dashboard/platforms/FacebookPanel'
+import { InstagramPanel } from '@/components/dashboard/platforms/InstagramPanel'
+import { MastodonPanel } from '@/components/dashboard/platforms/MastodonPanel'
+import { PlatformSwitcher } from '@/components/dashboard/platforms/PlatformSwitcher'
+import { ThreadsPanel } from '@/components/dashboard/platforms/ThreadsPanel'
+import { TikTokPanel } from '@/components/dashboard/platforms/TikTokPanel'
 import {
   formatBackupMethodLabel,
   formatPartialReasonLabel,
@@ -30,6 +39,8 @@ import {
   inferBackupPlatform,
   isArchiveBackup,
 } from '@/lib/platforms/backup'
+import { getPlatformDefinition, listPlatformDefinitions } from '@/lib/platforms/registry'
+import type { PlatformId } from '@/lib/platforms/types'
 import {
   deriveDefaultArchiveImportSelection,
   hasSelectedArchiveImportCategory,
@@ -37,9 +48,15 @@ import {
   type ArchiveImportSelection,
   type ArchivePreviewData,
 } from '@/lib/platforms/twitter/archive-import'
-import { extractDirectMessagesFromArchiveFile } from '@/lib/platforms/twitter/archive-dm-extract'
 import {
+  extractDirectMessagesFromArchiveFile,
+  extractGrokChatsFromArchiveFile,
+  extractSensitiveAccountHistoryFromArchiveFile,
+} from '@/lib/platforms/twitter/archive-dm-extract'
+import {
+  encryptAccountHistoryForClientStorage,
   encryptDirectMessagesForClientStorage,
+  encryptGrokChatsForClientStorage,
   generateRecoveryKey,
 } from '@/lib/platforms/twitter/dm-crypto'
 import {
@@ -95,7 +112,7 @@ type DashboardBackupItem = {
 
 type BackupJobItem = {
   id: string
-  job_type: 'archive_upload' | 'snapshot_scrape'
+  job_type: 'archive_upload' | 'snapshot_scrape' | 'platform_archive_import'
   status: 'queued' | 'processing' | 'completed' | 'failed'
   progress: number
   message?: string | null
@@ -146,6 +163,8 @@ type StagedArchiveState = {
   dmPassphraseConfirm: string
   dmRecoveryKey: string
   dmRecoveryKeySaved: boolean
+  encryptGrokChats: boolean
+  encryptAccountHistory: boolean
   storeEncryptedArchive: boolean
 }
 
@@ -199,6 +218,16 @@ type DeleteConfirmTarget = {
 
 const BACKUPS_PAGE_SIZE = 8
 
+// Save-tab panels for platforms other than Twitter, whose UI lives inline below.
+const PLATFORM_SAVE_PANELS: Partial<Record<PlatformId, ReactNode>> = {
+  instagram: <InstagramPanel />,
+  tiktok: <TikTokPanel />,
+  bluesky: <BlueskyPanel />,
+  mastodon: <MastodonPanel />,
+  threads: <ThreadsPanel />,
+  facebook: <FacebookPanel />,
+}
+
 function parseSizeValue(value: unknown) {
   if (typeof value === 'number' && Number.isFinite(value) && value > 0) return value
   if (typeof value === 'string') {
@@ -371,6 +400,7 @@ export default function Dashboard() {
     followers: true,
     following: true,
   })
+  const [snapshotIncremental, setSnapshotIncremental] = useState(false)
   const [scraping, setScraping] = useState(false)
   const [scrapeResult, setScrapeResult] = useState<ScrapeResult | null>(null)
 
@@ -527,7 +557,7 @@ export default function Dashboard() {
     if (completedJob) {
       setCompletedJobNotice({
         id: completedJob.id,
-        message: completedJob.job_type === 'archive_upload' ? 'Archive import completed' : 'Snapshot completed',
+        message: completedJob.job_type === 'snapshot_scrape' ? 'Snapshot completed' : 'Archive import completed',
       })
       setScrapeResult((prev) => (prev?.success ? null : prev))
       setUploadResult((prev) => (prev?.success ? null : prev))
@@ -737,8 +767,13 @@ export default function Dashboard() {
         dmEncryptionEnabled: false,
         dmPassphrase: '',
         dmPassphraseConfirm: '',
-        dmRecoveryKey: preview.available.direct_messages ? generateRecoveryKey() : '',
+        dmRecoveryKey:
+          preview.available.direct_messages || preview.available.grok_chats || preview.available.account_history
+            ? generateRecoveryKey()
+            : '',
         dmRecoveryKeySaved: false,
+        encryptGrokChats: false,
+        encryptAccountHistory: false,
         storeEncryptedArchive: false,
       })
 
@@ -824,6 +859,34 @@ export default function Dashboard() {
     })
   }, [])
 
+  const handleEncryptGrokChatsChange = useCallback((enabled: boolean) => {
+    setStagedArchive((prev) => {
+      if (!prev) return prev
+      if (enabled && !prev.importSelection.grok_chats) return prev
+      return {
+        ...prev,
+        encryptGrokChats: enabled,
+        dmEncryptionEnabled:
+          enabled || prev.importSelection.direct_messages || prev.encryptAccountHistory || prev.storeEncryptedArchive,
+        dmRecoveryKey: prev.dmRecoveryKey || generateRecoveryKey(),
+      }
+    })
+  }, [])
+
+  const handleEncryptAccountHistoryChange = useCallback((enabled: boolean) => {
+    setStagedArchive((prev) => {
+      if (!prev) return prev
+      if (enabled && !prev.importSelection.account_history) return prev
+      return {
+        ...prev,
+        encryptAccountHistory: enabled,
+        dmEncryptionEnabled:
+          enabled || prev.importSelection.direct_messages || prev.encryptGrokChats || prev.storeEncryptedArchive,
+        dmRecoveryKey: prev.dmRecoveryKey || generateRecoveryKey(),
+      }
+    })
+  }, [])
+
   const handleDmPassphraseChange = useCallback((value: string) => {
     setStagedArchive((prev) => (prev ? { ...prev, dmPassphrase: value } : prev))
   }, [])
@@ -843,7 +906,10 @@ export default function Dashboard() {
         return {
           ...prev,
           storeEncryptedArchive: false,
-          dmEncryptionEnabled: prev.importSelection.direct_messages ? prev.dmEncryptionEnabled : false,
+          dmEncryptionEnabled:
+            prev.importSelection.direct_messages || prev.encryptGrokChats || prev.encryptAccountHistory
+              ? prev.dmEncryptionEnabled
+              : false,
         }
       }
       return {
@@ -902,12 +968,15 @@ export default function Dashboard() {
     setStartingArchiveImport(true)
     setUploadResult(null)
     let encryptedDmStagedInputPath = ''
+    let encryptedGrokChatStagedInputPath = ''
+    let encryptedAccountHistoryStagedInputPath = ''
 
     try {
       let dmEncryption: {
         encrypted_input_path: string
         conversation_count: number
         message_count: number
+        event_count?: number
         version: number
       } | null = null
 
@@ -939,6 +1008,67 @@ export default function Dashboard() {
         }
       }
 
+      let grokChatEncryption: typeof dmEncryption = null
+
+      if (stagedArchive.importSelection.grok_chats && stagedArchive.encryptGrokChats) {
+        setUploadProgressDetail('Encrypting Grok chats...')
+        const extractionResult = await extractGrokChatsFromArchiveFile(stagedArchive.file)
+        const encryptedGrokChatPayload = await encryptGrokChatsForClientStorage({
+          grokChats: extractionResult.grokChats,
+          passphrase: stagedArchive.dmPassphrase,
+          recoveryKey: stagedArchive.dmRecoveryKey,
+        })
+
+        setUploadProgressDetail('Uploading encrypted Grok chats...')
+        const encryptedGrokChatUpload = await uploadEncryptedDmPayloadToStaging({
+          payload: encryptedGrokChatPayload,
+          fileName: `${stagedArchive.fileName.replace(/\\.zip$/i, '') || 'archive'}-encrypted-grok-chats.json`,
+        })
+
+        if (!encryptedGrokChatUpload.success) {
+          throw new Error(encryptedGrokChatUpload.error)
+        }
+
+        encryptedGrokChatStagedInputPath = encryptedGrokChatUpload.stagedInputPath
+        grokChatEncryption = {
+          encrypted_input_path: encryptedGrokChatUpload.stagedInputPath,
+          conversation_count: encryptedGrokChatPayload.metadata.conversation_count,
+          message_count: encryptedGrokChatPayload.metadata.message_count,
+          version: encryptedGrokChatPayload.version,
+        }
+      }
+
+      let accountHistoryEncryption: typeof dmEncryption = null
+
+      if (stagedArchive.importSelection.account_history && stagedArchive.encryptAccountHistory) {
+        setUploadProgressDetail('Encrypting account history...')
+        const extractionResult = await extractSensitiveAccountHistoryFromArchiveFile(stagedArchive.file)
+        const encryptedAccountHistoryPayload = await encryptAccountHistoryForClientStorage({
+          events: extractionResult.events,
+          passphrase: stagedArchive.dmPassphrase,
+          recoveryKey: stagedArchive.dmRecoveryKey,
+        })
+
+        setUploadProgressDetail('Uploading encrypted account history...')
+        const encryptedAccountHistoryUpload = await uploadEncryptedDmPayloadToStaging({
+          payload: encryptedAccountHistoryPayload,
+          fileName: `${stagedArchive.fileName.replace(/\.zip$/i, '') || 'archive'}-encrypted-account-history.json`,
+        })
+
+        if (!encryptedAccountHistoryUpload.success) {
+          throw new Error(encryptedAccountHistoryUpload.error)
+        }
+
+        encryptedAccountHistoryStagedInputPath = encryptedAccountHistoryUpload.stagedInputPath
+        accountHistoryEncryption = {
+          encrypted_input_path: encryptedAccountHistoryUpload.stagedInputPath,
+          conversation_count: encryptedAccountHistoryPayload.metadata.conversation_count,
+          message_count: encryptedAccountHistoryPayload.metadata.message_count,
+          event_count: encryptedAccountHistoryPayload.metadata.event_count,
+          version: encryptedAccountHistoryPayload.version,
+        }
+      }
+
       const result = await startTwitterArchiveImport({
         stagedInputPath: stagedArchive.stagedInputPath,
         fileName: stagedArchive.fileName,
@@ -947,6 +1077,8 @@ export default function Dashboard() {
         username: twitterUsername || undefined,
         importSelection: stagedArchive.importSelection,
         dmEncryption,
+        grokChatEncryption,
+        accountHistoryEncryption,
         preserveArchiveFile: !stagedArchive.storeEncryptedArchive,
       })
 
@@ -977,6 +1109,12 @@ export default function Dashboard() {
       if (encryptedDmStagedInputPath) {
         await discardStagedArchiveByPath(encryptedDmStagedInputPath)
       }
+      if (encryptedGrokChatStagedInputPath) {
+        await discardStagedArchiveByPath(encryptedGrokChatStagedInputPath)
+      }
+      if (encryptedAccountHistoryStagedInputPath) {
+        await discardStagedArchiveByPath(encryptedAccountHistoryStagedInputPath)
+      }
       setUploadResult({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to start archive import',
@@ -1153,6 +1291,7 @@ export default function Dashboard() {
           username: twitterUsername.trim(),
           targets,
           includeMedia,
+          incremental: snapshotIncremental,
         }),
       })
 
@@ -1199,7 +1338,12 @@ export default function Dashboard() {
   const selectedTargetCount = Object.values(snapshotSelection).filter(Boolean).length
   const hasSelectedTargets = selectedTargetCount > 0
   const hasStagedArchive = Boolean(stagedArchive)
-  const dmEncryptionRequired = Boolean(stagedArchive?.importSelection.direct_messages || stagedArchive?.storeEncryptedArchive)
+  const dmEncryptionRequired = Boolean(
+    stagedArchive?.importSelection.direct_messages ||
+      (stagedArchive?.importSelection.grok_chats && stagedArchive.encryptGrokChats) ||
+      (stagedArchive?.importSelection.account_history && stagedArchive.encryptAccountHistory) ||
+      stagedArchive?.storeEncryptedArchive,
+  )
   const dmEncryptionReady = Boolean(
     stagedArchive &&
       (!dmEncryptionRequired ||
@@ -1214,7 +1358,12 @@ export default function Dashboard() {
   const storageLimitLabel = formatStorage(storageSummary?.limitBytes)
   const creditsUsedLabel = formatUsd(apiUsage?.spentUsd)
   const creditsLimitLabel = formatUsd(apiUsage?.limitUsd)
-  const activeMode = searchParams.get('tab') === 'scan' ? 'scan' : 'save'
+  const tabParam = searchParams.get('tab')
+  const activeMode = tabParam === 'scan' ? 'scan' : tabParam === 'followers' ? 'followers' : 'save'
+  const platformParam = searchParams.get('platform')
+  const activePlatform: PlatformId =
+    listPlatformDefinitions().find((definition) => definition.enabled && definition.id === platformParam)?.id || 'twitter'
+  const votablePlatforms = (['instagram', 'tiktok'] as const).filter((platform) => !getPlatformDefinition(platform).enabled)
 
   return (
     <div className="relative min-h-screen bg-neutral-100 text-neutral-950 dark:bg-neutral-950 dark:text-neutral-100">
@@ -1261,11 +1410,22 @@ export default function Dashboard() {
         </header>
 
         <div className="mt-6 flex justify-center">
-          <AppModeTabs activeMode={activeMode} saveHref="/dashboard" scanHref="/dashboard?tab=scan" />
+          <AppModeTabs
+            activeMode={activeMode}
+            saveHref="/dashboard"
+            scanHref="/dashboard?tab=scan"
+            followersHref={user ? '/dashboard?tab=followers' : undefined}
+          />
         </div>
 
-        {activeMode === 'save' ? (
+        {activeMode === 'save' && PLATFORM_SAVE_PANELS[activePlatform] ? (
+          <section className="mx-auto mb-24 mt-6 w-full max-w-5xl">
+            <PlatformSwitcher activePlatform={activePlatform} />
+            <div className="mt-10">{PLATFORM_SAVE_PANELS[activePlatform]}</div>
+          </section>
+        ) : activeMode === 'save' ? (
           <>
+        <PlatformSwitcher activePlatform={activePlatform} />
         <div className="mx-auto mt-10 max-w-3xl text-center sm:mt-12">
           <p className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500 dark:text-neutral-400">X (Twitter) backups</p>
           <h1 className="mt-2 text-4xl font-bold tracking-tight text-neutral-900 dark:text-white sm:text-5xl">X Backups</h1>
@@ -1376,12 +1536,41 @@ export default function Dashboard() {
                       </label>
                     ))}
                   </div>
+                  <label className="mt-3 flex items-start gap-2 border-t border-neutral-300/80 pt-2 dark:border-neutral-700">
+                    <input
+                      type="checkbox"
+                      checked={snapshotIncremental}
+                      disabled={scraping || hasActiveJob}
+                      onChange={(e) => setSnapshotIncremental(e.target.checked)}
+                      className="mt-0.5 h-3.5 w-3.5 accent-blue-600"
+                    />
+                    <span>
+                      Only new posts
+                      <span className="block text-neutral-500 dark:text-neutral-400">
+                        Builds on your last snapshot of this account.
+                      </span>
+                    </span>
+                  </label>
                 </details>
 
                 <p className="mt-4 text-xs text-neutral-500 dark:text-neutral-400">
                   Current limits for free users: up to {limitTweetsReplies.toLocaleString()} tweets + replies combined and{' '}
                   {limitFollowersFollowing.toLocaleString()} followers + following combined.
                 </p>
+
+                {user && (
+                  <SnapshotScheduleEditor
+                    defaultUsername={twitterUsername.trim()}
+                    targets={{
+                      profile: snapshotSelection.tweets || snapshotSelection.replies || snapshotSelection.media,
+                      tweets: snapshotSelection.tweets || snapshotSelection.media,
+                      replies: snapshotSelection.replies,
+                      followers: snapshotSelection.followers,
+                      following: snapshotSelection.following,
+                    }}
+                    includeMedia={snapshotSelection.media}
+                  />
+                )}
               </div>
             ) : (
               <div className="text-center text-neutral-900 dark:text-neutral-100">
@@ -1474,6 +1663,15 @@ export default function Dashboard() {
                           ['followers', 'Followers'],
                           ['following', 'Following'],
                           ['likes', 'Likes'],
+                          ['lists', 'Lists'],
+                          ['blocks', 'Blocked accounts'],
+                          ['mutes', 'Muted accounts'],
+                          ['deleted_tweets', 'Deleted tweets'],
+                          ['community_tweets', 'Community posts & notes'],
+                          ['moments', 'Moments'],
+                          ['broadcasts', 'Broadcasts'],
+                          ['grok_chats', 'Grok chats'],
+                          ['account_history', 'Account history'],
                           ['media', 'Media'],
                         ] as Array<[keyof ArchiveImportSelection, string]>).map(([key, label]) => (
                           <label key={key} className="flex items-center gap-2 text-xs text-neutral-700 dark:text-neutral-300">
@@ -1493,7 +1691,7 @@ export default function Dashboard() {
                     <div className="mt-3 rounded-lg border border-neutral-300 bg-white/60 p-3 dark:border-white/10 dark:bg-white/5">
                       <p className="text-xs font-semibold text-neutral-700 dark:text-neutral-300">Encryption options</p>
                       <p className="mt-1 text-[11px] text-neutral-500 dark:text-neutral-400">
-                        Optional: encrypt DMs now, and optionally store an encrypted version of the original ZIP.
+                        Optional: encrypt DMs, Grok chats and account history now, and optionally store an encrypted version of the original ZIP.
                       </p>
 
                       <div className="mt-3 space-y-2">
@@ -1508,6 +1706,28 @@ export default function Dashboard() {
                           />
                         </label>
 
+                        <label className="flex items-center justify-between gap-3 text-xs text-neutral-700 dark:text-neutral-300">
+                          <span>Encrypt Grok chats</span>
+                          <input
+                            type="checkbox"
+                            checked={stagedArchive.importSelection.grok_chats && stagedArchive.encryptGrokChats}
+                            disabled={!stagedArchive.importSelection.grok_chats || startingArchiveImport || hasActiveJob}
+                            onChange={(e) => handleEncryptGrokChatsChange(e.target.checked)}
+                            className="h-3.5 w-3.5 rounded border-white/30 bg-transparent"
+                          />
+                        </label>
+
+                        <label className="flex items-center justify-between gap-3 text-xs text-neutral-700 dark:text-neutral-300">
+                          <span>Encrypt emails, login IPs and devices in account history</span>
+                          <input
+                            type="checkbox"
+                            checked={stagedArchive.importSelection.account_history && stagedArchive.encryptAccountHistory}
+                            disabled={!stagedArchive.importSelection.account_history || startingArchiveImport || hasActiveJob}
+                            onChange={(e) => handleEncryptAccountHistoryChange(e.target.checked)}
+                            className="h-3.5 w-3.5 rounded border-white/30 bg-transparent"
+                          />
+                        </label>
+
                         <label className="flex items-center justify-between gap-3 text-xs text-neutral-700 dark:text-neutral-300">
                           <span>Encrypt original archive ZIP</span>
                           <input
@@ -1522,7 +1742,7 @@ export default function Dashboard() {
                         {(stagedArchive.dmEncryptionEnabled || stagedArchive.storeEncryptedArchive) && (
                           <div className="space-y-2 rounded-lg border border-neutral-300 bg-white p-2.5 dark:border-white/10 dark:bg-neutral-950/60">
                             <p className="text-[11px] text-neutral-500 dark:text-neutral-400">
-                              Set one passphrase for encrypted DMs and/or encrypted archive ZIP.
+                              Set one passphrase for encrypted DMs, Grok chats, account history and/or encrypted archive ZIP.
                             </p>
                             <input
                               type="password"
@@ -1615,7 +1835,7 @@ export default function Dashboard() {
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <div>
                   <p className="text-sm font-semibold text-neutral-900 dark:text-white">
-                    {activeJob.job_type === 'archive_upload' ? 'Archive import running' : 'Snapshot running'}
+                    {activeJob.job_type === 'snapshot_scrape' ? 'Snapshot running' : 'Archive import running'}
                   </p>
                   <p className="text-xs text-neutral-600 dark:text-neutral-300">{activeJob.message || 'Processing your request...'}</p>
                   <p className="mt-1 text-[11px] text-neutral-500 dark:text-neutral-400">
@@ -1727,13 +1947,13 @@ export default function Dashboard() {
           </div>
         </section>
 
+        {votablePlatforms.length > 0 && (
         <div className="fixed bottom-[calc(1rem+env(safe-area-inset-bottom))] right-4 z-20 rounded-2xl border border-neutral-200 bg-white/85 px-3 py-2.5 shadow-[0_12px_30px_rgba(15,23,42,0.12)] backdrop-blur dark:border-white/15 dark:bg-neutral-900/85">
-          <p className="text-[11px] font-semibold text-neutral-700 dark:text-neutral-200">Want Instagram or TikTok next?</p>
+          <p className="text-[11px] font-semibold text-neutral-700 dark:text-neutral-200">
+            Want {votablePlatforms.map((platform) => getPlatformDefinition(platform).label).join(' or ')} next?
+          </p>
           <div className="mt-2 flex items-center gap-1.5">
-            {([
-              ['instagram', 'Instagram'],
-              ['tiktok', 'TikTok'],
-            ] as const).map(([platform, label]) => (
+            {votablePlatforms.map((platform) => (
               <button
                 key={platform}
                 onClick={() => {
@@ -1745,14 +1965,15 @@ export default function Dashboard() {
                 {platformVotes[platform] === 'saving'
                   ? 'Saving...'
                   : platformVotes[platform] === 'saved'
-                    ? `${label} ✓`
+                    ? `${getPlatformDefinition(platform).label} ✓`
                     : platformVotes[platform] === 'error'
                       ? 'Retry'
-                      : label}
+                      : getPlatformDefinition(platform).label}
               </button>
             ))}
           </div>
         </div>
+        )}
 
         <section className="mx-auto mt-8 w-full max-w-3xl">
           <div className="flex items-center justify-between">
@@ -1786,7 +2007,7 @@ export default function Dashboard() {
                       </div>
                       <div className="min-w-0 flex-1">
                         <p className="truncate text-[15px] font-semibold text-neutral-900 dark:text-white">
-                          {job.job_type === 'archive_upload' ? 'Archive import in progress' : 'Snapshot in progress'}
+                          {job.job_type === 'snapshot_scrape' ? 'Snapshot in progress' : 'Archive import in progress'}
                         </p>
                         <p className="truncate text-xs text-neutral-500 dark:text-neutral-400">{job.message || 'Running...'}</p>
                         <p className="mt-0.5 text-[11px] text-neutral-500 dark:text-neutral-400">
@@ -1948,6 +2169,10 @@ export default function Dashboard() {
 
         <footer className="mt-10 text-center text-xs text-neutral-500 dark:text-neutral-400">© {new Date().getFullYear()} Social Backup</footer>
           </>
+        ) : activeMode === 'followers' ? (
+          <section className="mx-auto mb-24 mt-10 w-full max-w-5xl">
+            <FollowerTimelinePanel />
+          </section>
         ) : (
           <section className="mx-auto mt-10 w-full max-w-5xl">
             <TweetAnalyzerPanel />
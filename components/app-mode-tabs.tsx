@@ -1,15 +1,17 @@
 import Link from 'next/link'
 
-type AppMode = 'save' | 'scan'
+type AppMode = 'save' | 'scan' | 'followers'
 
 type AppModeTabsProps = {
   activeMode: AppMode
   saveHref: string
   scanHref: string
+  // The followers tab only exists for signed-in users, so it is shown only when a link is passed.
+  followersHref?: string
   className?: string
 }
 
-export function AppModeTabs({ activeMode, saveHref, scanHref, className }: AppModeTabsProps) {
+export function AppModeTabs({ activeMode, saveHref, scanHref, followersHref, className }: AppModeTabsProps) {
   const wrapperClassName = [
     'inline-flex rounded-2xl border border-neutral-300/90 bg-white/90 p-1.5 shadow-[0_4px_16px_rgba(15,23,42,0.08)] dark:border-neutral-600/70 dark:bg-neutral-900/85',
     className,
@@ -44,6 +46,19 @@ export function AppModeTabs({ activeMode, saveHref, scanHref, className }: AppMo
       >
         Scan
       </Link>
+      {followersHref && (
+        <Link
+          href={followersHref}
+          aria-current={activeMode === 'followers' ? 'page' : undefined}
+          className={`${tabBaseClassName} ${
+            activeMode === 'followers'
+              ? 'bg-neutral-900 text-white shadow-sm dark:bg-white dark:text-neutral-900'
+              : 'text-neutral-700 hover:bg-neutral-100 hover:text-neutral-900 dark:text-neutral-200 dark:hover:bg-white/10 dark:hover:text-white'
+          }`}
+        >
+          Followers
+        </Link>
+      )}
     </nav>
   )
 }
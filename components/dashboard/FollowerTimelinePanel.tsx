@@ -0,0 +1,255 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import type { BackupDiffAccount } from '@/lib/backups/backup-diff'
+import type { FollowerTimeline, FollowerTimelinePeriod, FollowerTimelinePoint } from '@/lib/backups/follower-timeline'
+
+type TimelineHandle = {
+  username: string
+  snapshots: number
+}
+
+type TimelineResponse = {
+  success: boolean
+  handles?: TimelineHandle[]
+  timeline?: FollowerTimeline | null
+  error?: string
+}
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 180
+const CHART_PADDING = 24
+
+function formatTimelineDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function FollowerCountChart({ points }: { points: FollowerTimelinePoint[] }) {
+  const counted = points.filter((point): point is FollowerTimelinePoint & { followersCount: number } => point.followersCount !== null)
+  if (counted.length < 2) {
+    return (
+      <p className="py-6 text-center text-xs text-neutral-500 dark:text-neutral-400">
+        Take at least two snapshots to see follower counts over time.
+      </p>
+    )
+  }
+
+  const times = counted.map((point) => Date.parse(point.date))
+  const counts = counted.map((point) => point.followersCount)
+  const minTime = Math.min(...times)
+  const timeSpan = Math.max(1, Math.max(...times) - minTime)
+  const minCount = Math.min(...counts)
+  const countSpan = Math.max(1, Math.max(...counts) - minCount)
+  const toX = (time: number) => CHART_PADDING + ((time - minTime) / timeSpan) * (CHART_WIDTH - CHART_PADDING * 2)
+  const toY = (count: number) => CHART_HEIGHT - CHART_PADDING - ((count - minCount) / countSpan) * (CHART_HEIGHT - CHART_PADDING * 2)
+  const path = counted.map((point, index) => `${index === 0 ? 'M' : 'L'}${toX(times[index]).toFixed(1)},${toY(point.followersCount).toFixed(1)}`).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="h-44 w-full text-blue-600 dark:text-blue-400" role="img" aria-label="Follower count over time">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth={2} />
+      {counted.map((point, index) => (
+        <g key={point.backupId}>
+          <circle cx={toX(times[index])} cy={toY(point.followersCount)} r={3.5} fill="currentColor" />
+          <title>
+            {formatTimelineDate(point.date)}: {point.followersCount.toLocaleString()} followers
+          </title>
+        </g>
+      ))}
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 6} className="fill-neutral-500 text-[11px]">
+        {formatTimelineDate(counted[0].date)}
+      </text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-neutral-500 text-[11px]">
+        {formatTimelineDate(counted[counted.length - 1].date)}
+      </text>
+      <text x={CHART_PADDING} y={14} className="fill-neutral-500 text-[11px]">
+        {Math.max(...counts).toLocaleString()}
+      </text>
+    </svg>
+  )
+}
+
+function AccountChips({ title, accounts, total }: { title: string; accounts: BackupDiffAccount[]; total: number }) {
+  if (total === 0) return null
+  return (
+    <div className="mt-3">
+      <p className="text-xs font-semibold text-neutral-700 dark:text-neutral-300">
+        {title} · {total.toLocaleString()}
+        {accounts.length < total && <span className="font-normal text-neutral-500"> (showing {accounts.length.toLocaleString()})</span>}
+      </p>
+      <div className="mt-1.5 flex flex-wrap gap-1.5">
+        {accounts.map((account) => {
+          const label = account.username ? `@${account.username}` : account.name || account.id
+          return account.url ? (
+            <a
+              key={account.id}
+              href={account.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="rounded-full border border-neutral-300 px-2 py-0.5 text-xs text-neutral-700 hover:border-blue-500 hover:text-blue-600 dark:border-neutral-700 dark:text-neutral-300 dark:hover:text-blue-400"
+            >
+              {label}
+            </a>
+          ) : (
+            <span key={account.id} className="rounded-full border border-neutral-300 px-2 py-0.5 text-xs text-neutral-700 dark:border-neutral-700 dark:text-neutral-300">
+              {label}
+            </span>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function PeriodRow({ period }: { period: FollowerTimelinePeriod }) {
+  return (
+    <details className="rounded-xl border border-neutral-300/80 bg-white/60 px-4 py-3 dark:border-neutral-700 dark:bg-neutral-900/50">
+      <summary className="flex cursor-pointer select-none flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="font-semibold text-neutral-900 dark:text-white">
+          {formatTimelineDate(period.from)} → {formatTimelineDate(period.to)}
+        </span>
+        {period.compared ? (
+          <span className="flex gap-3 text-xs">
+            <span className="text-emerald-600 dark:text-emerald-400">+{period.counts.followed.toLocaleString()} followed</span>
+            <span className="text-red-600 dark:text-red-400">−{period.counts.unfollowed.toLocaleString()} unfollowed</span>
+            {period.mutualsCompared && period.counts.mutualsLost > 0 && (
+              <span className="text-amber-600 dark:text-amber-400">{period.counts.mutualsLost.toLocaleString()} mutuals lost</span>
+            )}
+          </span>
+        ) : (
+          <span className="text-xs text-neutral-500 dark:text-neutral-400">
+            {period.incomplete ? 'Followers only partly captured in one snapshot' : 'Followers not captured in both snapshots'}
+          </span>
+        )}
+      </summary>
+      {period.compared && (
+        <div className="pb-1">
+          <AccountChips title="Followed" accounts={period.followed} total={period.counts.followed} />
+          <AccountChips title="Unfollowed" accounts={period.unfollowed} total={period.counts.unfollowed} />
+          <AccountChips title="Mutuals lost" accounts={period.mutualsLost} total={period.counts.mutualsLost} />
+          {period.counts.followed + period.counts.unfollowed === 0 && (
+            <p className="mt-3 text-xs text-neutral-500 dark:text-neutral-400">No follower changes in this period.</p>
+          )}
+        </div>
+      )}
+    </details>
+  )
+}
+
+export function FollowerTimelinePanel() {
+  const [handles, setHandles] = useState<TimelineHandle[]>([])
+  const [username, setUsername] = useState('')
+  const [timeline, setTimeline] = useState<FollowerTimeline | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const loadTimeline = async () => {
+      try {
+        const params = new URLSearchParams(username ? { username } : {})
+        const response = await fetch(`/api/backups/follower-timeline?${params.toString()}`, { cache: 'no-store' })
+        const result = (await response.json()) as TimelineResponse
+        if (cancelled) return
+        if (!response.ok || !result.success) {
+          setError(result.error || 'Failed to load follower timeline.')
+          return
+        }
+        setError(null)
+        setHandles(result.handles || [])
+        setTimeline(result.timeline ?? null)
+      } catch {
+        if (!cancelled) setError('Failed to load follower timeline.')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    void loadTimeline()
+    return () => {
+      cancelled = true
+    }
+  }, [username])
+
+  const latestPoint = timeline?.points[timeline.points.length - 1]
+  const firstPoint = timeline?.points.find((point) => point.followersCount !== null)
+  const netChange =
+    latestPoint?.followersCount != null && firstPoint?.followersCount != null
+      ? latestPoint.followersCount - firstPoint.followersCount
+      : null
+
+  return (
+    <div className="mx-auto w-full max-w-3xl text-neutral-900 dark:text-neutral-100">
+      <div className="text-center">
+        <p className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500 dark:text-neutral-400">X (Twitter) snapshots</p>
+        <h1 className="mt-2 text-4xl font-bold tracking-tight text-neutral-900 dark:text-white sm:text-5xl">Followers</h1>
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-300 sm:text-base">
+          Follower growth, new followers and unfollows between your snapshots.
+        </p>
+      </div>
+
+      {handles.length > 1 && (
+        <div className="mt-6 flex justify-center">
+          <label htmlFor="follower-timeline-handle" className="sr-only">
+            Account
+          </label>
+          <select
+            id="follower-timeline-handle"
+            value={username || timeline?.username || ''}
+            onChange={(e) => {
+              setLoading(true)
+              setUsername(e.target.value)
+            }}
+            className="rounded-xl border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 outline-none focus:border-blue-600 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100 dark:focus:border-blue-400"
+          >
+            {handles.map((handle) => (
+              <option key={handle.username} value={handle.username}>
+                @{handle.username} ({handle.snapshots} snapshot{handle.snapshots === 1 ? '' : 's'})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="mt-10 flex items-center justify-center gap-2 text-sm text-neutral-500 dark:text-neutral-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading follower history...
+        </div>
+      ) : error ? (
+        <p className="mt-10 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : !timeline || timeline.points.length === 0 ? (
+        <p className="mt-10 text-center text-sm text-neutral-500 dark:text-neutral-400">
+          Take a snapshot with followers selected to start tracking follower changes.
+        </p>
+      ) : (
+        <>
+          <div className="mt-8 rounded-2xl border border-neutral-300/80 bg-white/60 p-4 dark:border-neutral-700 dark:bg-neutral-900/50">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <p className="text-sm font-semibold">@{timeline.username}</p>
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                {latestPoint?.followersCount != null && `${latestPoint.followersCount.toLocaleString()} followers`}
+                {netChange !== null && timeline.points.length > 1 && (
+                  <span className={netChange >= 0 ? 'ml-2 text-emerald-600 dark:text-emerald-400' : 'ml-2 text-red-600 dark:text-red-400'}>
+                    {netChange >= 0 ? '+' : '−'}
+                    {Math.abs(netChange).toLocaleString()} since {firstPoint ? formatTimelineDate(firstPoint.date) : ''}
+                  </span>
+                )}
+              </p>
+            </div>
+            <FollowerCountChart points={timeline.points} />
+          </div>
+
+          <div className="mt-6 space-y-2 text-left">
+            {timeline.periods.length === 0 ? (
+              <p className="text-center text-sm text-neutral-500 dark:text-neutral-400">
+                Take another snapshot of @{timeline.username} to see who followed and unfollowed.
+              </p>
+            ) : (
+              timeline.periods.map((period) => <PeriodRow key={`${period.fromBackupId}-${period.toBackupId}`} period={period} />)
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
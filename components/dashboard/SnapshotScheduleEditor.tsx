@@ -0,0 +1,329 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CalendarClock, Loader2 } from 'lucide-react'
+import type {
+  SnapshotSchedule,
+  SnapshotScheduleFrequency,
+  SnapshotScheduleRunStatus,
+} from '@/lib/platforms/twitter/snapshot-schedules'
+import type { TwitterScrapeTargets } from '@/lib/twitter/types'
+
+type SnapshotScheduleEditorProps = {
+  defaultUsername: string
+  targets: TwitterScrapeTargets
+  includeMedia: boolean
+  disabled?: boolean
+}
+
+type ScheduleResponse = {
+  success: boolean
+  schedule?: SnapshotSchedule
+  schedules?: SnapshotSchedule[]
+  error?: string
+}
+
+const FREQUENCY_LABELS: Record<SnapshotScheduleFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+}
+
+const RUN_STATUS_LABELS: Record<SnapshotScheduleRunStatus, string> = {
+  queued: 'Queued',
+  skipped_budget: 'Skipped (budget)',
+  skipped_storage: 'Skipped (storage)',
+  skipped_active_job: 'Delayed (job running)',
+  failed: 'Failed',
+}
+
+function formatRunDate(dateString?: string | null) {
+  if (!dateString) return 'Not scheduled'
+  return new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export function SnapshotScheduleEditor({
+  defaultUsername,
+  targets,
+  includeMedia,
+  disabled = false,
+}: SnapshotScheduleEditorProps) {
+  const [schedules, setSchedules] = useState<SnapshotSchedule[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [username, setUsername] = useState('')
+  const [frequency, setFrequency] = useState<SnapshotScheduleFrequency>('weekly')
+  const [incremental, setIncremental] = useState(true)
+  const [enabled, setEnabled] = useState(true)
+
+  const editSchedule = (next: SnapshotSchedule | null) => {
+    setEditingId(next?.id ?? null)
+    setUsername(next?.username ?? '')
+    setFrequency(next?.frequency ?? 'weekly')
+    setIncremental(next?.incremental ?? true)
+    setEnabled(next?.enabled ?? true)
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    const loadSchedule = async () => {
+      try {
+        const response = await fetch('/api/platforms/twitter/snapshot-schedule', { cache: 'no-store' })
+        const result = (await response.json()) as ScheduleResponse
+        if (cancelled) return
+        if (!response.ok || !result.success) {
+          setError(result.error || 'Failed to load schedules.')
+        } else {
+          setSchedules(result.schedules ?? [])
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load schedules.')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    void loadSchedule()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const editingSchedule = schedules.find((schedule) => schedule.id === editingId) ?? null
+  const effectiveUsername = (username || defaultUsername).trim().replace(/^@/, '')
+  const hasTargets = Object.values(targets).some(Boolean)
+  const nextRunAt = schedules
+    .filter((schedule) => schedule.enabled)
+    .map((schedule) => schedule.next_run_at)
+    .sort()[0]
+
+  const handleSave = async () => {
+    if (!effectiveUsername) {
+      setError('Enter a username to schedule.')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/platforms/twitter/snapshot-schedule', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          username: effectiveUsername,
+          frequency,
+          targets,
+          includeMedia,
+          incremental,
+          enabled,
+        }),
+      })
+      const result = (await response.json()) as ScheduleResponse
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Failed to save schedule.')
+        return
+      }
+      const saved = result.schedule
+      if (saved) {
+        // Saving a handle that already has a schedule updates it in place.
+        setSchedules((current) =>
+          current.some((schedule) => schedule.id === saved.id)
+            ? current.map((schedule) => (schedule.id === saved.id ? saved : schedule))
+            : [...current, saved],
+        )
+      }
+      editSchedule(null)
+    } catch {
+      setError('Failed to save schedule.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (scheduleId: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(
+        `/api/platforms/twitter/snapshot-schedule?id=${encodeURIComponent(scheduleId)}`,
+        { method: 'DELETE' },
+      )
+      const result = (await response.json()) as ScheduleResponse
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Failed to remove schedule.')
+        return
+      }
+      setSchedules((current) => current.filter((schedule) => schedule.id !== scheduleId))
+      if (editingId === scheduleId) editSchedule(null)
+    } catch {
+      setError('Failed to remove schedule.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const controlsDisabled = disabled || loading || saving
+
+  return (
+    <details className="mx-auto mt-6 w-full max-w-md rounded-xl border border-neutral-300/80 bg-white/60 px-3 py-2 text-left text-xs text-neutral-700 dark:border-neutral-700 dark:bg-neutral-900/50 dark:text-neutral-300">
+      <summary className="flex cursor-pointer select-none items-center gap-2 font-semibold">
+        <CalendarClock size={14} />
+        Scheduled snapshots
+        {nextRunAt && (
+          <span className="ml-auto font-normal text-neutral-500 dark:text-neutral-400">
+            Next: {formatRunDate(nextRunAt)}
+          </span>
+        )}
+      </summary>
+
+      {loading ? (
+        <div className="mt-3 flex items-center gap-2 text-neutral-500 dark:text-neutral-400">
+          <Loader2 size={14} className="animate-spin" />
+          Loading schedules...
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3">
+          {schedules.length > 0 && (
+            <ul className="space-y-2">
+              {schedules.map((schedule) => (
+                <li
+                  key={schedule.id}
+                  className={`rounded-lg border px-2 py-1.5 ${
+                    schedule.id === editingId
+                      ? 'border-blue-600 dark:border-blue-400'
+                      : 'border-neutral-200 dark:border-neutral-800'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="min-w-0 flex-1 truncate">
+                      <span className="font-semibold">@{schedule.username}</span> ·{' '}
+                      {FREQUENCY_LABELS[schedule.frequency]} · Next:{' '}
+                      {schedule.enabled ? formatRunDate(schedule.next_run_at) : 'Paused'}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => editSchedule(schedule)}
+                      disabled={controlsDisabled}
+                      className="font-semibold text-blue-600 hover:underline disabled:cursor-not-allowed disabled:opacity-60 dark:text-blue-400"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void handleRemove(schedule.id)
+                      }}
+                      disabled={controlsDisabled}
+                      className="font-semibold text-neutral-500 hover:underline disabled:cursor-not-allowed disabled:opacity-60 dark:text-neutral-400"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  {schedule.last_run_status && (
+                    <p className="mt-1 text-neutral-500 dark:text-neutral-400">
+                      Last run {formatRunDate(schedule.last_run_at)}: {RUN_STATUS_LABELS[schedule.last_run_status]}
+                      {schedule.last_run_message ? ` — ${schedule.last_run_message}` : ''}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-row items-stretch gap-2">
+            <label htmlFor="snapshot-schedule-username" className="sr-only">
+              X username
+            </label>
+            <input
+              id="snapshot-schedule-username"
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value.replace(/^@/, ''))}
+              placeholder={defaultUsername ? `@${defaultUsername}` : '@username'}
+              autoComplete="off"
+              autoCapitalize="none"
+              spellCheck={false}
+              disabled={controlsDisabled || Boolean(editingSchedule)}
+              className="min-w-0 flex-1 rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-xs text-neutral-900 outline-none placeholder:text-neutral-400 focus:border-blue-600 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100 dark:placeholder:text-neutral-500 dark:focus:border-blue-400"
+            />
+            <label htmlFor="snapshot-schedule-frequency" className="sr-only">
+              Frequency
+            </label>
+            <select
+              id="snapshot-schedule-frequency"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as SnapshotScheduleFrequency)}
+              disabled={controlsDisabled}
+              className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-xs text-neutral-900 outline-none focus:border-blue-600 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100 dark:focus:border-blue-400"
+            >
+              {(Object.keys(FREQUENCY_LABELS) as SnapshotScheduleFrequency[]).map((value) => (
+                <option key={value} value={value}>
+                  {FREQUENCY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={incremental}
+                disabled={controlsDisabled}
+                onChange={(e) => setIncremental(e.target.checked)}
+                className="h-3.5 w-3.5 accent-blue-600"
+              />
+              <span>Only new posts</span>
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={enabled}
+                disabled={controlsDisabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+                className="h-3.5 w-3.5 accent-blue-600"
+              />
+              <span>Enabled</span>
+            </label>
+          </div>
+
+          <p className="text-neutral-500 dark:text-neutral-400">
+            Each handle gets its own schedule and uses the data types selected under Customize download. Runs that
+            would go over your monthly budget are skipped.
+          </p>
+
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+          <div className="flex items-center justify-end gap-2">
+            {editingSchedule && (
+              <button
+                type="button"
+                onClick={() => editSchedule(null)}
+                disabled={controlsDisabled}
+                className="rounded-lg border border-neutral-300 px-3 py-1.5 font-semibold text-neutral-700 transition hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-60 dark:border-white/20 dark:text-neutral-300 dark:hover:bg-white/10"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                void handleSave()
+              }}
+              disabled={controlsDisabled || !effectiveUsername || !hasTargets}
+              className="rounded-lg bg-neutral-900 px-3 py-1.5 font-semibold text-white transition hover:bg-neutral-800 disabled:cursor-not-allowed disabled:opacity-60 dark:bg-white dark:text-neutral-900 dark:hover:bg-neutral-300"
+            >
+              {saving ? 'Saving...' : editingSchedule ? 'Update schedule' : 'Add schedule'}
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  )
+}
@@ -0,0 +1,13 @@
+import { PlatformArchivePanel } from '@/components/dashboard/platforms/PlatformArchivePanel'
+import { BLUESKY_IMPORT_SECTION_LABELS, BLUESKY_REPO_FILE_NAME } from '@/lib/platforms/bluesky/archive-import'
+
+export function BlueskyPanel() {
+  return (
+    <PlatformArchivePanel
+      platform="bluesky"
+      instructions="In Bluesky, open Settings → Account → Export my data and upload the .car file here. To keep images and videos, upload a ZIP containing the .car file and the account's blobs."
+      sectionLabels={BLUESKY_IMPORT_SECTION_LABELS}
+      singleFileName={BLUESKY_REPO_FILE_NAME}
+    />
+  )
+}
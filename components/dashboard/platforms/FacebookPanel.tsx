@@ -0,0 +1,12 @@
+import { PlatformArchivePanel } from '@/components/dashboard/platforms/PlatformArchivePanel'
+import { FACEBOOK_IMPORT_SECTION_LABELS } from '@/lib/platforms/meta/archive-import'
+
+export function FacebookPanel() {
+  return (
+    <PlatformArchivePanel
+      platform="facebook"
+      instructions="In Meta's Accounts Center, open Your information and permissions → Download your information, choose your Facebook profile and the JSON format, then upload the ZIP here. An export that also covers Threads can be imported on both tabs."
+      sectionLabels={FACEBOOK_IMPORT_SECTION_LABELS}
+    />
+  )
+}
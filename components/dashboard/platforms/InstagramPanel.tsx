@@ -1,10 +1,26 @@
-import { ComingSoonPanel } from '@/components/dashboard/platforms/ComingSoonPanel'
+import { PlatformArchivePanel } from '@/components/dashboard/platforms/PlatformArchivePanel'
+import { openBrowserArchiveFileReader } from '@/lib/platforms/archive-import'
+import {
+  extractInstagramConversations,
+  INSTAGRAM_IMPORT_SECTION_LABELS,
+} from '@/lib/platforms/instagram/archive-import'
+
+async function extractInstagramMessagesFromFile(file: File): Promise<unknown[]> {
+  const reader = await openBrowserArchiveFileReader(file)
+  try {
+    return await extractInstagramConversations(reader)
+  } finally {
+    await reader.close()
+  }
+}
 
 export function InstagramPanel() {
   return (
-    <ComingSoonPanel
-      platform="Instagram"
-      description="Instagram backup support is on the roadmap and will appear here once ready."
+    <PlatformArchivePanel
+      platform="instagram"
+      instructions="Request “Download your information” in Instagram’s Accounts Center, choose JSON format, and upload the ZIP here."
+      sectionLabels={INSTAGRAM_IMPORT_SECTION_LABELS}
+      extractDirectMessages={extractInstagramMessagesFromFile}
     />
   )
 }
@@ -0,0 +1,12 @@
+import { PlatformArchivePanel } from '@/components/dashboard/platforms/PlatformArchivePanel'
+import { MASTODON_IMPORT_SECTION_LABELS } from '@/lib/platforms/mastodon/archive-import'
+
+export function MastodonPanel() {
+  return (
+    <PlatformArchivePanel
+      platform="mastodon"
+      instructions="On your Mastodon server, open Preferences → Import and export, request your archive and upload the ZIP here. To include followers and following, add the CSVs from the Data export page to the ZIP before uploading."
+      sectionLabels={MASTODON_IMPORT_SECTION_LABELS}
+    />
+  )
+}
@@ -0,0 +1,602 @@
+'use client'
+
+import Link from 'next/link'
+import { useCallback, useEffect, useState, type ChangeEvent } from 'react'
+import { Loader2, ShieldCheck } from 'lucide-react'
+import { getSingleFileExtension, type PlatformArchivePreviewData } from '@/lib/platforms/archive-import'
+import { inferBackupPlatform, type BackupLike } from '@/lib/platforms/backup'
+import { getPlatformDefinition } from '@/lib/platforms/registry'
+import type { PlatformId } from '@/lib/platforms/types'
+import {
+  discardStagedTwitterArchive,
+  uploadEncryptedDmPayloadToStaging,
+  uploadTwitterArchiveToStaging,
+  type DirectUploadProgress,
+} from '@/lib/platforms/twitter/direct-upload'
+import { encryptDirectMessagesForClientStorage, generateRecoveryKey } from '@/lib/platforms/twitter/dm-crypto'
+
+type PlatformBackupItem = BackupLike & {
+  id: string
+  uploaded_at?: string | null
+  created_at?: string | null
+  data?: (BackupLike['data'] & { stats?: Record<string, number | string> }) | null
+}
+
+type PlatformJobItem = {
+  id: string
+  status: 'queued' | 'processing' | 'completed' | 'failed'
+  progress: number
+  message?: string | null
+}
+
+type StagedPlatformArchive = {
+  stagedInputPath: string
+  fileName: string
+  fileType: string
+  fileSize: number
+  file: File
+  preview: PlatformArchivePreviewData
+  importSelection: Record<string, boolean>
+  dmPassphrase: string
+  dmPassphraseConfirm: string
+  dmRecoveryKey: string
+  dmRecoveryKeySaved: boolean
+}
+
+type PanelNotice = { success: boolean; message: string }
+
+export type PlatformArchivePanelProps = {
+  platform: PlatformId
+  // Short instructions for requesting the export, shown above the upload button.
+  instructions: string
+  // Import sections in display order. Keys match the importer's selection keys.
+  sectionLabels: Record<string, string>
+  /**
+   * Reads conversations out of the local ZIP so they can be encrypted before upload. The
+   * `direct_messages` section is only offered when this is provided.
+   */
+  extractDirectMessages?: (file: File) => Promise<unknown[]>
+  // Accept a bare export file next to ZIPs (see `PlatformArchiveImporter.singleFileName`).
+  singleFileName?: string
+}
+
+function formatBackupDate(backup: PlatformBackupItem) {
+  const value = backup.uploaded_at || backup.created_at
+  return value ? new Date(value).toLocaleString() : 'Unknown date'
+}
+
+export function PlatformArchivePanel({
+  platform,
+  instructions,
+  sectionLabels,
+  extractDirectMessages,
+  singleFileName,
+}: PlatformArchivePanelProps) {
+  const definition = getPlatformDefinition(platform)
+  const singleFileExtension = singleFileName ? getSingleFileExtension(singleFileName) : ''
+  const [backups, setBackups] = useState<PlatformBackupItem[]>([])
+  const [activeJob, setActiveJob] = useState<PlatformJobItem | null>(null)
+  const [loadingBackups, setLoadingBackups] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [analyzingArchive, setAnalyzingArchive] = useState(false)
+  const [startingImport, setStartingImport] = useState(false)
+  const [progressPercent, setProgressPercent] = useState(0)
+  const [progressDetail, setProgressDetail] = useState<string | null>(null)
+  const [stagedArchive, setStagedArchive] = useState<StagedPlatformArchive | null>(null)
+  const [notice, setNotice] = useState<PanelNotice | null>(null)
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const response = await fetch('/api/backups', { cache: 'no-store' })
+      const result = (await response.json()) as {
+        success?: boolean
+        backups?: PlatformBackupItem[]
+        jobs?: PlatformJobItem[]
+        error?: string
+      }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load backups')
+      }
+      setBackups((result.backups || []).filter((backup) => inferBackupPlatform(backup) === platform))
+      setActiveJob((result.jobs || []).find((job) => job.status === 'queued' || job.status === 'processing') || null)
+    } catch (error) {
+      console.error(`Error fetching ${platform} backups:`, error)
+    } finally {
+      setLoadingBackups(false)
+    }
+  }, [platform])
+
+  useEffect(() => {
+    void loadSummary()
+  }, [loadSummary])
+
+  useEffect(() => {
+    if (!activeJob) return
+    const interval = setInterval(() => {
+      void loadSummary()
+    }, 1500)
+    return () => clearInterval(interval)
+  }, [activeJob, loadSummary])
+
+  const busy = uploading || analyzingArchive || startingImport || Boolean(activeJob)
+  const sectionKeys = Object.keys(sectionLabels).filter((key) => key !== 'direct_messages' || extractDirectMessages)
+  const selectedSectionCount = stagedArchive
+    ? sectionKeys.filter((key) => stagedArchive.importSelection[key]).length
+    : 0
+  const dmEncryptionRequired = Boolean(stagedArchive?.importSelection.direct_messages)
+  const dmEncryptionReady = Boolean(
+    stagedArchive &&
+      (!dmEncryptionRequired ||
+        (stagedArchive.dmPassphrase.trim().length >= 8 &&
+          stagedArchive.dmPassphrase === stagedArchive.dmPassphraseConfirm &&
+          stagedArchive.dmRecoveryKeySaved)),
+  )
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const previousStagedInputPath = stagedArchive?.stagedInputPath || ''
+    setUploading(true)
+    setProgressPercent(0)
+    setProgressDetail('Preparing upload...')
+    setNotice(null)
+    setStagedArchive(null)
+    if (previousStagedInputPath) {
+      await discardStagedTwitterArchive(previousStagedInputPath)
+    }
+
+    let uploadedStagedInputPath = ''
+    try {
+      const stagedUpload = await uploadTwitterArchiveToStaging({
+        file,
+        platform,
+        onProgress: (progress: DirectUploadProgress) => {
+          setProgressPercent(progress.percent)
+          setProgressDetail(progress.detail || null)
+        },
+      })
+      if (!stagedUpload.success || !stagedUpload.stagedInputPath) {
+        throw new Error(stagedUpload.error || 'Failed to upload archive')
+      }
+
+      uploadedStagedInputPath = stagedUpload.stagedInputPath
+      setUploading(false)
+      setAnalyzingArchive(true)
+      setProgressDetail('Scanning archive contents...')
+
+      const previewResponse = await fetch(`/api/platforms/${platform}/upload-archive/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stagedInputPath: uploadedStagedInputPath }),
+      })
+      const previewPayload = (await previewResponse.json().catch(() => ({}))) as {
+        success?: boolean
+        error?: string
+        preview?: PlatformArchivePreviewData
+      }
+      if (!previewResponse.ok || !previewPayload.success || !previewPayload.preview) {
+        throw new Error(previewPayload.error || 'Failed to inspect uploaded archive')
+      }
+
+      const preview = previewPayload.preview
+      const importSelection: Record<string, boolean> = {}
+      for (const key of Object.keys(sectionLabels)) {
+        // Messages are opt-in because they need a passphrase.
+        importSelection[key] = key === 'direct_messages' ? false : Boolean(preview.available[key])
+      }
+
+      setStagedArchive({
+        stagedInputPath: uploadedStagedInputPath,
+        fileName: stagedUpload.fileName || file.name,
+        fileType: stagedUpload.fileType || file.type || 'application/zip',
+        fileSize: stagedUpload.fileSize || file.size,
+        file,
+        preview,
+        importSelection,
+        dmPassphrase: '',
+        dmPassphraseConfirm: '',
+        dmRecoveryKey: preview.available.direct_messages ? generateRecoveryKey() : '',
+        dmRecoveryKeySaved: false,
+      })
+    } catch (error) {
+      console.error('Upload error:', error)
+      setNotice({ success: false, message: error instanceof Error ? error.message : 'Failed to upload archive' })
+      if (uploadedStagedInputPath) {
+        await discardStagedTwitterArchive(uploadedStagedInputPath)
+      }
+    } finally {
+      setUploading(false)
+      setAnalyzingArchive(false)
+      setProgressPercent(0)
+      setProgressDetail(null)
+    }
+  }
+
+  const handleSelectionChange = (key: string, value: boolean) => {
+    setStagedArchive((prev) => {
+      if (!prev) return prev
+      if (value && !prev.preview.available[key]) return prev
+      return {
+        ...prev,
+        importSelection: { ...prev.importSelection, [key]: value },
+        dmRecoveryKey: key === 'direct_messages' ? prev.dmRecoveryKey || generateRecoveryKey() : prev.dmRecoveryKey,
+      }
+    })
+  }
+
+  const handleDiscard = async () => {
+    if (!stagedArchive) return
+    await discardStagedTwitterArchive(stagedArchive.stagedInputPath)
+    setStagedArchive(null)
+    setNotice(null)
+  }
+
+  const handleStartImport = async () => {
+    if (!stagedArchive || selectedSectionCount === 0 || !dmEncryptionReady) return
+
+    setStartingImport(true)
+    setNotice(null)
+    let encryptedDmStagedInputPath = ''
+
+    try {
+      let dmEncryption: {
+        encrypted_input_path: string
+        conversation_count: number
+        message_count: number
+        version: number
+      } | null = null
+
+      if (stagedArchive.importSelection.direct_messages && extractDirectMessages) {
+        setProgressDetail('Encrypting messages...')
+        const conversations = await extractDirectMessages(stagedArchive.file)
+        const encryptedDmPayload = await encryptDirectMessagesForClientStorage({
+          directMessages: conversations,
+          passphrase: stagedArchive.dmPassphrase,
+          recoveryKey: stagedArchive.dmRecoveryKey,
+        })
+
+        setProgressDetail('Uploading encrypted messages...')
+        const encryptedDmUpload = await uploadEncryptedDmPayloadToStaging({
+          payload: encryptedDmPayload,
+          fileName: `${stagedArchive.fileName.replace(/\.[^.]+$/, '') || 'archive'}-encrypted-dms.json`,
+        })
+        if (!encryptedDmUpload.success) {
+          throw new Error(encryptedDmUpload.error)
+        }
+
+        encryptedDmStagedInputPath = encryptedDmUpload.stagedInputPath
+        dmEncryption = {
+          encrypted_input_path: encryptedDmUpload.stagedInputPath,
+          conversation_count: encryptedDmPayload.metadata.conversation_count,
+          message_count: encryptedDmPayload.metadata.message_count,
+          version: encryptedDmPayload.version,
+        }
+      }
+
+      setProgressDetail('Starting import...')
+      const response = await fetch(`/api/platforms/${platform}/upload-archive/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          stagedInputPath: stagedArchive.stagedInputPath,
+          fileName: stagedArchive.fileName,
+          fileType: stagedArchive.fileType,
+          fileSize: stagedArchive.fileSize,
+          importSelection: stagedArchive.importSelection,
+          dmEncryption,
+        }),
+      })
+      const result = (await response.json().catch(() => ({}))) as { success?: boolean; message?: string; error?: string }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to start import')
+      }
+
+      setStagedArchive(null)
+      setNotice({ success: true, message: result.message || 'Import started.' })
+      await loadSummary()
+    } catch (error) {
+      console.error('Archive import error:', error)
+      if (encryptedDmStagedInputPath) {
+        await discardStagedTwitterArchive(encryptedDmStagedInputPath)
+      }
+      setNotice({ success: false, message: error instanceof Error ? error.message : 'Failed to start import' })
+    } finally {
+      setStartingImport(false)
+      setProgressDetail(null)
+    }
+  }
+
+  const handleCancelJob = async (jobId: string) => {
+    try {
+      const response = await fetch('/api/backups/jobs/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId }),
+      })
+      const result = (await response.json().catch(() => ({}))) as { success?: boolean; error?: string }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to cancel job')
+      }
+      await loadSummary()
+    } catch (error) {
+      console.error('Cancel job error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to cancel job.')
+    }
+  }
+
+  const handleDeleteBackup = async (backupId: string) => {
+    if (!window.confirm('Delete this backup? This cannot be undone.')) return
+    try {
+      const response = await fetch(`/api/backups/delete?backupId=${encodeURIComponent(backupId)}`, { method: 'DELETE' })
+      const result = (await response.json().catch(() => ({}))) as { success?: boolean; error?: string }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete backup.')
+      }
+      await loadSummary()
+    } catch (error) {
+      console.error('Delete backup error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete backup.')
+    }
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-3xl text-neutral-900 dark:text-neutral-100">
+      <div className="text-center">
+        <p className="text-xs font-semibold uppercase tracking-[0.2em] text-neutral-500 dark:text-neutral-400">
+          {definition.label} backups
+        </p>
+        <h1 className="mt-2 text-4xl font-bold tracking-tight text-neutral-900 dark:text-white sm:text-5xl">
+          {definition.shortLabel} Backups
+        </h1>
+        <p className="mt-2 text-sm text-neutral-600 dark:text-neutral-300 sm:text-base">{instructions}</p>
+      </div>
+
+      {activeJob && (
+        <section className="mt-8 rounded-3xl border border-blue-300/40 bg-blue-50 p-5 dark:border-blue-500/30 dark:bg-blue-500/10">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+            <div>
+              <p className="text-sm font-semibold text-blue-800 dark:text-blue-200">Backup job in progress</p>
+              <p className="mt-1 text-sm text-blue-700 dark:text-blue-100">{activeJob.message || 'Your backup job is running.'}</p>
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                void handleCancelJob(activeJob.id)
+              }}
+              className="w-full rounded-full border border-red-500/50 bg-red-500/15 px-3 py-1.5 text-xs font-semibold text-red-600 transition hover:bg-red-500/25 dark:text-red-300 sm:w-auto sm:py-1"
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="mt-3 h-2 overflow-hidden rounded-full bg-white/15">
+            <div
+              className="h-full rounded-full bg-gradient-to-r from-blue-400 to-cyan-300 transition-all"
+              style={{ width: `${Math.max(0, Math.min(100, Number(activeJob.progress) || 0))}%` }}
+            />
+          </div>
+        </section>
+      )}
+
+      <section className="mt-8 rounded-3xl border border-neutral-200 bg-white/75 p-6 dark:border-white/10 dark:bg-white/5">
+        <div className="rounded-2xl border-2 border-dashed border-neutral-300 p-8 text-center dark:border-white/20">
+          {extractDirectMessages && (
+            <div className="mx-auto mb-4 flex max-w-xl items-start gap-3 rounded-2xl border border-emerald-300/60 bg-emerald-50 px-4 py-3 text-left dark:border-emerald-400/40 dark:bg-emerald-500/15">
+              <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600 dark:text-emerald-300" />
+              <p className="text-xs font-medium leading-relaxed text-emerald-800 dark:text-emerald-100/90">
+                Messages are encrypted in your browser before upload. We can&apos;t read them.
+              </p>
+            </div>
+          )}
+          <input
+            type="file"
+            accept={singleFileExtension ? `.zip,.${singleFileExtension}` : '.zip'}
+            onChange={(event) => {
+              void handleFileChange(event)
+            }}
+            disabled={busy}
+            className="hidden"
+            id={`${platform}-archive-upload`}
+          />
+          <label
+            htmlFor={`${platform}-archive-upload`}
+            className={`inline-block w-full rounded-full bg-gradient-to-b from-[#32a7ff] to-[#1576e8] px-5 py-2.5 text-sm font-semibold text-white shadow-[0_8px_22px_rgba(21,118,232,0.35)] transition hover:from-[#45b1ff] hover:to-[#1a7ff1] sm:w-auto ${busy ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}
+          >
+            {uploading
+              ? 'Uploading...'
+              : analyzingArchive
+                ? 'Scanning archive...'
+                : startingImport
+                  ? 'Starting import...'
+                  : activeJob
+                    ? 'Job in progress...'
+                    : stagedArchive
+                      ? `Choose Different ${singleFileExtension ? 'File' : 'ZIP'}`
+                      : `Choose ${singleFileExtension ? `ZIP or ${singleFileExtension.toUpperCase()}` : 'ZIP'} File`}
+          </label>
+          {stagedArchive && (
+            <p className="mt-3 text-xs text-neutral-600 dark:text-neutral-300">
+              Uploaded: <span className="break-all font-medium text-neutral-900 dark:text-white">{stagedArchive.fileName}</span>
+            </p>
+          )}
+        </div>
+
+        {(uploading || analyzingArchive || (startingImport && progressDetail)) && (
+          <div className="mt-4 rounded-xl border border-blue-300/30 bg-blue-500/10 p-3">
+            <div className="flex items-center justify-between text-xs text-blue-800 dark:text-blue-100/85">
+              <span>{progressDetail || 'Uploading archive...'}</span>
+              {uploading ? <span>{Math.max(0, Math.min(100, progressPercent))}%</span> : <Loader2 size={14} className="animate-spin" />}
+            </div>
+            {uploading && (
+              <div className="mt-2 h-2 overflow-hidden rounded-full bg-white/15">
+                <div
+                  className="h-full rounded-full bg-gradient-to-r from-blue-400 to-cyan-300 transition-all"
+                  style={{ width: `${Math.max(0, Math.min(100, progressPercent))}%` }}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {stagedArchive && (
+          <div className="mt-4 rounded-2xl border border-neutral-200 bg-neutral-50/70 p-4 dark:border-white/10 dark:bg-white/5">
+            <p className="text-sm font-semibold text-neutral-900 dark:text-white">Archive preview</p>
+            <div className="mt-3 grid gap-2 sm:grid-cols-2">
+              {sectionKeys.map((key) => (
+                <label
+                  key={key}
+                  className="flex items-center justify-between gap-2 rounded-lg border border-neutral-200 px-3 py-2 text-sm dark:border-white/10"
+                >
+                  <span className="text-neutral-700 dark:text-neutral-300">
+                    {sectionLabels[key]} ({(stagedArchive.preview.stats[key] || 0).toLocaleString()})
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={Boolean(stagedArchive.importSelection[key])}
+                    disabled={!stagedArchive.preview.available[key] || busy}
+                    onChange={(e) => handleSelectionChange(key, e.target.checked)}
+                    className="h-4 w-4 rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+                  />
+                </label>
+              ))}
+            </div>
+
+            {dmEncryptionRequired && (
+              <div className="mt-3 space-y-3 rounded-xl border border-cyan-300/40 bg-cyan-50/70 p-3 dark:border-cyan-400/30 dark:bg-cyan-500/10">
+                <p className="text-xs text-cyan-800/90 dark:text-cyan-100/90">
+                  Your passphrase and recovery key never leave your browser.
+                </p>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <input
+                    type="password"
+                    value={stagedArchive.dmPassphrase}
+                    onChange={(e) => setStagedArchive((prev) => (prev ? { ...prev, dmPassphrase: e.target.value } : prev))}
+                    placeholder="Create passphrase"
+                    disabled={busy}
+                    className="w-full rounded-lg border border-cyan-300/50 bg-white/90 px-3 py-2 text-sm text-neutral-900 outline-none focus:border-cyan-500 dark:border-cyan-200/25 dark:bg-black/40 dark:text-white"
+                  />
+                  <input
+                    type="password"
+                    value={stagedArchive.dmPassphraseConfirm}
+                    onChange={(e) => setStagedArchive((prev) => (prev ? { ...prev, dmPassphraseConfirm: e.target.value } : prev))}
+                    placeholder="Confirm passphrase"
+                    disabled={busy}
+                    className="w-full rounded-lg border border-cyan-300/50 bg-white/90 px-3 py-2 text-sm text-neutral-900 outline-none focus:border-cyan-500 dark:border-cyan-200/25 dark:bg-black/40 dark:text-white"
+                  />
+                </div>
+                <div className="rounded-lg border border-cyan-300/50 bg-white/80 p-3 dark:border-cyan-200/25 dark:bg-black/35">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-cyan-900 dark:text-cyan-100">Recovery key</p>
+                  <p className="mt-2 break-all font-mono text-sm text-cyan-950 dark:text-cyan-100">{stagedArchive.dmRecoveryKey}</p>
+                  <label className="mt-3 flex items-start gap-2 text-xs text-cyan-900 dark:text-cyan-100">
+                    <input
+                      type="checkbox"
+                      checked={stagedArchive.dmRecoveryKeySaved}
+                      onChange={(e) => setStagedArchive((prev) => (prev ? { ...prev, dmRecoveryKeySaved: e.target.checked } : prev))}
+                      disabled={busy}
+                      className="mt-0.5 h-4 w-4 rounded border-neutral-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>I have saved my recovery key.</span>
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {selectedSectionCount} section{selectedSectionCount === 1 ? '' : 's'} selected
+                </p>
+                {dmEncryptionRequired && !dmEncryptionReady && (
+                  <p className="mt-1 text-xs text-amber-600 dark:text-amber-300">
+                    Set a passphrase (8+ characters) and confirm your saved recovery key to continue.
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleDiscard()
+                  }}
+                  disabled={busy}
+                  className="rounded-full border border-neutral-300 px-4 py-2 text-xs font-semibold text-neutral-700 hover:bg-neutral-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-white/20 dark:text-neutral-200 dark:hover:bg-white/10"
+                >
+                  Remove uploaded file
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleStartImport()
+                  }}
+                  disabled={busy || selectedSectionCount === 0 || !dmEncryptionReady}
+                  className="rounded-full bg-gradient-to-b from-[#32a7ff] to-[#1576e8] px-5 py-2 text-xs font-semibold text-white shadow-[0_8px_22px_rgba(21,118,232,0.35)] transition hover:from-[#45b1ff] hover:to-[#1a7ff1] disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {startingImport ? 'Starting import...' : activeJob ? 'Job in progress...' : 'Start Import'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {notice && (
+          <p className={`mt-4 text-sm ${notice.success ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+            {notice.message}
+          </p>
+        )}
+      </section>
+
+      <section className="mt-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-neutral-900 dark:text-white">Backups</h2>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">{backups.length} total</p>
+        </div>
+        <div className="mt-4 space-y-2.5">
+          {loadingBackups ? (
+            <div className="rounded-2xl border border-neutral-200 bg-white/75 p-4 text-sm text-neutral-600 dark:border-white/10 dark:bg-white/5 dark:text-neutral-300">
+              Loading backups...
+            </div>
+          ) : backups.length === 0 ? (
+            <div className="rounded-2xl border border-neutral-200 bg-white/75 p-4 text-sm text-neutral-600 dark:border-white/10 dark:bg-white/5 dark:text-neutral-300">
+              No {definition.label} backups yet.
+            </div>
+          ) : (
+            backups.map((backup) => {
+              const username = backup.data?.profile?.username
+              return (
+                <div
+                  key={backup.id}
+                  className="flex flex-col gap-2 rounded-2xl border border-neutral-200 bg-white/75 p-4 dark:border-white/10 dark:bg-white/5 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-neutral-900 dark:text-white">
+                      Archive Backup{username ? ` @${username}` : ''}
+                    </p>
+                    <p className="mt-0.5 text-xs text-neutral-500 dark:text-neutral-400">{formatBackupDate(backup)}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Link
+                      href={`/dashboard/backup/${backup.id}`}
+                      className="rounded-lg border border-neutral-300 bg-white px-3 py-1.5 text-xs font-semibold text-neutral-700 transition hover:bg-neutral-100 dark:border-white/20 dark:bg-white/5 dark:text-neutral-200 dark:hover:bg-white/10"
+                    >
+                      Open
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void handleDeleteBackup(backup.id)
+                      }}
+                      className="rounded-lg border border-red-500/40 px-3 py-1.5 text-xs font-semibold text-red-600 transition hover:bg-red-500/10 dark:text-red-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import Link from 'next/link'
+import { listPlatformDefinitions } from '@/lib/platforms/registry'
+import type { PlatformId } from '@/lib/platforms/types'
+
+// Platform links for the Save tab. Only enabled platforms are listed.
+export function PlatformSwitcher({ activePlatform }: { activePlatform: PlatformId }) {
+  const platforms = listPlatformDefinitions().filter((definition) => definition.enabled)
+  if (platforms.length < 2) return null
+
+  return (
+    <nav className="mt-4 flex flex-wrap justify-center gap-2" aria-label="Platform">
+      {platforms.map((definition) => (
+        <Link
+          key={definition.id}
+          href={definition.id === 'twitter' ? '/dashboard' : `/dashboard?platform=${definition.id}`}
+          aria-current={activePlatform === definition.id ? 'page' : undefined}
+          className={`rounded-lg px-4 py-2 text-sm font-semibold transition ${
+            activePlatform === definition.id
+              ? 'border border-neutral-900 bg-neutral-900 text-white shadow-sm dark:border-white dark:bg-white dark:text-neutral-900'
+              : 'border border-neutral-300 bg-white text-neutral-700 hover:bg-neutral-50 hover:text-neutral-900 dark:border-white/20 dark:bg-transparent dark:text-neutral-300 dark:hover:bg-white/10 dark:hover:text-white'
+          }`}
+        >
+          {definition.shortLabel}
+        </Link>
+      ))}
+    </nav>
+  )
+}
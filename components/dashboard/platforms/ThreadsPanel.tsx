@@ -0,0 +1,12 @@
+import { PlatformArchivePanel } from '@/components/dashboard/platforms/PlatformArchivePanel'
+import { THREADS_IMPORT_SECTION_LABELS } from '@/lib/platforms/meta/archive-import'
+
+export function ThreadsPanel() {
+  return (
+    <PlatformArchivePanel
+      platform="threads"
+      instructions="In Meta's Accounts Center, open Your information and permissions → Download your information, choose your Threads profile and the JSON format, then upload the ZIP here. An export that also covers Facebook can be imported on both tabs."
+      sectionLabels={THREADS_IMPORT_SECTION_LABELS}
+    />
+  )
+}
@@ -1,10 +1,28 @@
-import { ComingSoonPanel } from '@/components/dashboard/platforms/ComingSoonPanel'
+import { PlatformArchivePanel } from '@/components/dashboard/platforms/PlatformArchivePanel'
+import { openBrowserArchiveFileReader } from '@/lib/platforms/archive-import'
+import {
+  extractTikTokConversations,
+  TIKTOK_IMPORT_SECTION_LABELS,
+  TIKTOK_USER_DATA_FILE_NAME,
+} from '@/lib/platforms/tiktok/archive-import'
+
+async function extractTikTokMessagesFromFile(file: File): Promise<unknown[]> {
+  const reader = await openBrowserArchiveFileReader(file, { singleFileName: TIKTOK_USER_DATA_FILE_NAME })
+  try {
+    return await extractTikTokConversations(reader)
+  } finally {
+    await reader.close()
+  }
+}
 
 export function TikTokPanel() {
   return (
-    <ComingSoonPanel
-      platform="TikTok"
-      description="TikTok backup support is in planning. This section will activate as soon as the first version ships."
+    <PlatformArchivePanel
+      platform="tiktok"
+      instructions="Request your data in TikTok’s Settings → Account → Download your data, choose JSON format, and upload the ZIP or the user_data.json inside it."
+      sectionLabels={TIKTOK_IMPORT_SECTION_LABELS}
+      extractDirectMessages={extractTikTokMessagesFromFile}
+      singleFileName={TIKTOK_USER_DATA_FILE_NAME}
     />
   )
 }
@@ -59,7 +59,7 @@ export type DashboardBackupItem = {
 
 export type BackupJobItem = {
   id: string
-  job_type: 'archive_upload' | 'snapshot_scrape'
+  job_type: 'archive_upload' | 'snapshot_scrape' | 'platform_archive_import'
   status: 'queued' | 'processing' | 'completed' | 'failed'
   progress: number
   message?: string | null
@@ -256,7 +256,7 @@ export function TwitterPanel({
   const activeProgress = Math.max(0, Math.min(100, Number(activeJob?.progress) || 0))
   const activePayload = toRecord(activeJob?.payload)
   const activeLiveMetrics = toRecord(activePayload.live_metrics)
-  const activeIsArchiveJob = activeJob?.job_type === 'archive_upload'
+  const activeIsArchiveJob = Boolean(activeJob) && activeJob?.job_type !== 'snapshot_scrape'
   const activeLifecycleState = typeof activePayload.lifecycle_state === 'string' ? activePayload.lifecycle_state : ''
   const activeIsCleaning = activeLifecycleState === 'cleanup' || activeLifecycleState === 'cancelling'
   const activeIsCancelling = activeJob ? cancellingJobId === activeJob.id : false
@@ -509,7 +509,7 @@ export function TwitterPanel({
         <div className="rounded-3xl border border-gray-200 bg-white p-5 dark:border-white/10 dark:bg-white/5 sm:p-7">
           <h4 className="text-base font-semibold text-gray-900 dark:text-white">Upload Archive</h4>
           <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">Best for complete history backup.</p>
-          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Limits: 1GB max archive file, 5GB total account storage.</p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Limits: 5GB max archive file, 5GB total account storage.</p>
 
           <div className="mt-5 space-y-3">
             <details className="group rounded-xl border border-gray-200 bg-gray-50/70 p-3 dark:border-white/10 dark:bg-white/5">
@@ -770,6 +770,15 @@ export function TwitterPanel({
                   ['followers', 'Followers', stagedArchive.preview.stats.followers],
                   ['following', 'Following', stagedArchive.preview.stats.following],
                   ['likes', 'Likes', stagedArchive.preview.stats.likes],
+                  ['lists', 'Lists', stagedArchive.preview.stats.lists],
+                  ['blocks', 'Blocked accounts', stagedArchive.preview.stats.blocks],
+                  ['mutes', 'Muted accounts', stagedArchive.preview.stats.mutes],
+                  ['deleted_tweets', 'Deleted tweets', stagedArchive.preview.stats.deleted_tweets],
+                  ['community_tweets', 'Community posts', stagedArchive.preview.stats.community_tweets],
+                  ['moments', 'Moments', stagedArchive.preview.stats.moments],
+                  ['broadcasts', 'Broadcasts', stagedArchive.preview.stats.broadcasts],
+                  ['grok_chats', 'Grok chats', stagedArchive.preview.stats.grok_chats],
+                  ['account_history', 'Account history', stagedArchive.preview.stats.account_history],
                   ['media', 'Media files', stagedArchive.preview.stats.media_files],
                 ] as Array<[keyof ArchiveImportSelection, string, number]>).map(([key, label, count]) => (
                   <label key={key} className="flex items-center justify-between gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm dark:border-white/10">
@@ -958,7 +967,7 @@ export function TwitterPanel({
         ) : (
           <div className="space-y-3">
             {inProgressJobs.map((job) => {
-              const isArchiveJob = job.job_type === 'archive_upload'
+              const isArchiveJob = job.job_type !== 'snapshot_scrape'
               const iconWrapClass = isArchiveJob
                 ? 'bg-indigo-50 text-indigo-600 dark:bg-indigo-500/20 dark:text-indigo-300'
                 : 'bg-pink-50 text-pink-600 dark:bg-pink-500/20 dark:text-pink-300'
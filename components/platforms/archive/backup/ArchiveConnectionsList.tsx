@@ -0,0 +1,54 @@
+'use client'
+
+import { LoadMoreSentinel, useBackupContentPages } from '@/components/platforms/twitter/backup/BackupContentPages'
+import type { ArchiveConnection } from '@/lib/platforms/archive-import'
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// Links to the account when the export carries a profile URL.
+export function ArchiveConnectionRow({ connection }: { connection: ArchiveConnection }) {
+  const content = (
+    <>
+      <span className="text-[15px] font-semibold text-white">{connection.display_name || `@${connection.username}`}</span>
+      {connection.followed_at && <span className="text-xs text-gray-500">Since {formatDate(connection.followed_at)}</span>}
+    </>
+  )
+  const className = 'flex items-center justify-between border-b border-white/10 px-4 py-3'
+
+  return connection.profile_url ? (
+    <a
+      href={connection.profile_url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`${className} transition hover:bg-white/[0.03]`}
+    >
+      {content}
+    </a>
+  ) : (
+    <div className={className}>{content}</div>
+  )
+}
+
+// Followers/following of an archive import, paged from `/api/backups/content`.
+export function ArchiveConnectionsList({ backupId, type }: { backupId: string; type: 'followers' | 'following' }) {
+  const pages = useBackupContentPages(backupId, type, { enabled: true })
+  const connections = pages.items as ArchiveConnection[]
+
+  return (
+    <div>
+      {!pages.loading && connections.length === 0 && !pages.error && (
+        <div className="p-8 text-center text-sm text-gray-500">No accounts in this backup.</div>
+      )}
+      {connections.map((connection, index) => (
+        <ArchiveConnectionRow key={`${connection.username}-${index}`} connection={connection} />
+      ))}
+      <LoadMoreSentinel hasMore={pages.hasMore} loading={pages.loading} error={pages.error} onLoadMore={pages.loadMore} />
+    </div>
+  )
+}
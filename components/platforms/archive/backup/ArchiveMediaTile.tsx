@@ -0,0 +1,30 @@
+import Image from 'next/image'
+import type { ArchiveMediaRef } from '@/lib/platforms/archive-import'
+
+// Fills its (relatively positioned) parent. Refs the import job could not store render a placeholder.
+export function ArchiveMediaTile({
+  media,
+  alt,
+  sizes,
+  className,
+}: {
+  media: ArchiveMediaRef
+  alt: string
+  sizes: string
+  className?: string
+}) {
+  if (!media.url) {
+    return (
+      <div className={`flex h-full w-full items-center justify-center bg-white/5 p-2 text-center text-[11px] text-gray-500 ${className || ''}`}>
+        Not stored
+      </div>
+    )
+  }
+  if (media.media_type === 'video') {
+    return <video src={media.url} className={`h-full w-full object-cover ${className || ''}`} controls muted playsInline />
+  }
+  if (media.media_type === 'audio') {
+    return <audio src={media.url} controls className="w-full" />
+  }
+  return <Image src={media.url} alt={alt} fill unoptimized sizes={sizes} className={`object-cover ${className || ''}`} />
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { ArchiveConversation } from '@/lib/platforms/archive-import'
+import { normalizeEncryptedDirectMessagesPayload } from '@/lib/platforms/twitter/archive-import'
+import {
+  decryptDirectMessagesWithPassphrase,
+  decryptDirectMessagesWithRecoveryKey,
+} from '@/lib/platforms/twitter/dm-crypto'
+
+type UnlockMode = 'passphrase' | 'recovery'
+
+/**
+ * Unlock form, conversation list and message thread for the `encrypted_direct_messages` payload
+ * of an archive import. Decrypted messages only live in component state.
+ */
+export function ArchiveMessagesPane({ encryptedDirectMessages }: { encryptedDirectMessages: unknown }) {
+  const encryptedPayload = useMemo(
+    () => normalizeEncryptedDirectMessagesPayload(encryptedDirectMessages),
+    [encryptedDirectMessages],
+  )
+  const [unlockMode, setUnlockMode] = useState<UnlockMode>('passphrase')
+  const [unlockSecret, setUnlockSecret] = useState('')
+  const [unlockError, setUnlockError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [conversations, setConversations] = useState<ArchiveConversation[] | null>(null)
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null)
+
+  const selectedConversation = conversations?.find((conversation) => conversation.conversation_id === selectedConversationId) || null
+
+  const handleUnlock = async () => {
+    if (!encryptedPayload) return
+    if (!unlockSecret.trim()) {
+      setUnlockError(unlockMode === 'passphrase' ? 'Enter your passphrase.' : 'Enter your recovery key.')
+      return
+    }
+
+    setUnlocking(true)
+    setUnlockError(null)
+    try {
+      const decrypted = unlockMode === 'passphrase'
+        ? await decryptDirectMessagesWithPassphrase({ payload: encryptedPayload, passphrase: unlockSecret })
+        : await decryptDirectMessagesWithRecoveryKey({ payload: encryptedPayload, recoveryKey: unlockSecret })
+      setConversations(decrypted as ArchiveConversation[])
+      setUnlockSecret('')
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Unable to unlock messages.')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  if (!encryptedPayload) {
+    return <div className="p-8 text-center text-sm text-gray-500">No messages in this backup.</div>
+  }
+
+  if (!conversations) {
+    return (
+      <div className="mx-auto max-w-md p-6">
+        <p className="text-sm font-semibold text-white">Messages are encrypted</p>
+        <p className="mt-1 text-xs text-gray-400">Unlock them with the passphrase or recovery key you set during import.</p>
+        <div className="mt-4 flex gap-2">
+          {(['passphrase', 'recovery'] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setUnlockMode(mode)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                unlockMode === mode ? 'bg-white text-black' : 'border border-white/20 text-gray-300 hover:bg-white/10'
+              }`}
+            >
+              {mode === 'passphrase' ? 'Passphrase' : 'Recovery key'}
+            </button>
+          ))}
+        </div>
+        <input
+          type={unlockMode === 'passphrase' ? 'password' : 'text'}
+          value={unlockSecret}
+          onChange={(e) => setUnlockSecret(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void handleUnlock()
+          }}
+          placeholder={unlockMode === 'passphrase' ? 'Enter passphrase' : 'Enter recovery key'}
+          className="mt-3 w-full rounded-lg border border-white/15 bg-black px-3 py-2 text-sm text-white outline-none focus:border-blue-400"
+        />
+        {unlockError && <p className="mt-2 text-xs text-rose-300">{unlockError}</p>}
+        <button
+          type="button"
+          onClick={() => {
+            void handleUnlock()
+          }}
+          disabled={unlocking}
+          className="mt-3 rounded-full bg-white px-4 py-2 text-sm font-semibold text-black transition hover:bg-gray-200 disabled:opacity-60"
+        >
+          {unlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </div>
+    )
+  }
+
+  if (selectedConversation) {
+    return (
+      <div>
+        <div className="flex items-center gap-3 border-b border-white/10 px-4 py-3">
+          <button
+            type="button"
+            onClick={() => setSelectedConversationId(null)}
+            className="rounded-full px-3 py-1 text-sm text-gray-300 transition hover:bg-white/10"
+          >
+            ←
+          </button>
+          <p className="truncate font-semibold">{selectedConversation.title}</p>
+        </div>
+        <div className="space-y-3 p-4">
+          {selectedConversation.messages.map((message, index) => (
+            <div key={`${message.created_at}-${index}`} className="rounded-2xl border border-white/10 bg-white/[0.03] px-3 py-2">
+              <p className="text-xs text-gray-500">
+                {message.sender_name}
+                {message.created_at ? ` · ${new Date(message.created_at).toLocaleString()}` : ''}
+              </p>
+              {message.text && <p className="mt-1 whitespace-pre-wrap text-sm text-gray-100">{message.text}</p>}
+              {message.share_url && (
+                <a href={message.share_url} target="_blank" rel="noopener noreferrer" className="mt-1 block break-all text-xs text-blue-400 hover:underline">
+                  {message.share_url}
+                </a>
+              )}
+              {message.attachments && message.attachments.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {message.attachments.length} attachment{message.attachments.length === 1 ? '' : 's'} (not stored)
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {conversations.length === 0 && <div className="p-8 text-center text-sm text-gray-500">No conversations.</div>}
+      {conversations.map((conversation) => (
+        <button
+          key={conversation.conversation_id}
+          type="button"
+          onClick={() => setSelectedConversationId(conversation.conversation_id)}
+          className="flex w-full items-center justify-between gap-3 border-b border-white/10 px-4 py-3 text-left transition hover:bg-white/[0.03]"
+        >
+          <span className="min-w-0">
+            <span className="block truncate text-[15px] font-semibold text-white">{conversation.title}</span>
+            <span className="block truncate text-xs text-gray-500">{conversation.participants.join(', ')}</span>
+          </span>
+          <span className="shrink-0 text-xs text-gray-500">{conversation.message_count.toLocaleString()} messages</span>
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,430 @@
+'use client'
+
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { ArchiveConnectionsList } from '@/components/platforms/archive/backup/ArchiveConnectionsList'
+import { ArchiveMediaTile } from '@/components/platforms/archive/backup/ArchiveMediaTile'
+import {
+  blueskyPostUrl,
+  type BlueskyBlock,
+  type BlueskyPost,
+  type BlueskySubjectRecord,
+} from '@/lib/platforms/bluesky/archive-import'
+
+type Tab = 'posts' | 'replies' | 'media' | 'likes' | 'reposts' | 'following' | 'blocks'
+
+type BlueskyBackupData = {
+  profile?: {
+    username?: string
+    displayName?: string
+    bio?: string
+    profileUrl?: string
+    profileImageUrl?: string
+  }
+  stats?: Record<string, number | string>
+  did?: string
+  posts?: BlueskyPost[]
+  likes?: BlueskySubjectRecord[]
+  reposts?: BlueskySubjectRecord[]
+  blocks?: BlueskyBlock[]
+}
+
+type BlueskyBackupViewerProps = {
+  backup: {
+    id: string
+    uploaded_at?: string | null
+    created_at?: string | null
+    data?: BlueskyBackupData | null
+    [key: string]: unknown
+  }
+}
+
+type PostAuthor = {
+  displayName: string
+  did: string
+  avatarUrl?: string
+}
+
+const TAB_LABELS: Record<Tab, string> = {
+  posts: 'Posts',
+  replies: 'Replies',
+  media: 'Media',
+  likes: 'Likes',
+  reposts: 'Reposts',
+  following: 'Following',
+  blocks: 'Blocks',
+}
+
+const LIST_PAGE_SIZE = 50
+
+function readCount(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function threadRootUri(post: BlueskyPost) {
+  return post.reply_root_uri || post.uri
+}
+
+function ShowMoreButton({ remaining, onClick }: { remaining: number; onClick: () => void }) {
+  if (remaining <= 0) return null
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="w-full px-4 py-3 text-sm font-semibold text-blue-400 transition hover:bg-white/[0.03]"
+    >
+      Show more ({remaining.toLocaleString()} left)
+    </button>
+  )
+}
+
+function PostCard({
+  post,
+  author,
+  postsByUri,
+  onOpenThread,
+  inThread = false,
+}: {
+  post: BlueskyPost
+  author: PostAuthor
+  postsByUri: Map<string, BlueskyPost>
+  onOpenThread?: (post: BlueskyPost) => void
+  inThread?: boolean
+}) {
+  const webUrl = blueskyPostUrl(post.uri)
+  const parentInBackup = post.reply_parent_uri ? postsByUri.has(post.reply_parent_uri) : false
+  const parentUrl = post.reply_parent_uri ? blueskyPostUrl(post.reply_parent_uri) : null
+  const quoteUrl = post.quote_uri ? blueskyPostUrl(post.quote_uri) : null
+
+  return (
+    <article
+      className={`flex gap-3 border-b border-white/10 px-4 py-3 ${onOpenThread ? 'cursor-pointer transition hover:bg-white/[0.03]' : ''}`}
+      onClick={onOpenThread ? () => onOpenThread(post) : undefined}
+    >
+      <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded-full bg-white/10">
+        {author.avatarUrl && <Image src={author.avatarUrl} alt="Avatar" fill unoptimized sizes="40px" className="object-cover" />}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm">
+          <span className="font-semibold text-white">{author.displayName}</span>
+          <span className="text-gray-500"> · {formatDate(post.created_at)}</span>
+        </p>
+        {post.reply_parent_uri && !(inThread && parentInBackup) && (
+          <p className="text-xs text-gray-500">
+            Reply to{' '}
+            {parentInBackup ? (
+              'your post'
+            ) : parentUrl ? (
+              <a
+                href={parentUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="text-blue-400 hover:underline"
+              >
+                a post on Bluesky
+              </a>
+            ) : (
+              'another post'
+            )}
+          </p>
+        )}
+        {post.text && <p className="mt-1 whitespace-pre-wrap break-words text-[15px] text-gray-100">{post.text}</p>}
+        {post.media.length > 0 && (
+          <div className={`mt-2 grid gap-1 overflow-hidden rounded-xl ${post.media.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+            {post.media.map((item) => (
+              <div key={item.media.archive_path} className="relative aspect-video bg-white/5" title={item.alt || undefined}>
+                <ArchiveMediaTile media={item.media} alt={item.alt || 'Bluesky media'} sizes="(max-width: 768px) 50vw, 320px" />
+              </div>
+            ))}
+          </div>
+        )}
+        {post.external && (
+          <a
+            href={post.external.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="mt-2 block rounded-xl border border-white/10 px-3 py-2 transition hover:bg-white/[0.03]"
+          >
+            <span className="block truncate text-sm font-semibold text-white">{post.external.title || post.external.uri}</span>
+            {post.external.description && <span className="line-clamp-2 block text-xs text-gray-400">{post.external.description}</span>}
+          </a>
+        )}
+        {post.links
+          .filter((link) => link !== post.external?.uri)
+          .map((link) => (
+            <a
+              key={link}
+              href={link}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={(e) => e.stopPropagation()}
+              className="mt-1 block break-all text-xs text-blue-400 hover:underline"
+            >
+              {link}
+            </a>
+          ))}
+        {post.quote_uri && (
+          <p className="mt-2 rounded-xl border border-white/10 px-3 py-2 text-xs text-gray-400">
+            Quoting{' '}
+            {quoteUrl ? (
+              <a
+                href={quoteUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                className="text-blue-400 hover:underline"
+              >
+                a post
+              </a>
+            ) : (
+              'a record'
+            )}
+          </p>
+        )}
+        {webUrl && (
+          <a
+            href={webUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="mt-2 inline-block text-xs text-gray-500 hover:text-blue-400 hover:underline"
+          >
+            Open on Bluesky
+          </a>
+        )}
+      </div>
+    </article>
+  )
+}
+
+function PostList({
+  posts,
+  author,
+  postsByUri,
+  onOpenThread,
+}: {
+  posts: BlueskyPost[]
+  author: PostAuthor
+  postsByUri: Map<string, BlueskyPost>
+  onOpenThread: (post: BlueskyPost) => void
+}) {
+  const [visibleCount, setVisibleCount] = useState(LIST_PAGE_SIZE)
+
+  if (posts.length === 0) {
+    return <div className="p-8 text-center text-sm text-gray-500">Nothing here.</div>
+  }
+  return (
+    <div>
+      {posts.slice(0, visibleCount).map((post) => (
+        <PostCard key={post.uri} post={post} author={author} postsByUri={postsByUri} onOpenThread={onOpenThread} />
+      ))}
+      <ShowMoreButton remaining={posts.length - visibleCount} onClick={() => setVisibleCount((count) => count + LIST_PAGE_SIZE)} />
+    </div>
+  )
+}
+
+function SubjectList({ records, verb }: { records: BlueskySubjectRecord[]; verb: string }) {
+  const [visibleCount, setVisibleCount] = useState(LIST_PAGE_SIZE)
+
+  if (records.length === 0) {
+    return <div className="p-8 text-center text-sm text-gray-500">Nothing here.</div>
+  }
+  return (
+    <div>
+      {records.slice(0, visibleCount).map((record) => {
+        const url = blueskyPostUrl(record.subject_uri)
+        return (
+          <div key={record.uri} className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3">
+            {url ? (
+              <a href={url} target="_blank" rel="noopener noreferrer" className="min-w-0 truncate text-sm text-blue-400 hover:underline">
+                {url.replace('https://bsky.app/profile/', '')}
+              </a>
+            ) : (
+              <span className="min-w-0 truncate text-sm text-gray-300">{record.subject_uri}</span>
+            )}
+            {record.created_at && <span className="shrink-0 text-xs text-gray-500">{verb} {formatDate(record.created_at)}</span>}
+          </div>
+        )
+      })}
+      <ShowMoreButton remaining={records.length - visibleCount} onClick={() => setVisibleCount((count) => count + LIST_PAGE_SIZE)} />
+    </div>
+  )
+}
+
+export function BlueskyBackupViewer({ backup }: BlueskyBackupViewerProps) {
+  const router = useRouter()
+  const data = backup.data || {}
+  const profile = data.profile || {}
+  const stats = data.stats || {}
+  const did = data.did || profile.username || ''
+  const likes = data.likes || []
+  const reposts = data.reposts || []
+  const blocks = data.blocks || []
+
+  const posts = data.posts || []
+  const postsByUri = new Map(posts.map((post) => [post.uri, post]))
+  const topLevelPosts = posts.filter((post) => !post.reply_parent_uri)
+  const replies = posts.filter((post) => post.reply_parent_uri)
+  const mediaPosts = posts.filter((post) => post.media.length > 0)
+
+  const tabs = (Object.keys(TAB_LABELS) as Tab[]).filter((tab) => {
+    if (tab === 'posts') return true
+    if (tab === 'replies') return replies.length > 0
+    if (tab === 'media') return mediaPosts.length > 0
+    if (tab === 'likes') return likes.length > 0
+    if (tab === 'reposts') return reposts.length > 0
+    if (tab === 'blocks') return blocks.length > 0
+    return readCount(stats[tab]) > 0
+  })
+
+  const [activeTab, setActiveTab] = useState<Tab>('posts')
+  const [threadRoot, setThreadRoot] = useState<string | null>(null)
+
+  // Own posts in the selected thread, oldest first. Replies by other accounts are not in the repo.
+  const threadPosts = threadRoot
+    ? posts
+        .filter((post) => threadRootUri(post) === threadRoot)
+        .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+    : []
+
+  const author: PostAuthor = {
+    displayName: profile.displayName || did || 'Bluesky user',
+    did,
+    avatarUrl: profile.profileImageUrl,
+  }
+  const openThread = (post: BlueskyPost) => setThreadRoot(threadRootUri(post))
+  const threadRootUrl = threadRoot && !postsByUri.has(threadRoot) ? blueskyPostUrl(threadRoot) : null
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="mx-auto max-w-[720px] border-x border-white/10">
+        <div className="sticky top-0 z-10 flex items-center gap-4 border-b border-white/10 bg-black/85 px-4 py-3 backdrop-blur">
+          <button
+            onClick={() => router.push('/dashboard?platform=bluesky')}
+            className="rounded-full px-3 py-1.5 text-sm font-medium text-white transition hover:bg-white/10"
+            title="Back to backups"
+          >
+            ←
+          </button>
+          <div className="min-w-0">
+            <p className="truncate text-lg font-bold">{author.displayName}</p>
+            <p className="text-xs text-gray-500">Bluesky backup · {formatDate(backup.uploaded_at || backup.created_at)}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-5 px-4 py-5">
+          <div className="relative h-20 w-20 shrink-0 overflow-hidden rounded-full border border-white/15 bg-white/5">
+            {profile.profileImageUrl && (
+              <Image src={profile.profileImageUrl} alt="Profile" fill unoptimized sizes="80px" className="object-cover" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-lg font-semibold">{author.displayName}</p>
+            {did && (
+              <a
+                href={profile.profileUrl || `https://bsky.app/profile/${did}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block truncate text-xs text-gray-500 hover:underline"
+              >
+                {did}
+              </a>
+            )}
+            <div className="mt-1 flex flex-wrap gap-4 text-sm text-gray-400">
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.posts).toLocaleString()}</span> posts
+              </span>
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.following).toLocaleString()}</span> following
+              </span>
+            </div>
+            {profile.bio && <p className="mt-2 whitespace-pre-wrap text-sm text-gray-200">{profile.bio}</p>}
+          </div>
+        </div>
+
+        <div className="flex overflow-x-auto border-b border-white/10">
+          {tabs.map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => {
+                setActiveTab(tab)
+                setThreadRoot(null)
+              }}
+              className={`shrink-0 px-4 py-3 text-sm font-semibold transition hover:bg-white/5 ${
+                activeTab === tab ? 'border-b-2 border-white text-white' : 'text-gray-500'
+              }`}
+            >
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+
+        {threadRoot ? (
+          <div>
+            <div className="flex items-center gap-3 border-b border-white/10 px-4 py-3">
+              <button
+                type="button"
+                onClick={() => setThreadRoot(null)}
+                className="rounded-full px-3 py-1 text-sm text-gray-300 transition hover:bg-white/10"
+              >
+                ←
+              </button>
+              <p className="font-semibold">Thread</p>
+            </div>
+            {threadRootUrl && (
+              <p className="border-b border-white/10 px-4 py-3 text-xs text-gray-500">
+                This thread starts with a post by another account.{' '}
+                <a href={threadRootUrl} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                  Open it on Bluesky
+                </a>
+              </p>
+            )}
+            {threadPosts.map((post) => (
+              <PostCard key={post.uri} post={post} author={author} postsByUri={postsByUri} inThread />
+            ))}
+          </div>
+        ) : activeTab === 'posts' ? (
+          <PostList key="posts" posts={topLevelPosts} author={author} postsByUri={postsByUri} onOpenThread={openThread} />
+        ) : activeTab === 'replies' ? (
+          <PostList key="replies" posts={replies} author={author} postsByUri={postsByUri} onOpenThread={openThread} />
+        ) : activeTab === 'media' ? (
+          <PostList key="media" posts={mediaPosts} author={author} postsByUri={postsByUri} onOpenThread={openThread} />
+        ) : activeTab === 'likes' ? (
+          <SubjectList key="likes" records={likes} verb="Liked" />
+        ) : activeTab === 'reposts' ? (
+          <SubjectList key="reposts" records={reposts} verb="Reposted" />
+        ) : activeTab === 'following' ? (
+          <ArchiveConnectionsList backupId={backup.id} type="following" />
+        ) : (
+          <div>
+            {blocks.map((block) => (
+              <a
+                key={block.did}
+                href={block.profile_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3 transition hover:bg-white/[0.03]"
+              >
+                <span className="min-w-0 truncate text-sm text-white">{block.did}</span>
+                {block.created_at && <span className="shrink-0 text-xs text-gray-500">Blocked {formatDate(block.created_at)}</span>}
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
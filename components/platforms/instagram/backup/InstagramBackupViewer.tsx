@@ -0,0 +1,246 @@
+'use client'
+
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { ArchiveConnectionsList } from '@/components/platforms/archive/backup/ArchiveConnectionsList'
+import { ArchiveMediaTile } from '@/components/platforms/archive/backup/ArchiveMediaTile'
+import { ArchiveMessagesPane } from '@/components/platforms/archive/backup/ArchiveMessagesPane'
+import type { InstagramComment, InstagramPost, InstagramSavedItem } from '@/lib/platforms/instagram/archive-import'
+
+type Tab = 'posts' | 'reels' | 'stories' | 'comments' | 'saved' | 'followers' | 'following' | 'messages'
+
+type InstagramBackupData = {
+  profile?: {
+    username?: string
+    displayName?: string
+    bio?: string
+    profileUrl?: string
+    profileImageUrl?: string
+  }
+  stats?: Record<string, number | string>
+  posts?: InstagramPost[]
+  reels?: InstagramPost[]
+  stories?: InstagramPost[]
+  comments?: InstagramComment[]
+  saved_items?: InstagramSavedItem[]
+  encrypted_direct_messages?: unknown
+}
+
+type InstagramBackupViewerProps = {
+  backup: {
+    id: string
+    uploaded_at?: string | null
+    created_at?: string | null
+    data?: InstagramBackupData | null
+    [key: string]: unknown
+  }
+}
+
+const TAB_LABELS: Record<Tab, string> = {
+  posts: 'Posts',
+  reels: 'Reels',
+  stories: 'Stories',
+  comments: 'Comments',
+  saved: 'Saved',
+  followers: 'Followers',
+  following: 'Following',
+  messages: 'Messages',
+}
+
+function readCount(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function PostGrid({ posts, onSelect }: { posts: InstagramPost[]; onSelect: (post: InstagramPost) => void }) {
+  if (posts.length === 0) {
+    return <div className="p-8 text-center text-sm text-gray-500">Nothing here.</div>
+  }
+  return (
+    <div className="grid grid-cols-3 gap-px">
+      {posts.map((post) => (
+        <button
+          key={post.id}
+          type="button"
+          onClick={() => onSelect(post)}
+          className="relative aspect-square overflow-hidden bg-black text-left"
+          title={post.caption || formatDate(post.created_at)}
+        >
+          {post.media[0] ? (
+            <ArchiveMediaTile media={post.media[0]} alt="Instagram media" sizes="(max-width: 768px) 33vw, 220px" />
+          ) : (
+            <div className="flex h-full w-full items-center justify-center p-3 text-xs text-gray-400">{post.caption}</div>
+          )}
+          {post.media.length > 1 && (
+            <span className="pointer-events-none absolute right-2 top-2 rounded-md bg-black/75 px-1.5 py-0.5 text-[11px] font-semibold text-white">
+              {post.media.length}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function InstagramBackupViewer({ backup }: InstagramBackupViewerProps) {
+  const router = useRouter()
+  const data = backup.data || {}
+  const profile = data.profile || {}
+  const stats = data.stats || {}
+  const posts = data.posts || []
+  const reels = data.reels || []
+  const stories = data.stories || []
+  const comments = data.comments || []
+  const savedItems = data.saved_items || []
+
+  const tabs = (Object.keys(TAB_LABELS) as Tab[]).filter((tab) => {
+    if (tab === 'posts') return true
+    if (tab === 'reels') return reels.length > 0
+    if (tab === 'stories') return stories.length > 0
+    if (tab === 'comments') return comments.length > 0
+    if (tab === 'saved') return savedItems.length > 0
+    if (tab === 'messages') return Boolean(data.encrypted_direct_messages)
+    return readCount(stats[tab]) > 0
+  })
+
+  const [activeTab, setActiveTab] = useState<Tab>('posts')
+  const [selectedPost, setSelectedPost] = useState<InstagramPost | null>(null)
+  const username = profile.username || 'instagram'
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="mx-auto max-w-[720px] border-x border-white/10">
+        <div className="sticky top-0 z-10 flex items-center gap-4 border-b border-white/10 bg-black/85 px-4 py-3 backdrop-blur">
+          <button
+            onClick={() => router.push('/dashboard?platform=instagram')}
+            className="rounded-full px-3 py-1.5 text-sm font-medium text-white transition hover:bg-white/10"
+            title="Back to backups"
+          >
+            ←
+          </button>
+          <div className="min-w-0">
+            <p className="truncate text-lg font-bold">{profile.displayName || `@${username}`}</p>
+            <p className="text-xs text-gray-500">Instagram backup · {formatDate(backup.uploaded_at || backup.created_at)}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-5 px-4 py-5">
+          <div className="relative h-20 w-20 shrink-0 overflow-hidden rounded-full border border-white/15 bg-white/5">
+            {profile.profileImageUrl && (
+              <Image src={profile.profileImageUrl} alt="Profile" fill unoptimized sizes="80px" className="object-cover" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-lg font-semibold">
+              {profile.profileUrl ? (
+                <a href={profile.profileUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                  @{username}
+                </a>
+              ) : (
+                `@${username}`
+              )}
+            </p>
+            <div className="mt-1 flex flex-wrap gap-4 text-sm text-gray-400">
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.posts).toLocaleString()}</span> posts
+              </span>
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.followers).toLocaleString()}</span> followers
+              </span>
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.following).toLocaleString()}</span> following
+              </span>
+            </div>
+            {profile.bio && <p className="mt-2 whitespace-pre-wrap text-sm text-gray-200">{profile.bio}</p>}
+          </div>
+        </div>
+
+        <div className="flex overflow-x-auto border-b border-white/10">
+          {tabs.map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => {
+                setActiveTab(tab)
+                setSelectedPost(null)
+              }}
+              className={`shrink-0 px-4 py-3 text-sm font-semibold transition hover:bg-white/5 ${
+                activeTab === tab ? 'border-b-2 border-white text-white' : 'text-gray-500'
+              }`}
+            >
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+
+        {selectedPost ? (
+          <div className="p-4">
+            <button
+              type="button"
+              onClick={() => setSelectedPost(null)}
+              className="mb-3 rounded-full px-3 py-1 text-sm text-gray-300 transition hover:bg-white/10"
+            >
+              ← Back to grid
+            </button>
+            <div className="space-y-2">
+              {selectedPost.media.map((media) => (
+                <div key={media.archive_path} className="relative aspect-square w-full overflow-hidden rounded-xl bg-white/5">
+                  <ArchiveMediaTile media={media} alt="Instagram media" sizes="720px" className="object-contain" />
+                </div>
+              ))}
+            </div>
+            {selectedPost.caption && <p className="mt-3 whitespace-pre-wrap text-[15px] text-gray-100">{selectedPost.caption}</p>}
+            <p className="mt-2 text-xs text-gray-500">{formatDate(selectedPost.created_at)}</p>
+          </div>
+        ) : activeTab === 'posts' ? (
+          <PostGrid posts={posts} onSelect={setSelectedPost} />
+        ) : activeTab === 'reels' ? (
+          <PostGrid posts={reels} onSelect={setSelectedPost} />
+        ) : activeTab === 'stories' ? (
+          <PostGrid posts={stories} onSelect={setSelectedPost} />
+        ) : activeTab === 'comments' ? (
+          <div>
+            {comments.map((comment, index) => (
+              <div key={`${comment.created_at}-${index}`} className="border-b border-white/10 px-4 py-3">
+                <p className="text-xs text-gray-500">
+                  {comment.media_owner ? `On @${comment.media_owner}'s ${comment.kind}` : `On a ${comment.kind}`}
+                  {comment.created_at ? ` · ${formatDate(comment.created_at)}` : ''}
+                </p>
+                <p className="mt-1 whitespace-pre-wrap text-[15px] text-gray-100">{comment.text}</p>
+              </div>
+            ))}
+          </div>
+        ) : activeTab === 'saved' ? (
+          <div>
+            {savedItems.map((item, index) => (
+              <div key={`${item.url || item.owner}-${index}`} className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-[15px] font-semibold text-white">{item.owner ? `@${item.owner}` : 'Saved post'}</p>
+                  {item.saved_at && <p className="text-xs text-gray-500">Saved {formatDate(item.saved_at)}</p>}
+                </div>
+                {item.url && (
+                  <a href={item.url} target="_blank" rel="noopener noreferrer" className="shrink-0 text-sm text-blue-400 hover:underline">
+                    Open
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : activeTab === 'followers' || activeTab === 'following' ? (
+          <ArchiveConnectionsList key={activeTab} backupId={backup.id} type={activeTab} />
+        ) : (
+          <ArchiveMessagesPane encryptedDirectMessages={data.encrypted_direct_messages} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+'use client'
+
+import Image from 'next/image'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { ArchiveConnectionRow, ArchiveConnectionsList } from '@/components/platforms/archive/backup/ArchiveConnectionsList'
+import { ArchiveMediaTile } from '@/components/platforms/archive/backup/ArchiveMediaTile'
+import type { ArchiveConnection } from '@/lib/platforms/archive-import'
+import type { MetaComment, MetaMediaItem, MetaPost, MetaReaction } from '@/lib/platforms/meta/archive-import'
+
+type Tab = 'posts' | 'comments' | 'reactions' | 'friends' | 'followers' | 'following' | 'photos_and_videos'
+
+type MetaPlatform = 'threads' | 'facebook'
+
+type MetaBackupData = {
+  profile?: {
+    username?: string
+    displayName?: string
+    bio?: string
+    profileUrl?: string
+    profileImageUrl?: string
+  }
+  stats?: Record<string, number | string>
+  posts?: MetaPost[]
+  comments?: MetaComment[]
+  reactions?: MetaReaction[]
+  friends?: ArchiveConnection[]
+  photos_and_videos?: MetaMediaItem[]
+}
+
+type MetaBackupViewerProps = {
+  platform: MetaPlatform
+  backup: {
+    id: string
+    uploaded_at?: string | null
+    created_at?: string | null
+    data?: MetaBackupData | null
+    [key: string]: unknown
+  }
+}
+
+const PLATFORM_LABELS: Record<MetaPlatform, string> = {
+  threads: 'Threads',
+  facebook: 'Facebook',
+}
+
+const TAB_LABELS: Record<MetaPlatform, Record<Tab, string>> = {
+  threads: {
+    posts: 'Threads',
+    comments: 'Comments',
+    reactions: 'Likes',
+    friends: 'Friends',
+    followers: 'Followers',
+    following: 'Following',
+    photos_and_videos: 'Photos & videos',
+  },
+  facebook: {
+    posts: 'Posts',
+    comments: 'Comments',
+    reactions: 'Reactions',
+    friends: 'Friends',
+    followers: 'Followers',
+    following: 'Following',
+    photos_and_videos: 'Photos & videos',
+  },
+}
+
+function readCount(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function EmptyState() {
+  return <div className="p-8 text-center text-sm text-gray-500">Nothing here.</div>
+}
+
+function PostList({ posts, label }: { posts: MetaPost[]; label: string }) {
+  if (posts.length === 0) return <EmptyState />
+  return (
+    <div>
+      {posts.map((post) => (
+        <div key={post.id} className="border-b border-white/10 px-4 py-3">
+          {post.created_at && <p className="text-xs text-gray-500">{formatDate(post.created_at)}</p>}
+          {post.text && <p className="mt-1 whitespace-pre-wrap text-[15px] text-gray-100">{post.text}</p>}
+          {post.media.length > 0 && (
+            <div className={`mt-2 grid gap-1 ${post.media.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+              {post.media.map((media) => (
+                <div key={media.archive_path} className="relative aspect-square overflow-hidden rounded-xl bg-white/5">
+                  <ArchiveMediaTile media={media} alt={`${label} media`} sizes="(max-width: 768px) 50vw, 360px" />
+                </div>
+              ))}
+            </div>
+          )}
+          {post.link && (
+            <a href={post.link} target="_blank" rel="noopener noreferrer" className="mt-2 block break-all text-sm text-blue-400 hover:underline">
+              {post.link}
+            </a>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function MetaBackupViewer({ backup, platform }: MetaBackupViewerProps) {
+  const router = useRouter()
+  const data = backup.data || {}
+  const profile = data.profile || {}
+  const stats = data.stats || {}
+  const posts = data.posts || []
+  const comments = data.comments || []
+  const reactions = data.reactions || []
+  const friends = data.friends || []
+  const mediaItems = data.photos_and_videos || []
+  const platformLabel = PLATFORM_LABELS[platform]
+  const tabLabels = TAB_LABELS[platform]
+
+  const tabs = (Object.keys(tabLabels) as Tab[]).filter((tab) => {
+    if (tab === 'posts') return true
+    if (tab === 'comments') return comments.length > 0
+    if (tab === 'reactions') return reactions.length > 0
+    if (tab === 'friends') return friends.length > 0
+    if (tab === 'photos_and_videos') return mediaItems.length > 0
+    return readCount(stats[tab]) > 0
+  })
+
+  const [activeTab, setActiveTab] = useState<Tab>('posts')
+  const [selectedItem, setSelectedItem] = useState<MetaMediaItem | null>(null)
+  const username = profile.username || platform
+  const handle = platform === 'threads' ? `@${username}` : username
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="mx-auto max-w-[720px] border-x border-white/10">
+        <div className="sticky top-0 z-10 flex items-center gap-4 border-b border-white/10 bg-black/85 px-4 py-3 backdrop-blur">
+          <button
+            onClick={() => router.push(`/dashboard?platform=${platform}`)}
+            className="rounded-full px-3 py-1.5 text-sm font-medium text-white transition hover:bg-white/10"
+            title="Back to backups"
+          >
+            ←
+          </button>
+          <div className="min-w-0">
+            <p className="truncate text-lg font-bold">{profile.displayName || handle}</p>
+            <p className="text-xs text-gray-500">{platformLabel} backup · {formatDate(backup.uploaded_at || backup.created_at)}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-5 px-4 py-5">
+          <div className="relative h-20 w-20 shrink-0 overflow-hidden rounded-full border border-white/15 bg-white/5">
+            {profile.profileImageUrl && (
+              <Image src={profile.profileImageUrl} alt="Profile" fill unoptimized sizes="80px" className="object-cover" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-lg font-semibold">
+              {profile.profileUrl ? (
+                <a href={profile.profileUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                  {handle}
+                </a>
+              ) : (
+                handle
+              )}
+            </p>
+            <div className="mt-1 flex flex-wrap gap-4 text-sm text-gray-400">
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.posts).toLocaleString()}</span> posts
+              </span>
+              {platform === 'facebook' && (
+                <span>
+                  <span className="font-semibold text-white">{readCount(stats.friends).toLocaleString()}</span> friends
+                </span>
+              )}
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.followers).toLocaleString()}</span> followers
+              </span>
+              <span>
+                <span className="font-semibold text-white">{readCount(stats.following).toLocaleString()}</span> following
+              </span>
+            </div>
+            {profile.bio && <p className="mt-2 whitespace-pre-wrap text-sm text-gray-200">{profile.bio}</p>}
+          </div>
+        </div>
+
+        <div className="flex overflow-x-auto border-b border-white/10">
+          {tabs.map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => {
+                setActiveTab(tab)
+                setSelectedItem(null)
+              }}
+              className={`shrink-0 px-4 py-3 text-sm font-semibold transition hover:bg-white/5 ${
+                activeTab === tab ? 'border-b-2 border-white text-white' : 'text-gray-500'
+              }`}
+            >
+              {tabLabels[tab]}
+            </button>
+          ))}
+        </div>
+
+        {selectedItem ? (
+          <div className="p-4">
+            <button
+              type="button"
+              onClick={() => setSelectedItem(null)}
+              className="mb-3 rounded-full px-3 py-1 text-sm text-gray-300 transition hover:bg-white/10"
+            >
+              ← Back to grid
+            </button>
+            <div className="relative aspect-square w-full overflow-hidden rounded-xl bg-white/5">
+              <ArchiveMediaTile media={selectedItem.media} alt={`${platformLabel} media`} sizes="720px" className="object-contain" />
+            </div>
+            {selectedItem.caption && <p className="mt-3 whitespace-pre-wrap text-[15px] text-gray-100">{selectedItem.caption}</p>}
+            <p className="mt-2 text-xs text-gray-500">
+              {[selectedItem.album || '', formatDate(selectedItem.created_at)].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        ) : activeTab === 'posts' ? (
+          <PostList posts={posts} label={platformLabel} />
+        ) : activeTab === 'comments' ? (
+          <div>
+            {comments.map((comment, index) => (
+              <div key={`${comment.created_at}-${index}`} className="border-b border-white/10 px-4 py-3">
+                <p className="text-xs text-gray-500">
+                  {[comment.context || '', formatDate(comment.created_at)].filter(Boolean).join(' · ')}
+                </p>
+                <p className="mt-1 whitespace-pre-wrap text-[15px] text-gray-100">{comment.text}</p>
+              </div>
+            ))}
+          </div>
+        ) : activeTab === 'reactions' ? (
+          <div>
+            {reactions.map((reaction, index) => (
+              <div key={`${reaction.created_at}-${index}`} className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-[15px] text-gray-100">
+                    <span className="font-semibold text-white">{reaction.reaction}</span>
+                    {reaction.context ? ` · ${reaction.context}` : ''}
+                  </p>
+                  {reaction.created_at && <p className="text-xs text-gray-500">{formatDate(reaction.created_at)}</p>}
+                </div>
+                {reaction.url && (
+                  <a href={reaction.url} target="_blank" rel="noopener noreferrer" className="shrink-0 text-sm text-blue-400 hover:underline">
+                    Open
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : activeTab === 'friends' ? (
+          <div>
+            {friends.map((friend, index) => (
+              <ArchiveConnectionRow key={`${friend.username}-${index}`} connection={friend} />
+            ))}
+          </div>
+        ) : activeTab === 'followers' || activeTab === 'following' ? (
+          <ArchiveConnectionsList key={activeTab} backupId={backup.id} type={activeTab} />
+        ) : (
+          <div className="grid grid-cols-3 gap-px">
+            {mediaItems.map((item) => (
+              <button
+                key={item.media.archive_path}
+                type="button"
+                onClick={() => setSelectedItem(item)}
+                className="relative aspect-square overflow-hidden bg-black text-left"
+                title={item.caption || item.album || formatDate(item.created_at)}
+              >
+                <ArchiveMediaTile
+                  media={item.media}
+                  alt={`${platformLabel} media`}
+                  sizes="(max-width: 768px) 33vw, 220px"
+                  className="pointer-events-none"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { ArchiveConnectionsList } from '@/components/platforms/archive/backup/ArchiveConnectionsList'
+import { ArchiveMediaTile } from '@/components/platforms/archive/backup/ArchiveMediaTile'
+import { ArchiveMessagesPane } from '@/components/platforms/archive/backup/ArchiveMessagesPane'
+import type { TikTokComment, TikTokVideo, TikTokVideoLink } from '@/lib/platforms/tiktok/archive-import'
+
+type Tab = 'videos' | 'favorites' | 'comments' | 'watch_history' | 'followers' | 'following' | 'messages'
+
+type TikTokBackupData = {
+  profile?: {
+    username?: string
+    bio?: string
+    profileUrl?: string
+  }
+  stats?: Record<string, number | string>
+  videos?: TikTokVideo[]
+  favorites?: TikTokVideoLink[]
+  comments?: TikTokComment[]
+  watch_history?: TikTokVideoLink[]
+  encrypted_direct_messages?: unknown
+}
+
+type TikTokBackupViewerProps = {
+  backup: {
+    id: string
+    uploaded_at?: string | null
+    created_at?: string | null
+    data?: TikTokBackupData | null
+    [key: string]: unknown
+  }
+}
+
+const TAB_LABELS: Record<Tab, string> = {
+  videos: 'Videos',
+  favorites: 'Favorites',
+  comments: 'Comments',
+  watch_history: 'Watch history',
+  followers: 'Followers',
+  following: 'Following',
+  messages: 'Messages',
+}
+
+// Watch history can run to tens of thousands of entries, so link lists render in pages.
+const LINK_LIST_PAGE_SIZE = 100
+
+function readCount(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function VideoGrid({ videos, onSelect }: { videos: TikTokVideo[]; onSelect: (video: TikTokVideo) => void }) {
+  if (videos.length === 0) {
+    return <div className="p-8 text-center text-sm text-gray-500">Nothing here.</div>
+  }
+  return (
+    <div className="grid grid-cols-3 gap-px">
+      {videos.map((video) => {
+        const overlay = (
+          <span className="pointer-events-none absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/85 to-transparent px-2 pb-2 pt-6 text-left">
+            {video.likes !== null && <span className="block text-xs font-semibold text-white">♥ {video.likes.toLocaleString()}</span>}
+            <span className="block truncate text-[11px] text-gray-300">{video.caption || formatDate(video.created_at)}</span>
+          </span>
+        )
+
+        // Videos the export only links to open on TikTok instead of in the viewer.
+        if (video.link_only || !video.media) {
+          return video.link ? (
+            <a
+              key={video.id}
+              href={video.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="relative flex aspect-[9/16] items-center justify-center overflow-hidden bg-white/5 p-3 text-center transition hover:bg-white/10"
+              title={video.caption || video.link}
+            >
+              <span className="rounded-md bg-black/75 px-1.5 py-0.5 text-[11px] font-semibold text-gray-300">Link only ↗</span>
+              {overlay}
+            </a>
+          ) : (
+            <div key={video.id} className="relative flex aspect-[9/16] items-center justify-center bg-white/5 p-3 text-center text-[11px] text-gray-500">
+              Not stored
+              {overlay}
+            </div>
+          )
+        }
+
+        return (
+          <button
+            key={video.id}
+            type="button"
+            onClick={() => onSelect(video)}
+            className="relative aspect-[9/16] overflow-hidden bg-black text-left"
+            title={video.caption || formatDate(video.created_at)}
+          >
+            <ArchiveMediaTile media={video.media} alt="TikTok video" sizes="(max-width: 768px) 33vw, 220px" className="pointer-events-none" />
+            {overlay}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+function VideoLinkList({ items, verb }: { items: TikTokVideoLink[]; verb: string }) {
+  const [visibleCount, setVisibleCount] = useState(LINK_LIST_PAGE_SIZE)
+
+  if (items.length === 0) {
+    return <div className="p-8 text-center text-sm text-gray-500">Nothing here.</div>
+  }
+  return (
+    <div>
+      {items.slice(0, visibleCount).map((item, index) => (
+        <a
+          key={`${item.link}-${index}`}
+          href={item.link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3 transition hover:bg-white/[0.03]"
+        >
+          <span className="min-w-0 truncate text-sm text-blue-400">{item.video_id ? `Video ${item.video_id}` : item.link}</span>
+          {item.date && <span className="shrink-0 text-xs text-gray-500">{verb} {formatDate(item.date)}</span>}
+        </a>
+      ))}
+      {visibleCount < items.length && (
+        <button
+          type="button"
+          onClick={() => setVisibleCount((count) => count + LINK_LIST_PAGE_SIZE)}
+          className="w-full px-4 py-3 text-sm font-semibold text-blue-400 transition hover:bg-white/[0.03]"
+        >
+          Show more ({(items.length - visibleCount).toLocaleString()} left)
+        </button>
+      )}
+    </div>
+  )
+}
+
+export function TikTokBackupViewer({ backup }: TikTokBackupViewerProps) {
+  const router = useRouter()
+  const data = backup.data || {}
+  const profile = data.profile || {}
+  const stats = data.stats || {}
+  const videos = data.videos || []
+  const favorites = data.favorites || []
+  const comments = data.comments || []
+  const watchHistory = data.watch_history || []
+
+  const tabs = (Object.keys(TAB_LABELS) as Tab[]).filter((tab) => {
+    if (tab === 'videos') return true
+    if (tab === 'favorites') return favorites.length > 0
+    if (tab === 'comments') return comments.length > 0
+    if (tab === 'watch_history') return watchHistory.length > 0
+    if (tab === 'messages') return Boolean(data.encrypted_direct_messages)
+    return readCount(stats[tab]) > 0
+  })
+
+  const [activeTab, setActiveTab] = useState<Tab>('videos')
+  const [selectedVideo, setSelectedVideo] = useState<TikTokVideo | null>(null)
+
+  const username = profile.username || 'tiktok'
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="mx-auto max-w-[720px] border-x border-white/10">
+        <div className="sticky top-0 z-10 flex items-center gap-4 border-b border-white/10 bg-black/85 px-4 py-3 backdrop-blur">
+          <button
+            onClick={() => router.push('/dashboard?platform=tiktok')}
+            className="rounded-full px-3 py-1.5 text-sm font-medium text-white transition hover:bg-white/10"
+            title="Back to backups"
+          >
+            ←
+          </button>
+          <div className="min-w-0">
+            <p className="truncate text-lg font-bold">@{username}</p>
+            <p className="text-xs text-gray-500">TikTok backup · {formatDate(backup.uploaded_at || backup.created_at)}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-col items-center px-4 py-6 text-center">
+          <p className="text-lg font-semibold">
+            {profile.profileUrl ? (
+              <a href={profile.profileUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                @{username}
+              </a>
+            ) : (
+              `@${username}`
+            )}
+          </p>
+          <div className="mt-2 flex flex-wrap justify-center gap-5 text-sm text-gray-400">
+            <span>
+              <span className="font-semibold text-white">{readCount(stats.following).toLocaleString()}</span> following
+            </span>
+            <span>
+              <span className="font-semibold text-white">{readCount(stats.followers).toLocaleString()}</span> followers
+            </span>
+            <span>
+              <span className="font-semibold text-white">{readCount(stats.videos).toLocaleString()}</span> videos
+            </span>
+          </div>
+          {profile.bio && <p className="mt-3 max-w-md whitespace-pre-wrap text-sm text-gray-200">{profile.bio}</p>}
+          {readCount(stats.link_only_videos) > 0 && (
+            <p className="mt-3 text-xs text-gray-500">
+              {readCount(stats.link_only_videos).toLocaleString()} video{readCount(stats.link_only_videos) === 1 ? ' was' : 's were'} only
+              included as links in the export.
+            </p>
+          )}
+        </div>
+
+        <div className="flex overflow-x-auto border-b border-white/10">
+          {tabs.map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => {
+                setActiveTab(tab)
+                setSelectedVideo(null)
+              }}
+              className={`shrink-0 px-4 py-3 text-sm font-semibold transition hover:bg-white/5 ${
+                activeTab === tab ? 'border-b-2 border-white text-white' : 'text-gray-500'
+              }`}
+            >
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+
+        {selectedVideo?.media ? (
+          <div className="p-4">
+            <button
+              type="button"
+              onClick={() => setSelectedVideo(null)}
+              className="mb-3 rounded-full px-3 py-1 text-sm text-gray-300 transition hover:bg-white/10"
+            >
+              ← Back to grid
+            </button>
+            <div className="relative mx-auto aspect-[9/16] w-full max-w-[360px] overflow-hidden rounded-xl bg-white/5">
+              <ArchiveMediaTile media={selectedVideo.media} alt="TikTok video" sizes="360px" className="object-contain" />
+            </div>
+            {selectedVideo.caption && <p className="mt-3 whitespace-pre-wrap text-[15px] text-gray-100">{selectedVideo.caption}</p>}
+            <p className="mt-2 text-xs text-gray-500">
+              {[
+                formatDate(selectedVideo.created_at),
+                selectedVideo.likes !== null ? `${selectedVideo.likes.toLocaleString()} likes` : '',
+                selectedVideo.sound ? `♫ ${selectedVideo.sound}` : '',
+                selectedVideo.location || '',
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+            {selectedVideo.link && (
+              <a href={selectedVideo.link} target="_blank" rel="noopener noreferrer" className="mt-2 inline-block text-sm text-blue-400 hover:underline">
+                Open on TikTok
+              </a>
+            )}
+          </div>
+        ) : activeTab === 'videos' ? (
+          <VideoGrid videos={videos} onSelect={setSelectedVideo} />
+        ) : activeTab === 'favorites' ? (
+          <VideoLinkList key="favorites" items={favorites} verb="Saved" />
+        ) : activeTab === 'watch_history' ? (
+          <VideoLinkList key="watch_history" items={watchHistory} verb="Watched" />
+        ) : activeTab === 'comments' ? (
+          <div>
+            {comments.map((comment, index) => (
+              <div key={`${comment.created_at}-${index}`} className="border-b border-white/10 px-4 py-3">
+                {comment.created_at && <p className="text-xs text-gray-500">{formatDate(comment.created_at)}</p>}
+                <p className="mt-1 whitespace-pre-wrap text-[15px] text-gray-100">{comment.text}</p>
+                {comment.photo_url && (
+                  <a href={comment.photo_url} target="_blank" rel="noopener noreferrer" className="mt-1 block break-all text-xs text-blue-400 hover:underline">
+                    Attached photo
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : activeTab === 'followers' || activeTab === 'following' ? (
+          <ArchiveConnectionsList key={activeTab} backupId={backup.id} type={activeTab} />
+        ) : (
+          <ArchiveMessagesPane encryptedDirectMessages={data.encrypted_direct_messages} />
+        )}
+      </div>
+    </div>
+  )
+}
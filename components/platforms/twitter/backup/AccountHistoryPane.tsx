@@ -0,0 +1,247 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { ArchiveAccountHistoryEventType, EncryptedDirectMessagesPayload } from '@/lib/platforms/twitter/archive-import'
+import {
+  decryptDirectMessagesWithPassphrase,
+  decryptDirectMessagesWithRecoveryKey,
+} from '@/lib/platforms/twitter/dm-crypto'
+
+interface AccountHistoryPaneProps {
+  backupId: string
+  events: unknown[]
+  encryptedPayload: EncryptedDirectMessagesPayload | null
+  included: boolean
+  onBack: () => void
+}
+
+type UnlockMode = 'passphrase' | 'recovery'
+type HistoryFilter = 'all' | ArchiveAccountHistoryEventType
+type HistoryEvent = {
+  type: ArchiveAccountHistoryEventType
+  occurredAt: string
+  from: string
+  to: string
+  ip: string
+  appName: string
+  organization: string
+  permissions: string[]
+  lastSeenAt: string
+}
+
+const EVENT_LABELS: Record<ArchiveAccountHistoryEventType, string> = {
+  screen_name_change: 'Username changed',
+  email_change: 'Email changed',
+  login: 'Login',
+  connected_app: 'App connected',
+  device_token: 'Device registered',
+}
+
+const FILTERS: Array<{ id: HistoryFilter; label: string }> = [
+  { id: 'all', label: 'All' },
+  { id: 'screen_name_change', label: 'Usernames' },
+  { id: 'email_change', label: 'Emails' },
+  { id: 'login', label: 'Logins' },
+  { id: 'connected_app', label: 'Apps' },
+  { id: 'device_token', label: 'Devices' },
+]
+
+function parseHistoryEvents(value: unknown[]): HistoryEvent[] {
+  const readString = (record: Record<string, unknown>, key: string) =>
+    typeof record[key] === 'string' ? (record[key] as string) : ''
+
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== 'object') return null
+      const event = entry as Record<string, unknown>
+      if (typeof event.type !== 'string' || !(event.type in EVENT_LABELS)) return null
+      return {
+        type: event.type as ArchiveAccountHistoryEventType,
+        occurredAt: readString(event, 'occurred_at'),
+        from: readString(event, 'from'),
+        to: readString(event, 'to'),
+        ip: readString(event, 'ip'),
+        appName: readString(event, 'app_name'),
+        organization: readString(event, 'organization'),
+        permissions: Array.isArray(event.permissions)
+          ? event.permissions.filter((permission): permission is string => typeof permission === 'string')
+          : [],
+        lastSeenAt: readString(event, 'last_seen_at'),
+      }
+    })
+    .filter((event): event is HistoryEvent => Boolean(event))
+}
+
+function formatEventTime(value: string): string {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return 'Unknown date'
+  return date.toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function describeEvent(event: HistoryEvent): string {
+  switch (event.type) {
+    case 'screen_name_change':
+      return `@${event.from || 'unknown'} → @${event.to || 'unknown'}`
+    case 'email_change':
+      return event.from ? `${event.from} → ${event.to || 'unknown'}` : event.to || 'New email address'
+    case 'login':
+      return event.ip ? `From ${event.ip}` : 'Unknown IP address'
+    case 'connected_app':
+      return [event.appName || 'Unnamed app', event.organization].filter(Boolean).join(' · ')
+    case 'device_token':
+      return event.appName || 'Unknown app'
+  }
+}
+
+export function AccountHistoryPane({ backupId, events, encryptedPayload, included, onBack }: AccountHistoryPaneProps) {
+  const [filter, setFilter] = useState<HistoryFilter>('all')
+  const [unlockMode, setUnlockMode] = useState<UnlockMode>('passphrase')
+  const [unlockSecret, setUnlockSecret] = useState('')
+  const [unlockError, setUnlockError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [decryptedEvents, setDecryptedEvents] = useState<unknown[] | null>(null)
+
+  useEffect(() => {
+    setDecryptedEvents(null)
+    setUnlockSecret('')
+    setUnlockError(null)
+    setUnlockMode('passphrase')
+  }, [backupId, encryptedPayload?.metadata.encrypted_at])
+
+  // Encrypted backups keep usernames and apps in plain data; only the sensitive events are locked.
+  const locked = Boolean(encryptedPayload) && !decryptedEvents
+  const timeline = useMemo(() => {
+    const merged = parseHistoryEvents([...events, ...(decryptedEvents || [])])
+    return merged.sort((a, b) => (Date.parse(b.occurredAt) || 0) - (Date.parse(a.occurredAt) || 0))
+  }, [decryptedEvents, events])
+  const filteredTimeline = filter === 'all' ? timeline : timeline.filter((event) => event.type === filter)
+
+  const handleUnlock = async () => {
+    if (!encryptedPayload) return
+    if (!unlockSecret.trim()) {
+      setUnlockError(unlockMode === 'passphrase' ? 'Enter your passphrase.' : 'Enter your recovery key.')
+      return
+    }
+
+    setUnlocking(true)
+    setUnlockError(null)
+    try {
+      const decrypted = unlockMode === 'passphrase'
+        ? await decryptDirectMessagesWithPassphrase({ payload: encryptedPayload, passphrase: unlockSecret })
+        : await decryptDirectMessagesWithRecoveryKey({ payload: encryptedPayload, recoveryKey: unlockSecret })
+      setDecryptedEvents(decrypted)
+      setUnlockSecret('')
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Unable to unlock encrypted account history.')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-20 border-b border-white/10 bg-black/95 px-4 py-3 backdrop-blur">
+        <div className="flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Account history</h2>
+          <button
+            type="button"
+            onClick={onBack}
+            className="rounded-full px-3 py-1.5 text-sm text-gray-300 hover:bg-white/10"
+          >
+            Back
+          </button>
+        </div>
+        {included && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {FILTERS.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setFilter(option.id)}
+                className={`rounded-full px-3 py-1.5 text-xs font-semibold ${
+                  filter === option.id ? 'bg-white text-black' : 'border border-white/15 text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </header>
+
+      {!included ? (
+        <div className="p-8 text-center text-gray-400">This backup does not include account history.</div>
+      ) : (
+        <div className="flex-1">
+          {locked && (
+            <div className="border-b border-white/10 p-4">
+              <div className="rounded-2xl border border-cyan-400/35 bg-cyan-500/10 p-4">
+                <p className="text-sm font-semibold text-cyan-100">Emails, login IPs and devices are encrypted</p>
+                <p className="mt-1 text-xs text-cyan-100/85">Unlock with your passphrase or recovery key to add them to the timeline.</p>
+                <div className="mt-3 flex gap-2">
+                  {(['passphrase', 'recovery'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => {
+                        setUnlockMode(mode)
+                        setUnlockError(null)
+                      }}
+                      className={`rounded-full px-3 py-1.5 text-xs font-semibold ${
+                        unlockMode === mode ? 'bg-cyan-400 text-slate-950' : 'border border-cyan-300/40 text-cyan-100'
+                      }`}
+                    >
+                      {mode === 'passphrase' ? 'Passphrase' : 'Recovery key'}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type={unlockMode === 'passphrase' ? 'password' : 'text'}
+                  value={unlockSecret}
+                  onChange={(e) => setUnlockSecret(e.target.value)}
+                  placeholder={unlockMode === 'passphrase' ? 'Enter passphrase' : 'Enter recovery key'}
+                  className="mt-3 w-full rounded-lg border border-cyan-200/30 bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-cyan-100/60"
+                />
+                {unlockError && <p className="mt-2 text-xs text-rose-300">{unlockError}</p>}
+                <button
+                  type="button"
+                  onClick={() => void handleUnlock()}
+                  disabled={unlocking}
+                  className="mt-3 w-full rounded-full bg-gradient-to-r from-cyan-400 to-blue-500 px-4 py-2 text-sm font-semibold text-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {unlocking ? 'Unlocking...' : 'Unlock account history'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {filteredTimeline.length > 0 ? (
+            <ol>
+              {filteredTimeline.map((event, index) => (
+                <li key={`${event.type}-${event.occurredAt}-${index}`} className="border-b border-white/10 px-4 py-4">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="text-base font-semibold text-white">{EVENT_LABELS[event.type]}</p>
+                    <span className="flex-shrink-0 text-xs text-gray-500">{formatEventTime(event.occurredAt)}</span>
+                  </div>
+                  <p className="mt-1 break-words text-sm text-gray-300">{describeEvent(event)}</p>
+                  {event.permissions.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">Permissions: {event.permissions.join(', ')}</p>
+                  )}
+                  {event.lastSeenAt && (
+                    <p className="mt-1 text-xs text-gray-500">Last seen {formatEventTime(event.lastSeenAt)}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="p-8 text-center text-gray-500">
+              {locked && filter !== 'all' && filter !== 'screen_name_change' && filter !== 'connected_app'
+                ? 'Unlock to view these events.'
+                : 'No account history events found.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
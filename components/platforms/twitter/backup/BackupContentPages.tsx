@@ -0,0 +1,178 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type BackupContentPageType = 'posts' | 'replies' | 'likes' | 'followers' | 'following' | 'conversations'
+
+const PAGE_SIZE = 50
+
+type PageResponse = {
+  items: unknown[]
+  pinned: unknown[]
+  total: number | null
+  nextCursor: string | null
+}
+
+type PageState = PageResponse & {
+  key: string
+  loadingMore: boolean
+  error: string | null
+}
+
+export type BackupContentPages = {
+  items: unknown[]
+  pinned: unknown[]
+  total: number | null
+  hasMore: boolean
+  loading: boolean
+  error: string | null
+  loadMore: () => void
+}
+
+/**
+ * Streams one content type from `/api/backups/content`. The first page loads once `enabled` is set;
+ * later pages only load when `loadMore` is called, usually from a `LoadMoreSentinel`.
+ */
+export function useBackupContentPages(
+  backupId: string,
+  type: BackupContentPageType,
+  options: { enabled: boolean; order?: 'asc' | 'desc'; from?: string; to?: string },
+): BackupContentPages {
+  const { enabled, order = 'desc', from = '', to = '' } = options
+  const requestKey = [backupId, type, order, from, to].join('|')
+  const [state, setState] = useState<PageState | null>(null)
+  const startedKeyRef = useRef<string | null>(null)
+  const loadingMoreRef = useRef(false)
+
+  const fetchPage = useCallback(
+    async (cursor: string | null): Promise<PageResponse> => {
+      const params = new URLSearchParams({ backupId, type, order, limit: String(PAGE_SIZE) })
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (cursor) params.set('cursor', cursor)
+
+      const response = await fetch(`/api/backups/content?${params.toString()}`)
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load backup content')
+      }
+      return {
+        items: Array.isArray(result.items) ? result.items : [],
+        pinned: Array.isArray(result.pinned) ? result.pinned : [],
+        total: typeof result.total === 'number' ? result.total : null,
+        nextCursor: typeof result.nextCursor === 'string' ? result.nextCursor : null,
+      }
+    },
+    [backupId, from, order, to, type],
+  )
+
+  useEffect(() => {
+    if (!enabled || startedKeyRef.current === requestKey) return
+    startedKeyRef.current = requestKey
+    let cancelled = false
+    let settled = false
+
+    fetchPage(null)
+      .then((page) => {
+        settled = true
+        if (cancelled) return
+        setState({ ...page, key: requestKey, loadingMore: false, error: null })
+      })
+      .catch((error) => {
+        settled = true
+        if (cancelled) return
+        setState({
+          key: requestKey,
+          items: [],
+          pinned: [],
+          total: null,
+          nextCursor: null,
+          loadingMore: false,
+          error: error instanceof Error ? error.message : 'Failed to load backup content',
+        })
+      })
+
+    return () => {
+      cancelled = true
+      // An unfinished first page is dropped, so let the next run request it again.
+      if (!settled && startedKeyRef.current === requestKey) startedKeyRef.current = null
+    }
+  }, [enabled, fetchPage, requestKey])
+
+  const current = state && state.key === requestKey ? state : null
+  const nextCursor = current?.nextCursor || null
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loadingMoreRef.current) return
+    loadingMoreRef.current = true
+    setState((prev) => (prev && prev.key === requestKey ? { ...prev, loadingMore: true } : prev))
+
+    fetchPage(nextCursor)
+      .then((page) => {
+        setState((prev) =>
+          prev && prev.key === requestKey
+            ? { ...prev, items: [...prev.items, ...page.items], nextCursor: page.nextCursor, loadingMore: false, error: null }
+            : prev,
+        )
+      })
+      .catch((error) => {
+        setState((prev) =>
+          prev && prev.key === requestKey
+            ? { ...prev, loadingMore: false, error: error instanceof Error ? error.message : 'Failed to load backup content' }
+            : prev,
+        )
+      })
+      .finally(() => {
+        loadingMoreRef.current = false
+      })
+  }, [fetchPage, nextCursor, requestKey])
+
+  return {
+    items: current?.items || [],
+    pinned: current?.pinned || [],
+    total: current?.total ?? null,
+    hasMore: Boolean(nextCursor) && !current?.error,
+    loading: (enabled && !current) || Boolean(current?.loadingMore),
+    error: current?.error || null,
+    loadMore,
+  }
+}
+
+export function LoadMoreSentinel({
+  hasMore,
+  loading,
+  error,
+  onLoadMore,
+}: {
+  hasMore: boolean
+  loading: boolean
+  error?: string | null
+  onLoadMore: () => void
+}) {
+  const sentinelRef = useRef<HTMLDivElement | null>(null)
+
+  // Re-observing after every page makes a sentinel that is still on screen request the next one.
+  useEffect(() => {
+    const node = sentinelRef.current
+    if (!node || !hasMore || loading) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore()
+      },
+      { rootMargin: '600px 0px' },
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [hasMore, loading, onLoadMore])
+
+  if (error) {
+    return <div className="p-6 text-center text-sm text-red-300">{error}</div>
+  }
+  if (!hasMore && !loading) return null
+
+  return (
+    <div ref={sentinelRef} className="p-6 text-center text-sm text-gray-500">
+      {loading ? 'Loading…' : ''}
+    </div>
+  )
+}
@@ -1,9 +1,15 @@
 'use client'
 
-import { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
 import { ExternalLink } from 'lucide-react'
+import { AccountHistoryPane } from '@/components/platforms/twitter/backup/AccountHistoryPane'
+import { LoadMoreSentinel, useBackupContentPages } from '@/components/platforms/twitter/backup/BackupContentPages'
+import { ComparePane } from '@/components/platforms/twitter/backup/ComparePane'
+import { GrokChatPane } from '@/components/platforms/twitter/backup/GrokChatPane'
+import { MomentsPane } from '@/components/platforms/twitter/backup/MomentsPane'
+import { SearchPane } from '@/components/platforms/twitter/backup/SearchPane'
 import { TweetCard } from '@/components/platforms/twitter/backup/TweetCard'
 import {
   normalizeEncryptedDirectMessagesPayload,
@@ -16,7 +22,12 @@ import {
   unlockEncryptedArchiveDataKeyWithPassphrase,
   unlockEncryptedArchiveDataKeyWithRecoveryKey,
 } from '@/lib/platforms/twitter/encrypted-archive'
-import { formatPartialReasonLabel, getBackupPartialDetails, isArchiveBackup as isArchiveBackupRecord } from '@/lib/platforms/backup'
+import {
+  formatPartialReasonLabel,
+  getBackupPartialDetails,
+  inferBackupPlatform,
+  isArchiveBackup as isArchiveBackupRecord,
+} from '@/lib/platforms/backup'
 import {
   decryptDirectMessagesWithPassphrase,
   decryptDirectMessagesWithRecoveryKey,
@@ -28,7 +39,7 @@ interface BackupViewerProps {
   backup: BackupRecord
 }
 
-type Tab = 'posts' | 'replies' | 'media'
+type Tab = 'posts' | 'replies' | 'media' | 'deleted' | 'communities' | 'broadcasts'
 type ProfileMediaItem = {
   id: string
   url: string
@@ -42,9 +53,11 @@ type ProfileMediaItem = {
   replies: number
   reposts: number
   views: number
+  // Thumbnails of posts behind a content warning are blurred in the grid.
+  contentWarning?: string | null
 }
-type PeopleTab = 'followers' | 'following'
-type ViewMode = 'profile' | 'chat'
+type PeopleTab = 'followers' | 'following' | 'lists' | 'blocks' | 'mutes'
+type ViewMode = 'profile' | 'chat' | 'grok' | 'account' | 'moments' | 'search' | 'compare'
 type DmUnlockMode = 'passphrase' | 'recovery'
 type ArchiveUnlockMode = 'passphrase' | 'recovery'
 type ChatMessage = {
@@ -54,6 +67,16 @@ type ChatMessage = {
   createdAt: string
   media?: unknown[]
 }
+type BackupListItem = {
+  id: string
+  name: string
+  url: string
+  relationship: 'owned' | 'member' | 'subscribed'
+  description?: string
+  ownerUsername?: string
+  memberCount: number | null
+  memberUsernames: string[]
+}
 type ChatConversation = {
   id: string
   participantId: string
@@ -98,7 +121,16 @@ type ArchiveImportSelection = {
   followers: boolean
   following: boolean
   likes: boolean
+  lists: boolean
+  blocks: boolean
+  mutes: boolean
+  deleted_tweets: boolean
+  community_tweets: boolean
+  moments: boolean
+  broadcasts: boolean
   direct_messages: boolean
+  grok_chats: boolean
+  account_history: boolean
   media: boolean
 }
 
@@ -107,11 +139,23 @@ interface BackupData {
   stats?: Record<string, number | string>
   tweets?: unknown[]
   replies?: unknown[]
+  deleted_tweets?: unknown[]
+  community_tweets?: unknown[]
+  community_notes?: unknown[]
+  moments?: unknown[]
+  broadcasts?: unknown[]
   followers?: unknown[]
   following?: unknown[]
+  lists?: unknown[]
+  blocks?: unknown[]
+  mutes?: unknown[]
   dms?: unknown[]
   direct_messages?: unknown[]
   encrypted_direct_messages?: unknown
+  grok_chats?: unknown[]
+  encrypted_grok_chats?: unknown
+  account_history?: unknown[]
+  encrypted_account_history?: unknown
   encrypted_archive?: unknown
   archive_file_path?: string
   import_selection?: Partial<ArchiveImportSelection>
@@ -275,16 +319,26 @@ function parseSnapshotTargets(value: unknown): SnapshotScrapeTargets | null {
 function parseArchiveImportSelection(value: unknown): ArchiveImportSelection | null {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return null
   const source = value as Record<string, unknown>
-  const keys: Array<keyof ArchiveImportSelection> = ['tweets', 'followers', 'following', 'likes', 'direct_messages', 'media']
+  const keys: Array<keyof ArchiveImportSelection> = ['tweets', 'followers', 'following', 'likes', 'lists', 'blocks', 'mutes', 'deleted_tweets', 'community_tweets', 'moments', 'broadcasts', 'direct_messages', 'grok_chats', 'account_history', 'media']
   const hasAnyKey = keys.some((key) => key in source)
   if (!hasAnyKey) return null
 
   return {
-    tweets: readBooleanLike(source.tweets),
+    // Mastodon imports call the section `posts`.
+    tweets: readBooleanLike('tweets' in source ? source.tweets : source.posts),
     followers: readBooleanLike(source.followers),
     following: readBooleanLike(source.following),
     likes: readBooleanLike(source.likes),
+    lists: readBooleanLike(source.lists),
+    blocks: readBooleanLike(source.blocks),
+    mutes: readBooleanLike(source.mutes),
+    deleted_tweets: readBooleanLike(source.deleted_tweets),
+    community_tweets: readBooleanLike(source.community_tweets),
+    moments: readBooleanLike(source.moments),
+    broadcasts: readBooleanLike(source.broadcasts),
     direct_messages: readBooleanLike(source.direct_messages),
+    grok_chats: readBooleanLike(source.grok_chats),
+    account_history: readBooleanLike(source.account_history),
     media: readBooleanLike(source.media),
   }
 }
@@ -331,6 +385,141 @@ function readBooleanLike(value: unknown): boolean {
   return false
 }
 
+const LIST_RELATIONSHIP_LABELS: Record<BackupListItem['relationship'], string> = {
+  owned: 'Owner',
+  member: 'Member',
+  subscribed: 'Subscribed',
+}
+
+const LIST_MEMBER_PREVIEW_COUNT = 8
+
+function parseBackupLists(value: unknown[]): BackupListItem[] {
+  const items: BackupListItem[] = []
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue
+    const list = entry as Record<string, unknown>
+    const id = typeof list.list_id === 'string' ? list.list_id : ''
+    if (!id) continue
+    const relationship =
+      list.relationship === 'owned' || list.relationship === 'subscribed' ? list.relationship : 'member'
+    items.push({
+      id,
+      name: typeof list.name === 'string' && list.name.trim() ? list.name.trim() : `List ${formatCompactUserId(id)}`,
+      url: typeof list.url === 'string' && list.url ? list.url : `https://x.com/i/lists/${id}`,
+      relationship,
+      description: typeof list.description === 'string' ? list.description : undefined,
+      ownerUsername: typeof list.owner_username === 'string' ? list.owner_username : undefined,
+      memberCount: readNumberLike(list.member_count),
+      memberUsernames: Array.isArray(list.members)
+        ? list.members
+            .map((member) => (member && typeof member === 'object' ? (member as Record<string, unknown>).username : null))
+            .filter((username): username is string => typeof username === 'string' && username.length > 0)
+        : [],
+    })
+  }
+  return items
+}
+
+// X's block-list import and third-party block tools take one numeric account ID per line, no header.
+function buildBlockListCsv(accounts: unknown[]): string {
+  const ids = new Set<string>()
+  for (const account of accounts) {
+    if (!account || typeof account !== 'object') continue
+    const userId = (account as Record<string, unknown>).user_id
+    if (typeof userId === 'string' && /^\d+$/.test(userId)) ids.add(userId)
+  }
+  return Array.from(ids).map((id) => `${id}\n`).join('')
+}
+
+type CommunityNoteItem = {
+  kind: 'note' | 'rating'
+  noteId: string
+  tweetId: string
+  createdAt: string
+  summary: string
+  classification: string
+  helpfulness: string
+}
+
+function parseCommunityNotes(value: unknown[]): CommunityNoteItem[] {
+  const readString = (record: Record<string, unknown>, key: string) =>
+    typeof record[key] === 'string' ? (record[key] as string) : ''
+
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== 'object') return null
+      const note = entry as Record<string, unknown>
+      const noteId = readString(note, 'note_id')
+      if (!noteId) return null
+      return {
+        kind: note.kind === 'rating' ? 'rating' : 'note',
+        noteId,
+        tweetId: readString(note, 'tweet_id'),
+        createdAt: readString(note, 'created_at'),
+        summary: readString(note, 'summary'),
+        classification: readString(note, 'classification'),
+        helpfulness: readString(note, 'helpfulness'),
+      } satisfies CommunityNoteItem
+    })
+    .filter((note): note is CommunityNoteItem => Boolean(note))
+}
+
+type BroadcastItem = {
+  source: 'space' | 'periscope'
+  id: string
+  title: string
+  state: string
+  startedAt: string
+  endedAt: string
+  hostCount: number
+  speakerCount: number
+  participantCount: number
+  replayAvailable: boolean
+  replayUrl: string
+}
+
+function parseBroadcasts(value: unknown[]): BroadcastItem[] {
+  const readString = (record: Record<string, unknown>, key: string) =>
+    typeof record[key] === 'string' ? (record[key] as string) : ''
+
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== 'object') return null
+      const broadcast = entry as Record<string, unknown>
+      const id = readString(broadcast, 'broadcast_id')
+      if (!id) return null
+      return {
+        source: broadcast.source === 'periscope' ? 'periscope' : 'space',
+        id,
+        title: readString(broadcast, 'title'),
+        state: readString(broadcast, 'state'),
+        startedAt: readString(broadcast, 'started_at') || readString(broadcast, 'created_at'),
+        endedAt: readString(broadcast, 'ended_at'),
+        hostCount: Array.isArray(broadcast.host_user_ids) ? broadcast.host_user_ids.length : 0,
+        speakerCount: Array.isArray(broadcast.speaker_user_ids) ? broadcast.speaker_user_ids.length : 0,
+        participantCount: readNumberLike(broadcast.participant_count) || 0,
+        replayAvailable: broadcast.replay_available === true,
+        replayUrl: readString(broadcast, 'replay_url'),
+      } satisfies BroadcastItem
+    })
+    .filter((broadcast): broadcast is BroadcastItem => Boolean(broadcast))
+}
+
+function formatBroadcastDuration(startedAt: string, endedAt: string): string {
+  const minutes = Math.round((Date.parse(endedAt) - Date.parse(startedAt)) / 60000)
+  if (!Number.isFinite(minutes) || minutes <= 0) return ''
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+}
+
+// Archive enum values such as `NOT_HELPFUL` or `MisinformedOrPotentiallyMisleading` read better spaced out.
+function humanizeArchiveEnum(value: string): string {
+  return value
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/^\w/, (char) => char.toUpperCase())
+}
+
 function readNumberLike(value: unknown): number | null {
   if (typeof value === 'number' && Number.isFinite(value)) return value
   if (typeof value === 'string') {
@@ -340,30 +529,6 @@ function readNumberLike(value: unknown): number | null {
   return null
 }
 
-function getTweetPinnedRank(item: unknown): number | null {
-  if (!item || typeof item !== 'object') return null
-  const tweet = item as Record<string, unknown>
-  return readNumberLike(tweet.pinned_rank)
-}
-
-function isPinnedTweetItem(item: unknown): boolean {
-  if (!item || typeof item !== 'object') return false
-  const tweet = item as Record<string, unknown>
-  if (readBooleanLike(tweet.is_pinned)) return true
-  return getTweetPinnedRank(tweet) !== null
-}
-
-function isReplyTweetItem(item: unknown): boolean {
-  if (!item || typeof item !== 'object') return false
-  const tweet = item as Record<string, unknown>
-  return Boolean(
-    tweet.in_reply_to_status_id
-      || tweet.in_reply_to_status_id_str
-      || tweet.in_reply_to_user_id
-      || tweet.in_reply_to_user_id_str
-      || tweet.in_reply_to_screen_name,
-  )
-}
 
 function getTweetTimestamp(item: unknown): number {
   if (!item || typeof item !== 'object') return 0
@@ -374,26 +539,22 @@ function getTweetTimestamp(item: unknown): number {
   return Number.isFinite(parsed) ? parsed : 0
 }
 
-function sortPostsWithPinnedFirst(items: unknown[]): unknown[] {
+function getTweetDeletedTimestamp(item: unknown): number {
+  if (!item || typeof item !== 'object') return 0
+  const tweet = item as Record<string, unknown>
+  const raw = typeof tweet.deleted_at === 'string' ? tweet.deleted_at : ''
+  if (!raw) return getTweetTimestamp(item)
+  const parsed = new Date(raw).getTime()
+  return Number.isFinite(parsed) ? parsed : getTweetTimestamp(item)
+}
+
+function sortTweetsByNewestDeleted(items: unknown[]): unknown[] {
   return items
     .map((item, index) => ({ item, index }))
     .sort((a, b) => {
-      const aPinned = isPinnedTweetItem(a.item)
-      const bPinned = isPinnedTweetItem(b.item)
-      if (aPinned !== bPinned) return aPinned ? -1 : 1
-
-      if (aPinned && bPinned) {
-        const aRank = getTweetPinnedRank(a.item)
-        const bRank = getTweetPinnedRank(b.item)
-        if (aRank !== null && bRank !== null && aRank !== bRank) return aRank - bRank
-        if (aRank !== null && bRank === null) return -1
-        if (aRank === null && bRank !== null) return 1
-      }
-
-      const aTime = getTweetTimestamp(a.item)
-      const bTime = getTweetTimestamp(b.item)
+      const aTime = getTweetDeletedTimestamp(a.item)
+      const bTime = getTweetDeletedTimestamp(b.item)
       if (aTime !== bTime) return bTime - aTime
-
       return a.index - b.index
     })
     .map((entry) => entry.item)
@@ -414,6 +575,7 @@ function sortTweetsByNewest(items: unknown[]): unknown[] {
 export function BackupViewer({ backup }: BackupViewerProps) {
   const router = useRouter()
   const [activeTab, setActiveTab] = useState<Tab>('posts')
+  const [communityFilter, setCommunityFilter] = useState<string>('all')
   const [isDownloading, setIsDownloading] = useState(false)
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null)
   const [coverImageUrl, setCoverImageUrl] = useState<string | null>(null)
@@ -435,10 +597,25 @@ export function BackupViewer({ backup }: BackupViewerProps) {
   const [encryptedArchiveDownloadProgress, setEncryptedArchiveDownloadProgress] = useState(0)
   const [peopleViewOpen, setPeopleViewOpen] = useState(false)
   const [activePeopleTab, setActivePeopleTab] = useState<PeopleTab>('following')
+  const [timelineOrder, setTimelineOrder] = useState<'desc' | 'asc'>('desc')
   const profile = backup.data?.profile
+  // Tweets, replies, the social graph and chats are paged from /api/backups/content rather than shipped with the backup.
+  const postPages = useBackupContentPages(backup.id, 'posts', { enabled: true, order: timelineOrder })
+  const replyPages = useBackupContentPages(backup.id, 'replies', {
+    enabled: activeTab === 'replies' || activeTab === 'media',
+    order: timelineOrder,
+  })
+  const followerPages = useBackupContentPages(backup.id, 'followers', {
+    enabled: peopleViewOpen && activePeopleTab === 'followers',
+    order: 'asc',
+  })
+  const followingPages = useBackupContentPages(backup.id, 'following', {
+    enabled: peopleViewOpen && activePeopleTab === 'following',
+    order: 'asc',
+  })
   const tweetList = useMemo(
-    () => dedupeTweetItems(Array.isArray(backup.data?.tweets) ? backup.data.tweets : []),
-    [backup.data?.tweets],
+    () => dedupeTweetItems([...postPages.pinned, ...postPages.items]),
+    [postPages.items, postPages.pinned],
   )
 
   const firstTweetWithAvatar = useMemo(
@@ -674,28 +851,49 @@ export function BackupViewer({ backup }: BackupViewerProps) {
 
   const stats = backup.stats || backup.data?.stats || {}
   const tweets = tweetList
-  const replies = useMemo(
-    () => dedupeTweetItems(Array.isArray(backup.data?.replies) ? backup.data.replies : []),
-    [backup.data?.replies],
+  const replies = useMemo(() => dedupeTweetItems(replyPages.items), [replyPages.items])
+  const deletedTweets = useMemo(
+    () => dedupeTweetItems(Array.isArray(backup.data?.deleted_tweets) ? backup.data.deleted_tweets : []),
+    [backup.data?.deleted_tweets],
   )
-  const followers = useMemo(() => (Array.isArray(backup.data?.followers) ? backup.data.followers : []), [backup.data?.followers])
-  const following = useMemo(() => (Array.isArray(backup.data?.following) ? backup.data.following : []), [backup.data?.following])
+  const followers = followerPages.items
+  const following = followingPages.items
+  const blockedAccounts = useMemo(() => (Array.isArray(backup.data?.blocks) ? backup.data.blocks : []), [backup.data?.blocks])
+  const mutedAccounts = useMemo(() => (Array.isArray(backup.data?.mutes) ? backup.data.mutes : []), [backup.data?.mutes])
+  const backupLists = useMemo(() => parseBackupLists(Array.isArray(backup.data?.lists) ? backup.data.lists : []), [backup.data?.lists])
   const encryptedDirectMessagesPayload = useMemo<EncryptedDirectMessagesPayload | null>(
     () => normalizeEncryptedDirectMessagesPayload(backup.data?.encrypted_direct_messages),
     [backup.data?.encrypted_direct_messages],
   )
+  const grokChats = useMemo(() => (Array.isArray(backup.data?.grok_chats) ? backup.data.grok_chats : []), [backup.data?.grok_chats])
+  const encryptedGrokChatsPayload = useMemo<EncryptedDirectMessagesPayload | null>(
+    () => normalizeEncryptedDirectMessagesPayload(backup.data?.encrypted_grok_chats),
+    [backup.data?.encrypted_grok_chats],
+  )
+  const accountHistory = useMemo(
+    () => (Array.isArray(backup.data?.account_history) ? backup.data.account_history : []),
+    [backup.data?.account_history],
+  )
+  const encryptedAccountHistoryPayload = useMemo<EncryptedDirectMessagesPayload | null>(
+    () => normalizeEncryptedDirectMessagesPayload(backup.data?.encrypted_account_history),
+    [backup.data?.encrypted_account_history],
+  )
   const encryptedArchiveManifest = useMemo<EncryptedArchiveManifest | null>(
     () => normalizeEncryptedArchiveManifest(backup.data?.encrypted_archive),
     [backup.data?.encrypted_archive],
   )
   const hasEncryptedDirectMessages = Boolean(encryptedDirectMessagesPayload)
   const hasEncryptedArchive = Boolean(encryptedArchiveManifest)
+  // Encrypted chats are decrypted in the browser, so only plaintext conversations are paged from the server.
+  const conversationPages = useBackupContentPages(backup.id, 'conversations', {
+    enabled: viewMode === 'chat' && !hasEncryptedDirectMessages,
+  })
   const dms = useMemo(() => {
     if (hasEncryptedDirectMessages) {
       return decryptedDirectMessages || []
     }
-    return backup.data?.dms || backup.data?.direct_messages || []
-  }, [backup.data?.direct_messages, backup.data?.dms, decryptedDirectMessages, hasEncryptedDirectMessages])
+    return conversationPages.items
+  }, [conversationPages.items, decryptedDirectMessages, hasEncryptedDirectMessages])
   const chatsLocked = hasEncryptedDirectMessages && !decryptedDirectMessages
 
   const displayName =
@@ -705,6 +903,10 @@ export function BackupViewer({ backup }: BackupViewerProps) {
 
   const createdAt = backup.uploaded_at || backup.created_at
   const isArchiveBackup = isArchiveBackupRecord(backup)
+  const backupPlatform = inferBackupPlatform(backup)
+  // Deleted posts, communities, Grok, blocks and the like only exist in X archives; other archives
+  // rendered here (Mastodon) carry posts, media and the social graph.
+  const hasXArchiveSections = isArchiveBackup && backupPlatform === 'twitter'
   const partial = getBackupPartialDetails(backup)
   const partialSummaryText = partial.reasons.length > 0
     ? partial.reasons.map((reason) => formatPartialReasonLabel(reason)).join(' • ')
@@ -749,12 +951,27 @@ export function BackupViewer({ backup }: BackupViewerProps) {
     : hasSnapshotTargetConfig
       ? Boolean(scrapeTargets?.tweets || scrapeTargets?.replies)
       : true
+  const deletedTweetsIncluded = isArchiveBackup && Boolean(archiveImportSelection?.deleted_tweets)
+  const communityTweetsIncluded = isArchiveBackup && Boolean(archiveImportSelection?.community_tweets)
+  const momentsIncluded = isArchiveBackup && Boolean(archiveImportSelection?.moments)
+  const broadcastsIncluded = isArchiveBackup && Boolean(archiveImportSelection?.broadcasts)
+  const moments = useMemo(() => (Array.isArray(backup.data?.moments) ? backup.data.moments : []), [backup.data?.moments])
+  // Snapshots only carry lists when the run fetched them alongside followers/following.
+  const listsIncluded = isArchiveBackup
+    ? Boolean(archiveImportSelection?.lists)
+    : Array.isArray(backup.data?.lists)
+  const blocksIncluded = isArchiveBackup && Boolean(archiveImportSelection?.blocks)
+  const mutesIncluded = isArchiveBackup && Boolean(archiveImportSelection?.mutes)
   const chatsIncluded = isArchiveBackup
     ? hasEncryptedDirectMessages ||
       (hasArchiveImportSelection
         ? Boolean(archiveImportSelection?.direct_messages)
         : true)
     : false
+  const grokChatsIncluded =
+    isArchiveBackup && (Boolean(encryptedGrokChatsPayload) || Boolean(archiveImportSelection?.grok_chats))
+  const accountHistoryIncluded =
+    isArchiveBackup && (Boolean(encryptedAccountHistoryPayload) || Boolean(archiveImportSelection?.account_history))
   const plainArchivePath = (
     typeof backup.archive_file_path === 'string' && backup.archive_file_path.trim()
       ? backup.archive_file_path.trim()
@@ -773,28 +990,54 @@ export function BackupViewer({ backup }: BackupViewerProps) {
     optionalNumberValue(profile?.following_count) ??
     optionalNumberValue(profile?.following)
 
-  const postItems = useMemo(
-    () => sortPostsWithPinnedFirst(tweets.filter((tweet) => !isReplyTweetItem(tweet))),
-    [tweets],
+  // The content API already splits posts from replies and returns pinned posts ahead of the first page.
+  const postItems = tweets
+  const replyItems = replies
+  const deletedTweetItems = useMemo(() => sortTweetsByNewestDeleted(deletedTweets), [deletedTweets])
+  const communityTweetItems = useMemo(
+    () => sortTweetsByNewest(dedupeTweetItems(Array.isArray(backup.data?.community_tweets) ? backup.data.community_tweets : [])),
+    [backup.data?.community_tweets],
+  )
+  const communityNotes = useMemo(
+    () => parseCommunityNotes(Array.isArray(backup.data?.community_notes) ? backup.data.community_notes : []),
+    [backup.data?.community_notes],
+  )
+  const broadcasts = useMemo(
+    () => parseBroadcasts(Array.isArray(backup.data?.broadcasts) ? backup.data.broadcasts : []),
+    [backup.data?.broadcasts],
   )
-  const replyItems = useMemo(() => {
-    const source =
-      replies.length > 0
-        ? replies
-        : tweets.filter((tweet) => isReplyTweetItem(tweet))
-    return sortTweetsByNewest(source)
-  }, [replies, tweets])
-  const timelineMediaSource = useMemo(
-    () => (replies.length > 0 ? [...tweets, ...replies] : tweets),
-    [replies, tweets],
+  const communities = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const item of communityTweetItems) {
+      const communityId = (item as { community_id?: unknown }).community_id
+      if (typeof communityId !== 'string' || !communityId) continue
+      counts.set(communityId, (counts.get(communityId) || 0) + 1)
+    }
+    return Array.from(counts.entries())
+      .map(([id, count]) => ({ id, count }))
+      .sort((a, b) => b.count - a.count)
+  }, [communityTweetItems])
+  const filteredCommunityTweetItems = useMemo(
+    () =>
+      communityFilter === 'all'
+        ? communityTweetItems
+        : communityTweetItems.filter((item) => (item as { community_id?: unknown }).community_id === communityFilter),
+    [communityFilter, communityTweetItems],
   )
-  const postCount = numberValue(stats.tweets, postItems.length)
+  const timelineMediaSource = useMemo(() => [...tweets, ...replies], [replies, tweets])
+  const { loadMore: loadMorePosts } = postPages
+  const { loadMore: loadMoreReplies } = replyPages
+  const loadMoreTimelineMedia = useCallback(() => {
+    loadMorePosts()
+    loadMoreReplies()
+  }, [loadMorePosts, loadMoreReplies])
+  const postCount = numberValue(stats.tweets, postPages.total ?? postItems.length)
   const mediaCount = numberValue(stats.media_files)
   const dmCount = numberValue(stats.dms, dms.length)
-  const followersListCount = numberValue(stats.followers, followers.length)
-  const followingListCount = numberValue(stats.following, following.length)
-  const followersRetrievedCount = followers.length
-  const followingRetrievedCount = following.length
+  const followersRetrievedCount = followerPages.total ?? followers.length
+  const followingRetrievedCount = followingPages.total ?? following.length
+  const followersListCount = numberValue(stats.followers, followersRetrievedCount)
+  const followingListCount = numberValue(stats.following, followingRetrievedCount)
   const followersCount = followersIncluded
     ? Math.max(followersListCount, profileFollowersCount || 0)
     : profileFollowersCount
@@ -815,7 +1058,10 @@ export function BackupViewer({ backup }: BackupViewerProps) {
     return `Snapshot @${username}`
   }, [isArchiveBackup, username])
 
-  const replyCount = numberValue(stats.replies, replyItems.length)
+  const replyCount = numberValue(stats.replies, replyPages.total ?? replyItems.length)
+  const deletedTweetCount = numberValue(stats.deleted_tweets, deletedTweetItems.length)
+  const grokMessageCount = numberValue(stats.grok_chats)
+  const accountHistoryCount = numberValue(stats.account_history)
   const formatCount = (value: number | null) => (value === null ? 'N/A' : value.toLocaleString())
   const summaryEntries: Array<{ label: string; value: string; valueClass?: string }> = [
     { label: 'Backup type', value: methodLabel },
@@ -823,9 +1069,38 @@ export function BackupViewer({ backup }: BackupViewerProps) {
     { label: 'Posts', value: postsIncluded ? postCount.toLocaleString() : 'Not included' },
     { label: 'Replies', value: repliesIncluded ? replyCount.toLocaleString() : 'Not included' },
     { label: 'Media', value: mediaIncluded ? mediaCount.toLocaleString() : 'Not included' },
+    ...(hasXArchiveSections
+      ? [
+          { label: 'Deleted', value: deletedTweetsIncluded ? deletedTweetCount.toLocaleString() : 'Not included' },
+          {
+            label: 'Community posts',
+            value: communityTweetsIncluded ? communityTweetItems.length.toLocaleString() : 'Not included',
+          },
+          { label: 'Moments', value: momentsIncluded ? moments.length.toLocaleString() : 'Not included' },
+          { label: 'Broadcasts', value: broadcastsIncluded ? broadcasts.length.toLocaleString() : 'Not included' },
+        ]
+      : []),
     { label: 'Chats', value: chatsIncluded ? dmCount.toLocaleString() : 'Not included' },
+    ...(hasXArchiveSections
+      ? [
+          { label: 'Grok', value: grokChatsIncluded ? grokMessageCount.toLocaleString() : 'Not included' },
+          { label: 'Account history', value: accountHistoryIncluded ? accountHistoryCount.toLocaleString() : 'Not included' },
+        ]
+      : []),
     { label: 'Followers', value: followersIncluded ? formatCount(followersCount) : 'Not included' },
     { label: 'Following', value: followingIncluded ? formatCount(followingCount) : 'Not included' },
+    ...(backupPlatform === 'mastodon'
+      ? [
+          { label: 'Favourites', value: numberValue(stats.likes).toLocaleString() },
+          { label: 'Bookmarks', value: numberValue(stats.bookmarks).toLocaleString() },
+        ]
+      : []),
+    ...(hasXArchiveSections
+      ? [
+          { label: 'Blocked', value: blocksIncluded ? blockedAccounts.length.toLocaleString() : 'Not included' },
+          { label: 'Muted', value: mutesIncluded ? mutedAccounts.length.toLocaleString() : 'Not included' },
+        ]
+      : []),
   ] as const
 
   const profileMediaItems = useMemo(() => {
@@ -860,8 +1135,11 @@ export function BackupViewer({ backup }: BackupViewerProps) {
         const normalizedMediaUrlHttps = normalizeMediaAssetUrl(mediaUrlHttpsRaw)
         const normalizedShortUrl = typeof mediaItem.url === 'string' ? decodeMediaUrl(mediaItem.url) : undefined
         const derivedGifVideo = type === 'animated_gif' ? deriveGifVideoUrl(normalizedMediaUrlHttps || normalizedMediaUrl) : null
+        // Media stored by the shared archive importers only carries the stored file's URL.
+        const archiveMediaUrl = typeof mediaItem.archive_path === 'string' ? normalizeMediaAssetUrl(mediaItem.url as string | undefined) : null
 
         let mediaUrlRaw =
+          archiveMediaUrl ||
           (type === 'photo'
             ? normalizedMediaUrlHttps || normalizedMediaUrl
             : (isLikelyVideoUrl(normalizedMediaUrl) ? normalizedMediaUrl : null) ||
@@ -935,6 +1213,7 @@ export function BackupViewer({ backup }: BackupViewerProps) {
           replies: numberValue(tweet.reply_count, 0),
           reposts: numberValue(tweet.retweet_count, 0),
           views: numberValue(tweet.view_count, numberValue(tweet.views, 0)),
+          contentWarning: typeof tweet.content_warning === 'string' && tweet.content_warning ? tweet.content_warning : null,
         })
       })
     }
@@ -946,12 +1225,35 @@ export function BackupViewer({ backup }: BackupViewerProps) {
     { id: 'posts' as Tab, label: 'Posts' },
     { id: 'replies' as Tab, label: 'Replies' },
     { id: 'media' as Tab, label: 'Media' },
+    ...(hasXArchiveSections
+      ? [
+          { id: 'deleted' as Tab, label: 'Deleted' },
+          { id: 'communities' as Tab, label: 'Communities' },
+          { id: 'broadcasts' as Tab, label: 'Broadcasts' },
+        ]
+      : []),
   ]
-
-  const followersList = followers
-  const followingList = following
-  const currentPeopleList = activePeopleTab === 'followers' ? followersList : followingList
-  const activePeopleTabIncluded = activePeopleTab === 'followers' ? followersIncluded : followingIncluded
+  const tabGridClass = tabs.length === 6 ? 'grid-cols-6' : 'grid-cols-3'
+
+  const peopleTabs = [
+    { id: 'followers' as PeopleTab, label: 'Followers', noun: 'followers', included: followersIncluded, people: followers },
+    { id: 'following' as PeopleTab, label: 'Following', noun: 'following', included: followingIncluded, people: following },
+    { id: 'lists' as PeopleTab, label: 'Lists', noun: 'lists', included: listsIncluded, people: [] as unknown[] },
+    // Blocks and mutes only exist in archive exports; snapshots cannot read them.
+    ...(hasXArchiveSections
+      ? [
+          { id: 'blocks' as PeopleTab, label: 'Blocked', noun: 'blocked accounts', included: blocksIncluded, people: blockedAccounts },
+          { id: 'mutes' as PeopleTab, label: 'Muted', noun: 'muted accounts', included: mutesIncluded, people: mutedAccounts },
+        ]
+      : []),
+  ]
+  const peopleTabGridClass = peopleTabs.length === 5 ? 'grid-cols-5' : 'grid-cols-3'
+  const activePeopleTabConfig = peopleTabs.find((tab) => tab.id === activePeopleTab) || peopleTabs[0]
+  const currentPeopleList = activePeopleTabConfig.people
+  const activePeoplePages =
+    activePeopleTab === 'followers' ? followerPages : activePeopleTab === 'following' ? followingPages : null
+  const activePeopleTabIncluded = activePeopleTabConfig.included
+  const isSafetyPeopleTab = activePeopleTab === 'blocks' || activePeopleTab === 'mutes'
 
   const normalizedDmList = useMemo(() => {
     if (Array.isArray(dms)) return dms
@@ -1126,6 +1428,13 @@ export function BackupViewer({ backup }: BackupViewerProps) {
     setPeopleViewOpen(true)
   }
 
+  const handleExportBlockList = () => {
+    const csv = buildBlockListCsv(currentPeopleList)
+    if (!csv) return
+    const suffix = activePeopleTab === 'mutes' ? 'muted' : 'blocked'
+    downloadBlobToDisk(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${username || 'x'}-${suffix}-accounts.csv`)
+  }
+
   const handleUnlockChats = async () => {
     if (!encryptedDirectMessagesPayload) return
     if (!dmUnlockSecret.trim()) {
@@ -1190,7 +1499,9 @@ export function BackupViewer({ backup }: BackupViewerProps) {
       (username ? `@${username}` : formatArchiveUserLabel(userId))
     const bio = (p.bio as string | undefined) || (p.description as string | undefined) || ''
     const avatar = (p.profileImageUrl as string | undefined) || (p.profile_image_url_https as string | undefined) || null
-    const profileUrl = username ? `https://x.com/${username}` : userId ? `https://twitter.com/intent/user?user_id=${userId}` : '#'
+    const profileUrl =
+      (p.profile_url as string | undefined) ||
+      (username ? `https://x.com/${username}` : userId ? `https://twitter.com/intent/user?user_id=${userId}` : '#')
     return { name, username, bio, avatar, userId, profileUrl }
   }
 
@@ -1241,8 +1552,32 @@ export function BackupViewer({ backup }: BackupViewerProps) {
               <div className="pt-3">
                 <button
                   type="button"
-                  onClick={() => setViewMode('chat')}
+                  onClick={() => setViewMode('search')}
                   className={`flex w-full items-center gap-3 rounded-full px-4 py-3 text-[15px] font-medium text-white transition hover:bg-white/10 ${
+                    viewMode === 'search' ? 'bg-white/10' : ''
+                  }`}
+                >
+                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M21 21l-4.35-4.35M10.5 18a7.5 7.5 0 100-15 7.5 7.5 0 000 15z" />
+                  </svg>
+                  Search
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setViewMode('compare')}
+                  className={`mt-1 flex w-full items-center gap-3 rounded-full px-4 py-3 text-[15px] font-medium text-white transition hover:bg-white/10 ${
+                    viewMode === 'compare' ? 'bg-white/10' : ''
+                  }`}
+                >
+                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" />
+                  </svg>
+                  Compare
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setViewMode('chat')}
+                  className={`mt-1 flex w-full items-center gap-3 rounded-full px-4 py-3 text-[15px] font-medium text-white transition hover:bg-white/10 ${
                     viewMode === 'chat' ? 'bg-white/10' : ''
                   }`}
                 >
@@ -1251,11 +1586,53 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                   </svg>
                   Chat
                 </button>
+                {hasXArchiveSections && (
+                  <button
+                    type="button"
+                    onClick={() => setViewMode('grok')}
+                    className={`mt-1 flex w-full items-center gap-3 rounded-full px-4 py-3 text-[15px] font-medium text-white transition hover:bg-white/10 ${
+                      viewMode === 'grok' ? 'bg-white/10' : ''
+                    }`}
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M9.75 3.1v5.72a2.25 2.25 0 01-.66 1.59L4.5 15M9.75 3.1a24.3 24.3 0 014.5 0m-4.5 0c-.25.02-.5.05-.75.08m5.25-.08v5.72c0 .6.24 1.17.66 1.59L19.8 15.3M14.25 3.1c.25.02.5.05.75.08M19.8 15.3l-1.57.39a9.07 9.07 0 01-6.23-.69 9.07 9.07 0 00-6.23-.69l-.77.19m14.8.8l1.4 1.4c1.23 1.23.65 3.32-1.07 3.6A48.3 48.3 0 0112 21a48.3 48.3 0 01-8.14-.69c-1.72-.28-2.3-2.37-1.07-3.6L5 15.3" />
+                    </svg>
+                    Grok
+                  </button>
+                )}
+                {hasXArchiveSections && (
+                  <button
+                    type="button"
+                    onClick={() => setViewMode('account')}
+                    className={`mt-1 flex w-full items-center gap-3 rounded-full px-4 py-3 text-[15px] font-medium text-white transition hover:bg-white/10 ${
+                      viewMode === 'account' ? 'bg-white/10' : ''
+                    }`}
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    Account history
+                  </button>
+                )}
+                {hasXArchiveSections && (
+                  <button
+                    type="button"
+                    onClick={() => setViewMode('moments')}
+                    className={`mt-1 flex w-full items-center gap-3 rounded-full px-4 py-3 text-[15px] font-medium text-white transition hover:bg-white/10 ${
+                      viewMode === 'moments' ? 'bg-white/10' : ''
+                    }`}
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                    </svg>
+                    Moments
+                  </button>
+                )}
               </div>
             </div>
           </aside>
 
-          <main className={`min-w-0 border-r border-white/10 ${viewMode === 'chat' ? 'xl:col-span-2' : ''}`}>
+          <main className={`min-w-0 border-r border-white/10 ${viewMode !== 'profile' ? 'xl:col-span-2' : ''}`}>
             {viewMode === 'chat' ? (
               <div className="grid h-screen grid-cols-1 md:grid-cols-[340px_minmax(0,1fr)]">
                 <aside className="border-r border-white/10">
@@ -1349,37 +1726,53 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                         </div>
                       </div>
                     ) : filteredDmConversations.length > 0 ? (
-                      filteredDmConversations.map((conversation) => {
-                        const lastMessage = conversation.messages[conversation.messages.length - 1]
-                        return (
-                          <button
-                            key={conversation.id}
-                            type="button"
-                            onClick={() => setSelectedConversationId(conversation.id)}
-                            className={`w-full border-b border-white/10 px-4 py-4 text-left transition hover:bg-white/5 ${
-                              selectedConversation?.id === conversation.id ? 'bg-white/10' : ''
-                            }`}
-                          >
-                            <div className="flex items-start gap-3">
-                              <div className="h-12 w-12 flex-shrink-0 rounded-full bg-gray-700" />
-                              <div className="min-w-0 flex-1">
-                                <div className="flex items-baseline justify-between gap-2">
-                                  <p className="truncate text-lg font-semibold text-white">{conversation.participantName}</p>
-                                  <span className="text-xs text-gray-500">
-                                    {lastMessage?.createdAt
-                                      ? new Date(lastMessage.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-                                      : ''}
-                                  </span>
+                      <>
+                        {filteredDmConversations.map((conversation) => {
+                          const lastMessage = conversation.messages[conversation.messages.length - 1]
+                          return (
+                            <button
+                              key={conversation.id}
+                              type="button"
+                              onClick={() => setSelectedConversationId(conversation.id)}
+                              className={`w-full border-b border-white/10 px-4 py-4 text-left transition hover:bg-white/5 ${
+                                selectedConversation?.id === conversation.id ? 'bg-white/10' : ''
+                              }`}
+                            >
+                              <div className="flex items-start gap-3">
+                                <div className="h-12 w-12 flex-shrink-0 rounded-full bg-gray-700" />
+                                <div className="min-w-0 flex-1">
+                                  <div className="flex items-baseline justify-between gap-2">
+                                    <p className="truncate text-lg font-semibold text-white">{conversation.participantName}</p>
+                                    <span className="text-xs text-gray-500">
+                                      {lastMessage?.createdAt
+                                        ? new Date(lastMessage.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                                        : ''}
+                                    </span>
+                                  </div>
+                                  <p className="mt-0.5 truncate text-sm text-gray-400" title={conversation.participantId ? `id:${conversation.participantId}` : undefined}>
+                                    {conversation.participantId ? `id:${formatCompactUserId(conversation.participantId)}` : 'id:unknown'}
+                                  </p>
+                                  <p className="mt-1 truncate text-sm text-gray-500">{lastMessage?.text || 'Media'}</p>
                                 </div>
-                                <p className="mt-0.5 truncate text-sm text-gray-400" title={conversation.participantId ? `id:${conversation.participantId}` : undefined}>
-                                  {conversation.participantId ? `id:${formatCompactUserId(conversation.participantId)}` : 'id:unknown'}
-                                </p>
-                                <p className="mt-1 truncate text-sm text-gray-500">{lastMessage?.text || 'Media'}</p>
                               </div>
-                            </div>
-                          </button>
-                        )
-                      })
+                            </button>
+                          )
+                        })}
+                        {!hasEncryptedDirectMessages && (
+                          <LoadMoreSentinel
+                            hasMore={conversationPages.hasMore}
+                            loading={conversationPages.loading}
+                            error={conversationPages.error}
+                            onLoadMore={conversationPages.loadMore}
+                          />
+                        )}
+                      </>
+                    ) : !hasEncryptedDirectMessages && conversationPages.loading ? (
+                      <div className="p-6 text-center text-gray-500">Loading…</div>
+                    ) : !hasEncryptedDirectMessages && conversationPages.hasMore ? (
+                      <LoadMoreSentinel hasMore loading={false} onLoadMore={conversationPages.loadMore} />
+                    ) : !hasEncryptedDirectMessages && conversationPages.error ? (
+                      <div className="p-6 text-center text-red-300">{conversationPages.error}</div>
                     ) : (
                       <div className="p-6 text-center text-gray-500">No conversations found.</div>
                     )}
@@ -1445,6 +1838,33 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                   )}
                 </section>
               </div>
+            ) : viewMode === 'grok' ? (
+              <GrokChatPane
+                backupId={backup.id}
+                chats={grokChats}
+                encryptedPayload={encryptedGrokChatsPayload}
+                included={grokChatsIncluded}
+                onBack={() => setViewMode('profile')}
+              />
+            ) : viewMode === 'account' ? (
+              <AccountHistoryPane
+                backupId={backup.id}
+                events={accountHistory}
+                encryptedPayload={encryptedAccountHistoryPayload}
+                included={accountHistoryIncluded}
+                onBack={() => setViewMode('profile')}
+              />
+            ) : viewMode === 'moments' ? (
+              <MomentsPane
+                key={backup.id}
+                moments={moments}
+                included={momentsIncluded}
+                onBack={() => setViewMode('profile')}
+              />
+            ) : viewMode === 'search' ? (
+              <SearchPane currentBackupId={backup.id} onBack={() => setViewMode('profile')} />
+            ) : viewMode === 'compare' ? (
+              <ComparePane key={backup.id} backupId={backup.id} onBack={() => setViewMode('profile')} />
             ) : (
             <>
             <header className="sticky top-0 z-20 border-b border-white/10 bg-black/95 px-4 py-2 backdrop-blur sm:px-5">
@@ -1466,14 +1886,46 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                     </p>
                   </div>
                 </div>
-                <button
-                  type="button"
-                  onClick={() => setViewMode('chat')}
-                  disabled={!chatsIncluded}
-                  className="rounded-full border border-white/15 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50 md:hidden"
-                >
-                  Chats
-                </button>
+                <div className="flex items-center gap-2 md:hidden">
+                  <button
+                    type="button"
+                    onClick={() => setViewMode('chat')}
+                    disabled={!chatsIncluded}
+                    className="rounded-full border border-white/15 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Chats
+                  </button>
+                  {hasXArchiveSections && (
+                    <button
+                      type="button"
+                      onClick={() => setViewMode('grok')}
+                      disabled={!grokChatsIncluded}
+                      className="rounded-full border border-white/15 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Grok
+                    </button>
+                  )}
+                  {hasXArchiveSections && (
+                    <button
+                      type="button"
+                      onClick={() => setViewMode('account')}
+                      disabled={!accountHistoryIncluded}
+                      className="rounded-full border border-white/15 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      History
+                    </button>
+                  )}
+                  {hasXArchiveSections && (
+                    <button
+                      type="button"
+                      onClick={() => setViewMode('moments')}
+                      disabled={!momentsIncluded}
+                      className="rounded-full border border-white/15 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Moments
+                    </button>
+                  )}
+                </div>
               </div>
             </header>
 
@@ -1515,6 +1967,15 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                 >
                   <strong className="font-semibold text-white">{formatCount(followersCount)}</strong> Followers
                 </button>
+                {listsIncluded && (
+                  <button
+                    type="button"
+                    onClick={() => openPeople('lists')}
+                    className="transition hover:text-white"
+                  >
+                    <strong className="font-semibold text-white">{backupLists.length.toLocaleString()}</strong> Lists
+                  </button>
+                )}
               </div>
               {partial.isPartial && (
                 <div
@@ -1627,7 +2088,7 @@ export function BackupViewer({ backup }: BackupViewerProps) {
             </section>
 
             <div className="sticky top-[52px] z-10 border-y border-white/10 bg-black/95 backdrop-blur">
-              <div className="grid grid-cols-3">
+              <div className={`grid ${tabGridClass}`}>
                 {tabs.map((tab) => (
                   <button
                     key={tab.id}
@@ -1650,20 +2111,52 @@ export function BackupViewer({ backup }: BackupViewerProps) {
             </div>
 
             <section>
+              {(activeTab === 'posts' || activeTab === 'replies') && (activeTab === 'posts' ? postsIncluded : repliesIncluded) && (
+                <div className="flex justify-end gap-2 border-b border-white/10 px-4 py-3">
+                  {[
+                    { id: 'desc' as const, label: 'Newest first' },
+                    { id: 'asc' as const, label: 'Oldest first' },
+                  ].map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => setTimelineOrder(option.id)}
+                      className={`rounded-full px-3 py-1.5 text-xs font-semibold ${
+                        timelineOrder === option.id
+                          ? 'bg-white text-black'
+                          : 'border border-white/15 text-gray-300 hover:bg-white/10'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {activeTab === 'posts' && (
                 <div className="divide-y divide-white/10">
                   {!postsIncluded ? (
                     <div className="p-10 text-center text-gray-400">Posts were not included in this snapshot.</div>
-                  ) : postItems.length > 0 ? (
-                    postItems.map((tweet, index: number) => (
-                      <TweetCard
-                        key={(tweet as { id?: string })?.id || index}
-                        tweet={tweet as Parameters<typeof TweetCard>[0]['tweet']}
-                        ownerProfileImageUrl={profileImageUrl}
-                        ownerUsername={username}
-                        ownerDisplayName={displayName}
+                  ) : postItems.length > 0 || postPages.loading ? (
+                    <>
+                      {postItems.map((tweet, index: number) => (
+                        <TweetCard
+                          key={(tweet as { id?: string })?.id || index}
+                          tweet={tweet as Parameters<typeof TweetCard>[0]['tweet']}
+                          ownerProfileImageUrl={profileImageUrl}
+                          ownerUsername={username}
+                          ownerDisplayName={displayName}
+                        />
+                      ))}
+                      <LoadMoreSentinel
+                        hasMore={postPages.hasMore}
+                        loading={postPages.loading}
+                        error={postPages.error}
+                        onLoadMore={postPages.loadMore}
                       />
-                    ))
+                    </>
+                  ) : postPages.error ? (
+                    <div className="p-10 text-center text-red-300">{postPages.error}</div>
                   ) : (
                     <div className="p-10 text-center text-gray-400">No posts found in this backup.</div>
                   )}
@@ -1684,7 +2177,7 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                           <button
                             type="button"
                             onClick={() => setSelectedMediaIndex(index)}
-                            className="h-full w-full text-left"
+                            className={`h-full w-full text-left ${media.contentWarning ? 'blur-xl' : ''}`}
                           >
                             {media.type === 'photo' ? (
                               <Image
@@ -1742,6 +2235,12 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                             )}
                           </button>
 
+                          {media.contentWarning ? (
+                            <div className="pointer-events-none absolute inset-x-2 bottom-2 truncate rounded-md bg-black/75 px-2 py-0.5 text-xs font-semibold text-white">
+                              CW: {media.contentWarning}
+                            </div>
+                          ) : null}
+
                           {media.tweetUrl ? (
                             <a
                               href={media.tweetUrl}
@@ -1756,7 +2255,16 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                         </div>
                       ))}
                       </div>
+                      <LoadMoreSentinel
+                        hasMore={postPages.hasMore || replyPages.hasMore}
+                        loading={postPages.loading || replyPages.loading}
+                        onLoadMore={loadMoreTimelineMedia}
+                      />
                     </div>
+                  ) : postPages.loading || replyPages.loading ? (
+                    <div className="p-10 text-center text-gray-500">Loading…</div>
+                  ) : postPages.hasMore || replyPages.hasMore ? (
+                    <LoadMoreSentinel hasMore loading={false} onLoadMore={loadMoreTimelineMedia} />
                   ) : (
                     <div className="p-10 text-center text-gray-400">No photos or videos found in this backup.</div>
                   )}
@@ -1767,8 +2275,38 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                 <div className="divide-y divide-white/10">
                   {!repliesIncluded ? (
                     <div className="p-10 text-center text-gray-400">Replies were not included in this snapshot.</div>
-                  ) : replyItems.length > 0 ? (
-                    replyItems.map((tweet, index: number) => (
+                  ) : replyItems.length > 0 || replyPages.loading ? (
+                    <>
+                      {replyItems.map((tweet, index: number) => (
+                        <TweetCard
+                          key={(tweet as { id?: string })?.id || index}
+                          tweet={tweet as Parameters<typeof TweetCard>[0]['tweet']}
+                          ownerProfileImageUrl={profileImageUrl}
+                          ownerUsername={username}
+                          ownerDisplayName={displayName}
+                        />
+                      ))}
+                      <LoadMoreSentinel
+                        hasMore={replyPages.hasMore}
+                        loading={replyPages.loading}
+                        error={replyPages.error}
+                        onLoadMore={replyPages.loadMore}
+                      />
+                    </>
+                  ) : replyPages.error ? (
+                    <div className="p-10 text-center text-red-300">{replyPages.error}</div>
+                  ) : (
+                    <div className="p-10 text-center text-gray-400">No replies found in this backup.</div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'deleted' && (
+                <div className="divide-y divide-white/10">
+                  {!deletedTweetsIncluded ? (
+                    <div className="p-10 text-center text-gray-400">Deleted tweets were not included in this backup.</div>
+                  ) : deletedTweetItems.length > 0 ? (
+                    deletedTweetItems.map((tweet, index: number) => (
                       <TweetCard
                         key={(tweet as { id?: string })?.id || index}
                         tweet={tweet as Parameters<typeof TweetCard>[0]['tweet']}
@@ -1778,7 +2316,159 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                       />
                     ))
                   ) : (
-                    <div className="p-10 text-center text-gray-400">No replies found in this backup.</div>
+                    <div className="p-10 text-center text-gray-400">No deleted tweets found in this backup.</div>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'communities' && (
+                <div>
+                  {!communityTweetsIncluded ? (
+                    <div className="p-10 text-center text-gray-400">Community posts were not included in this backup.</div>
+                  ) : (
+                    <>
+                      {(communities.length > 0 || communityNotes.length > 0) && (
+                        <div className="flex flex-wrap gap-2 border-b border-white/10 px-4 py-3">
+                          {[
+                            { id: 'all', label: `All (${communityTweetItems.length.toLocaleString()})` },
+                            ...communities.map((community) => ({
+                              id: community.id,
+                              label: `Community ${formatCompactUserId(community.id)} (${community.count.toLocaleString()})`,
+                            })),
+                            ...(communityNotes.length > 0
+                              ? [{ id: 'notes', label: `Community Notes (${communityNotes.length.toLocaleString()})` }]
+                              : []),
+                          ].map((option) => (
+                            <button
+                              key={option.id}
+                              type="button"
+                              onClick={() => setCommunityFilter(option.id)}
+                              className={`rounded-full px-3 py-1.5 text-xs font-semibold ${
+                                communityFilter === option.id
+                                  ? 'bg-white text-black'
+                                  : 'border border-white/15 text-gray-300 hover:bg-white/10'
+                              }`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {communityFilter !== 'all' && communityFilter !== 'notes' && (
+                        <a
+                          href={`https://x.com/i/communities/${communityFilter}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 border-b border-white/10 px-4 py-3 text-sm text-sky-400 hover:bg-white/5"
+                        >
+                          Open community on X <ExternalLink size={14} />
+                        </a>
+                      )}
+
+                      <div className="divide-y divide-white/10">
+                        {communityFilter === 'notes' ? (
+                          communityNotes.map((note) => (
+                            <div key={`${note.kind}-${note.noteId}`} className="px-4 py-4">
+                              <div className="flex items-baseline justify-between gap-3">
+                                <p className="text-sm font-semibold text-white">
+                                  {note.kind === 'note' ? 'Wrote a Community Note' : 'Rated a Community Note'}
+                                </p>
+                                <span className="flex-shrink-0 text-xs text-gray-500">
+                                  {note.createdAt ? new Date(note.createdAt).toLocaleDateString() : ''}
+                                </span>
+                              </div>
+                              {note.summary && <p className="mt-2 whitespace-pre-wrap break-words text-[15px] text-gray-200">{note.summary}</p>}
+                              <p className="mt-2 text-xs text-gray-500">
+                                {[
+                                  note.classification ? humanizeArchiveEnum(note.classification) : null,
+                                  note.helpfulness ? humanizeArchiveEnum(note.helpfulness) : null,
+                                ]
+                                  .filter(Boolean)
+                                  .join(' · ')}
+                              </p>
+                              <div className="mt-2 flex gap-4 text-xs">
+                                <a
+                                  href={`https://x.com/i/birdwatch/n/${note.noteId}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-sky-400 hover:underline"
+                                >
+                                  View note
+                                </a>
+                                {note.tweetId && (
+                                  <a
+                                    href={`https://x.com/i/status/${note.tweetId}`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-sky-400 hover:underline"
+                                  >
+                                    View post
+                                  </a>
+                                )}
+                              </div>
+                            </div>
+                          ))
+                        ) : filteredCommunityTweetItems.length > 0 ? (
+                          filteredCommunityTweetItems.map((tweet, index: number) => (
+                            <TweetCard
+                              key={(tweet as { id?: string })?.id || index}
+                              tweet={tweet as Parameters<typeof TweetCard>[0]['tweet']}
+                              ownerProfileImageUrl={profileImageUrl}
+                              ownerUsername={username}
+                              ownerDisplayName={displayName}
+                            />
+                          ))
+                        ) : (
+                          <div className="p-10 text-center text-gray-400">No community posts found in this backup.</div>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {activeTab === 'broadcasts' && (
+                <div className="divide-y divide-white/10">
+                  {!broadcastsIncluded ? (
+                    <div className="p-10 text-center text-gray-400">Spaces and broadcasts were not included in this backup.</div>
+                  ) : broadcasts.length > 0 ? (
+                    broadcasts.map((broadcast) => (
+                      <div key={`${broadcast.source}-${broadcast.id}`} className="px-4 py-4">
+                        <div className="flex items-baseline justify-between gap-3">
+                          <p className="min-w-0 truncate text-[15px] font-semibold text-white">
+                            {broadcast.title || (broadcast.source === 'space' ? 'Untitled Space' : 'Untitled broadcast')}
+                          </p>
+                          <span className="flex-shrink-0 text-xs text-gray-500">
+                            {broadcast.startedAt ? new Date(broadcast.startedAt).toLocaleString() : ''}
+                          </span>
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">
+                          {[
+                            broadcast.source === 'space' ? 'Space' : 'Periscope',
+                            broadcast.state ? humanizeArchiveEnum(broadcast.state) : null,
+                            formatBroadcastDuration(broadcast.startedAt, broadcast.endedAt) || null,
+                            broadcast.hostCount > 0 ? `${broadcast.hostCount.toLocaleString()} host${broadcast.hostCount === 1 ? '' : 's'}` : null,
+                            broadcast.speakerCount > 0 ? `${broadcast.speakerCount.toLocaleString()} speaker${broadcast.speakerCount === 1 ? '' : 's'}` : null,
+                            broadcast.participantCount > 0 ? `${broadcast.participantCount.toLocaleString()} listener${broadcast.participantCount === 1 ? '' : 's'}` : null,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </p>
+                        {broadcast.replayUrl && (
+                          <a
+                            href={broadcast.replayUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="mt-2 inline-flex items-center gap-1 text-xs text-sky-400 hover:underline"
+                          >
+                            {broadcast.replayAvailable ? 'Play replay on X' : 'Open on X'} <ExternalLink size={12} />
+                          </a>
+                        )}
+                      </div>
+                    ))
+                  ) : (
+                    <div className="p-10 text-center text-gray-400">No Spaces or broadcasts found in this backup.</div>
                   )}
                 </div>
               )}
@@ -2071,27 +2761,20 @@ export function BackupViewer({ backup }: BackupViewerProps) {
               </div>
             </header>
 
-            <div className="grid grid-cols-2 border-b border-white/10">
-              <button
-                type="button"
-                onClick={() => setActivePeopleTab('followers')}
-                className={`relative px-2 py-4 text-center text-lg font-semibold ${
-                  activePeopleTab === 'followers' ? 'text-white' : 'text-gray-500'
-                }`}
-              >
-                Followers
-                {activePeopleTab === 'followers' && <span className="absolute bottom-0 left-1/2 h-1 w-28 -translate-x-1/2 rounded-full bg-sky-500" />}
-              </button>
-              <button
-                type="button"
-                onClick={() => setActivePeopleTab('following')}
-                className={`relative px-2 py-4 text-center text-lg font-semibold ${
-                  activePeopleTab === 'following' ? 'text-white' : 'text-gray-500'
-                }`}
-              >
-                Following
-                {activePeopleTab === 'following' && <span className="absolute bottom-0 left-1/2 h-1 w-28 -translate-x-1/2 rounded-full bg-sky-500" />}
-              </button>
+            <div className={`grid ${peopleTabGridClass} border-b border-white/10`}>
+              {peopleTabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  type="button"
+                  onClick={() => setActivePeopleTab(tab.id)}
+                  className={`relative px-2 py-4 text-center text-lg font-semibold ${
+                    activePeopleTab === tab.id ? 'text-white' : 'text-gray-500'
+                  }`}
+                >
+                  {tab.label}
+                  {activePeopleTab === tab.id && <span className="absolute bottom-0 left-1/2 h-1 w-20 -translate-x-1/2 rounded-full bg-sky-500" />}
+                </button>
+              ))}
             </div>
 
             <div className="flex-1 overflow-y-auto">
@@ -2105,57 +2788,135 @@ export function BackupViewer({ backup }: BackupViewerProps) {
                   Showing {followingRetrievedCount.toLocaleString()} of {followingCount?.toLocaleString()} following. Some accounts were unavailable from the source API.
                 </div>
               )}
+              {activePeopleTabIncluded && isSafetyPeopleTab && currentPeopleList.length > 0 && (
+                <div className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3 text-sm text-gray-400">
+                  <span>Export account IDs to restore these {activePeopleTabConfig.noun} with a block-list tool.</span>
+                  <button
+                    type="button"
+                    onClick={handleExportBlockList}
+                    className="flex-shrink-0 rounded-full border border-white/20 px-4 py-1.5 font-semibold text-white hover:bg-white/10"
+                  >
+                    Export CSV
+                  </button>
+                </div>
+              )}
               {!activePeopleTabIncluded ? (
                 <div className="p-8 text-center text-lg text-gray-400">
                   {activePeopleTab === 'following'
                     ? 'Following list was not included in this snapshot.'
-                    : 'Followers list was not included in this snapshot.'}
+                    : activePeopleTab === 'followers'
+                      ? 'Followers list was not included in this snapshot.'
+                      : activePeopleTab === 'lists'
+                        ? 'Lists were not included in this backup.'
+                        : `${activePeopleTabConfig.label} accounts were not included in this backup.`}
                 </div>
-              ) : currentPeopleList.length > 0 ? (
-                currentPeopleList.map((person, index) => {
-                  const p = personDisplay(person)
-                  const actionLabel = activePeopleTab === 'following' ? 'Following' : 'Follow'
-                  return (
+              ) : activePeopleTab === 'lists' ? (
+                backupLists.length > 0 ? (
+                  backupLists.map((list) => (
                     <a
-                      key={`${p.username || p.userId || p.name}-${index}`}
-                      href={p.profileUrl}
+                      key={`${list.relationship}-${list.id}`}
+                      href={list.url}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="flex gap-3 border-b border-white/10 px-4 py-4 hover:bg-white/5"
                     >
-                      <div className="relative h-14 w-14 flex-shrink-0 overflow-hidden rounded-full bg-gray-700">
-                        {p.avatar ? <Image src={p.avatar} alt={p.name} fill unoptimized sizes="56px" className="object-cover" /> : null}
-                      </div>
                       <div className="min-w-0 flex-1">
-                        <p className="truncate text-xl font-bold leading-none">{p.name}</p>
-                        <p className="mt-1 truncate text-lg leading-none text-gray-400">
-                          {p.username ? `@${p.username}` : p.userId ? `id:${formatCompactUserId(p.userId)}` : '@unknown'}
+                        <p className="truncate text-xl font-bold leading-none">{list.name}</p>
+                        <p className="mt-1 truncate text-base leading-none text-gray-400">
+                          {[
+                            list.ownerUsername ? `@${list.ownerUsername}` : null,
+                            list.memberCount !== null ? `${list.memberCount.toLocaleString()} members` : null,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ') || `id:${formatCompactUserId(list.id)}`}
                         </p>
-                        {p.bio && <p className="mt-3 text-lg leading-tight text-gray-200">{p.bio}</p>}
+                        {list.description && <p className="mt-3 text-lg leading-tight text-gray-200">{list.description}</p>}
+                        {list.memberUsernames.length > 0 && (
+                          <p className="mt-2 line-clamp-2 text-sm text-gray-400">
+                            {list.memberUsernames.slice(0, LIST_MEMBER_PREVIEW_COUNT).map((username) => `@${username}`).join(', ')}
+                            {list.memberUsernames.length > LIST_MEMBER_PREVIEW_COUNT
+                              ? ` and ${(list.memberUsernames.length - LIST_MEMBER_PREVIEW_COUNT).toLocaleString()} more`
+                              : ''}
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center gap-2 self-start">
-                        <span
-                          className={`rounded-full px-6 py-2 text-base font-semibold ${
-                            activePeopleTab === 'following'
-                              ? 'border border-gray-500 text-white'
-                              : 'bg-white text-black'
-                          }`}
-                        >
-                          {actionLabel}
+                        <span className="rounded-full border border-gray-500 px-4 py-2 text-base font-semibold text-white">
+                          {LIST_RELATIONSHIP_LABELS[list.relationship]}
                         </span>
                         <span
                           className="rounded-full border border-white/20 p-2 text-gray-300"
-                          title="Open profile in new tab"
+                          title="Open list in new tab"
                         >
                           <ExternalLink size={14} />
                         </span>
                       </div>
                     </a>
-                  )
-                })
+                  ))
+                ) : (
+                  <div className="p-8 text-center text-lg text-gray-400">No lists found in this backup.</div>
+                )
+              ) : currentPeopleList.length > 0 ? (
+                <>
+                  {currentPeopleList.map((person, index) => {
+                    const p = personDisplay(person)
+                    const actionLabel = activePeopleTab === 'followers' ? 'Follow' : activePeopleTabConfig.label
+                    return (
+                      <a
+                        key={`${p.username || p.userId || p.name}-${index}`}
+                        href={p.profileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex gap-3 border-b border-white/10 px-4 py-4 hover:bg-white/5"
+                      >
+                        <div className="relative h-14 w-14 flex-shrink-0 overflow-hidden rounded-full bg-gray-700">
+                          {p.avatar ? <Image src={p.avatar} alt={p.name} fill unoptimized sizes="56px" className="object-cover" /> : null}
+                        </div>
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-xl font-bold leading-none">{p.name}</p>
+                          <p className="mt-1 truncate text-lg leading-none text-gray-400">
+                            {p.username ? `@${p.username}` : p.userId ? `id:${formatCompactUserId(p.userId)}` : '@unknown'}
+                          </p>
+                          {p.bio && <p className="mt-3 text-lg leading-tight text-gray-200">{p.bio}</p>}
+                        </div>
+                        <div className="flex items-center gap-2 self-start">
+                          <span
+                            className={`rounded-full px-6 py-2 text-base font-semibold ${
+                              activePeopleTab === 'followers'
+                                ? 'bg-white text-black'
+                                : activePeopleTab === 'blocks'
+                                  ? 'border border-rose-500/60 text-rose-300'
+                                  : 'border border-gray-500 text-white'
+                            }`}
+                          >
+                            {actionLabel}
+                          </span>
+                          <span
+                            className="rounded-full border border-white/20 p-2 text-gray-300"
+                            title="Open profile in new tab"
+                          >
+                            <ExternalLink size={14} />
+                          </span>
+                        </div>
+                      </a>
+                    )
+                  })}
+                  {activePeoplePages && (
+                    <LoadMoreSentinel
+                      hasMore={activePeoplePages.hasMore}
+                      loading={activePeoplePages.loading}
+                      error={activePeoplePages.error}
+                      onLoadMore={activePeoplePages.loadMore}
+                    />
+                  )}
+                </>
+              ) : activePeoplePages?.loading ? (
+                <div className="p-8 text-center text-lg text-gray-500">Loading…</div>
+              ) : activePeoplePages?.error ? (
+                <div className="p-8 text-center text-lg text-red-300">{activePeoplePages.error}</div>
               ) : (
                 <div className="p-8 text-center text-lg text-gray-400">
-                  No {activePeopleTab === 'following' ? 'following' : 'followers'} found in this backup.
+                  No {activePeopleTabConfig.noun} found in this backup.
                 </div>
               )}
             </div>
@@ -0,0 +1,315 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { ExternalLink } from 'lucide-react'
+import type {
+  BackupDiff,
+  BackupDiffAccount,
+  BackupDiffCountChange,
+  BackupDiffTweet,
+  BackupEngagementChange,
+} from '@/lib/backups/backup-diff'
+
+interface ComparePaneProps {
+  backupId: string
+  onBack: () => void
+}
+
+type CompareBackup = {
+  id: string
+  label: string
+  date: string
+  partialReasons: string[]
+}
+
+type CompareCounts = {
+  tweetsAdded: number
+  tweetsRemoved: number
+  tweetsEdited: number
+  engagementChanged: number
+  followersGained: number
+  followersLost: number
+  followingAdded: number
+  followingRemoved: number
+}
+
+type CompareResult = {
+  older: CompareBackup
+  newer: CompareBackup
+  diff: BackupDiff & { counts: CompareCounts }
+}
+
+type CompareSection = 'posts' | 'people'
+
+function formatCompareDate(value: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+function formatDelta(change: BackupDiffCountChange | null, label: string) {
+  if (!change) return null
+  const sign = change.delta > 0 ? '+' : ''
+  return (
+    <span className={change.delta > 0 ? 'text-emerald-400' : 'text-red-400'}>
+      {label} {change.before.toLocaleString()} → {change.after.toLocaleString()} ({sign}
+      {change.delta.toLocaleString()})
+    </span>
+  )
+}
+
+function SectionHeading({ title, count, shown }: { title: string; count: number; shown: number }) {
+  return (
+    <h3 className="px-4 pb-2 pt-5 text-sm font-semibold text-gray-300">
+      {title} <span className="text-gray-500">· {count.toLocaleString()}</span>
+      {shown < count && <span className="ml-1 text-xs font-normal text-gray-500">(showing {shown.toLocaleString()})</span>}
+    </h3>
+  )
+}
+
+function TweetRow({ tweet, children }: { tweet: BackupDiffTweet; children?: ReactNode }) {
+  return (
+    <li className="px-4 py-3">
+      <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-500">
+        <span className="rounded-full border border-white/15 px-2 py-0.5 font-semibold text-gray-300">
+          {tweet.isReply ? 'Reply' : 'Post'}
+        </span>
+        {tweet.createdAt && <span>{formatCompareDate(tweet.createdAt)}</span>}
+        {tweet.url && (
+          <a
+            href={tweet.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-sky-400 hover:underline"
+          >
+            View post <ExternalLink size={12} />
+          </a>
+        )}
+      </div>
+      {children ?? (
+        <p className="mt-1.5 whitespace-pre-wrap break-words text-[15px] leading-6 text-gray-100">{tweet.text || '(no text)'}</p>
+      )}
+    </li>
+  )
+}
+
+function AccountList({ accounts }: { accounts: BackupDiffAccount[] }) {
+  return (
+    <ul className="divide-y divide-white/10">
+      {accounts.map((account) => (
+        <li key={account.id} className="flex items-center justify-between gap-3 px-4 py-2.5 text-sm">
+          <span className="min-w-0 truncate">
+            <span className="font-semibold text-gray-100">{account.name || (account.username ? `@${account.username}` : account.id)}</span>
+            {account.username && account.name && <span className="ml-1 text-gray-500">@{account.username}</span>}
+          </span>
+          {account.url && (
+            <a
+              href={account.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="shrink-0 text-xs text-sky-400 hover:underline"
+            >
+              View profile
+            </a>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function EngagementRow({ change }: { change: BackupEngagementChange }) {
+  return (
+    <TweetRow tweet={change.tweet}>
+      <p className="mt-1.5 line-clamp-2 break-words text-sm text-gray-300">{change.tweet.text || '(no text)'}</p>
+      <div className="mt-1 flex flex-wrap gap-x-3 text-xs">
+        {formatDelta(change.likes, 'Likes')}
+        {formatDelta(change.reposts, 'Reposts')}
+        {formatDelta(change.replies, 'Replies')}
+      </div>
+    </TweetRow>
+  )
+}
+
+export function ComparePane({ backupId, onBack }: ComparePaneProps) {
+  const [candidates, setCandidates] = useState<CompareBackup[] | null>(null)
+  const [compareTo, setCompareTo] = useState('')
+  const [result, setResult] = useState<CompareResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [section, setSection] = useState<CompareSection>('posts')
+
+  useEffect(() => {
+    let cancelled = false
+    const loadCandidates = async () => {
+      try {
+        const response = await fetch(`/api/backups/compare?backupId=${encodeURIComponent(backupId)}`, { cache: 'no-store' })
+        const payload = await response.json()
+        if (cancelled) return
+        if (response.status === 401) throw new Error('Sign in to compare your backups.')
+        if (!response.ok || !payload.success) throw new Error(payload.error || 'Failed to load backups')
+        setCandidates(payload.candidates as CompareBackup[])
+      } catch (loadError) {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load backups')
+      }
+    }
+    void loadCandidates()
+    return () => {
+      cancelled = true
+    }
+  }, [backupId])
+
+  const runCompare = async (otherId: string) => {
+    setCompareTo(otherId)
+    setResult(null)
+    setError(null)
+    if (!otherId) return
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ backupId, compareTo: otherId })
+      const response = await fetch(`/api/backups/compare?${params.toString()}`, { cache: 'no-store' })
+      const payload = await response.json()
+      if (!response.ok || !payload.success) throw new Error(payload.error || 'Comparison failed')
+      setResult(payload as CompareResult)
+    } catch (compareError) {
+      setError(compareError instanceof Error ? compareError.message : 'Comparison failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const diff = result?.diff
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-20 border-b border-white/10 bg-black/95 px-4 py-3 backdrop-blur">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Compare</h2>
+          <button
+            type="button"
+            onClick={onBack}
+            className="rounded-full px-3 py-1.5 text-sm text-gray-300 hover:bg-white/10"
+          >
+            Back
+          </button>
+        </div>
+        <select
+          value={compareTo}
+          onChange={(event) => {
+            void runCompare(event.target.value)
+          }}
+          disabled={!candidates || candidates.length === 0 || loading}
+          className="w-full rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white outline-none"
+        >
+          <option value="">
+            {!candidates ? 'Loading backups...' : candidates.length === 0 ? 'No other backups of this account' : 'Compare with...'}
+          </option>
+          {(candidates || []).map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.label} · {formatCompareDate(candidate.date)}
+            </option>
+          ))}
+        </select>
+        {result && (
+          <p className="mt-2 text-xs text-gray-500">
+            Changes from {formatCompareDate(result.older.date)} to {formatCompareDate(result.newer.date)}.
+            {result.newer.partialReasons.length > 0 && ' The newer backup is partial, so some removals may be items it did not reach.'}
+          </p>
+        )}
+        {diff && (
+          <div className="mt-3 flex gap-2 text-sm">
+            {(['posts', 'people'] as CompareSection[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setSection(value)}
+                className={`rounded-full px-3 py-1 font-semibold transition ${
+                  section === value ? 'bg-white text-black' : 'text-gray-300 hover:bg-white/10'
+                }`}
+              >
+                {value === 'posts' ? 'Posts' : 'Followers'}
+              </button>
+            ))}
+          </div>
+        )}
+      </header>
+
+      {error ? (
+        <div className="p-8 text-center text-red-300">{error}</div>
+      ) : loading ? (
+        <div className="p-8 text-center text-gray-500">Comparing backups...</div>
+      ) : !diff ? (
+        <div className="p-8 text-center text-gray-500">Pick another backup of this account to see what changed.</div>
+      ) : section === 'posts' ? (
+        !diff.tweets.compared ? (
+          <div className="p-8 text-center text-gray-500">One of these backups has no posts to compare.</div>
+        ) : (
+          <div className="pb-16">
+            <SectionHeading title="New posts" count={diff.counts.tweetsAdded} shown={diff.tweets.added.length} />
+            <ul className="divide-y divide-white/10">
+              {diff.tweets.added.map((tweet) => <TweetRow key={tweet.id} tweet={tweet} />)}
+            </ul>
+
+            <SectionHeading title="Removed posts" count={diff.counts.tweetsRemoved} shown={diff.tweets.removed.length} />
+            {diff.tweets.outsideNewerRange > 0 && (
+              <p className="px-4 pb-2 text-xs text-gray-500">
+                {diff.tweets.outsideNewerRange.toLocaleString()} older post
+                {diff.tweets.outsideNewerRange === 1 ? ' is' : 's are'} not counted because the newer backup does not reach back that far.
+              </p>
+            )}
+            <ul className="divide-y divide-white/10">
+              {diff.tweets.removed.map((tweet) => <TweetRow key={tweet.id} tweet={tweet} />)}
+            </ul>
+
+            <SectionHeading title="Edited posts" count={diff.counts.tweetsEdited} shown={diff.tweets.edited.length} />
+            <ul className="divide-y divide-white/10">
+              {diff.tweets.edited.map((edit) => (
+                <TweetRow key={edit.id} tweet={edit.after}>
+                  <p className="mt-1.5 whitespace-pre-wrap break-words text-sm text-red-300/80 line-through">{edit.before.text}</p>
+                  <p className="mt-1 whitespace-pre-wrap break-words text-sm text-emerald-300">{edit.after.text}</p>
+                </TweetRow>
+              ))}
+            </ul>
+
+            <SectionHeading title="Engagement changes" count={diff.counts.engagementChanged} shown={diff.tweets.engagement.length} />
+            <ul className="divide-y divide-white/10">
+              {diff.tweets.engagement.map((change) => <EngagementRow key={change.tweet.id} change={change} />)}
+            </ul>
+          </div>
+        )
+      ) : (
+        <div className="pb-16">
+          {diff.followers.compared ? (
+            <>
+              <SectionHeading title="New followers" count={diff.counts.followersGained} shown={diff.followers.gained.length} />
+              <AccountList accounts={diff.followers.gained} />
+              <SectionHeading title="Unfollowed" count={diff.counts.followersLost} shown={diff.followers.lost.length} />
+              <AccountList accounts={diff.followers.lost} />
+            </>
+          ) : (
+            <p className="px-4 pt-5 text-sm text-gray-500">
+              {diff.followers.incomplete
+                ? 'One of these snapshots stopped fetching followers at its run limit, so the lists cannot be compared.'
+                : 'One of these backups has no followers to compare.'}
+            </p>
+          )}
+          {diff.following.compared ? (
+            <>
+              <SectionHeading title="Started following" count={diff.counts.followingAdded} shown={diff.following.added.length} />
+              <AccountList accounts={diff.following.added} />
+              <SectionHeading title="Stopped following" count={diff.counts.followingRemoved} shown={diff.following.removed.length} />
+              <AccountList accounts={diff.following.removed} />
+            </>
+          ) : (
+            <p className="px-4 pt-5 text-sm text-gray-500">
+              {diff.following.incomplete
+                ? 'One of these snapshots stopped fetching accounts it follows at its run limit, so the lists cannot be compared.'
+                : 'One of these backups has no following list to compare.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { EncryptedDirectMessagesPayload } from '@/lib/platforms/twitter/archive-import'
+import {
+  decryptDirectMessagesWithPassphrase,
+  decryptDirectMessagesWithRecoveryKey,
+} from '@/lib/platforms/twitter/dm-crypto'
+
+interface GrokChatPaneProps {
+  backupId: string
+  chats: unknown[]
+  encryptedPayload: EncryptedDirectMessagesPayload | null
+  included: boolean
+  onBack: () => void
+}
+
+type UnlockMode = 'passphrase' | 'recovery'
+type GrokMessage = {
+  sender: 'user' | 'grok'
+  text: string
+  createdAt: string
+  mode: string
+  media: string[]
+}
+type GrokConversation = {
+  id: string
+  title: string
+  messages: GrokMessage[]
+  lastMessageDate: string
+}
+
+function parseGrokConversations(value: unknown[]): GrokConversation[] {
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== 'object') return null
+      const chat = entry as Record<string, unknown>
+      const id = typeof chat.chat_id === 'string' ? chat.chat_id : ''
+      if (!id) return null
+
+      const rawMessages = Array.isArray(chat.messages) ? chat.messages : []
+      const messages: GrokMessage[] = rawMessages
+        .filter((message): message is Record<string, unknown> => Boolean(message) && typeof message === 'object')
+        .map((message) => ({
+          sender: message.sender === 'user' ? 'user' : 'grok',
+          text: typeof message.text === 'string' ? message.text : '',
+          createdAt: typeof message.created_at === 'string' ? message.created_at : '',
+          mode: typeof message.mode === 'string' ? message.mode : '',
+          media: Array.isArray(message.media) ? message.media.filter((url): url is string => typeof url === 'string') : [],
+        }))
+
+      // Grok has no conversation titles in the archive, so the opening prompt stands in for one.
+      const firstPrompt = messages.find((message) => message.sender === 'user' && message.text.trim())
+      return {
+        id,
+        title: firstPrompt?.text.trim().split('\n')[0] || 'Untitled chat',
+        messages,
+        lastMessageDate: messages[messages.length - 1]?.createdAt || '',
+      }
+    })
+    .filter((conversation): conversation is GrokConversation => Boolean(conversation))
+}
+
+function formatMessageTime(value: string): string {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export function GrokChatPane({ backupId, chats, encryptedPayload, included, onBack }: GrokChatPaneProps) {
+  const [search, setSearch] = useState('')
+  const [selectedChatId, setSelectedChatId] = useState<string | null>(null)
+  const [unlockMode, setUnlockMode] = useState<UnlockMode>('passphrase')
+  const [unlockSecret, setUnlockSecret] = useState('')
+  const [unlockError, setUnlockError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [decryptedChats, setDecryptedChats] = useState<unknown[] | null>(null)
+
+  useEffect(() => {
+    setDecryptedChats(null)
+    setUnlockSecret('')
+    setUnlockError(null)
+    setUnlockMode('passphrase')
+    setSelectedChatId(null)
+  }, [backupId, encryptedPayload?.metadata.encrypted_at])
+
+  const locked = Boolean(encryptedPayload) && !decryptedChats
+  const conversations = useMemo(
+    () => parseGrokConversations(encryptedPayload ? decryptedChats || [] : chats),
+    [chats, decryptedChats, encryptedPayload],
+  )
+  const filteredConversations = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!query) return conversations
+    return conversations.filter((conversation) =>
+      conversation.messages.some((message) => message.text.toLowerCase().includes(query)),
+    )
+  }, [conversations, search])
+  const selectedConversation =
+    filteredConversations.find((conversation) => conversation.id === selectedChatId) || filteredConversations[0] || null
+
+  const handleUnlock = async () => {
+    if (!encryptedPayload) return
+    if (!unlockSecret.trim()) {
+      setUnlockError(unlockMode === 'passphrase' ? 'Enter your passphrase.' : 'Enter your recovery key.')
+      return
+    }
+
+    setUnlocking(true)
+    setUnlockError(null)
+    try {
+      const decrypted = unlockMode === 'passphrase'
+        ? await decryptDirectMessagesWithPassphrase({ payload: encryptedPayload, passphrase: unlockSecret })
+        : await decryptDirectMessagesWithRecoveryKey({ payload: encryptedPayload, recoveryKey: unlockSecret })
+      setDecryptedChats(decrypted)
+      setUnlockSecret('')
+      setSelectedChatId(null)
+    } catch (error) {
+      setUnlockError(error instanceof Error ? error.message : 'Unable to unlock encrypted Grok chats.')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="grid h-screen grid-cols-1 md:grid-cols-[340px_minmax(0,1fr)]">
+      <aside className="border-r border-white/10">
+        <div className="border-b border-white/10 p-4">
+          <div className="mb-3 flex items-center justify-between">
+            <h2 className="text-3xl font-bold">Grok</h2>
+            <button
+              type="button"
+              onClick={onBack}
+              className="rounded-full px-3 py-1.5 text-sm text-gray-300 hover:bg-white/10"
+            >
+              Back
+            </button>
+          </div>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={!included ? 'Not available for this backup' : locked ? 'Unlock Grok chats to search' : 'Search'}
+            disabled={!included || locked}
+            className="w-full rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white outline-none placeholder:text-gray-500 disabled:cursor-not-allowed disabled:opacity-50"
+          />
+        </div>
+
+        <div className="overflow-y-auto">
+          {!included ? (
+            <div className="p-6 text-center text-gray-400">Grok chats are only included in archive imports.</div>
+          ) : locked ? (
+            <div className="p-4">
+              <div className="rounded-2xl border border-cyan-400/35 bg-cyan-500/10 p-4">
+                <p className="text-sm font-semibold text-cyan-100">Grok chats are encrypted</p>
+                <p className="mt-1 text-xs text-cyan-100/85">Unlock with your passphrase or recovery key.</p>
+                <div className="mt-3 flex gap-2">
+                  {(['passphrase', 'recovery'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => {
+                        setUnlockMode(mode)
+                        setUnlockError(null)
+                      }}
+                      className={`rounded-full px-3 py-1.5 text-xs font-semibold ${
+                        unlockMode === mode ? 'bg-cyan-400 text-slate-950' : 'border border-cyan-300/40 text-cyan-100'
+                      }`}
+                    >
+                      {mode === 'passphrase' ? 'Passphrase' : 'Recovery key'}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type={unlockMode === 'passphrase' ? 'password' : 'text'}
+                  value={unlockSecret}
+                  onChange={(e) => setUnlockSecret(e.target.value)}
+                  placeholder={unlockMode === 'passphrase' ? 'Enter passphrase' : 'Enter recovery key'}
+                  className="mt-3 w-full rounded-lg border border-cyan-200/30 bg-black/30 px-3 py-2 text-sm text-white outline-none placeholder:text-cyan-100/60"
+                />
+                {unlockError && <p className="mt-2 text-xs text-rose-300">{unlockError}</p>}
+                <button
+                  type="button"
+                  onClick={() => void handleUnlock()}
+                  disabled={unlocking}
+                  className="mt-3 w-full rounded-full bg-gradient-to-r from-cyan-400 to-blue-500 px-4 py-2 text-sm font-semibold text-slate-950 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {unlocking ? 'Unlocking...' : 'Unlock Grok chats'}
+                </button>
+              </div>
+            </div>
+          ) : filteredConversations.length > 0 ? (
+            filteredConversations.map((conversation) => {
+              const lastMessage = conversation.messages[conversation.messages.length - 1]
+              return (
+                <button
+                  key={conversation.id}
+                  type="button"
+                  onClick={() => setSelectedChatId(conversation.id)}
+                  className={`w-full border-b border-white/10 px-4 py-4 text-left transition hover:bg-white/5 ${
+                    selectedConversation?.id === conversation.id ? 'bg-white/10' : ''
+                  }`}
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="truncate text-base font-semibold text-white">{conversation.title}</p>
+                    <span className="flex-shrink-0 text-xs text-gray-500">
+                      {conversation.lastMessageDate
+                        ? new Date(conversation.lastMessageDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+                        : ''}
+                    </span>
+                  </div>
+                  <p className="mt-1 truncate text-sm text-gray-500">{lastMessage?.text || 'Media'}</p>
+                </button>
+              )
+            })
+          ) : (
+            <div className="p-6 text-center text-gray-500">No Grok chats found.</div>
+          )}
+        </div>
+      </aside>
+
+      <section className="flex min-h-0 flex-col">
+        {!included ? (
+          <div className="flex h-full items-center justify-center px-6 text-center text-gray-400">
+            This backup does not include Grok chats.
+          </div>
+        ) : locked ? (
+          <div className="flex h-full items-center justify-center px-6 text-center text-cyan-100/80">
+            Grok chats are encrypted. Unlock them from the left panel.
+          </div>
+        ) : selectedConversation ? (
+          <>
+            <header className="border-b border-white/10 px-4 py-3">
+              <p className="truncate text-xl font-semibold text-white">{selectedConversation.title}</p>
+              <p className="text-xs text-gray-500">{selectedConversation.messages.length.toLocaleString()} messages</p>
+            </header>
+
+            <div className="flex-1 space-y-3 overflow-y-auto px-4 py-5">
+              {selectedConversation.messages.map((message, index) => {
+                const isFromUser = message.sender === 'user'
+                return (
+                  <div key={`${selectedConversation.id}-${index}`} className={`flex ${isFromUser ? 'justify-end' : 'justify-start'}`}>
+                    <div
+                      className={`max-w-[85%] rounded-3xl px-4 py-2 text-base leading-6 ${
+                        isFromUser ? 'bg-sky-500 text-white' : 'bg-[#1b1f2a] text-gray-100'
+                      }`}
+                    >
+                      {!isFromUser && (
+                        <p className="mb-1 text-xs font-semibold text-gray-400">
+                          Grok{message.mode ? ` · ${message.mode}` : ''}
+                        </p>
+                      )}
+                      <p className="whitespace-pre-wrap break-words">{message.text || '[media]'}</p>
+                      {message.media.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {message.media.map((url, mediaIndex) => (
+                            <a
+                              key={`${url}-${mediaIndex}`}
+                              href={url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`text-xs underline ${isFromUser ? 'text-sky-100' : 'text-sky-300'}`}
+                            >
+                              Attachment {mediaIndex + 1}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      <p className={`mt-1 text-xs ${isFromUser ? 'text-sky-100' : 'text-gray-400'}`}>
+                        {formatMessageTime(message.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <footer className="border-t border-white/10 px-4 py-3">
+              <div className="rounded-full border border-white/10 bg-white/5 px-4 py-2 text-gray-500">
+                Read-only conversation view
+              </div>
+            </footer>
+          </>
+        ) : (
+          <div className="flex h-full items-center justify-center text-gray-500">Select a conversation to start reading.</div>
+        )}
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Image from 'next/image'
+import { ExternalLink } from 'lucide-react'
+
+interface MomentsPaneProps {
+  moments: unknown[]
+  included: boolean
+  onBack: () => void
+}
+
+type MomentTweet = {
+  id: string
+  text: string
+  createdAt: string
+  media: string[]
+}
+type Moment = {
+  id: string
+  title: string
+  description: string
+  createdAt: string
+  coverUrl: string | null
+  tweets: MomentTweet[]
+}
+
+function parseMoments(value: unknown[]): Moment[] {
+  const readString = (record: Record<string, unknown>, key: string) =>
+    typeof record[key] === 'string' ? (record[key] as string) : ''
+
+  return value
+    .map((entry) => {
+      if (!entry || typeof entry !== 'object') return null
+      const moment = entry as Record<string, unknown>
+      const id = readString(moment, 'moment_id')
+      if (!id) return null
+
+      const tweets = (Array.isArray(moment.tweets) ? moment.tweets : [])
+        .filter((tweet): tweet is Record<string, unknown> => Boolean(tweet) && typeof tweet === 'object')
+        .map((tweet) => ({
+          id: readString(tweet, 'tweet_id'),
+          text: readString(tweet, 'text'),
+          createdAt: readString(tweet, 'created_at'),
+          media: Array.isArray(tweet.media) ? tweet.media.filter((url): url is string => typeof url === 'string') : [],
+        }))
+        .filter((tweet) => tweet.id)
+
+      return {
+        id,
+        title: readString(moment, 'title').trim() || 'Untitled Moment',
+        description: readString(moment, 'description'),
+        createdAt: readString(moment, 'created_at'),
+        coverUrl: readString(moment, 'cover_media_url') || null,
+        tweets,
+      }
+    })
+    .filter((moment): moment is Moment => Boolean(moment))
+}
+
+function formatMomentDate(value: string): string {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+function isVideoUrl(url: string): boolean {
+  return /\.(mp4|mov)(?:$|[?&])/i.test(decodeURIComponent(url))
+}
+
+export function MomentsPane({ moments, included, onBack }: MomentsPaneProps) {
+  const [selectedMomentId, setSelectedMomentId] = useState<string | null>(null)
+
+  const parsedMoments = useMemo(() => parseMoments(moments), [moments])
+  const selectedMoment = parsedMoments.find((moment) => moment.id === selectedMomentId) || null
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-20 border-b border-white/10 bg-black/95 px-4 py-3 backdrop-blur">
+        <div className="flex items-center justify-between">
+          <h2 className="truncate text-3xl font-bold">{selectedMoment ? selectedMoment.title : 'Moments'}</h2>
+          <button
+            type="button"
+            onClick={() => (selectedMoment ? setSelectedMomentId(null) : onBack())}
+            className="rounded-full px-3 py-1.5 text-sm text-gray-300 hover:bg-white/10"
+          >
+            Back
+          </button>
+        </div>
+      </header>
+
+      {!included ? (
+        <div className="p-8 text-center text-gray-400">This backup does not include Moments.</div>
+      ) : selectedMoment ? (
+        <article>
+          <div className="relative h-[220px] bg-gray-900">
+            {selectedMoment.coverUrl ? (
+              <Image src={selectedMoment.coverUrl} alt={selectedMoment.title} fill unoptimized sizes="620px" className="object-cover" />
+            ) : (
+              <div className="h-full w-full bg-gradient-to-r from-blue-500 to-sky-600" />
+            )}
+          </div>
+          <div className="border-b border-white/10 px-4 py-4">
+            <h3 className="text-2xl font-bold">{selectedMoment.title}</h3>
+            {selectedMoment.description && <p className="mt-2 whitespace-pre-wrap text-[15px] text-gray-300">{selectedMoment.description}</p>}
+            <p className="mt-2 text-xs text-gray-500">
+              {[formatMomentDate(selectedMoment.createdAt), `${selectedMoment.tweets.length.toLocaleString()} posts`]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+
+          {selectedMoment.tweets.length > 0 ? (
+            <ol className="divide-y divide-white/10">
+              {selectedMoment.tweets.map((tweet, index) => (
+                <li key={`${tweet.id}-${index}`} className="px-4 py-4">
+                  {tweet.text && <p className="whitespace-pre-wrap break-words text-[15px] leading-6 text-gray-100">{tweet.text}</p>}
+                  {tweet.media.length > 0 && (
+                    <div className="mt-3 grid grid-cols-2 gap-2">
+                      {tweet.media.map((url, mediaIndex) =>
+                        isVideoUrl(url) ? (
+                          <video key={`${url}-${mediaIndex}`} src={url} controls className="w-full rounded-xl bg-black" />
+                        ) : (
+                          <div key={`${url}-${mediaIndex}`} className="relative aspect-square overflow-hidden rounded-xl bg-gray-900">
+                            <Image src={url} alt="Moment media" fill unoptimized sizes="300px" className="object-cover" />
+                          </div>
+                        ),
+                      )}
+                    </div>
+                  )}
+                  <div className="mt-2 flex items-center gap-3 text-xs text-gray-500">
+                    {tweet.createdAt && <span>{formatMomentDate(tweet.createdAt)}</span>}
+                    <a
+                      href={`https://x.com/i/status/${tweet.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sky-400 hover:underline"
+                    >
+                      View post <ExternalLink size={12} />
+                    </a>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="p-8 text-center text-gray-500">This Moment has no posts.</div>
+          )}
+        </article>
+      ) : parsedMoments.length > 0 ? (
+        <div className="grid grid-cols-1 gap-3 p-4 sm:grid-cols-2">
+          {parsedMoments.map((moment) => (
+            <button
+              key={moment.id}
+              type="button"
+              onClick={() => setSelectedMomentId(moment.id)}
+              className="overflow-hidden rounded-2xl border border-white/10 text-left transition hover:bg-white/5"
+            >
+              <div className="relative h-32 bg-gray-900">
+                {moment.coverUrl ? (
+                  <Image src={moment.coverUrl} alt={moment.title} fill unoptimized sizes="300px" className="object-cover" />
+                ) : (
+                  <div className="h-full w-full bg-gradient-to-r from-blue-500 to-sky-600" />
+                )}
+              </div>
+              <div className="p-3">
+                <p className="truncate text-base font-semibold text-white">{moment.title}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {moment.tweets.length.toLocaleString()} posts
+                  {moment.createdAt ? ` · ${formatMomentDate(moment.createdAt)}` : ''}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="p-8 text-center text-gray-500">No Moments found in this backup.</div>
+      )}
+    </div>
+  )
+}
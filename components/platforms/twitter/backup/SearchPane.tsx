@@ -0,0 +1,192 @@
+'use client'
+
+import { useCallback, useRef, useState, type FormEvent } from 'react'
+import Link from 'next/link'
+import { ExternalLink } from 'lucide-react'
+import { LoadMoreSentinel } from '@/components/platforms/twitter/backup/BackupContentPages'
+import { splitBackupSearchHighlights, type BackupSearchHit } from '@/lib/backups/backup-search'
+
+interface SearchPaneProps {
+  currentBackupId: string
+  onBack: () => void
+}
+
+type SearchResultHit = BackupSearchHit & {
+  backupLabel: string | null
+  backupDate: string | null
+}
+
+const PAGE_SIZE = 20
+
+const SOURCE_LABELS: Record<BackupSearchHit['source'], string> = {
+  tweet: 'Post',
+  reply: 'Reply',
+  like: 'Like',
+  follower: 'Follower',
+  following: 'Following',
+}
+
+function formatSearchDate(value: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitBackupSearchHighlights(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded bg-sky-500/30 px-0.5 text-white">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+export function SearchPane({ currentBackupId, onBack }: SearchPaneProps) {
+  const [input, setInput] = useState('')
+  const [submittedQuery, setSubmittedQuery] = useState('')
+  const [hits, setHits] = useState<SearchResultHit[]>([])
+  const [highlightTerms, setHighlightTerms] = useState<string[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const requestIdRef = useRef(0)
+
+  const runSearch = useCallback(async (query: string, offset: number) => {
+    const requestId = ++requestIdRef.current
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ q: query, limit: String(PAGE_SIZE), offset: String(offset) })
+      const response = await fetch(`/api/backups/search?${params.toString()}`)
+      const result = await response.json()
+      if (requestId !== requestIdRef.current) return
+      if (response.status === 401) {
+        throw new Error('Sign in to search your backups.')
+      }
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Search failed')
+      }
+      setHits((prev) => (offset === 0 ? result.hits : [...prev, ...result.hits]))
+      setHighlightTerms(Array.isArray(result.highlightTerms) ? result.highlightTerms : [])
+      setHasMore(Boolean(result.hasMore))
+    } catch (searchError) {
+      if (requestId !== requestIdRef.current) return
+      setError(searchError instanceof Error ? searchError.message : 'Search failed')
+      setHasMore(false)
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false)
+    }
+  }, [])
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const query = input.trim()
+    if (!query) return
+    setSubmittedQuery(query)
+    setHits([])
+    void runSearch(query, 0)
+  }
+
+  const loadMore = useCallback(() => {
+    if (!submittedQuery || loading) return
+    void runSearch(submittedQuery, hits.length)
+  }, [hits.length, loading, runSearch, submittedQuery])
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <header className="sticky top-0 z-20 border-b border-white/10 bg-black/95 px-4 py-3 backdrop-blur">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-3xl font-bold">Search</h2>
+          <button
+            type="button"
+            onClick={onBack}
+            className="rounded-full px-3 py-1.5 text-sm text-gray-300 hover:bg-white/10"
+          >
+            Back
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <input
+            type="search"
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="Search all your backups"
+            className="w-full rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white outline-none placeholder:text-gray-500"
+          />
+        </form>
+        <p className="mt-2 text-xs text-gray-500">
+          Searches posts, replies, likes and followers across every backup you own. Try &quot;exact phrase&quot;, from:user, to:user,
+          has:media, before:2024-01-31, after:2023-01-01 or min_likes:10.
+        </p>
+      </header>
+
+      {error && hits.length === 0 ? (
+        <div className="p-8 text-center text-red-300">{error}</div>
+      ) : !submittedQuery ? (
+        <div className="p-8 text-center text-gray-500">Enter a search to look through your backups.</div>
+      ) : hits.length === 0 && !loading ? (
+        <div className="p-8 text-center text-gray-500">No results for &quot;{submittedQuery}&quot;.</div>
+      ) : (
+        <ul className="divide-y divide-white/10">
+          {hits.map((hit) => (
+            <li key={`${hit.backupId}-${hit.source}-${hit.position}`} className="px-4 py-4">
+              <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-500">
+                <span className="rounded-full border border-white/15 px-2 py-0.5 font-semibold text-gray-300">
+                  {SOURCE_LABELS[hit.source]}
+                </span>
+                {(hit.name || hit.username) && (
+                  <span className="text-gray-300">
+                    {hit.name && <Highlighted text={hit.name} terms={highlightTerms} />}
+                    {hit.username && (
+                      <span className="ml-1 text-gray-500">
+                        @<Highlighted text={hit.username} terms={highlightTerms} />
+                      </span>
+                    )}
+                  </span>
+                )}
+                {hit.createdAt && <span>· {formatSearchDate(hit.createdAt)}</span>}
+                {hit.likes !== null && <span>· {hit.likes.toLocaleString()} like{hit.likes === 1 ? '' : 's'}</span>}
+              </div>
+              {hit.text && (
+                <p className="mt-2 whitespace-pre-wrap break-words text-[15px] leading-6 text-gray-100">
+                  <Highlighted text={hit.text} terms={highlightTerms} />
+                </p>
+              )}
+              <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+                {hit.backupId === currentBackupId ? (
+                  <span className="text-gray-500">In this backup</span>
+                ) : (
+                  <Link href={`/dashboard/backup/${hit.backupId}`} className="text-sky-400 hover:underline">
+                    {hit.backupLabel || 'Open backup'}
+                    {hit.backupDate ? ` · ${formatSearchDate(hit.backupDate)}` : ''}
+                  </Link>
+                )}
+                {hit.url && (
+                  <a
+                    href={hit.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sky-400 hover:underline"
+                  >
+                    {hit.source === 'follower' || hit.source === 'following' ? 'View profile' : 'View post'} <ExternalLink size={12} />
+                  </a>
+                )}
+              </div>
+            </li>
+          ))}
+          <li>
+            <LoadMoreSentinel hasMore={hasMore} loading={loading} error={hits.length > 0 ? error : null} onLoadMore={loadMore} />
+          </li>
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { useState } from 'react'
 import Image from 'next/image'
 import { TweetText } from './TweetText'
 
@@ -8,6 +9,9 @@ type TweetMediaItem = {
   media_url?: string
   media_url_https?: string
   url?: string
+  // Set on media stored by the shared archive importers, which fill in `url` only.
+  archive_path?: string
+  alt_text?: string | null
   video_info?: {
     variants?: Array<{
       url?: string
@@ -56,11 +60,38 @@ type TweetData = {
   in_reply_to_user_id?: string | null
   in_reply_to_user_id_str?: string | null
   in_reply_to_screen_name?: string | null
+  in_reply_to_url?: string | null
+  // Mastodon content warning (the post's `summary`); text and media stay hidden until revealed.
+  content_warning?: string | null
+  visibility?: 'public' | 'unlisted' | 'private' | 'direct' | string
   reply_count?: number
   retweet_count?: number
   favorite_count?: number
   is_pinned?: boolean
   pinned_rank?: number
+  deleted_at?: string | null
+  note_tweet?: {
+    id?: string
+    truncated_text?: string
+    entities?: {
+      urls?: Array<{
+        shortUrl?: string
+        expandedUrl?: string
+        displayUrl?: string
+      }>
+    }
+    style_tags?: Array<{
+      fromIndex: number
+      toIndex: number
+      styles: string[]
+    }>
+  }
+}
+
+const VISIBILITY_LABELS: Record<string, string> = {
+  unlisted: 'Unlisted',
+  private: 'Followers only',
+  direct: 'Mentioned people only',
 }
 
 interface TweetCardProps {
@@ -71,6 +102,8 @@ interface TweetCardProps {
 }
 
 export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDisplayName }: TweetCardProps) {
+  const [contentWarningOpen, setContentWarningOpen] = useState(false)
+
   // Parse both ISO format and Twitter archive format: "Thu Mar 10 12:00:00 +0000 2022"
   const parseDate = (dateString: string): Date => {
     if (!dateString) return new Date(NaN)
@@ -141,10 +174,15 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
   const replyTargetScreenName = tweet.in_reply_to_screen_name || null
   const isReply = Boolean(replyTargetStatusId || replyTargetUserId || replyTargetScreenName)
   const replyTargetUrl =
-    replyTargetStatusId && replyTargetScreenName
+    tweet.in_reply_to_url ||
+    (replyTargetStatusId && replyTargetScreenName
       ? `https://x.com/${replyTargetScreenName}/status/${replyTargetStatusId}`
-      : null
+      : null)
   const isPinned = Boolean(tweet.is_pinned)
+  const deletedAt = tweet.deleted_at || null
+  const contentWarning = tweet.content_warning?.trim() || null
+  const contentHidden = Boolean(contentWarning) && !contentWarningOpen
+  const visibilityLabel = tweet.visibility ? VISIBILITY_LABELS[tweet.visibility] || null : null
 
   // Extract media from tweet (supports multiple Twitter data formats)
   const getMediaFromTweet = (): TweetMediaItem[] => {
@@ -195,7 +233,9 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
           .trim()
       : rawText
 
-  const text = media.length > 0 ? cleanedText : rawText
+  // Long-form note text carries style offsets, so it is rendered as-is instead of being cleaned.
+  const noteTweet = tweet.note_tweet
+  const text = media.length > 0 && !noteTweet ? cleanedText : rawText
   const inferredTweetUrl = tweetId ? `https://x.com/${username}/status/${tweetId}` : null
   const tweetUrl = normalizeUrl(tweet.tweet_url) || inferredTweetUrl
 
@@ -251,6 +291,17 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
               <span>Pinned</span>
             </div>
           )}
+          {deletedAt && (
+            <div className="flex items-center gap-1 text-rose-500 dark:text-rose-400 text-sm mb-2">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              <span>
+                Deleted
+                {formatDate(deletedAt) ? ` ${formatDate(deletedAt)}` : ''}
+              </span>
+            </div>
+          )}
           {isRetweet && (
             <div className="flex items-center gap-1 text-gray-500 dark:text-gray-400 text-sm mb-2">
               <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
@@ -259,6 +310,14 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
               <span>Retweeted</span>
             </div>
           )}
+          {visibilityLabel && (
+            <div className="flex items-center gap-1 text-gray-500 dark:text-gray-400 text-sm mb-2">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+              <span>{visibilityLabel}</span>
+            </div>
+          )}
           {isReply && !isRetweet && (
             <div className="flex items-center gap-1 text-gray-500 dark:text-gray-400 text-sm mb-2">
               <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
@@ -281,15 +340,34 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
             </div>
           )}
 
+          {contentWarning && (
+            <div className="mb-3 flex items-center justify-between gap-3 rounded-lg border border-amber-300/60 bg-amber-50 px-3 py-2 text-sm text-amber-900 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-100">
+              <span className="min-w-0 break-words">
+                <span className="font-semibold">Content warning:</span> {contentWarning}
+              </span>
+              <button
+                type="button"
+                onClick={() => setContentWarningOpen((open) => !open)}
+                className="shrink-0 rounded-full border border-current px-3 py-0.5 text-xs font-semibold hover:opacity-80"
+              >
+                {contentWarningOpen ? 'Show less' : 'Show more'}
+              </button>
+            </div>
+          )}
+
           {/* Tweet Text */}
-          {text ? (
+          {text && !contentHidden ? (
             <div className="mb-3 text-gray-900 dark:text-white">
-              <TweetText text={text} />
+              <TweetText
+                text={text}
+                urls={noteTweet?.entities?.urls}
+                styleTags={noteTweet?.style_tags}
+              />
             </div>
           ) : null}
 
           {/* Media Attachments */}
-          {media && media.length > 0 && (
+          {media && media.length > 0 && !contentHidden && (
             <div className={`grid gap-2 mb-3 rounded-2xl overflow-hidden ${
               media.length === 1 ? 'grid-cols-1' :
               media.length === 2 ? 'grid-cols-2' :
@@ -302,6 +380,7 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
                   const previewUrl = normalizeUrl(mediaItem.media_url_https) || normalizeUrl(mediaItem.media_url)
                   const mediaUrl = normalizeUrl(mediaItem.media_url)
                   const directUrl = normalizeUrl(mediaItem.url)
+                  const archiveUrl = mediaItem.archive_path ? directUrl : null
 
                   const variants = Array.isArray(mediaItem.video_info?.variants) ? mediaItem.video_info?.variants || [] : []
                   const bestVariant = [...variants]
@@ -311,9 +390,10 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
                   const derivedGifUrl = deriveGifVideoFromThumb(previewUrl)
 
                   const mediaSource =
-                    type === 'photo'
+                    archiveUrl ||
+                    (type === 'photo'
                       ? (previewUrl || (!isTcoUrl(mediaUrl) ? mediaUrl : null) || (!isTcoUrl(directUrl) ? directUrl : null))
-                      : (variantUrl || (isVideoUrl(mediaUrl) ? mediaUrl : null) || derivedGifUrl || (isVideoUrl(previewUrl) ? previewUrl : null))
+                      : (variantUrl || (isVideoUrl(mediaUrl) ? mediaUrl : null) || derivedGifUrl || (isVideoUrl(previewUrl) ? previewUrl : null)))
 
                   return (
                     <div
@@ -325,7 +405,7 @@ export function TweetCard({ tweet, ownerProfileImageUrl, ownerUsername, ownerDis
                       {type === 'photo' && mediaSource ? (
                         <Image
                           src={mediaSource}
-                          alt="Tweet media"
+                          alt={mediaItem.alt_text || 'Tweet media'}
                           width={1200}
                           height={1200}
                           unoptimized
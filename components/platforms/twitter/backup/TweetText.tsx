@@ -1,12 +1,74 @@
 'use client'
 
+type TweetTextUrlEntity = {
+  shortUrl?: string
+  expandedUrl?: string
+  displayUrl?: string
+}
+
+type TweetTextStyleTag = {
+  fromIndex: number
+  toIndex: number
+  styles: string[]
+}
+
 interface TweetTextProps {
   text: string
+  urls?: TweetTextUrlEntity[]
+  styleTags?: TweetTextStyleTag[]
+}
+
+type TextSegment = {
+  text: string
+  bold: boolean
+  italic: boolean
+}
+
+// Style tag indices count code points, so split with Array.from rather than by UTF-16 units.
+function buildSegments(text: string, styleTags?: TweetTextStyleTag[]): TextSegment[] {
+  if (!styleTags || styleTags.length === 0) {
+    return [{ text, bold: false, italic: false }]
+  }
+
+  const chars = Array.from(text)
+  const bold = new Array<boolean>(chars.length).fill(false)
+  const italic = new Array<boolean>(chars.length).fill(false)
+
+  for (const tag of styleTags) {
+    const start = Math.max(0, tag.fromIndex)
+    const end = Math.min(chars.length, tag.toIndex)
+    const isBold = tag.styles.includes('bold')
+    const isItalic = tag.styles.includes('italic')
+    for (let i = start; i < end; i += 1) {
+      if (isBold) bold[i] = true
+      if (isItalic) italic[i] = true
+    }
+  }
+
+  const segments: TextSegment[] = []
+  for (let i = 0; i < chars.length; i += 1) {
+    const last = segments[segments.length - 1]
+    if (last && last.bold === bold[i] && last.italic === italic[i]) {
+      last.text += chars[i]
+    } else {
+      segments.push({ text: chars[i], bold: bold[i], italic: italic[i] })
+    }
+  }
+  return segments
 }
 
-export function TweetText({ text }: TweetTextProps) {
+export function TweetText({ text, urls, styleTags }: TweetTextProps) {
+  const urlMap = new Map<string, { href: string; label: string }>()
+  for (const entity of urls || []) {
+    if (!entity.shortUrl || !entity.expandedUrl) continue
+    urlMap.set(entity.shortUrl, {
+      href: entity.expandedUrl,
+      label: entity.displayUrl || entity.expandedUrl,
+    })
+  }
+
   // Parse tweet text and return formatted JSX
-  const parseText = (text: string) => {
+  const parseText = (text: string, keyPrefix: string) => {
     if (!text) return null
 
     const elements: React.ReactNode[] = []
@@ -24,7 +86,7 @@ export function TweetText({ text }: TweetTextProps) {
       if (matchStart > lastIndex) {
         const textBefore = text.substring(lastIndex, matchStart)
         elements.push(
-          <span key={`text-${lastIndex}`}>
+          <span key={`${keyPrefix}-text-${lastIndex}`}>
             {textBefore}
           </span>
         )
@@ -32,18 +94,19 @@ export function TweetText({ text }: TweetTextProps) {
 
       // Add the matched element (URL, mention, or hashtag)
       if (match[1]) {
-        // URL
+        // URL (short links from note tweets are shown expanded)
         const url = match[1]
+        const expanded = urlMap.get(url)
         elements.push(
           <a
-            key={`url-${matchStart}`}
-            href={url}
+            key={`${keyPrefix}-url-${matchStart}`}
+            href={expanded?.href || url}
             target="_blank"
             rel="noopener noreferrer"
             className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300 hover:underline"
             onClick={(e) => e.stopPropagation()}
           >
-            {url}
+            {expanded?.label || url}
           </a>
         )
       } else if (match[2]) {
@@ -51,7 +114,7 @@ export function TweetText({ text }: TweetTextProps) {
         const mention = match[2]
         elements.push(
           <span
-            key={`mention-${matchStart}`}
+            key={`${keyPrefix}-mention-${matchStart}`}
             className="text-blue-500 dark:text-blue-400 hover:underline cursor-pointer"
           >
             {mention}
@@ -62,7 +125,7 @@ export function TweetText({ text }: TweetTextProps) {
         const hashtag = match[3]
         elements.push(
           <span
-            key={`hashtag-${matchStart}`}
+            key={`${keyPrefix}-hashtag-${matchStart}`}
             className="text-blue-500 dark:text-blue-400 hover:underline cursor-pointer"
           >
             {hashtag}
@@ -77,7 +140,7 @@ export function TweetText({ text }: TweetTextProps) {
     if (lastIndex < text.length) {
       const remainingText = text.substring(lastIndex)
       elements.push(
-        <span key={`text-${lastIndex}`}>
+        <span key={`${keyPrefix}-text-${lastIndex}`}>
           {remainingText}
         </span>
       )
@@ -86,17 +149,25 @@ export function TweetText({ text }: TweetTextProps) {
     return elements
   }
 
-  // Split text by newlines and render with line breaks
-  const lines = text.split('\n')
+  const segments = buildSegments(text, styleTags)
 
+  // Split each segment by newlines and render with line breaks
   return (
     <div className="whitespace-pre-wrap break-words">
-      {lines.map((line, lineIndex) => (
-        <span key={lineIndex}>
-          {parseText(line)}
-          {lineIndex < lines.length - 1 && <br />}
-        </span>
-      ))}
+      {segments.map((segment, segmentIndex) => {
+        const lines = segment.text.split('\n')
+        const className = [segment.bold ? 'font-bold' : '', segment.italic ? 'italic' : ''].filter(Boolean).join(' ')
+        return (
+          <span key={segmentIndex} className={className || undefined}>
+            {lines.map((line, lineIndex) => (
+              <span key={lineIndex}>
+                {parseText(line, `${segmentIndex}-${lineIndex}`)}
+                {lineIndex < lines.length - 1 && <br />}
+              </span>
+            ))}
+          </span>
+        )
+      })}
     </div>
   )
 }
@@ -0,0 +1,472 @@
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const INSERT_BATCH_SIZE = 500
+const SELECT_PAGE_SIZE = 1000
+
+export type BackupContentKey = 'tweets' | 'replies' | 'likes' | 'followers' | 'following' | 'direct_messages'
+
+export type BackupContent = Record<BackupContentKey, unknown[]>
+
+export const BACKUP_CONTENT_KEYS: readonly BackupContentKey[] = [
+  'tweets',
+  'replies',
+  'likes',
+  'followers',
+  'following',
+  'direct_messages',
+]
+
+export type BackupContentPageType = 'posts' | 'replies' | 'likes' | 'followers' | 'following' | 'conversations'
+
+export const BACKUP_CONTENT_PAGE_TYPES: readonly BackupContentPageType[] = [
+  'posts',
+  'replies',
+  'likes',
+  'followers',
+  'following',
+  'conversations',
+]
+
+// Likes and the social graph carry no reliable timestamp, so only these types accept a date range.
+export const DATED_BACKUP_CONTENT_PAGE_TYPES: ReadonlySet<BackupContentPageType> = new Set(['posts', 'replies', 'conversations'])
+
+export type BackupContentPageQuery = {
+  type: BackupContentPageType
+  order: 'asc' | 'desc'
+  limit: number
+  cursor: BackupContentCursor | null
+  from: string | null
+  to: string | null
+}
+
+export type BackupContentCursor = {
+  t: string | null
+  p: number | null
+}
+
+export type BackupContentPage = {
+  items: unknown[]
+  pinned: unknown[]
+  total: number | null
+  nextCursor: string | null
+}
+
+type ContentTableConfig = {
+  table: 'backup_tweets' | 'backup_likes' | 'backup_connections' | 'backup_conversations'
+  filter: { column: 'kind' | 'relationship'; value: string } | null
+  toColumns: (item: Record<string, unknown>) => Record<string, string | number | boolean | null>
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function toIsoTimestamp(value: unknown): string | null {
+  const raw = asNonEmptyString(value)
+  if (!raw) return null
+  const parsed = Date.parse(raw)
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null
+}
+
+function parseInteger(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : Number.NaN
+  return Number.isInteger(parsed) ? parsed : null
+}
+
+// Mirrors the viewer's reply and pin detection so posts and replies can be split in SQL.
+function tweetColumns(item: Record<string, unknown>) {
+  const pinnedRank = parseInteger(item.pinned_rank)
+  const isPinnedFlag = item.is_pinned === true || item.is_pinned === 1 || item.is_pinned === 'true' || item.is_pinned === '1'
+  return {
+    tweet_id: asNonEmptyString(item.id_str) || asNonEmptyString(item.id),
+    tweeted_at: toIsoTimestamp(item.created_at),
+    is_reply: Boolean(
+      item.in_reply_to_status_id
+        || item.in_reply_to_status_id_str
+        || item.in_reply_to_user_id
+        || item.in_reply_to_user_id_str
+        || item.in_reply_to_screen_name,
+    ),
+    is_pinned: isPinnedFlag || pinnedRank !== null,
+    pinned_rank: pinnedRank,
+  }
+}
+
+function connectionColumns(item: Record<string, unknown>) {
+  return {
+    account_id: asNonEmptyString(item.user_id) || asNonEmptyString(item.accountId),
+    username: asNonEmptyString(item.username),
+  }
+}
+
+function getConversationId(item: Record<string, unknown>): string | null {
+  return asNonEmptyString(item.conversation_id) || asNonEmptyString(item.conversationId) || asNonEmptyString(item.dmConversationId)
+}
+
+function getConversationLastMessageAt(item: Record<string, unknown>): string | null {
+  const messages = Array.isArray(item.messages) ? item.messages : [item]
+  let latest = Number.NEGATIVE_INFINITY
+  for (const message of messages) {
+    const record = toRecord(message)
+    const messageData = toRecord(record.messageCreate)
+    const parsed = Date.parse(String(record.created_at || record.createdAt || messageData.createdAt || ''))
+    if (Number.isFinite(parsed) && parsed > latest) latest = parsed
+  }
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : null
+}
+
+function conversationColumns(item: Record<string, unknown>) {
+  return {
+    conversation_id: getConversationId(item),
+    last_message_at: getConversationLastMessageAt(item),
+  }
+}
+
+const CONTENT_TABLES: Record<BackupContentKey, ContentTableConfig> = {
+  tweets: { table: 'backup_tweets', filter: { column: 'kind', value: 'tweet' }, toColumns: tweetColumns },
+  replies: { table: 'backup_tweets', filter: { column: 'kind', value: 'reply' }, toColumns: tweetColumns },
+  likes: {
+    table: 'backup_likes',
+    filter: null,
+    toColumns: (item) => ({ tweet_id: asNonEmptyString(item.tweet_id) || asNonEmptyString(item.tweetId) }),
+  },
+  followers: { table: 'backup_connections', filter: { column: 'relationship', value: 'follower' }, toColumns: connectionColumns },
+  following: { table: 'backup_connections', filter: { column: 'relationship', value: 'following' }, toColumns: connectionColumns },
+  direct_messages: { table: 'backup_conversations', filter: null, toColumns: conversationColumns },
+}
+
+/**
+ * Replaces the stored rows for each content key present in `content`. Keys left out are untouched,
+ * so jobs can write tweets and the social graph at different points. Rows are staged in batches and
+ * swapped in by `replace_backup_content()` in one transaction, so a failed batch leaves the old rows.
+ */
+export async function replaceBackupContent(
+  supabase: SupabaseClient,
+  params: {
+    backupId: string
+    userId: string
+    content: Partial<BackupContent>
+  },
+): Promise<void> {
+  const { backupId, userId, content } = params
+  const keys = BACKUP_CONTENT_KEYS.filter((key) => Array.isArray(content[key]))
+  if (keys.length === 0) return
+  const uploadId = randomUUID()
+
+  try {
+    for (const key of keys) {
+      const config = CONTENT_TABLES[key]
+      const rows = (content[key] || [])
+        .map((item, position) => ({ item: toRecord(item), position }))
+        .filter(({ item }) => Object.keys(item).length > 0)
+        .map(({ item, position }) => ({
+          upload_id: uploadId,
+          backup_id: backupId,
+          content_key: key,
+          position,
+          row_data: {
+            backup_id: backupId,
+            user_id: userId,
+            ...(config.filter ? { [config.filter.column]: config.filter.value } : {}),
+            position,
+            ...config.toColumns(item),
+            data: item,
+          },
+        }))
+
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error: insertError } = await supabase
+          .from('backup_content_staging')
+          .insert(rows.slice(i, i + INSERT_BATCH_SIZE))
+        if (insertError) {
+          throw new Error(`Failed to store backup ${key}: ${insertError.message}`)
+        }
+      }
+    }
+
+    const { error: replaceError } = await supabase.rpc('replace_backup_content', {
+      p_backup_id: backupId,
+      p_upload_id: uploadId,
+      p_keys: keys,
+    })
+    if (replaceError) {
+      throw new Error(`Failed to replace backup content: ${replaceError.message}`)
+    }
+  } catch (error) {
+    const { error: cleanupError } = await supabase.from('backup_content_staging').delete().eq('upload_id', uploadId)
+    if (cleanupError) {
+      console.warn(`[Backup Content] Failed to clear staged rows for backup ${backupId}:`, cleanupError.message)
+    }
+    throw error
+  }
+}
+
+export async function loadBackupContentItems(
+  supabase: SupabaseClient,
+  backupId: string,
+  key: BackupContentKey,
+  options: { limit?: number } = {},
+): Promise<unknown[]> {
+  const config = CONTENT_TABLES[key]
+  const limit = options.limit && options.limit > 0 ? options.limit : Number.POSITIVE_INFINITY
+  const items: unknown[] = []
+
+  while (items.length < limit) {
+    const pageSize = Math.min(SELECT_PAGE_SIZE, limit - items.length)
+    let query = supabase
+      .from(config.table)
+      .select('data')
+      .eq('backup_id', backupId)
+      .order('position', { ascending: true })
+      .range(items.length, items.length + pageSize - 1)
+    if (config.filter) query = query.eq(config.filter.column, config.filter.value)
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to load backup ${key}: ${error.message}`)
+    }
+
+    const page = (data || []) as Array<{ data: unknown }>
+    items.push(...page.map((row) => row.data))
+    if (page.length < pageSize) break
+  }
+
+  return items
+}
+
+/**
+ * Drops the fields the viewer now pages through `/api/backups/content`, so backup detail responses
+ * stay small no matter how many tweets, accounts or conversations the backup holds.
+ */
+export function withoutPagedBackupContent<T extends { data?: unknown }>(backup: T): T {
+  const data = { ...toRecord(backup.data) }
+  for (const key of [...BACKUP_CONTENT_KEYS, 'dms']) delete data[key]
+  return { ...backup, data }
+}
+
+export function encodeBackupContentCursor(cursor: BackupContentCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url')
+}
+
+export function decodeBackupContentCursor(value: string): BackupContentCursor | null {
+  try {
+    const parsed = toRecord(JSON.parse(Buffer.from(value, 'base64url').toString('utf8')))
+    // Re-serialised so only a plain ISO timestamp ever reaches the PostgREST filter built from it.
+    const t = typeof parsed.t === 'string' && Number.isFinite(Date.parse(parsed.t)) ? new Date(parsed.t).toISOString() : null
+    const p = typeof parsed.p === 'number' && Number.isInteger(parsed.p) ? parsed.p : null
+    if (p === null) return null
+    return { t, p }
+  } catch {
+    return null
+  }
+}
+
+type PagedRow = { data: unknown; position: number; tweeted_at?: string | null; last_message_at?: string | null }
+
+type DateColumn = 'tweeted_at' | 'last_message_at'
+
+function buildTableCursor(rows: PagedRow[], limit: number, dateColumn: DateColumn | null): string | null {
+  if (rows.length <= limit) return null
+  const last = rows[limit - 1]
+  const lastDate = dateColumn ? last[dateColumn] : null
+  return encodeBackupContentCursor({
+    t: lastDate ? new Date(lastDate).toISOString() : null,
+    p: last.position,
+  })
+}
+
+// Undated rows sort last in both directions, ordered by their original position.
+function datedCursorFilter(column: DateColumn, operator: 'gt' | 'lt', cursor: { t: string; p: number }): string {
+  return `${column}.${operator}."${cursor.t}",and(${column}.eq."${cursor.t}",position.${operator}.${cursor.p}),${column}.is.null`
+}
+
+async function listTweetPage(
+  supabase: SupabaseClient,
+  backupId: string,
+  query: BackupContentPageQuery,
+  filter: { kind: 'tweet' | 'reply'; isReply?: boolean; separatePinned: boolean },
+): Promise<BackupContentPage> {
+  const ascending = query.order === 'asc'
+  const operator = ascending ? 'gt' : 'lt'
+
+  let request = supabase
+    .from('backup_tweets')
+    .select('data, position, tweeted_at', query.cursor ? undefined : { count: 'exact' })
+    .eq('backup_id', backupId)
+    .eq('kind', filter.kind)
+  if (filter.isReply !== undefined) request = request.eq('is_reply', filter.isReply)
+  if (filter.separatePinned) request = request.eq('is_pinned', false)
+  if (query.from) request = request.gte('tweeted_at', query.from)
+  if (query.to) request = request.lte('tweeted_at', query.to)
+  if (query.cursor && query.cursor.p !== null) {
+    request = query.cursor.t
+      ? request.or(datedCursorFilter('tweeted_at', operator, { t: query.cursor.t, p: query.cursor.p }))
+      : request.is('tweeted_at', null).filter('position', operator, query.cursor.p)
+  }
+
+  const { data, error, count } = await request
+    .order('tweeted_at', { ascending, nullsFirst: false })
+    .order('position', { ascending })
+    .limit(query.limit + 1)
+  if (error) {
+    throw new Error(`Failed to load backup ${query.type}: ${error.message}`)
+  }
+
+  let pinned: unknown[] = []
+  if (filter.separatePinned && !query.cursor) {
+    const { data: pinnedRows, error: pinnedError } = await supabase
+      .from('backup_tweets')
+      .select('data')
+      .eq('backup_id', backupId)
+      .eq('kind', filter.kind)
+      .eq('is_reply', false)
+      .eq('is_pinned', true)
+      .order('pinned_rank', { ascending: true, nullsFirst: false })
+      .order('tweeted_at', { ascending: false, nullsFirst: false })
+    if (pinnedError) {
+      throw new Error(`Failed to load pinned posts: ${pinnedError.message}`)
+    }
+    pinned = (pinnedRows || []).map((row) => row.data)
+  }
+
+  const rows = (data || []) as PagedRow[]
+  return {
+    items: rows.slice(0, query.limit).map((row) => row.data),
+    pinned,
+    total: typeof count === 'number' ? count + pinned.length : null,
+    nextCursor: buildTableCursor(rows, query.limit, 'tweeted_at'),
+  }
+}
+
+async function listPositionPage(
+  supabase: SupabaseClient,
+  backupId: string,
+  key: 'likes' | 'followers' | 'following',
+  query: BackupContentPageQuery,
+): Promise<BackupContentPage> {
+  const config = CONTENT_TABLES[key]
+  const ascending = query.order === 'asc'
+
+  let request = supabase
+    .from(config.table)
+    .select('data, position', query.cursor ? undefined : { count: 'exact' })
+    .eq('backup_id', backupId)
+  if (config.filter) request = request.eq(config.filter.column, config.filter.value)
+  if (query.cursor && query.cursor.p !== null) request = request.filter('position', ascending ? 'gt' : 'lt', query.cursor.p)
+
+  const { data, error, count } = await request.order('position', { ascending }).limit(query.limit + 1)
+  if (error) {
+    throw new Error(`Failed to load backup ${key}: ${error.message}`)
+  }
+
+  const rows = (data || []) as PagedRow[]
+  return {
+    items: rows.slice(0, query.limit).map((row) => row.data),
+    pinned: [],
+    total: typeof count === 'number' ? count : null,
+    nextCursor: buildTableCursor(rows, query.limit, null),
+  }
+}
+
+async function listConversationPage(
+  supabase: SupabaseClient,
+  backupId: string,
+  query: BackupContentPageQuery,
+): Promise<BackupContentPage> {
+  const ascending = query.order === 'asc'
+  const operator = ascending ? 'gt' : 'lt'
+
+  let request = supabase
+    .from('backup_conversations')
+    .select('data, position, last_message_at', query.cursor ? undefined : { count: 'exact' })
+    .eq('backup_id', backupId)
+  if (query.from) request = request.gte('last_message_at', query.from)
+  if (query.to) request = request.lte('last_message_at', query.to)
+  if (query.cursor && query.cursor.p !== null) {
+    request = query.cursor.t
+      ? request.or(datedCursorFilter('last_message_at', operator, { t: query.cursor.t, p: query.cursor.p }))
+      : request.is('last_message_at', null).filter('position', operator, query.cursor.p)
+  }
+
+  const { data, error, count } = await request
+    .order('last_message_at', { ascending, nullsFirst: false })
+    .order('position', { ascending })
+    .limit(query.limit + 1)
+  if (error) {
+    throw new Error(`Failed to load backup conversations: ${error.message}`)
+  }
+
+  const rows = (data || []) as PagedRow[]
+  return {
+    items: rows.slice(0, query.limit).map((row) => row.data),
+    pinned: [],
+    total: typeof count === 'number' ? count : null,
+    nextCursor: buildTableCursor(rows, query.limit, 'last_message_at'),
+  }
+}
+
+export async function listBackupContentPage(
+  supabase: SupabaseClient,
+  backupId: string,
+  query: BackupContentPageQuery,
+): Promise<BackupContentPage> {
+  switch (query.type) {
+    case 'posts':
+      return listTweetPage(supabase, backupId, query, {
+        kind: 'tweet',
+        isReply: false,
+        separatePinned: query.order === 'desc' && !query.from && !query.to,
+      })
+    case 'replies': {
+      // Snapshots store replies separately; archives keep them in the tweet stream.
+      const { data, error } = await supabase
+        .from('backup_tweets')
+        .select('position')
+        .eq('backup_id', backupId)
+        .eq('kind', 'reply')
+        .limit(1)
+      if (error) {
+        throw new Error(`Failed to load backup replies: ${error.message}`)
+      }
+      return (data || []).length > 0
+        ? listTweetPage(supabase, backupId, query, { kind: 'reply', separatePinned: false })
+        : listTweetPage(supabase, backupId, query, { kind: 'tweet', isReply: true, separatePinned: false })
+    }
+    case 'likes':
+    case 'followers':
+    case 'following':
+      return listPositionPage(supabase, backupId, query.type, query)
+    case 'conversations':
+      return listConversationPage(supabase, backupId, query)
+  }
+}
+
+export async function fetchBackupContentBytes(
+  supabase: SupabaseClient,
+  backupIds: string[],
+): Promise<Map<string, number>> {
+  const bytesByBackup = new Map<string, number>()
+  if (backupIds.length === 0) return bytesByBackup
+
+  const { data, error } = await supabase.rpc('backup_content_bytes', { p_backup_ids: backupIds })
+  if (error) {
+    console.error('[Storage] Failed to size backup content rows:', error)
+    return bytesByBackup
+  }
+
+  for (const row of (data || []) as Array<{ backup_id?: string; content_bytes?: number | string }>) {
+    const bytes = Number(row.content_bytes)
+    if (row.backup_id && Number.isFinite(bytes) && bytes > 0) bytesByBackup.set(row.backup_id, bytes)
+  }
+  return bytesByBackup
+}
@@ -0,0 +1,285 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadBackupContentItems } from '@/lib/backups/backup-content'
+
+export type BackupDiffContent = {
+  tweets: unknown[]
+  replies: unknown[]
+  followers: unknown[]
+  following: unknown[]
+  // True when the scrape stopped fetching followers/following at its cap.
+  socialGraphTruncated?: boolean
+}
+
+export type BackupDiffTweet = {
+  id: string
+  text: string
+  createdAt: string | null
+  url: string | null
+  isReply: boolean
+  likes: number | null
+  reposts: number | null
+  replies: number | null
+}
+
+export type BackupDiffCountChange = {
+  before: number
+  after: number
+  delta: number
+}
+
+export type BackupTweetEdit = {
+  id: string
+  before: BackupDiffTweet
+  after: BackupDiffTweet
+}
+
+export type BackupEngagementChange = {
+  tweet: BackupDiffTweet
+  likes: BackupDiffCountChange | null
+  reposts: BackupDiffCountChange | null
+  replies: BackupDiffCountChange | null
+}
+
+export type BackupDiffAccount = {
+  id: string
+  username: string | null
+  name: string | null
+  url: string | null
+}
+
+export type BackupDiff = {
+  tweets: {
+    // False when either side holds no tweets, e.g. a snapshot that only fetched followers.
+    compared: boolean
+    added: BackupDiffTweet[]
+    removed: BackupDiffTweet[]
+    // Tweets missing from the newer backup that predate its oldest tweet, so it never had the chance to see them.
+    outsideNewerRange: number
+    edited: BackupTweetEdit[]
+    engagement: BackupEngagementChange[]
+  }
+  followers: {
+    // False when either side holds no accounts or only a truncated capture.
+    compared: boolean
+    incomplete: boolean
+    gained: BackupDiffAccount[]
+    lost: BackupDiffAccount[]
+  }
+  following: {
+    compared: boolean
+    incomplete: boolean
+    added: BackupDiffAccount[]
+    removed: BackupDiffAccount[]
+  }
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function parseCount(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : Number.NaN
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : null
+}
+
+function toIsoTimestamp(value: unknown): string | null {
+  const raw = asNonEmptyString(value)
+  if (!raw) return null
+  const parsed = Date.parse(raw)
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null
+}
+
+function extractUserIdFromLink(value: string | null): string | null {
+  if (!value) return null
+  const match = value.match(/[?&]user_id=(\d+)/)
+  return match ? match[1] : null
+}
+
+// Archives keep t.co links and HTML entities in the text while snapshots may not, so neither counts as an edit.
+function toComparableText(text: string): string {
+  return text
+    .replace(/https?:\/\/t\.co\/\S+/gi, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function normalizeDiffTweet(value: unknown, fromRepliesList: boolean): BackupDiffTweet | null {
+  const item = toRecord(toRecord(value).tweet ?? value)
+  const id = asNonEmptyString(item.id_str) || asNonEmptyString(item.id)
+  if (!id) return null
+
+  return {
+    id,
+    text: asNonEmptyString(item.full_text) || asNonEmptyString(item.text) || '',
+    createdAt: toIsoTimestamp(item.created_at),
+    url: asNonEmptyString(item.tweet_url),
+    isReply:
+      fromRepliesList
+      || Boolean(item.in_reply_to_status_id || item.in_reply_to_status_id_str || item.in_reply_to_screen_name),
+    likes: parseCount(item.favorite_count),
+    reposts: parseCount(item.retweet_count),
+    replies: parseCount(item.reply_count),
+  }
+}
+
+function normalizeDiffAccount(value: unknown): BackupDiffAccount | null {
+  const record = toRecord(value)
+  // Archive entries are wrapped as `{ follower: {...} }` or `{ following: {...} }`.
+  const item = { ...toRecord(record.follower), ...toRecord(record.following), ...record }
+  const link = asNonEmptyString(item.userLink)
+  const username = asNonEmptyString(item.username) || asNonEmptyString(item.screen_name)
+  const id =
+    asNonEmptyString(item.user_id)
+    || asNonEmptyString(item.accountId)
+    || extractUserIdFromLink(link)
+    || (username ? `@${username.toLowerCase()}` : null)
+  if (!id) return null
+
+  return {
+    id,
+    username,
+    name: asNonEmptyString(item.name) || asNonEmptyString(item.accountDisplayName),
+    url: username ? `https://x.com/${username}` : link,
+  }
+}
+
+function indexTweets(content: BackupDiffContent): Map<string, BackupDiffTweet> {
+  const byId = new Map<string, BackupDiffTweet>()
+  const add = (items: unknown[], fromRepliesList: boolean) => {
+    for (const value of items) {
+      const tweet = normalizeDiffTweet(value, fromRepliesList)
+      if (tweet && !byId.has(tweet.id)) byId.set(tweet.id, tweet)
+    }
+  }
+  add(content.tweets, false)
+  add(content.replies, true)
+  return byId
+}
+
+export function indexBackupDiffAccounts(items: unknown[]): Map<string, BackupDiffAccount> {
+  const byId = new Map<string, BackupDiffAccount>()
+  for (const value of items) {
+    const account = normalizeDiffAccount(value)
+    if (account && !byId.has(account.id)) byId.set(account.id, account)
+  }
+  return byId
+}
+
+function diffCount(before: number | null, after: number | null): BackupDiffCountChange | null {
+  if (before === null || after === null || before === after) return null
+  return { before, after, delta: after - before }
+}
+
+function compareNewestFirst(a: BackupDiffTweet, b: BackupDiffTweet): number {
+  return (b.createdAt || '').localeCompare(a.createdAt || '')
+}
+
+export function diffBackupAccounts(older: unknown[], newer: unknown[], options: { incomplete?: boolean } = {}) {
+  const olderById = indexBackupDiffAccounts(older)
+  const newerById = indexBackupDiffAccounts(newer)
+  const incomplete = Boolean(options.incomplete)
+  return {
+    compared: !incomplete && olderById.size > 0 && newerById.size > 0,
+    incomplete,
+    added: [...newerById.values()].filter((account) => !olderById.has(account.id)),
+    removed: [...olderById.values()].filter((account) => !newerById.has(account.id)),
+  }
+}
+
+/**
+ * Compares two backups of the same account. Works on raw archive or snapshot items, so ids, counts and
+ * text are normalized first. Sections one side did not capture are returned with `compared: false`.
+ */
+export function diffBackupContent(older: BackupDiffContent, newer: BackupDiffContent): BackupDiff {
+  const olderTweets = indexTweets(older)
+  const newerTweets = indexTweets(newer)
+  const tweetsCompared = olderTweets.size > 0 && newerTweets.size > 0
+
+  const added: BackupDiffTweet[] = []
+  const edited: BackupTweetEdit[] = []
+  const engagement: BackupEngagementChange[] = []
+  let oldestNewerAt: string | null = null
+
+  for (const tweet of newerTweets.values()) {
+    if (tweet.createdAt && (!oldestNewerAt || tweet.createdAt < oldestNewerAt)) oldestNewerAt = tweet.createdAt
+    const previous = olderTweets.get(tweet.id)
+    if (!previous) {
+      added.push(tweet)
+      continue
+    }
+    if (previous.text && tweet.text && toComparableText(previous.text) !== toComparableText(tweet.text)) {
+      edited.push({ id: tweet.id, before: previous, after: tweet })
+    }
+    const likes = diffCount(previous.likes, tweet.likes)
+    const reposts = diffCount(previous.reposts, tweet.reposts)
+    const replies = diffCount(previous.replies, tweet.replies)
+    if (likes || reposts || replies) engagement.push({ tweet, likes, reposts, replies })
+  }
+
+  const removed: BackupDiffTweet[] = []
+  let outsideNewerRange = 0
+  for (const tweet of olderTweets.values()) {
+    if (newerTweets.has(tweet.id)) continue
+    if (oldestNewerAt && tweet.createdAt && tweet.createdAt < oldestNewerAt) {
+      outsideNewerRange += 1
+    } else {
+      removed.push(tweet)
+    }
+  }
+
+  const engagementMagnitude = (change: BackupEngagementChange) =>
+    Math.abs(change.likes?.delta ?? 0) + Math.abs(change.reposts?.delta ?? 0) + Math.abs(change.replies?.delta ?? 0)
+
+  const socialGraphIncomplete = Boolean(older.socialGraphTruncated || newer.socialGraphTruncated)
+  const followers = diffBackupAccounts(older.followers, newer.followers, { incomplete: socialGraphIncomplete })
+  const following = diffBackupAccounts(older.following, newer.following, { incomplete: socialGraphIncomplete })
+
+  return {
+    tweets: {
+      compared: tweetsCompared,
+      added: tweetsCompared ? added.sort(compareNewestFirst) : [],
+      removed: tweetsCompared ? removed.sort(compareNewestFirst) : [],
+      outsideNewerRange: tweetsCompared ? outsideNewerRange : 0,
+      edited: tweetsCompared ? edited.sort((a, b) => compareNewestFirst(a.after, b.after)) : [],
+      engagement: tweetsCompared ? engagement.sort((a, b) => engagementMagnitude(b) - engagementMagnitude(a)) : [],
+    },
+    followers: {
+      compared: followers.compared,
+      incomplete: followers.incomplete,
+      gained: followers.compared ? followers.added : [],
+      lost: followers.compared ? followers.removed : [],
+    },
+    following: {
+      compared: following.compared,
+      incomplete: following.incomplete,
+      added: following.compared ? following.added : [],
+      removed: following.compared ? following.removed : [],
+    },
+  }
+}
+
+export async function loadBackupDiffContent(
+  supabase: SupabaseClient,
+  backupId: string,
+  options: { socialGraphTruncated?: boolean } = {},
+): Promise<BackupDiffContent> {
+  const [tweets, replies, followers, following] = await Promise.all([
+    loadBackupContentItems(supabase, backupId, 'tweets'),
+    loadBackupContentItems(supabase, backupId, 'replies'),
+    loadBackupContentItems(supabase, backupId, 'followers'),
+    loadBackupContentItems(supabase, backupId, 'following'),
+  ])
+  return { tweets, replies, followers, following, socialGraphTruncated: Boolean(options.socialGraphTruncated) }
+}
@@ -0,0 +1,218 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type BackupSearchSource = 'tweet' | 'reply' | 'like' | 'follower' | 'following'
+
+export type BackupSearchQuery = {
+  // Free text handed to websearch_to_tsquery, so quoted phrases, OR and -negation keep working.
+  text: string
+  // Words and phrases to highlight in results.
+  highlightTerms: string[]
+  from: string | null
+  to: string | null
+  hasMedia: boolean
+  before: string | null
+  after: string | null
+  minLikes: number | null
+  errors: string[]
+}
+
+export type BackupSearchHit = {
+  backupId: string
+  source: BackupSearchSource
+  position: number
+  tweetId: string | null
+  createdAt: string | null
+  text: string
+  username: string | null
+  name: string | null
+  likes: number | null
+  url: string | null
+}
+
+const OPERATOR_PATTERN = /^(from|to|has|before|after|min_likes):(.*)$/i
+const TOKEN_PATTERN = /-?"[^"]*"?|\S+/g
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function asNonEmptyString(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function parseDateOperator(value: string): string | null {
+  if (!DATE_ONLY_PATTERN.test(value)) return null
+  const parsed = Date.parse(`${value}T00:00:00.000Z`)
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null
+}
+
+function normalizeHandle(value: string): string | null {
+  const handle = value.trim().replace(/^@/, '').toLowerCase()
+  return /^\w{1,50}$/.test(handle) ? handle : null
+}
+
+/**
+ * Splits a search box value into free text and X-style operators. `before:` is exclusive and `after:`
+ * inclusive, both as UTC calendar days.
+ */
+export function parseBackupSearchQuery(input: string): BackupSearchQuery {
+  const query: BackupSearchQuery = {
+    text: '',
+    highlightTerms: [],
+    from: null,
+    to: null,
+    hasMedia: false,
+    before: null,
+    after: null,
+    minLikes: null,
+    errors: [],
+  }
+  const textTokens: string[] = []
+
+  for (const token of input.match(TOKEN_PATTERN) || []) {
+    const operator = token.match(OPERATOR_PATTERN)
+    if (!operator) {
+      textTokens.push(token)
+      if (token.startsWith('-') || token.toLowerCase() === 'or') continue
+      const term = token.replace(/^"|"$/g, '').trim()
+      if (term) query.highlightTerms.push(term)
+      continue
+    }
+
+    const name = operator[1].toLowerCase()
+    const value = operator[2].trim()
+    if (name === 'from' || name === 'to') {
+      const handle = normalizeHandle(value)
+      if (!handle) query.errors.push(`${name}: needs a username`)
+      else query[name] = handle
+    } else if (name === 'has') {
+      if (value.toLowerCase() === 'media') query.hasMedia = true
+      else query.errors.push(`has:${value} is not supported; use has:media`)
+    } else if (name === 'before' || name === 'after') {
+      const date = parseDateOperator(value)
+      if (!date) query.errors.push(`${name}: needs a date like 2024-01-31`)
+      else query[name] = date
+    } else {
+      const minLikes = /^\d{1,9}$/.test(value) ? Number(value) : null
+      if (minLikes === null) query.errors.push('min_likes: needs a whole number')
+      else query.minLikes = minLikes
+    }
+  }
+
+  query.text = textTokens.join(' ').trim()
+  return query
+}
+
+export function hasBackupSearchCriteria(query: BackupSearchQuery): boolean {
+  return Boolean(
+    query.text || query.from || query.to || query.hasMedia || query.before || query.after || query.minLikes !== null,
+  )
+}
+
+/** Splits `text` into alternating plain and matched segments for highlighting. */
+export function splitBackupSearchHighlights(text: string, terms: string[]): Array<{ text: string; match: boolean }> {
+  const escaped = terms
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  if (!text || escaped.length === 0) return [{ text, match: false }]
+
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi')
+  // With a capturing group, split() puts every match at an odd index.
+  return text
+    .split(pattern)
+    .map((segment, index) => ({ text: segment, match: index % 2 === 1 }))
+    .filter((segment) => segment.text)
+}
+
+function toSearchHit(row: {
+  backup_id: string
+  source: BackupSearchSource
+  position: number
+  tweet_id: string | null
+  tweeted_at: string | null
+  data: unknown
+}): BackupSearchHit {
+  const data = toRecord(row.data)
+
+  if (row.source === 'follower' || row.source === 'following') {
+    const username = asNonEmptyString(data.username)
+    const userId = asNonEmptyString(data.user_id) || asNonEmptyString(data.accountId)
+    return {
+      backupId: row.backup_id,
+      source: row.source,
+      position: row.position,
+      tweetId: null,
+      createdAt: null,
+      text: asNonEmptyString(data.bio) || asNonEmptyString(data.description) || '',
+      username,
+      name: asNonEmptyString(data.name),
+      likes: null,
+      url: username
+        ? `https://x.com/${username}`
+        : userId
+          ? `https://twitter.com/intent/user?user_id=${userId}`
+          : null,
+    }
+  }
+
+  const author = toRecord(data.author)
+  const user = toRecord(data.user)
+  const likes = Number(asNonEmptyString(data.favorite_count) ?? Number.NaN)
+  return {
+    backupId: row.backup_id,
+    source: row.source,
+    position: row.position,
+    tweetId: row.tweet_id,
+    createdAt: row.tweeted_at,
+    text: asNonEmptyString(data.full_text) || asNonEmptyString(data.text) || '',
+    username: asNonEmptyString(author.username) || asNonEmptyString(user.screen_name),
+    name: asNonEmptyString(author.name) || asNonEmptyString(user.name),
+    likes: row.source !== 'like' && Number.isFinite(likes) ? likes : null,
+    url:
+      asNonEmptyString(data.tweet_url)
+      || asNonEmptyString(data.expanded_url)
+      || (row.tweet_id ? `https://x.com/i/status/${row.tweet_id}` : null),
+  }
+}
+
+export async function searchBackupContent(
+  supabase: SupabaseClient,
+  params: {
+    backupIds: string[]
+    query: BackupSearchQuery
+    limit: number
+    offset: number
+  },
+): Promise<{ hits: BackupSearchHit[]; hasMore: boolean }> {
+  const { backupIds, query, limit, offset } = params
+  if (backupIds.length === 0) return { hits: [], hasMore: false }
+
+  const { data, error } = await supabase.rpc('search_backup_content', {
+    p_backup_ids: backupIds,
+    p_text: query.text,
+    p_from: query.from,
+    p_to: query.to,
+    p_has_media: query.hasMedia,
+    p_before: query.before,
+    p_after: query.after,
+    p_min_likes: query.minLikes,
+    p_limit: limit + 1,
+    p_offset: offset,
+  })
+  if (error) {
+    throw new Error(`Failed to search backups: ${error.message}`)
+  }
+
+  const rows = (data || []) as Array<Parameters<typeof toSearchHit>[0]>
+  return {
+    hits: rows.slice(0, limit).map(toSearchHit),
+    hasMore: rows.length > limit,
+  }
+}
@@ -1,4 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
+import { deleteUnreferencedMediaBlobs, isMediaBlobPath } from '@/lib/storage/media-blobs'
 import { deleteObjectsFromR2 } from '@/lib/storage/r2'
 
 const STORAGE_REMOVE_BATCH_SIZE = 100
@@ -26,6 +27,32 @@ function chunkArray<T>(items: T[], chunkSize: number): T[][] {
   return chunks
 }
 
+async function findPathsReferencedByOtherBackups(
+  supabase: SupabaseClient,
+  backupId: string,
+  paths: string[],
+): Promise<Set<string>> {
+  const referenced = new Set<string>()
+  for (const chunk of chunkArray(paths, STORAGE_REMOVE_BATCH_SIZE)) {
+    const { data: otherRefs, error: refsError } = await supabase
+      .from('media_files')
+      .select('file_path')
+      .in('file_path', chunk)
+      .neq('backup_id', backupId)
+
+    if (refsError) {
+      throw new Error(`Failed to verify shared file references: ${refsError.message}`)
+    }
+
+    for (const ref of otherRefs || []) {
+      if (typeof ref.file_path === 'string' && ref.file_path.length > 0) {
+        referenced.add(ref.file_path)
+      }
+    }
+  }
+  return referenced
+}
+
 export type BackupDeleteResult = {
   mediaFilesChecked: number
   candidatePathsChecked: number
@@ -83,25 +110,8 @@ export async function deleteBackupAndStorageById(
     ]),
   )
 
-  const referencedByOtherBackups = new Set<string>()
-  if (candidatePaths.length > 0) {
-    const { data: otherRefs, error: refsError } = await supabase
-      .from('media_files')
-      .select('file_path')
-      .in('file_path', candidatePaths)
-      .neq('backup_id', backupId)
-
-    if (refsError) {
-      throw new Error(`Failed to verify shared file references: ${refsError.message}`)
-    }
-
-    for (const ref of otherRefs || []) {
-      if (typeof ref.file_path === 'string' && ref.file_path.length > 0) {
-        referencedByOtherBackups.add(ref.file_path)
-      }
-    }
-  }
-
+  // Media is stored once per content hash, so a blob stays in R2 while any other backup still lists it.
+  const referencedByOtherBackups = await findPathsReferencedByOtherBackups(supabase, backupId, candidatePaths)
   const filesToDelete = candidatePaths.filter((path) => !referencedByOtherBackups.has(path))
 
   const { error: deleteBackupError } = await supabase
@@ -116,7 +126,7 @@ export async function deleteBackupAndStorageById(
   let deletedCount = 0
   const failedDeletes: string[] = []
 
-  for (const chunk of chunkArray(filesToDelete, STORAGE_REMOVE_BATCH_SIZE)) {
+  for (const chunk of chunkArray(filesToDelete.filter((path) => !isMediaBlobPath(path)), STORAGE_REMOVE_BATCH_SIZE)) {
     try {
       await deleteObjectsFromR2(chunk)
     } catch {
@@ -127,6 +137,17 @@ export async function deleteBackupAndStorageById(
     deletedCount += chunk.length
   }
 
+  // Shared blobs are checked again in the database now the backup's rows are gone, since an import can
+  // reference one after the check above.
+  for (const chunk of chunkArray(filesToDelete.filter(isMediaBlobPath), STORAGE_REMOVE_BATCH_SIZE)) {
+    try {
+      const deleted = await deleteUnreferencedMediaBlobs(supabase, chunk)
+      deletedCount += deleted.length
+    } catch {
+      failedDeletes.push(...chunk)
+    }
+  }
+
   return {
     mediaFilesChecked: backupMediaFiles?.length || 0,
     candidatePathsChecked: candidatePaths.length,
@@ -0,0 +1,205 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadBackupContentItems } from '@/lib/backups/backup-content'
+import { indexBackupDiffAccounts, type BackupDiffAccount } from '@/lib/backups/backup-diff'
+import { isGuestBackupExpired } from '@/lib/backups/retention'
+import { isSocialGraphTruncated } from '@/lib/platforms/backup'
+
+const HISTORY_CANDIDATE_LIMIT = 200
+const DEFAULT_TIMELINE_SNAPSHOTS = 12
+const DEFAULT_ACCOUNTS_PER_LIST = 100
+
+export type SnapshotHistoryEntry = {
+  backupId: string
+  username: string
+  date: string
+  followersCount: number | null
+  followingCount: number | null
+  // True when the scrape stopped fetching followers/following at its cap.
+  socialGraphTruncated: boolean
+}
+
+export type FollowerTimelinePoint = SnapshotHistoryEntry & {
+  followersCaptured: number
+  followingCaptured: number
+}
+
+export type FollowerTimelinePeriod = {
+  fromBackupId: string
+  toBackupId: string
+  from: string
+  to: string
+  // False when either snapshot in the period did not fetch followers, or only fetched part of them.
+  compared: boolean
+  incomplete: boolean
+  mutualsCompared: boolean
+  followed: BackupDiffAccount[]
+  unfollowed: BackupDiffAccount[]
+  mutualsLost: BackupDiffAccount[]
+  counts: {
+    followed: number
+    unfollowed: number
+    mutualsLost: number
+  }
+}
+
+export type FollowerTimeline = {
+  username: string
+  points: FollowerTimelinePoint[]
+  periods: FollowerTimelinePeriod[]
+}
+
+type SocialGraph = {
+  followers: Map<string, BackupDiffAccount>
+  following: Map<string, BackupDiffAccount>
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function readCount(...values: unknown[]): number | null {
+  for (const value of values) {
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : Number.NaN
+    if (Number.isFinite(parsed) && parsed >= 0) return Math.floor(parsed)
+  }
+  return null
+}
+
+/**
+ * Lists the caller's live snapshots, newest first, with the profile counts each one recorded.
+ * Pass `username` to keep only snapshots of that handle.
+ */
+export async function listSnapshotHistoryForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { username?: string; limit?: number } = {},
+): Promise<SnapshotHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('backups')
+    .select('id, backup_type, created_at, profile:data->profile, stats:data->stats, scrape:data->scrape, retention:data->retention')
+    .eq('user_id', userId)
+    .eq('backup_type', 'snapshot')
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_CANDIDATE_LIMIT)
+
+  if (error) {
+    throw new Error(`Failed to load snapshot history: ${error.message}`)
+  }
+
+  const requestedHandle = options.username?.trim().toLowerCase() || null
+  const entries: SnapshotHistoryEntry[] = []
+  for (const backup of data || []) {
+    if (isGuestBackupExpired({ retention: backup.retention })) continue
+    const profile = toRecord(backup.profile)
+    const stats = toRecord(backup.stats)
+    const username = typeof profile.username === 'string' ? profile.username.trim() : ''
+    if (!username || (requestedHandle && username.toLowerCase() !== requestedHandle)) continue
+    entries.push({
+      backupId: backup.id,
+      username,
+      date: backup.created_at,
+      followersCount: readCount(profile.followersCount, stats.followers),
+      followingCount: readCount(profile.followingCount, stats.following),
+      socialGraphTruncated: isSocialGraphTruncated({ backup_type: backup.backup_type, data: { scrape: toRecord(backup.scrape) } }),
+    })
+    if (options.limit && entries.length >= options.limit) break
+  }
+
+  return entries
+}
+
+async function loadSocialGraph(supabase: SupabaseClient, backupId: string): Promise<SocialGraph> {
+  const [followers, following] = await Promise.all([
+    loadBackupContentItems(supabase, backupId, 'followers'),
+    loadBackupContentItems(supabase, backupId, 'following'),
+  ])
+  return {
+    followers: indexBackupDiffAccounts(followers),
+    following: indexBackupDiffAccounts(following),
+  }
+}
+
+function collectMutuals(graph: SocialGraph): Map<string, BackupDiffAccount> {
+  const mutuals = new Map<string, BackupDiffAccount>()
+  for (const [id, account] of graph.followers) {
+    if (graph.following.has(id)) mutuals.set(id, account)
+  }
+  return mutuals
+}
+
+function missingFrom<T>(source: Map<string, T>, target: Map<string, T>): T[] {
+  return [...source.entries()].filter(([id]) => !target.has(id)).map(([, value]) => value)
+}
+
+/**
+ * Walks a handle's snapshots oldest to newest and diffs each one's followers against the one before it.
+ * A mutual is lost when either side stops following. Only two social graphs are held in memory at a time.
+ */
+export async function buildFollowerTimeline(
+  supabase: SupabaseClient,
+  params: {
+    userId: string
+    username: string
+    limit?: number
+    accountsPerList?: number
+  },
+): Promise<FollowerTimeline> {
+  const accountsPerList = params.accountsPerList ?? DEFAULT_ACCOUNTS_PER_LIST
+  const history = await listSnapshotHistoryForUser(supabase, params.userId, {
+    username: params.username,
+    limit: params.limit ?? DEFAULT_TIMELINE_SNAPSHOTS,
+  })
+  const snapshots = [...history].reverse()
+
+  const points: FollowerTimelinePoint[] = []
+  const periods: FollowerTimelinePeriod[] = []
+  let previous: { entry: SnapshotHistoryEntry; graph: SocialGraph } | null = null
+
+  for (const entry of snapshots) {
+    const graph = await loadSocialGraph(supabase, entry.backupId)
+    points.push({
+      ...entry,
+      followersCount: entry.followersCount ?? (graph.followers.size > 0 ? graph.followers.size : null),
+      followingCount: entry.followingCount ?? (graph.following.size > 0 ? graph.following.size : null),
+      followersCaptured: graph.followers.size,
+      followingCaptured: graph.following.size,
+    })
+
+    if (previous) {
+      const incomplete = previous.entry.socialGraphTruncated || entry.socialGraphTruncated
+      const compared = !incomplete && previous.graph.followers.size > 0 && graph.followers.size > 0
+      const mutualsCompared = compared && previous.graph.following.size > 0 && graph.following.size > 0
+      const followed = compared ? missingFrom(graph.followers, previous.graph.followers) : []
+      const unfollowed = compared ? missingFrom(previous.graph.followers, graph.followers) : []
+      const mutualsLost = mutualsCompared ? missingFrom(collectMutuals(previous.graph), collectMutuals(graph)) : []
+
+      periods.push({
+        fromBackupId: previous.entry.backupId,
+        toBackupId: entry.backupId,
+        from: previous.entry.date,
+        to: entry.date,
+        compared,
+        incomplete,
+        mutualsCompared,
+        followed: followed.slice(0, accountsPerList),
+        unfollowed: unfollowed.slice(0, accountsPerList),
+        mutualsLost: mutualsLost.slice(0, accountsPerList),
+        counts: {
+          followed: followed.length,
+          unfollowed: unfollowed.length,
+          mutualsLost: mutualsLost.length,
+        },
+      })
+    }
+
+    previous = { entry, graph }
+  }
+
+  return {
+    username: snapshots[snapshots.length - 1]?.username || params.username,
+    points,
+    periods: periods.reverse(),
+  }
+}
@@ -1,4 +1,5 @@
 import type { ArchiveImportSelection, DmEncryptionUploadMetadata } from '@/lib/platforms/twitter/archive-import'
+import type { PlatformId } from '@/lib/platforms/types'
 import { Inngest } from 'inngest'
 
 export type ArchiveUploadRequestedEvent = {
@@ -10,6 +11,8 @@ export type ArchiveUploadRequestedEvent = {
     inputStoragePath: string
     importSelection: ArchiveImportSelection
     dmEncryption?: DmEncryptionUploadMetadata | null
+    grokChatEncryption?: DmEncryptionUploadMetadata | null
+    accountHistoryEncryption?: DmEncryptionUploadMetadata | null
     preserveArchiveFile?: boolean
   }
 }
@@ -28,6 +31,7 @@ export type SnapshotScrapeRequestedEvent = {
       followers: boolean
       following: boolean
     }
+    incremental?: boolean
     socialGraphMaxItems?: number
     apifyWebhook?: {
       baseUrl: string
@@ -46,7 +50,19 @@ export type SnapshotScrapeRequestedEvent = {
   }
 }
 
-export type InngestEvents = ArchiveUploadRequestedEvent | SnapshotScrapeRequestedEvent
+export type PlatformArchiveImportRequestedEvent = {
+  name: 'backup/platform-archive-import.requested'
+  data: {
+    jobId: string
+    userId: string
+    platform: PlatformId
+    inputStoragePath: string
+    importSelection: Record<string, boolean>
+    dmEncryption?: DmEncryptionUploadMetadata | null
+  }
+}
+
+export type InngestEvents = ArchiveUploadRequestedEvent | SnapshotScrapeRequestedEvent | PlatformArchiveImportRequestedEvent
 
 const configuredInngestAppId = process.env.INNGEST_APP_ID?.trim() || 'social-backup'
 const configuredInngestEventKey = process.env.INNGEST_EVENT_KEY?.trim()
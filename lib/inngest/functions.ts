@@ -2,8 +2,10 @@ import type { TwitterScrapeTargets } from '@/lib/twitter/types'
 import { inngest } from '@/lib/inngest/client'
 import { cleanupExpiredGuestBackups } from '@/lib/backups/guest-retention-cleanup'
 import type { ArchiveImportSelection, DmEncryptionUploadMetadata } from '@/lib/platforms/twitter/archive-import'
+import { processPlatformArchiveImportJob } from '@/lib/platforms/archive-import-job'
 import { processArchiveUploadJob } from '@/lib/platforms/twitter/archive-upload-job'
 import { processSnapshotScrapeJob } from '@/lib/platforms/twitter/snapshot-scrape-job'
+import { runDueSnapshotSchedules } from '@/lib/platforms/twitter/snapshot-schedules'
 
 export const archiveUploadProcessor = inngest.createFunction(
   {
@@ -20,6 +22,8 @@ export const archiveUploadProcessor = inngest.createFunction(
         inputStoragePath: string
         importSelection: ArchiveImportSelection
         dmEncryption?: DmEncryptionUploadMetadata | null
+        grokChatEncryption?: DmEncryptionUploadMetadata | null
+        accountHistoryEncryption?: DmEncryptionUploadMetadata | null
         preserveArchiveFile?: boolean
       }
 
@@ -30,12 +34,43 @@ export const archiveUploadProcessor = inngest.createFunction(
         inputStoragePath: payload.inputStoragePath,
         importSelection: payload.importSelection,
         dmEncryption: payload.dmEncryption,
+        grokChatEncryption: payload.grokChatEncryption,
+        accountHistoryEncryption: payload.accountHistoryEncryption,
         preserveArchiveFile: payload.preserveArchiveFile,
       })
     })
   },
 )
 
+export const platformArchiveImportProcessor = inngest.createFunction(
+  {
+    id: 'platform-archive-import-processor',
+    retries: 5,
+  },
+  { event: 'backup/platform-archive-import.requested' },
+  async ({ event, step }) => {
+    await step.run('process-platform-archive-import', async () => {
+      const payload = event.data as {
+        jobId: string
+        userId: string
+        platform: string
+        inputStoragePath: string
+        importSelection: Record<string, boolean>
+        dmEncryption?: DmEncryptionUploadMetadata | null
+      }
+
+      await processPlatformArchiveImportJob({
+        jobId: payload.jobId,
+        userId: payload.userId,
+        platform: payload.platform,
+        inputStoragePath: payload.inputStoragePath,
+        importSelection: payload.importSelection,
+        dmEncryption: payload.dmEncryption,
+      })
+    })
+  },
+)
+
 export const snapshotScrapeProcessor = inngest.createFunction(
   {
     id: 'snapshot-scrape-processor',
@@ -51,6 +86,7 @@ export const snapshotScrapeProcessor = inngest.createFunction(
         tweetsToScrape: number
         targets: TwitterScrapeTargets
         includeMedia?: boolean
+        incremental?: boolean
         retention?: {
           mode: 'account' | 'guest_30d'
           expiresAtIso: string | null
@@ -79,6 +115,7 @@ export const snapshotScrapeProcessor = inngest.createFunction(
         tweetsToScrape: payload.tweetsToScrape,
         targets: payload.targets,
         includeMedia: payload.includeMedia,
+        incremental: payload.incremental,
         retention: payload.retention,
         socialGraphMaxItems: payload.socialGraphMaxItems,
         apifyWebhook: payload.apifyWebhook,
@@ -102,4 +139,23 @@ export const guestRetentionCleanup = inngest.createFunction(
   },
 )
 
-export const inngestFunctions = [archiveUploadProcessor, snapshotScrapeProcessor, guestRetentionCleanup]
+export const snapshotScheduler = inngest.createFunction(
+  {
+    id: 'snapshot-scheduler',
+    retries: 1,
+  },
+  { cron: 'TZ=UTC 0 * * * *' },
+  async ({ step }) => {
+    await step.run('enqueue-due-snapshot-schedules', async () => {
+      return runDueSnapshotSchedules(100)
+    })
+  },
+)
+
+export const inngestFunctions = [
+  archiveUploadProcessor,
+  platformArchiveImportProcessor,
+  snapshotScrapeProcessor,
+  guestRetentionCleanup,
+  snapshotScheduler,
+]
@@ -2,7 +2,7 @@ import type { SupabaseClient } from '@supabase/supabase-js'
 
 type JsonObject = Record<string, unknown>
 
-export type BackupJobType = 'archive_upload' | 'snapshot_scrape'
+export type BackupJobType = 'archive_upload' | 'snapshot_scrape' | 'platform_archive_import'
 export type BackupJobStatus = 'queued' | 'processing' | 'completed' | 'failed'
 
 export type BackupJob = {
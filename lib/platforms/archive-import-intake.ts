@@ -0,0 +1,104 @@
+import { inngest } from '@/lib/inngest/client'
+import { createBackupJob, markBackupJobFailed, mergeBackupJobPayload } from '@/lib/jobs/backup-jobs'
+import type { PlatformArchiveImporter } from '@/lib/platforms/archive-import'
+import { normalizeDmEncryptionUploadMetadata } from '@/lib/platforms/twitter/archive-import'
+import { ensureUserScopedStagedPath } from '@/lib/platforms/twitter/archive-upload-intake'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { deleteObjectsFromR2 } from '@/lib/storage/r2'
+
+const supabase = createAdminClient()
+
+function extractInngestEventIds(response: unknown): string[] {
+  if (!response || typeof response !== 'object') return []
+  const ids = (response as { ids?: unknown }).ids
+  if (!Array.isArray(ids)) return []
+  return ids.filter((id): id is string => typeof id === 'string' && id.length > 0)
+}
+
+/**
+ * Queues an import of a staged export for a platform with a registered archive importer. Upload
+ * validation is shared with Twitter (`validateArchiveUploadRequest`); callers run it first.
+ */
+export async function enqueuePlatformArchiveImportJob<Selection extends Record<string, boolean>>(params: {
+  userId: string
+  importer: PlatformArchiveImporter<Selection>
+  fileName: string
+  fileSize: number
+  stagedInputPath: string
+  importSelection?: unknown
+  dmEncryption?: unknown
+}) {
+  const { userId, importer, fileName, fileSize, stagedInputPath } = params
+  const importSelection = importer.normalizeSelection(params.importSelection)
+  const hasDmEncryptionPayload = params.dmEncryption !== undefined && params.dmEncryption !== null
+  const parsedDmEncryption = normalizeDmEncryptionUploadMetadata(params.dmEncryption)
+  if (hasDmEncryptionPayload && !parsedDmEncryption) {
+    throw new Error('Invalid DM encryption payload.')
+  }
+  const dmEncryption = parsedDmEncryption
+    ? {
+        ...parsedDmEncryption,
+        encrypted_input_path: ensureUserScopedStagedPath(parsedDmEncryption.encrypted_input_path, userId),
+      }
+    : null
+  if (importSelection.direct_messages && !dmEncryption) {
+    throw new Error('DM encryption is required when importing chats.')
+  }
+
+  const job = await createBackupJob(supabase, {
+    userId,
+    jobType: 'platform_archive_import',
+    message: 'Archive uploaded. Waiting to process...',
+    payload: {
+      platform: importer.platform,
+      upload_file_name: fileName,
+      upload_file_size: fileSize,
+      import_selection: importSelection,
+      dm_encryption: dmEncryption,
+    },
+  })
+
+  await mergeBackupJobPayload(supabase, job.id, {
+    staged_input_path: stagedInputPath,
+    lifecycle_state: 'queued',
+  })
+
+  try {
+    const eventKey = process.env.INNGEST_EVENT_KEY?.trim()
+    if (!eventKey) {
+      throw new Error('Inngest is not configured. Missing INNGEST_EVENT_KEY.')
+    }
+
+    const sendResult = await inngest.send({
+      name: 'backup/platform-archive-import.requested',
+      data: {
+        jobId: job.id,
+        userId,
+        platform: importer.platform,
+        inputStoragePath: stagedInputPath,
+        importSelection,
+        dmEncryption,
+      },
+    })
+
+    const eventIds = extractInngestEventIds(sendResult)
+    if (eventIds.length > 0) {
+      await mergeBackupJobPayload(supabase, job.id, {
+        inngest_event_ids: eventIds,
+      })
+    }
+  } catch (enqueueError) {
+    await markBackupJobFailed(
+      supabase,
+      job.id,
+      `Failed to queue background processing: ${enqueueError instanceof Error ? enqueueError.message : 'Unknown error'}`,
+    )
+    await deleteObjectsFromR2([
+      stagedInputPath,
+      ...(dmEncryption ? [dmEncryption.encrypted_input_path] : []),
+    ]).catch(() => {})
+    throw enqueueError
+  }
+
+  return job
+}
@@ -0,0 +1,468 @@
+import {
+  isBackupJobCancellationRequested,
+  markBackupJobCompleted,
+  markBackupJobCleanup,
+  markBackupJobFailed,
+  markBackupJobProcessing,
+  markBackupJobProgress,
+  mergeBackupJobPayload,
+} from '@/lib/jobs/backup-jobs'
+import { replaceBackupContent } from '@/lib/backups/backup-content'
+import { deleteBackupAndStorageById } from '@/lib/backups/delete-backup-data'
+import {
+  attachArchiveMediaUrls,
+  collectArchiveMediaRefs,
+  createArchivePathResolver,
+  createSingleFileReader,
+  isSingleFileUpload,
+  normalizeArchivePath,
+  type ArchiveFileReader,
+  type ArchiveMediaRef,
+  type PlatformArchiveImporter,
+} from '@/lib/platforms/archive-import'
+import { getPlatformArchiveImporter } from '@/lib/platforms/archive-importers'
+import {
+  normalizeDmEncryptionUploadMetadata,
+  normalizeEncryptedDirectMessagesPayload,
+  type DmEncryptionUploadMetadata,
+  type EncryptedDirectMessagesPayload,
+} from '@/lib/platforms/twitter/archive-import'
+import { TWITTER_UPLOAD_LIMITS } from '@/lib/platforms/twitter/limits'
+import { ensureMediaBlobStored, storeMediaBlob } from '@/lib/storage/media-blobs'
+import { buildInternalMediaUrl } from '@/lib/storage/media-url'
+import { deleteObjectsFromR2, downloadObjectFromR2, getObjectMetadataFromR2 } from '@/lib/storage/r2'
+import { openR2ZipArchive, type R2ZipArchive } from '@/lib/storage/r2-zip'
+import { recalculateAndPersistBackupStorage } from '@/lib/storage/usage'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+const supabase = createAdminClient()
+
+class JobCancelledError extends Error {
+  constructor(message: string = 'Job cancelled by user') {
+    super(message)
+    this.name = 'JobCancelledError'
+  }
+}
+
+type ZipEntry = R2ZipArchive['entries'][number]
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+}
+
+type StagedArchiveMedia = {
+  size: number
+  read: () => Promise<Buffer>
+}
+
+export type StagedPlatformArchive = {
+  reader: ArchiveFileReader
+  sizeBytes: number
+  // Looks up a media file by entry path. Single-file uploads carry no media.
+  media: (path: string) => StagedArchiveMedia | null
+  close: () => void
+}
+
+function wrapR2ZipArchive(archive: R2ZipArchive): StagedPlatformArchive {
+  const entriesByPath = new Map<string, ZipEntry>()
+  for (const entry of archive.entries) {
+    if (entry.fileName.endsWith('/')) continue
+    entriesByPath.set(normalizeArchivePath(entry.fileName), entry)
+  }
+  const paths = [...entriesByPath.keys()]
+
+  return {
+    reader: {
+      paths,
+      resolve: createArchivePathResolver(paths),
+      readText: async (path) => {
+        const entry = entriesByPath.get(path)
+        if (!entry) return ''
+        const buffer = await archive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+        return buffer.toString('utf8')
+      },
+      readBytes: async (path) => {
+        const entry = entriesByPath.get(path)
+        if (!entry) return new Uint8Array(0)
+        return archive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes)
+      },
+    },
+    sizeBytes: archive.sizeBytes,
+    media: (path) => {
+      const entry = entriesByPath.get(path)
+      if (!entry) return null
+      return {
+        size: entry.uncompressedSize,
+        read: () => archive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes),
+      }
+    },
+    close: () => archive.close(),
+  }
+}
+
+/**
+ * Opens a staged upload for an importer: a ZIP, or a bare file when the importer declares
+ * `singleFileName`. Bare files get the same caps as ZIP entries: the metadata limit when read as
+ * text and the media limit otherwise. Returns null when the staged object is missing.
+ */
+export async function openStagedPlatformArchive(
+  inputStoragePath: string,
+  importer: PlatformArchiveImporter,
+): Promise<StagedPlatformArchive | null> {
+  if (importer.singleFileName && isSingleFileUpload(inputStoragePath, importer.singleFileName)) {
+    const metadata = await getObjectMetadataFromR2(inputStoragePath)
+    if (!metadata) return null
+    if ((metadata.contentLength || 0) > TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes) {
+      throw new Error(`Uploaded file exceeds size limit (${TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes} bytes).`)
+    }
+    const buffer = await downloadObjectFromR2(inputStoragePath)
+    if (!buffer) return null
+    return {
+      reader: createSingleFileReader(importer.singleFileName, async () => buffer, {
+        maxTextBytes: TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
+      }),
+      sizeBytes: buffer.length,
+      media: () => null,
+      close: () => {},
+    }
+  }
+
+  const archive = await openR2ZipArchive(inputStoragePath, {
+    maxEntries: TWITTER_UPLOAD_LIMITS.maxZipEntries,
+  })
+  return archive ? wrapR2ZipArchive(archive) : null
+}
+
+async function ensureImportJobNotCancelled(jobId: string) {
+  const cancelRequested = await isBackupJobCancellationRequested(supabase, jobId)
+  if (cancelRequested) {
+    throw new JobCancelledError()
+  }
+}
+
+/**
+ * Uploads every media file referenced from the parsed content, deduplicated by archive path and
+ * bounded by the archive media limits. Returns archive path -> internal media URL.
+ */
+async function storeReferencedMedia(params: {
+  archive: StagedPlatformArchive
+  refs: ArchiveMediaRef[]
+  userId: string
+  backupId: string
+  platform: string
+  onProgress: (processed: number, total: number) => Promise<void>
+  ensureActive: () => Promise<void>
+}): Promise<Map<string, string>> {
+  const { archive, userId, backupId, platform, onProgress, ensureActive } = params
+  const urlByPath = new Map<string, string>()
+
+  const pending: Array<{ archivePath: string; mimeType?: string; media: StagedArchiveMedia }> = []
+  const seen = new Set<string>()
+  let totalBytes = 0
+  for (const ref of params.refs) {
+    if (seen.has(ref.archive_path)) continue
+    seen.add(ref.archive_path)
+    const resolvedPath = archive.reader.resolve(ref.archive_path)
+    const media = resolvedPath ? archive.media(resolvedPath) : null
+    if (!media || media.size > TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes) continue
+    if (pending.length >= TWITTER_UPLOAD_LIMITS.maxMediaFiles) break
+    if (totalBytes + media.size > TWITTER_UPLOAD_LIMITS.maxMediaBytes) break
+    totalBytes += media.size
+    pending.push({ archivePath: ref.archive_path, mimeType: ref.mime_type, media })
+  }
+
+  let processed = 0
+  for (const { archivePath, mimeType: refMimeType, media } of pending) {
+    if (processed % 25 === 0) await ensureActive()
+
+    try {
+      const fileName = archivePath.split('/').pop() || archivePath
+      const extension = fileName.split('.').pop()?.toLowerCase() || ''
+      const mimeType = refMimeType || MIME_TYPES[extension] || 'application/octet-stream'
+      const body = await media.read()
+      const blob = await storeMediaBlob({ userId, body, contentType: mimeType, fileName })
+
+      const { data: existingForBackup } = await supabase
+        .from('media_files')
+        .select('id')
+        .eq('backup_id', backupId)
+        .eq('file_path', blob.storagePath)
+        .maybeSingle()
+
+      if (!existingForBackup) {
+        const { error } = await supabase.from('media_files').insert({
+          user_id: userId,
+          backup_id: backupId,
+          file_path: blob.storagePath,
+          file_name: fileName,
+          file_size: body.length,
+          mime_type: mimeType,
+          media_type: `${platform}_media`,
+          content_sha256: blob.sha256,
+        })
+        if (error) {
+          console.error(`[Platform Archive Job] Failed to insert media record for ${archivePath}:`, error)
+          continue
+        }
+      }
+      await ensureMediaBlobStored(supabase, blob, { body, contentType: mimeType })
+
+      urlByPath.set(archivePath, buildInternalMediaUrl(blob.storagePath))
+    } catch (error) {
+      console.error(`[Platform Archive Job] Error processing media file ${archivePath}:`, error)
+    } finally {
+      processed += 1
+      if (processed === pending.length || processed % 5 === 0) {
+        await onProgress(processed, pending.length)
+      }
+    }
+  }
+
+  return urlByPath
+}
+
+async function loadEncryptedDirectMessages(dmEncryption: DmEncryptionUploadMetadata): Promise<EncryptedDirectMessagesPayload> {
+  const buffer = await downloadObjectFromR2(dmEncryption.encrypted_input_path)
+  if (!buffer) {
+    throw new Error('Failed to load encrypted DM payload.')
+  }
+  const payload = normalizeEncryptedDirectMessagesPayload(JSON.parse(buffer.toString('utf8')))
+  if (!payload) {
+    throw new Error('Encrypted DM payload is invalid.')
+  }
+  return payload
+}
+
+/**
+ * Imports a staged export with the platform's registered importer. Mirrors the Twitter archive job:
+ * the backup row is created early so cancellation can clean it up, media is uploaded next, and the
+ * parsed content is written once every media URL is known.
+ */
+export async function processPlatformArchiveImportJob(params: {
+  jobId: string
+  userId: string
+  platform: string
+  inputStoragePath: string
+  importSelection?: unknown
+  dmEncryption?: DmEncryptionUploadMetadata | null
+}) {
+  const { jobId, userId, inputStoragePath } = params
+  const dmEncryption = normalizeDmEncryptionUploadMetadata(params.dmEncryption)
+
+  let archive: StagedPlatformArchive | null = null
+  let createdBackupId: string | null = null
+
+  try {
+    const importer: PlatformArchiveImporter | null = getPlatformArchiveImporter(params.platform)
+    if (!importer) {
+      throw new Error(`No archive importer is registered for platform "${params.platform}".`)
+    }
+    const importSelection = importer.normalizeSelection(params.importSelection)
+    const hasEncryptedDmImport = Boolean(importSelection.direct_messages && dmEncryption)
+
+    await markBackupJobProcessing(supabase, jobId, 5, 'Reading uploaded archive...')
+    await mergeBackupJobPayload(supabase, jobId, { lifecycle_state: 'processing' })
+    await ensureImportJobNotCancelled(jobId)
+
+    try {
+      archive = await openStagedPlatformArchive(inputStoragePath, importer)
+    } catch (error) {
+      console.error('[Platform Archive Job] Failed to open staged archive:', error)
+      throw new Error('Failed to extract archive')
+    }
+    if (!archive) {
+      throw new Error('Failed to load uploaded archive payload')
+    }
+    const stagedArchive = archive
+
+    await markBackupJobProgress(supabase, jobId, 15, 'Extracting archive files...')
+    await ensureImportJobNotCancelled(jobId)
+
+    const content = await importer.parse(stagedArchive.reader, importSelection)
+    const stats: Record<string, number> = { ...content.stats }
+
+    let encryptedDirectMessages: EncryptedDirectMessagesPayload | null = null
+    if (hasEncryptedDmImport && dmEncryption) {
+      encryptedDirectMessages = await loadEncryptedDirectMessages(dmEncryption)
+      stats.dms = dmEncryption.message_count || encryptedDirectMessages.metadata.message_count
+    }
+
+    await markBackupJobProgress(supabase, jobId, 45, 'Saving backup record...')
+    await ensureImportJobNotCancelled(jobId)
+
+    const username = content.profile.username
+    const { data: socialProfile } = username
+      ? await supabase
+          .from('social_profiles')
+          .upsert(
+            {
+              user_id: userId,
+              platform: importer.platform,
+              platform_username: username,
+              platform_user_id: content.profile.platformUserId || null,
+              display_name: content.profile.displayName || username,
+              profile_url: content.profile.profileUrl || null,
+              added_via: 'archive',
+              updated_at: new Date().toISOString(),
+            },
+            {
+              onConflict: 'user_id,platform,platform_username',
+            },
+          )
+          .select('id')
+          .single()
+      : { data: null }
+
+    const { data: backupData, error: backupError } = await supabase
+      .from('backups')
+      .insert({
+        user_id: userId,
+        social_profile_id: socialProfile?.id || null,
+        backup_type: 'full_archive',
+        source: `${importer.platform}_archive`,
+        data: {
+          platform: importer.platform,
+          import_selection: importSelection,
+        },
+      })
+      .select()
+      .single()
+
+    if (backupError) {
+      throw new Error(`Failed to create backup: ${backupError.message}`)
+    }
+
+    const backupId = backupData.id as string
+    createdBackupId = backupId
+
+    await mergeBackupJobPayload(supabase, jobId, { partial_backup_id: backupId })
+    await ensureImportJobNotCancelled(jobId)
+
+    let storedMediaCount = 0
+    if (importSelection.media) {
+      await markBackupJobProgress(supabase, jobId, 55, 'Uploading archive media files...')
+      const refs = collectArchiveMediaRefs([content.data, content.tweets, content.profile.profileImage])
+      const urlByPath = await storeReferencedMedia({
+        archive: stagedArchive,
+        refs,
+        userId,
+        backupId,
+        platform: importer.platform,
+        onProgress: async (processed, total) => {
+          if (total <= 0) return
+          const progress = 55 + Math.round((processed / total) * 30)
+          await markBackupJobProgress(supabase, jobId, Math.min(progress, 85), `Uploading media files (${processed}/${total})...`)
+        },
+        ensureActive: async () => ensureImportJobNotCancelled(jobId),
+      })
+      attachArchiveMediaUrls([content.data, content.tweets, content.profile.profileImage], urlByPath)
+      storedMediaCount = urlByPath.size
+    } else {
+      await markBackupJobProgress(supabase, jobId, 85, 'Skipping media import by request...')
+    }
+
+    await markBackupJobProgress(supabase, jobId, 88, 'Finalizing backup data...')
+    await ensureImportJobNotCancelled(jobId)
+
+    await replaceBackupContent(supabase, {
+      backupId,
+      userId,
+      content: {
+        ...(content.tweets ? { tweets: content.tweets } : {}),
+        ...(content.followers ? { followers: content.followers } : {}),
+        ...(content.following ? { following: content.following } : {}),
+      },
+    })
+
+    const { error: updateError } = await supabase
+      .from('backups')
+      .update({
+        data: {
+          ...content.data,
+          platform: importer.platform,
+          profile: {
+            username,
+            displayName: content.profile.displayName || username,
+            bio: content.profile.bio,
+            profileUrl: content.profile.profileUrl,
+            profileImageUrl: content.profile.profileImage?.url,
+          },
+          stats: {
+            ...stats,
+            media_files: storedMediaCount,
+          },
+          encrypted_direct_messages: encryptedDirectMessages,
+          import_selection: importSelection,
+          uploaded_file_size: stagedArchive.sizeBytes,
+        },
+      })
+      .eq('id', backupId)
+
+    if (updateError) {
+      throw new Error(`Failed to finalize archive backup record: ${updateError.message}`)
+    }
+
+    await recalculateAndPersistBackupStorage(supabase, backupId)
+
+    await ensureImportJobNotCancelled(jobId)
+    await mergeBackupJobPayload(supabase, jobId, {
+      lifecycle_state: 'completed',
+      partial_backup_id: null,
+    })
+    await markBackupJobCompleted(supabase, jobId, backupId, 'Archive backup completed successfully.')
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      console.log(`[Platform Archive Job] Cancellation requested for ${jobId}. Cleaning up...`)
+      await markBackupJobCleanup(supabase, jobId, 'Cancellation requested. Cleaning up partial data...')
+      if (createdBackupId) {
+        try {
+          await deleteBackupAndStorageById(supabase, {
+            backupId: createdBackupId,
+            expectedUserId: userId,
+          })
+        } catch (cleanupError) {
+          console.error(`[Platform Archive Job] Cleanup failed for backup ${createdBackupId}:`, cleanupError)
+        }
+      }
+      await mergeBackupJobPayload(supabase, jobId, {
+        lifecycle_state: 'cancelled',
+        partial_backup_id: null,
+      })
+      await markBackupJobFailed(supabase, jobId, 'Cancelled by user', 'Cancelled')
+      return
+    }
+
+    console.error('[Platform Archive Job] Error:', error)
+    await mergeBackupJobPayload(supabase, jobId, {
+      lifecycle_state: 'failed',
+    })
+    await markBackupJobFailed(
+      supabase,
+      jobId,
+      error instanceof Error ? error.message : 'Archive processing failed',
+    )
+  } finally {
+    archive?.close()
+
+    try {
+      await deleteObjectsFromR2([
+        inputStoragePath,
+        ...(dmEncryption?.encrypted_input_path ? [dmEncryption.encrypted_input_path] : []),
+      ])
+    } catch (removeInputError) {
+      console.warn(`[Platform Archive Job] Failed to clean up staged input ${inputStoragePath}:`, removeInputError)
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import type { PlatformId } from '@/lib/platforms/types'
+
+/**
+ * Shared pieces of the archive importers for platforms other than Twitter. Each platform module
+ * parses its export through an `ArchiveFileReader`, so the same parsing code runs on the server
+ * (against the staged ZIP in R2) and in the browser (for data that is encrypted before upload).
+ */
+
+export type ArchiveFileReader = {
+  // Entry paths with backslashes and a leading `./` normalized away. Directories are excluded.
+  paths: string[]
+  readText: (path: string) => Promise<string>
+  // For binary exports such as CAR files.
+  readBytes: (path: string) => Promise<Uint8Array>
+  // Maps a path referenced inside the export (e.g. `media/posts/x.jpg`) to an entry path.
+  resolve: (reference: string) => string | null
+}
+
+export type ArchiveMediaType = 'image' | 'video' | 'audio'
+
+/**
+ * Media is referenced from parsed data with these objects. The import job uploads every referenced
+ * file it can find in the ZIP and fills in `url`; refs that were not stored keep only the path.
+ */
+export type ArchiveMediaRef = {
+  archive_path: string
+  media_type: ArchiveMediaType
+  // Set when the entry name carries no usable extension (e.g. blobs stored under their CID).
+  mime_type?: string
+  url?: string
+}
+
+export type PlatformArchivePreviewData = {
+  recognized: boolean
+  stats: Record<string, number>
+  available: Record<string, boolean>
+}
+
+export type PlatformArchiveProfile = {
+  username: string
+  displayName?: string
+  bio?: string
+  platformUserId?: string
+  profileUrl?: string
+  profileImage?: ArchiveMediaRef | null
+}
+
+export type PlatformArchiveContent = {
+  profile: PlatformArchiveProfile
+  stats: Record<string, number>
+  // Stored on `backups.data` next to `profile` and `stats`.
+  data: Record<string, unknown>
+  // Tweet-shaped posts, stored in `backup_tweets` and rendered by `BackupViewer`.
+  tweets?: unknown[]
+  followers?: unknown[]
+  following?: unknown[]
+}
+
+// Follower/following rows, stored in `backup_connections` and paged through `/api/backups/content`.
+export type ArchiveConnection = {
+  username: string
+  // Empty when the export carries no link to the account (Facebook friends and followers).
+  profile_url: string
+  // Set when the export only names the account; shown instead of `@username`.
+  display_name?: string
+  followed_at: string | null
+}
+
+export type ArchiveMessage = {
+  sender_name: string
+  text: string
+  created_at: string | null
+  share_url?: string
+  // Archive paths of attachments. Message media is not uploaded.
+  attachments?: string[]
+}
+
+// Decrypted shape of `encrypted_direct_messages` for every archive importer.
+export type ArchiveConversation = {
+  conversation_id: string
+  title: string
+  participants: string[]
+  messages: ArchiveMessage[]
+  message_count: number
+}
+
+export type PlatformArchiveImporter<Selection extends Record<string, boolean> = Record<string, boolean>> = {
+  platform: PlatformId
+  // Human name of the export, used in validation errors ("Please upload a .zip <label>.").
+  archiveLabel: string
+  // Preview error shown when an upload is not this platform's export; says where to get the right file.
+  unrecognizedMessage: string
+  /**
+   * Set when the export is a single file that may also be uploaded unzipped. A bare upload with the
+   * same extension is read as if it were a ZIP holding one entry with this name.
+   */
+  singleFileName?: string
+  normalizeSelection(input: unknown): Selection
+  preview(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData>
+  parse(reader: ArchiveFileReader, selection: Selection): Promise<PlatformArchiveContent>
+}
+
+// Keys missing from `input` (or not booleans) fall back to `defaults`; unknown keys are dropped.
+export function normalizeArchiveSelection<Key extends string>(
+  input: unknown,
+  defaults: Record<Key, boolean>,
+): Record<Key, boolean> {
+  const raw = input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : {}
+  const selection = { ...defaults }
+  for (const key of Object.keys(defaults) as Key[]) {
+    if (typeof raw[key] === 'boolean') selection[key] = raw[key]
+  }
+  return selection
+}
+
+export function normalizeArchivePath(fileName: string): string {
+  return fileName.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+/, '').trim()
+}
+
+/**
+ * Exports are sometimes re-zipped inside a wrapper folder, so references are looked up both as-is
+ * and with the first path segment of each entry stripped.
+ */
+export function createArchivePathResolver(paths: string[]): (reference: string) => string | null {
+  const exact = new Set(paths)
+  const withoutRoot = new Map<string, string>()
+  for (const path of paths) {
+    const slashIndex = path.indexOf('/')
+    if (slashIndex < 0) continue
+    const stripped = path.slice(slashIndex + 1)
+    if (!withoutRoot.has(stripped)) withoutRoot.set(stripped, path)
+  }
+
+  return (reference) => {
+    const normalized = normalizeArchivePath(reference).split(/[?#]/)[0]
+    if (!normalized) return null
+    if (exact.has(normalized)) return normalized
+    return withoutRoot.get(normalized) || null
+  }
+}
+
+export function findArchivePaths(paths: string[], patterns: RegExp[]): string[] {
+  return paths
+    .filter((path) => patterns.some((pattern) => pattern.test(path)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+}
+
+export async function readArchiveJson(reader: ArchiveFileReader, path: string): Promise<unknown> {
+  try {
+    const content = (await reader.readText(path)).replace(/^\uFEFF/, '').trim()
+    return content ? JSON.parse(content) : null
+  } catch {
+    return null
+  }
+}
+
+// Parsed export JSON is untyped; importers narrow each value with these before reading fields.
+export function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+export function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+const MEDIA_TYPE_BY_EXTENSION: Record<string, ArchiveMediaType> = {
+  jpg: 'image',
+  jpeg: 'image',
+  png: 'image',
+  gif: 'image',
+  webp: 'image',
+  heic: 'image',
+  mp4: 'video',
+  mov: 'video',
+  webm: 'video',
+  m4a: 'audio',
+  mp3: 'audio',
+  aac: 'audio',
+  ogg: 'audio',
+}
+
+export function inferArchiveMediaType(path: string): ArchiveMediaType | null {
+  const extension = path.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || ''
+  return MEDIA_TYPE_BY_EXTENSION[extension] || null
+}
+
+export function toArchiveMediaRef(path: unknown): ArchiveMediaRef | null {
+  if (typeof path !== 'string') return null
+  const archivePath = normalizeArchivePath(path)
+  if (!archivePath || /^[a-z]+:\/\//i.test(archivePath)) return null
+  const mediaType = inferArchiveMediaType(archivePath)
+  return mediaType ? { archive_path: archivePath, media_type: mediaType } : null
+}
+
+export function isArchiveMediaRef(value: unknown): value is ArchiveMediaRef {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const record = value as Record<string, unknown>
+  return typeof record.archive_path === 'string' && typeof record.media_type === 'string'
+}
+
+export function collectArchiveMediaRefs(value: unknown, refs: ArchiveMediaRef[] = []): ArchiveMediaRef[] {
+  if (Array.isArray(value)) {
+    for (const item of value) collectArchiveMediaRefs(item, refs)
+  } else if (isArchiveMediaRef(value)) {
+    refs.push(value)
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectArchiveMediaRefs(item, refs)
+  }
+  return refs
+}
+
+// Fills in `url` on every media ref whose archive path was stored, in place.
+export function attachArchiveMediaUrls(value: unknown, urlByPath: Map<string, string>): void {
+  for (const ref of collectArchiveMediaRefs(value)) {
+    const url = urlByPath.get(ref.archive_path)
+    if (url) ref.url = url
+  }
+}
+
+let zipJsConfigured = false
+
+async function loadZipJs() {
+  const zipJs = await import('@zip.js/zip.js')
+  if (!zipJsConfigured) {
+    // Avoid worker script/CSP issues and keep extraction deterministic in-browser.
+    zipJs.configure({ useWebWorkers: false })
+    zipJsConfigured = true
+  }
+  return zipJs
+}
+
+function fileExtension(fileName: string): string {
+  const baseName = fileName.trim().split('/').pop() || ''
+  const dotIndex = baseName.lastIndexOf('.')
+  return dotIndex > 0 ? baseName.slice(dotIndex + 1).toLowerCase() : ''
+}
+
+// True when `fileName` is a bare upload of an importer's `singleFileName` (matched by extension).
+export function isSingleFileUpload(fileName: string, singleFileName: string | undefined): boolean {
+  if (!singleFileName) return false
+  const extension = fileExtension(singleFileName)
+  return Boolean(extension) && fileExtension(fileName) === extension
+}
+
+export function getSingleFileExtension(singleFileName: string): string {
+  return fileExtension(singleFileName)
+}
+
+export function createSingleFileReader(
+  fileName: string,
+  readBytes: () => Promise<Uint8Array>,
+  options: { maxTextBytes?: number } = {},
+): ArchiveFileReader {
+  const paths = [fileName]
+  return {
+    paths,
+    resolve: createArchivePathResolver(paths),
+    readText: async (path) => {
+      if (path !== fileName) return ''
+      const bytes = await readBytes()
+      if (options.maxTextBytes && bytes.length > options.maxTextBytes) {
+        throw new Error(`Uploaded file exceeds size limit (${options.maxTextBytes} bytes).`)
+      }
+      return new TextDecoder().decode(bytes)
+    },
+    readBytes: async (path) => (path === fileName ? readBytes() : new Uint8Array(0)),
+  }
+}
+
+/**
+ * Reads a local ZIP in the browser. Used for sections that are encrypted client-side before the
+ * import starts, such as direct messages. Call `close` once done.
+ */
+export async function openBrowserArchiveFileReader(
+  file: File,
+  options: { singleFileName?: string } = {},
+): Promise<ArchiveFileReader & { close: () => Promise<void> }> {
+  if (options.singleFileName && isSingleFileUpload(file.name, options.singleFileName)) {
+    return {
+      ...createSingleFileReader(options.singleFileName, async () => new Uint8Array(await file.arrayBuffer())),
+      close: async () => {},
+    }
+  }
+
+  const zipJs = await loadZipJs()
+  const zipReader = new zipJs.ZipReader(new zipJs.BlobReader(file))
+  const entries = await zipReader.getEntries()
+  const entriesByPath = new Map<string, (typeof entries)[number]>()
+  for (const entry of entries) {
+    if (entry.directory) continue
+    entriesByPath.set(normalizeArchivePath(entry.filename), entry)
+  }
+  const paths = [...entriesByPath.keys()]
+
+  return {
+    paths,
+    resolve: createArchivePathResolver(paths),
+    readText: async (path) => {
+      const entry = entriesByPath.get(path)
+      if (!entry || entry.directory) return ''
+      return entry.getData(new zipJs.TextWriter())
+    },
+    readBytes: async (path) => {
+      const entry = entriesByPath.get(path)
+      if (!entry || entry.directory) return new Uint8Array(0)
+      return entry.getData(new zipJs.Uint8ArrayWriter())
+    },
+    close: async () => {
+      await zipReader.close()
+    },
+  }
+}
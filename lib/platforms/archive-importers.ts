@@ -0,0 +1,22 @@
+import type { PlatformArchiveImporter } from '@/lib/platforms/archive-import'
+import { blueskyArchiveImporter } from '@/lib/platforms/bluesky/archive-import'
+import { instagramArchiveImporter } from '@/lib/platforms/instagram/archive-import'
+import { mastodonArchiveImporter } from '@/lib/platforms/mastodon/archive-import'
+import { facebookArchiveImporter, threadsArchiveImporter } from '@/lib/platforms/meta/archive-import'
+import { tiktokArchiveImporter } from '@/lib/platforms/tiktok/archive-import'
+import type { PlatformId } from '@/lib/platforms/types'
+
+// Twitter archives keep their own pipeline under `lib/platforms/twitter`.
+const PLATFORM_ARCHIVE_IMPORTERS: Partial<Record<PlatformId, PlatformArchiveImporter>> = {
+  instagram: instagramArchiveImporter,
+  tiktok: tiktokArchiveImporter,
+  bluesky: blueskyArchiveImporter,
+  mastodon: mastodonArchiveImporter,
+  threads: threadsArchiveImporter,
+  facebook: facebookArchiveImporter,
+}
+
+export function getPlatformArchiveImporter(platform: unknown): PlatformArchiveImporter | null {
+  if (typeof platform !== 'string') return null
+  return PLATFORM_ARCHIVE_IMPORTERS[platform as PlatformId] || null
+}
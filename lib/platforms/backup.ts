@@ -1,4 +1,5 @@
-import type { PlatformId } from '@/lib/platforms/types'
+import { listPlatformDefinitions } from '@/lib/platforms/registry'
+import { PLATFORM_IDS, type PlatformId } from '@/lib/platforms/types'
 
 export type BackupLike = {
   backup_type?: string | null
@@ -6,6 +7,7 @@ export type BackupLike = {
   backup_source?: string | null
   archive_file_path?: string | null
   data?: {
+    platform?: string
     uploaded_file_size?: number
     archive_file_path?: string
     scrape?: {
@@ -30,6 +32,9 @@ const PARTIAL_REASON_LABELS: Record<string, string> = {
   timeline_limit_reached: 'Timeline reached this run\'s item limit',
   timeline_source_gap: 'Source API returned fewer timeline items than the profile total',
   social_graph_budget_cap_reached: 'Followers/following capped by run budget',
+  lists_unavailable: 'Lists could not be fetched from the source API',
+  lists_budget_cap_reached: 'Lists skipped because the run budget was used up',
+  lists_limit_reached: 'Lists or list members capped by run limits or budget',
 }
 
 function normalizeBoolean(value: unknown): boolean | null {
@@ -52,10 +57,19 @@ function normalizeReasonList(value: unknown): string[] {
   return Array.from(new Set(normalized))
 }
 
+function isPlatformId(value: unknown): value is PlatformId {
+  return typeof value === 'string' && (PLATFORM_IDS as readonly string[]).includes(value)
+}
+
 export function inferBackupPlatform(backup: BackupLike): PlatformId {
-  void backup
-  // Current schema only stores Twitter backups. Keeping this centralized makes
-  // future platform mapping additive and avoids touching multiple UIs/routes.
+  const sources = [backup.source, backup.backup_source].filter(
+    (value): value is string => typeof value === 'string' && value.length > 0,
+  )
+  for (const definition of listPlatformDefinitions()) {
+    if (sources.some((source) => definition.backupSources.includes(source))) return definition.id
+  }
+  if (isPlatformId(backup.data?.platform)) return backup.data.platform
+  // Rows written before other platforms existed carry no platform marker and are all Twitter.
   return 'twitter'
 }
 
@@ -109,6 +123,12 @@ export function getBackupPartialDetails(backup: BackupLike): BackupPartialDetail
   }
 }
 
+// A snapshot that hit the follower/following cap holds only part of the graph, so diffing it would
+// report every account past the cap as gained or lost.
+export function isSocialGraphTruncated(backup: BackupLike): boolean {
+  return getBackupPartialDetails(backup).reasons.includes('social_graph_budget_cap_reached')
+}
+
 export function formatPartialReasonLabel(reason: string): string {
   return PARTIAL_REASON_LABELS[reason] || 'Run ended before full dataset was fetched'
 }
@@ -0,0 +1,377 @@
+import {
+  findArchivePaths,
+  normalizeArchiveSelection,
+  type ArchiveConnection,
+  type ArchiveFileReader,
+  type ArchiveMediaRef,
+  type ArchiveMediaType,
+  type PlatformArchiveContent,
+  type PlatformArchiveImporter,
+  type PlatformArchivePreviewData,
+} from '@/lib/platforms/archive-import'
+import { decodeDagCbor, isCborLink, listRepoRecords, parseCarFile, type CarFile, type CborValue } from '@/lib/platforms/bluesky/car'
+
+/**
+ * Parser for a Bluesky repository export (`com.atproto.sync.getRepo`, "Export my data" in the app):
+ * a `.car` file, uploaded on its own or zipped together with the account's blobs. Blob files are
+ * matched by CID, with or without an extension, anywhere in the ZIP.
+ */
+
+export type BlueskyImportSection = 'posts' | 'likes' | 'reposts' | 'following' | 'blocks' | 'media'
+
+export type BlueskyImportSelection = Record<BlueskyImportSection, boolean>
+
+export const DEFAULT_BLUESKY_IMPORT_SELECTION: BlueskyImportSelection = {
+  posts: true,
+  likes: true,
+  reposts: true,
+  following: true,
+  blocks: true,
+  media: true,
+}
+
+export const BLUESKY_IMPORT_SECTION_LABELS: Record<BlueskyImportSection, string> = {
+  posts: 'Posts',
+  likes: 'Likes',
+  reposts: 'Reposts',
+  following: 'Following',
+  blocks: 'Blocks',
+  media: 'Images and videos',
+}
+
+export type BlueskyPostMedia = {
+  alt: string
+  media: ArchiveMediaRef
+}
+
+export type BlueskyPost = {
+  uri: string
+  text: string
+  created_at: string | null
+  langs: string[]
+  // AT URIs from the record's `reply`; both are null for top-level posts.
+  reply_root_uri: string | null
+  reply_parent_uri: string | null
+  media: BlueskyPostMedia[]
+  external: { uri: string; title: string; description: string } | null
+  quote_uri: string | null
+  links: string[]
+}
+
+// Likes and reposts: the record only carries the subject's AT URI.
+export type BlueskySubjectRecord = {
+  uri: string
+  subject_uri: string
+  created_at: string | null
+}
+
+export type BlueskyBlock = {
+  did: string
+  profile_url: string
+  created_at: string | null
+}
+
+export const BLUESKY_REPO_FILE_NAME = 'repo.car'
+
+const BLUESKY_CAR_PATTERN = /\.car$/i
+const CID_FILE_PATTERN = /^baf[a-z2-7]+$/
+
+const COLLECTIONS = {
+  post: 'app.bsky.feed.post',
+  like: 'app.bsky.feed.like',
+  repost: 'app.bsky.feed.repost',
+  follow: 'app.bsky.graph.follow',
+  block: 'app.bsky.graph.block',
+  profile: 'app.bsky.actor.profile',
+}
+
+type RecordMap = { [key: string]: CborValue }
+
+type LoadedRepo = {
+  did: string
+  car: CarFile
+  recordsByCollection: Map<string, Array<{ key: string; cid: string }>>
+}
+
+function asRecord(value: CborValue | undefined): RecordMap | null {
+  return value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array)
+    ? (value as RecordMap)
+    : null
+}
+
+function readText(value: CborValue | undefined): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+function toIsoDate(value: CborValue | undefined): string | null {
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null
+}
+
+export function blueskyProfileUrl(did: string): string {
+  return `https://bsky.app/profile/${did}`
+}
+
+// Web URL for an `at://<did>/app.bsky.feed.post/<rkey>` URI; null for other collections.
+export function blueskyPostUrl(atUri: string): string | null {
+  const match = atUri.match(/^at:\/\/([^/]+)\/app\.bsky\.feed\.post\/([^/]+)$/)
+  return match ? `https://bsky.app/profile/${match[1]}/post/${match[2]}` : null
+}
+
+async function loadRepo(reader: ArchiveFileReader): Promise<LoadedRepo | null> {
+  const [path] = findArchivePaths(reader.paths, [BLUESKY_CAR_PATTERN])
+  if (!path) return null
+
+  let car: CarFile
+  let listing: ReturnType<typeof listRepoRecords>
+  try {
+    car = parseCarFile(await reader.readBytes(path))
+    listing = listRepoRecords(car)
+  } catch (error) {
+    console.warn('[Bluesky Archive] Failed to read repository export:', error)
+    return null
+  }
+
+  const recordsByCollection = new Map<string, Array<{ key: string; cid: string }>>()
+  for (const record of listing.records) {
+    const collection = record.key.split('/')[0]
+    const list = recordsByCollection.get(collection) || []
+    list.push(record)
+    recordsByCollection.set(collection, list)
+  }
+  return { did: listing.did, car, recordsByCollection }
+}
+
+function readRepoRecords(repo: LoadedRepo, collection: string): Array<{ uri: string; value: RecordMap }> {
+  const records: Array<{ uri: string; value: RecordMap }> = []
+  for (const { key, cid } of repo.recordsByCollection.get(collection) || []) {
+    const bytes = repo.car.blocks.get(cid)
+    if (!bytes) continue
+    try {
+      const value = asRecord(decodeDagCbor(bytes))
+      if (value) records.push({ uri: `at://${repo.did}/${key}`, value })
+    } catch {
+      // A single undecodable record should not fail the whole import.
+    }
+  }
+  return records
+}
+
+// Blob files in the ZIP, keyed by CID (file name without extension).
+function findBlobFiles(paths: string[]): Map<string, string> {
+  const files = new Map<string, string>()
+  for (const path of paths) {
+    if (BLUESKY_CAR_PATTERN.test(path)) continue
+    const baseName = (path.split('/').pop() || '').replace(/\.[^.]+$/, '').toLowerCase()
+    if (CID_FILE_PATTERN.test(baseName) && !files.has(baseName)) files.set(baseName, path)
+  }
+  return files
+}
+
+function mediaTypeForMime(mimeType: string): ArchiveMediaType | null {
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  return null
+}
+
+/**
+ * Blob refs are `{ $type: 'blob', ref: { $link }, mimeType }`; older records use `{ cid, mimeType }`.
+ * Blobs missing from the ZIP keep a `blobs/<cid>` path, so they show up as not stored.
+ */
+function toBlobMediaRef(value: CborValue | undefined, blobFiles: Map<string, string>): ArchiveMediaRef | null {
+  const blob = asRecord(value)
+  if (!blob) return null
+  const cid = isCborLink(blob.ref) ? blob.ref.$link : readText(blob.cid)
+  const mimeType = readText(blob.mimeType)
+  const mediaType = mediaTypeForMime(mimeType)
+  if (!cid || !mediaType) return null
+  return {
+    archive_path: blobFiles.get(cid) || `blobs/${cid}`,
+    media_type: mediaType,
+    mime_type: mimeType,
+  }
+}
+
+function readEmbedMedia(embed: RecordMap | null, blobFiles: Map<string, string>): BlueskyPostMedia[] {
+  if (!embed) return []
+  const type = readText(embed.$type)
+  if (type === 'app.bsky.embed.images' && Array.isArray(embed.images)) {
+    return embed.images.flatMap((item) => {
+      const image = asRecord(item)
+      const media = toBlobMediaRef(image?.image, blobFiles)
+      return media ? [{ alt: readText(image?.alt), media }] : []
+    })
+  }
+  if (type === 'app.bsky.embed.video') {
+    const media = toBlobMediaRef(embed.video, blobFiles)
+    return media ? [{ alt: readText(embed.alt), media }] : []
+  }
+  if (type === 'app.bsky.embed.recordWithMedia') {
+    return readEmbedMedia(asRecord(embed.media), blobFiles)
+  }
+  return []
+}
+
+function readEmbedExternal(embed: RecordMap | null): BlueskyPost['external'] {
+  const type = readText(embed?.$type)
+  const container = type === 'app.bsky.embed.recordWithMedia' ? asRecord(embed?.media) : embed
+  if (readText(container?.$type) !== 'app.bsky.embed.external') return null
+  const external = asRecord(container?.external)
+  const uri = readText(external?.uri)
+  return uri ? { uri, title: readText(external?.title), description: readText(external?.description) } : null
+}
+
+function readEmbedQuote(embed: RecordMap | null): string | null {
+  const type = readText(embed?.$type)
+  if (type === 'app.bsky.embed.record') return readText(asRecord(embed?.record)?.uri) || null
+  if (type === 'app.bsky.embed.recordWithMedia') {
+    return readText(asRecord(asRecord(embed?.record)?.record)?.uri) || null
+  }
+  return null
+}
+
+function readFacetLinks(facets: CborValue | undefined): string[] {
+  if (!Array.isArray(facets)) return []
+  const links: string[] = []
+  for (const facet of facets) {
+    const features = asRecord(facet)?.features
+    if (!Array.isArray(features)) continue
+    for (const feature of features) {
+      const record = asRecord(feature)
+      if (readText(record?.$type) === 'app.bsky.richtext.facet#link' && readText(record?.uri)) {
+        links.push(readText(record?.uri))
+      }
+    }
+  }
+  return Array.from(new Set(links))
+}
+
+function normalizeBlueskyPost(uri: string, value: RecordMap, blobFiles: Map<string, string>): BlueskyPost {
+  const reply = asRecord(value.reply)
+  const embed = asRecord(value.embed)
+  return {
+    uri,
+    text: typeof value.text === 'string' ? value.text : '',
+    created_at: toIsoDate(value.createdAt),
+    langs: Array.isArray(value.langs) ? value.langs.filter((lang): lang is string => typeof lang === 'string') : [],
+    reply_root_uri: readText(asRecord(reply?.root)?.uri) || null,
+    reply_parent_uri: readText(asRecord(reply?.parent)?.uri) || null,
+    media: readEmbedMedia(embed, blobFiles),
+    external: readEmbedExternal(embed),
+    quote_uri: readEmbedQuote(embed),
+    links: readFacetLinks(value.facets),
+  }
+}
+
+function normalizeSubjectRecord(uri: string, value: RecordMap): BlueskySubjectRecord | null {
+  const subjectUri = readText(asRecord(value.subject)?.uri)
+  return subjectUri ? { uri, subject_uri: subjectUri, created_at: toIsoDate(value.createdAt) } : null
+}
+
+function byNewestFirst<T extends { created_at: string | null }>(a: T, b: T) {
+  return (b.created_at || '').localeCompare(a.created_at || '')
+}
+
+export function normalizeBlueskyImportSelection(input: unknown): BlueskyImportSelection {
+  return normalizeArchiveSelection(input, DEFAULT_BLUESKY_IMPORT_SELECTION)
+}
+
+async function previewBlueskyArchive(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData> {
+  const repo = await loadRepo(reader)
+  const count = (collection: string) => repo?.recordsByCollection.get(collection)?.length || 0
+  const stats = {
+    posts: count(COLLECTIONS.post),
+    likes: count(COLLECTIONS.like),
+    reposts: count(COLLECTIONS.repost),
+    following: count(COLLECTIONS.follow),
+    blocks: count(COLLECTIONS.block),
+    media: findBlobFiles(reader.paths).size,
+  }
+
+  return {
+    recognized: Boolean(repo),
+    stats,
+    available: Object.fromEntries(Object.entries(stats).map(([key, value]) => [key, value > 0])),
+  }
+}
+
+async function parseBlueskyArchive(
+  reader: ArchiveFileReader,
+  selection: BlueskyImportSelection,
+): Promise<PlatformArchiveContent> {
+  const repo = await loadRepo(reader)
+  if (!repo) {
+    throw new Error('Could not read the Bluesky repository export.')
+  }
+  const blobFiles = selection.media ? findBlobFiles(reader.paths) : new Map<string, string>()
+
+  const profileRecord = readRepoRecords(repo, COLLECTIONS.profile)[0]?.value || null
+  const posts = selection.posts
+    ? readRepoRecords(repo, COLLECTIONS.post)
+        .map(({ uri, value }) => normalizeBlueskyPost(uri, value, blobFiles))
+        .sort(byNewestFirst)
+    : []
+  const likes = selection.likes
+    ? readRepoRecords(repo, COLLECTIONS.like)
+        .map(({ uri, value }) => normalizeSubjectRecord(uri, value))
+        .filter((record): record is BlueskySubjectRecord => Boolean(record))
+        .sort(byNewestFirst)
+    : []
+  const reposts = selection.reposts
+    ? readRepoRecords(repo, COLLECTIONS.repost)
+        .map(({ uri, value }) => normalizeSubjectRecord(uri, value))
+        .filter((record): record is BlueskySubjectRecord => Boolean(record))
+        .sort(byNewestFirst)
+    : []
+  const following: ArchiveConnection[] = selection.following
+    ? readRepoRecords(repo, COLLECTIONS.follow).flatMap(({ value }) => {
+        const did = readText(value.subject)
+        return did ? [{ username: did, profile_url: blueskyProfileUrl(did), followed_at: toIsoDate(value.createdAt) }] : []
+      })
+    : []
+  const blocks: BlueskyBlock[] = selection.blocks
+    ? readRepoRecords(repo, COLLECTIONS.block).flatMap(({ value }) => {
+        const did = readText(value.subject)
+        return did ? [{ did, profile_url: blueskyProfileUrl(did), created_at: toIsoDate(value.createdAt) }] : []
+      })
+    : []
+
+  return {
+    profile: {
+      username: repo.did,
+      displayName: readText(profileRecord?.displayName) || undefined,
+      bio: readText(profileRecord?.description) || undefined,
+      platformUserId: repo.did,
+      profileUrl: blueskyProfileUrl(repo.did),
+      profileImage: toBlobMediaRef(profileRecord?.avatar, blobFiles),
+    },
+    stats: {
+      posts: posts.filter((post) => !post.reply_parent_uri).length,
+      replies: posts.filter((post) => post.reply_parent_uri).length,
+      likes: likes.length,
+      reposts: reposts.length,
+      following: following.length,
+      blocks: blocks.length,
+    },
+    data: {
+      did: repo.did,
+      posts,
+      likes,
+      reposts,
+      blocks,
+    },
+    ...(selection.following ? { following } : {}),
+  }
+}
+
+export const blueskyArchiveImporter: PlatformArchiveImporter<BlueskyImportSelection> = {
+  platform: 'bluesky',
+  archiveLabel: 'Bluesky repository export',
+  unrecognizedMessage:
+    "This doesn't look like a Bluesky repository export. Upload the .car file from Settings → Export my data, or a ZIP containing it.",
+  singleFileName: BLUESKY_REPO_FILE_NAME,
+  normalizeSelection: normalizeBlueskyImportSelection,
+  preview: previewBlueskyArchive,
+  parse: parseBlueskyArchive,
+}
@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { describe, it } from 'node:test'
+import { createArchivePathResolver, type ArchiveFileReader } from '@/lib/platforms/archive-import'
+import {
+  blueskyArchiveImporter,
+  DEFAULT_BLUESKY_IMPORT_SELECTION,
+  type BlueskyPost,
+} from '@/lib/platforms/bluesky/archive-import'
+import { decodeDagCbor, listRepoRecords, parseCarFile, type CborValue } from '@/lib/platforms/bluesky/car'
+
+// A `getRepo` export written with @atproto/repo: a profile, 4 posts, 12 likes, 3 reposts, 10 follows and 2 blocks.
+const fixture = new Uint8Array(readFileSync(new URL('./fixtures/repo.car', import.meta.url)))
+
+const DID = 'did:plc:fixture7x3k2mq5vb4n6wz'
+const ROOT = 'bafyreicmmcwsf7jo7s5b5j6nnzhjf6m75wzq3w4h6v7vo7u2va5ig4sfgy'
+const AVATAR_CID = 'bafkreiehxpuhtr5f6v4eu4byjo2j7kkrhjvd7psmfu4imnpdzb3bdqb7vy'
+const PHOTO_CID = 'bafkreicvyzgq7tlptvpxzauasocx4p673juepc5u5g6sjveb544ry6ae5a'
+
+const rkey = (n: number) => `3kfixture${String(n).padStart(4, '0')}`
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, index) => from + index)
+
+function readerFor(files: Record<string, Uint8Array>): ArchiveFileReader {
+  const paths = Object.keys(files)
+  return {
+    paths,
+    readText: async (path) => new TextDecoder().decode(files[path]),
+    readBytes: async (path) => files[path],
+    resolve: createArchivePathResolver(paths),
+  }
+}
+
+type MstNode = { l?: CborValue; e?: Array<{ p?: CborValue; t?: CborValue }> }
+
+describe('parseCarFile', () => {
+  it('reads the header roots and every block', () => {
+    const car = parseCarFile(fixture)
+    assert.deepEqual(car.roots, [ROOT])
+    assert.equal(car.blocks.size, 41)
+    assert.ok(car.blocks.has(ROOT))
+  })
+
+  it('rejects a truncated file', () => {
+    assert.throws(() => parseCarFile(fixture.subarray(0, fixture.length - 10)), /truncated block/)
+  })
+})
+
+describe('listRepoRecords', () => {
+  it('returns every record in key order', () => {
+    const { did, records } = listRepoRecords(parseCarFile(fixture))
+    assert.equal(did, DID)
+    assert.deepEqual(
+      records.map((record) => record.key),
+      [
+        'app.bsky.actor.profile/self',
+        ...range(101, 112).map((n) => `app.bsky.feed.like/${rkey(n)}`),
+        ...range(1, 4).map((n) => `app.bsky.feed.post/${rkey(n)}`),
+        ...range(201, 203).map((n) => `app.bsky.feed.repost/${rkey(n)}`),
+        ...range(401, 402).map((n) => `app.bsky.graph.block/${rkey(n)}`),
+        ...range(301, 310).map((n) => `app.bsky.graph.follow/${rkey(n)}`),
+      ],
+    )
+    assert.ok(records.every((record) => record.cid.startsWith('bafyrei')))
+  })
+
+  it('walks a tree with prefix-compressed keys and subtrees', () => {
+    // Guards the fixture itself: the listing test only means something if the tree has these shapes.
+    const car = parseCarFile(fixture)
+    const nodes = [...car.blocks.values()]
+      .map((bytes) => decodeDagCbor(bytes) as MstNode)
+      .filter((node) => Array.isArray(node.e))
+    const entries = nodes.flatMap((node) => node.e || [])
+    assert.ok(nodes.length > 1)
+    assert.ok(entries.some((entry) => typeof entry.p === 'number' && entry.p > 0))
+    assert.ok(entries.some((entry) => entry.t))
+    assert.ok(nodes.some((node) => node.l))
+  })
+
+  it('skips subtrees whose blocks are missing', () => {
+    const car = parseCarFile(fixture)
+    const full = listRepoRecords(car).records
+    for (const [cid, bytes] of car.blocks) {
+      const node = decodeDagCbor(bytes) as MstNode
+      if (cid !== ROOT && node.l) car.blocks.delete((node.l as { $link: string }).$link)
+    }
+    const partial = listRepoRecords(car).records
+    assert.ok(partial.length > 0 && partial.length < full.length)
+  })
+})
+
+describe('decodeDagCbor', () => {
+  const encodeText = (text: string) => [0x60 + text.length, ...new TextEncoder().encode(text)]
+
+  it('keeps a __proto__ key as an own property', () => {
+    // {"__proto__": {"polluted": true}}
+    const bytes = new Uint8Array([0xa1, ...encodeText('__proto__'), 0xa1, ...encodeText('polluted'), 0xf5])
+    const value = decodeDagCbor(bytes) as { [key: string]: CborValue }
+    assert.equal(Object.getPrototypeOf(value), Object.prototype)
+    assert.ok(Object.prototype.hasOwnProperty.call(value, '__proto__'))
+    assert.deepEqual(Object.keys(value), ['__proto__'])
+    assert.equal((value as { polluted?: unknown }).polluted, undefined)
+    assert.equal(({} as { polluted?: unknown }).polluted, undefined)
+  })
+
+  it('rejects duplicate map keys', () => {
+    const bytes = new Uint8Array([0xa2, ...encodeText('a'), 0x01, ...encodeText('a'), 0x02])
+    assert.throws(() => decodeDagCbor(bytes), /duplicate map key/)
+  })
+})
+
+describe('blueskyArchiveImporter', () => {
+  it('previews the sections found in the export', async () => {
+    const preview = await blueskyArchiveImporter.preview(readerFor({ 'repo.car': fixture }))
+    assert.equal(preview.recognized, true)
+    assert.equal(preview.available.posts, true)
+    assert.equal(preview.available.blocks, true)
+  })
+
+  it('parses the profile, posts and social records', async () => {
+    const reader = readerFor({
+      'export/repo.car': fixture,
+      [`export/blobs/${PHOTO_CID}.png`]: new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+    })
+    const content = await blueskyArchiveImporter.parse(reader, DEFAULT_BLUESKY_IMPORT_SELECTION)
+
+    assert.equal(content.profile.username, DID)
+    assert.equal(content.profile.displayName, 'Fixture Account')
+    assert.equal(content.profile.bio, 'Repository export used by the importer tests.')
+    // The avatar blob is not in the ZIP, so it keeps the CID path.
+    assert.deepEqual(content.profile.profileImage, {
+      archive_path: `blobs/${AVATAR_CID}`,
+      media_type: 'image',
+      mime_type: 'image/jpeg',
+    })
+    assert.deepEqual(content.stats, { posts: 3, replies: 1, likes: 12, reposts: 3, following: 10, blocks: 2 })
+
+    const data = content.data as { did: string; posts: BlueskyPost[] }
+    assert.equal(data.did, DID)
+    assert.deepEqual(
+      data.posts.map((post) => post.uri),
+      [4, 3, 2, 1].map((n) => `at://${DID}/app.bsky.feed.post/${rkey(n)}`),
+    )
+    const [quote, link, reply, photo] = data.posts
+    assert.equal(quote.quote_uri, `at://did:plc:other0001/app.bsky.feed.post/${rkey(9)}`)
+    assert.deepEqual(link.external, {
+      uri: 'https://example.com/article',
+      title: 'An article',
+      description: 'About things',
+    })
+    assert.deepEqual(link.links, ['https://example.com/article'])
+    assert.equal(reply.reply_parent_uri, photo.uri)
+    assert.equal(reply.reply_root_uri, photo.uri)
+    assert.equal(photo.created_at, '2024-01-01T12:00:00.000Z')
+    assert.deepEqual(photo.langs, ['en'])
+    assert.deepEqual(photo.media, [
+      { alt: 'A photo', media: { archive_path: `export/blobs/${PHOTO_CID}.png`, media_type: 'image', mime_type: 'image/png' } },
+    ])
+
+    assert.deepEqual(content.following?.[0], {
+      username: 'did:plc:other0001',
+      profile_url: 'https://bsky.app/profile/did:plc:other0001',
+      followed_at: '2024-01-07T01:00:00.000Z',
+    })
+  })
+
+  it('leaves out sections that were not selected', async () => {
+    const content = await blueskyArchiveImporter.parse(readerFor({ 'repo.car': fixture }), {
+      ...DEFAULT_BLUESKY_IMPORT_SELECTION,
+      likes: false,
+      following: false,
+    })
+    assert.equal(content.stats.likes, 0)
+    assert.equal(content.following, undefined)
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Minimal readers for the formats inside an atproto repository export (`com.atproto.sync.getRepo`):
+ * CAR v1 framing, CIDv1 and the DAG-CBOR subset used by atproto records. Links decode to
+ * `{ $link: <base32 CID> }` and byte strings to `Uint8Array`, matching the atproto JSON form.
+ */
+
+export type CborLink = { $link: string }
+
+export type CborValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Uint8Array
+  | CborLink
+  | CborValue[]
+  | { [key: string]: CborValue }
+
+export type CarFile = {
+  roots: string[]
+  blocks: Map<string, Uint8Array>
+}
+
+const CID_TAG = 42
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+const textDecoder = new TextDecoder()
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0
+  let shift = 0
+  let position = offset
+  while (position < bytes.length) {
+    const byte = bytes[position]
+    position += 1
+    value += (byte & 0x7f) * 2 ** shift
+    if ((byte & 0x80) === 0) return [value, position]
+    shift += 7
+    if (shift > 49) break
+  }
+  throw new Error('Invalid CAR file: malformed varint.')
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+    buffer &= (1 << bits) - 1
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return output
+}
+
+// Multibase string of a binary CID (`b` + lowercase base32), the form used in atproto JSON.
+export function formatCid(bytes: Uint8Array): string {
+  return `b${encodeBase32(bytes)}`
+}
+
+// Returns the byte length of the CIDv1 starting at `offset`.
+function readCidLength(bytes: Uint8Array, offset: number): number {
+  const [version, afterVersion] = readVarint(bytes, offset)
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}.`)
+  }
+  const [, afterCodec] = readVarint(bytes, afterVersion)
+  const [, afterHashCode] = readVarint(bytes, afterCodec)
+  const [digestLength, afterDigestLength] = readVarint(bytes, afterHashCode)
+  const end = afterDigestLength + digestLength
+  if (end > bytes.length) throw new Error('Invalid CAR file: truncated CID.')
+  return end - offset
+}
+
+export function isCborLink(value: unknown): value is CborLink {
+  return Boolean(value) && typeof value === 'object' && typeof (value as CborLink).$link === 'string'
+}
+
+class CborReader {
+  private offset = 0
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private readArgument(additional: number): number {
+    if (additional < 24) return additional
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset)
+    let value: number
+    if (additional === 24) {
+      value = view.getUint8(0)
+      this.offset += 1
+    } else if (additional === 25) {
+      value = view.getUint16(0)
+      this.offset += 2
+    } else if (additional === 26) {
+      value = view.getUint32(0)
+      this.offset += 4
+    } else if (additional === 27) {
+      value = Number(view.getBigUint64(0))
+      this.offset += 8
+    } else {
+      throw new Error('Invalid DAG-CBOR: indefinite lengths are not allowed.')
+    }
+    return value
+  }
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error('Invalid DAG-CBOR: unexpected end of data.')
+    const slice = this.bytes.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return slice
+  }
+
+  read(): CborValue {
+    if (this.offset >= this.bytes.length) throw new Error('Invalid DAG-CBOR: unexpected end of data.')
+    const initial = this.bytes[this.offset]
+    this.offset += 1
+    const major = initial >> 5
+    const additional = initial & 0x1f
+
+    switch (major) {
+      case 0:
+        return this.readArgument(additional)
+      case 1:
+        return -1 - this.readArgument(additional)
+      case 2:
+        return this.take(this.readArgument(additional))
+      case 3:
+        return textDecoder.decode(this.take(this.readArgument(additional)))
+      case 4: {
+        const length = this.readArgument(additional)
+        const items: CborValue[] = []
+        for (let index = 0; index < length; index += 1) items.push(this.read())
+        return items
+      }
+      case 5: {
+        const length = this.readArgument(additional)
+        const map: { [key: string]: CborValue } = {}
+        for (let index = 0; index < length; index += 1) {
+          const key = this.read()
+          if (typeof key !== 'string') throw new Error('Invalid DAG-CBOR: map keys must be strings.')
+          if (Object.prototype.hasOwnProperty.call(map, key)) throw new Error('Invalid DAG-CBOR: duplicate map key.')
+          // Defined rather than assigned, so a `__proto__` key from the export stays a plain own property.
+          Object.defineProperty(map, key, { value: this.read(), enumerable: true, writable: true, configurable: true })
+        }
+        return map
+      }
+      case 6: {
+        const tag = this.readArgument(additional)
+        const value = this.read()
+        if (tag !== CID_TAG || !(value instanceof Uint8Array) || value[0] !== 0) {
+          throw new Error(`Invalid DAG-CBOR: unsupported tag ${tag}.`)
+        }
+        return { $link: formatCid(value.subarray(1)) }
+      }
+      default: {
+        if (additional === 20) return false
+        if (additional === 21) return true
+        if (additional === 22 || additional === 23) return null
+        const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset)
+        if (additional === 25) {
+          this.offset += 2
+          return decodeFloat16(view.getUint16(0))
+        }
+        if (additional === 26) {
+          this.offset += 4
+          return view.getFloat32(0)
+        }
+        if (additional === 27) {
+          this.offset += 8
+          return view.getFloat64(0)
+        }
+        throw new Error(`Invalid DAG-CBOR: unsupported simple value ${additional}.`)
+      }
+    }
+  }
+}
+
+function decodeFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f
+  const fraction = half & 0x3ff
+  const sign = half & 0x8000 ? -1 : 1
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024)
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024)
+}
+
+export function decodeDagCbor(bytes: Uint8Array): CborValue {
+  return new CborReader(bytes).read()
+}
+
+// Splits a CAR v1 file into its root CIDs and blocks keyed by CID string.
+export function parseCarFile(bytes: Uint8Array): CarFile {
+  const [headerLength, headerStart] = readVarint(bytes, 0)
+  const header = decodeDagCbor(bytes.subarray(headerStart, headerStart + headerLength))
+  if (!header || typeof header !== 'object' || Array.isArray(header) || header instanceof Uint8Array) {
+    throw new Error('Invalid CAR file: missing header.')
+  }
+  const headerMap = header as { [key: string]: CborValue }
+  if (headerMap.version !== 1) {
+    throw new Error('Unsupported CAR version.')
+  }
+  const roots = Array.isArray(headerMap.roots) ? headerMap.roots.filter(isCborLink).map((root) => root.$link) : []
+
+  const blocks = new Map<string, Uint8Array>()
+  let offset = headerStart + headerLength
+  while (offset < bytes.length) {
+    const [sectionLength, sectionStart] = readVarint(bytes, offset)
+    const sectionEnd = sectionStart + sectionLength
+    if (sectionLength === 0 || sectionEnd > bytes.length) throw new Error('Invalid CAR file: truncated block.')
+    const cidLength = readCidLength(bytes, sectionStart)
+    const cid = formatCid(bytes.subarray(sectionStart, sectionStart + cidLength))
+    blocks.set(cid, bytes.subarray(sectionStart + cidLength, sectionEnd))
+    offset = sectionEnd
+  }
+
+  return { roots, blocks }
+}
+
+type MstEntry = { p?: CborValue; k?: CborValue; v?: CborValue; t?: CborValue }
+
+/**
+ * Walks the repository's Merkle Search Tree from the commit block and returns record keys
+ * (`<collection>/<rkey>`) with their record CIDs, in key order. Missing blocks are skipped, so a
+ * partial export still yields whatever records it carries.
+ */
+export function listRepoRecords(car: CarFile): { did: string; records: Array<{ key: string; cid: string }> } {
+  const commitBytes = car.roots[0] ? car.blocks.get(car.roots[0]) : undefined
+  if (!commitBytes) throw new Error('Invalid repository export: commit block not found.')
+  const commit = decodeDagCbor(commitBytes) as { [key: string]: CborValue }
+  const did = typeof commit.did === 'string' ? commit.did : ''
+  if (!did || !isCborLink(commit.data)) throw new Error('Invalid repository export: malformed commit.')
+
+  const records: Array<{ key: string; cid: string }> = []
+  const visited = new Set<string>()
+  const walk = (cid: string) => {
+    if (visited.has(cid)) return
+    visited.add(cid)
+    const nodeBytes = car.blocks.get(cid)
+    if (!nodeBytes) return
+    const node = decodeDagCbor(nodeBytes) as { l?: CborValue; e?: CborValue }
+    if (isCborLink(node.l)) walk(node.l.$link)
+
+    let previousKey = ''
+    for (const entry of Array.isArray(node.e) ? (node.e as MstEntry[]) : []) {
+      const prefixLength = typeof entry.p === 'number' ? entry.p : 0
+      const suffix = entry.k instanceof Uint8Array ? textDecoder.decode(entry.k) : ''
+      const key = previousKey.slice(0, prefixLength) + suffix
+      previousKey = key
+      if (isCborLink(entry.v)) records.push({ key, cid: entry.v.$link })
+      if (isCborLink(entry.t)) walk(entry.t.$link)
+    }
+  }
+  walk(commit.data.$link)
+
+  return { did, records }
+}
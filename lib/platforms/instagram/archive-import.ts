@@ -0,0 +1,409 @@
+import {
+  findArchivePaths,
+  normalizeArchiveSelection,
+  readArchiveJson,
+  toArchiveMediaRef,
+  toList,
+  toRecord,
+  type ArchiveConnection,
+  type ArchiveConversation,
+  type ArchiveFileReader,
+  type ArchiveMediaRef,
+  type ArchiveMessage,
+  type PlatformArchiveContent,
+  type PlatformArchiveImporter,
+  type PlatformArchivePreviewData,
+} from '@/lib/platforms/archive-import'
+import { decodeMetaText, readMetaLists, toIsoFromSeconds, unwrapMetaList } from '@/lib/platforms/meta/dyi'
+
+/**
+ * Parser for Instagram's "Download your information" export in JSON format. Both the current
+ * layout (`your_instagram_activity/...`, `connections/...`) and the older flat layout
+ * (`content/...`, `followers_and_following/...`) are recognized.
+ */
+
+export type InstagramImportSection =
+  | 'posts'
+  | 'reels'
+  | 'stories'
+  | 'comments'
+  | 'followers'
+  | 'following'
+  | 'saved'
+  | 'direct_messages'
+  | 'media'
+
+export type InstagramImportSelection = Record<InstagramImportSection, boolean>
+
+export const DEFAULT_INSTAGRAM_IMPORT_SELECTION: InstagramImportSelection = {
+  posts: true,
+  reels: true,
+  stories: true,
+  comments: true,
+  followers: true,
+  following: true,
+  saved: true,
+  direct_messages: true,
+  media: true,
+}
+
+export const INSTAGRAM_IMPORT_SECTION_LABELS: Record<InstagramImportSection, string> = {
+  posts: 'Posts',
+  reels: 'Reels',
+  stories: 'Stories',
+  comments: 'Comments',
+  followers: 'Followers',
+  following: 'Following',
+  saved: 'Saved items',
+  direct_messages: 'Messages',
+  media: 'Photos & videos',
+}
+
+export type InstagramPost = {
+  id: string
+  kind: 'post' | 'reel' | 'story'
+  caption: string
+  created_at: string | null
+  media: ArchiveMediaRef[]
+}
+
+export type InstagramComment = {
+  kind: 'post' | 'reel'
+  text: string
+  media_owner: string | null
+  created_at: string | null
+}
+
+export type InstagramSavedItem = {
+  owner: string | null
+  url: string | null
+  saved_at: string | null
+}
+
+type InstagramArchiveBucket =
+  | 'profile'
+  | 'posts'
+  | 'reels'
+  | 'stories'
+  | 'comments'
+  | 'followers'
+  | 'following'
+  | 'saved'
+  | 'messages'
+
+const INSTAGRAM_FILE_PATTERNS: Record<InstagramArchiveBucket, RegExp[]> = {
+  profile: [/(?:^|\/)(?:personal_information\/personal_information|account_information)\/personal_information\.json$/i],
+  posts: [/(?:^|\/)(?:your_instagram_activity\/)?(?:content|media)\/posts(?:_\d+)?\.json$/i],
+  reels: [/(?:^|\/)(?:your_instagram_activity\/)?(?:content|media)\/reels\.json$/i],
+  stories: [/(?:^|\/)(?:your_instagram_activity\/)?(?:content|media)\/stories\.json$/i],
+  comments: [/(?:^|\/)comments\/(?:post_comments(?:_\d+)?|reels_comments)\.json$/i],
+  followers: [/(?:^|\/)followers_and_following\/followers(?:_\d+)?\.json$/i],
+  following: [/(?:^|\/)followers_and_following\/following(?:_\d+)?\.json$/i],
+  saved: [/(?:^|\/)saved\/saved_posts\.json$/i],
+  messages: [/(?:^|\/)messages\/inbox\/[^/]+\/message_\d+\.json$/i],
+}
+
+const INSTAGRAM_MEDIA_PATTERN = /(?:^|\/)media\/(?:posts|reels|stories|other|archived_posts)\/.+\.(?:jpe?g|png|gif|webp|heic|mp4|mov)$/i
+
+function toIsoFromMilliseconds(value: unknown): string | null {
+  const milliseconds = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10)
+  if (!Number.isFinite(milliseconds) || milliseconds <= 0) return null
+  return new Date(milliseconds).toISOString()
+}
+
+function stringMapEntry(item: unknown, key: string): Record<string, unknown> {
+  return toRecord(toRecord(toRecord(item).string_map_data)[key])
+}
+
+function stringMapValue(item: unknown, key: string): string {
+  return decodeMetaText(stringMapEntry(item, key).value)
+}
+
+function findInstagramFiles(paths: string[]): Record<InstagramArchiveBucket, string[]> {
+  const files = {} as Record<InstagramArchiveBucket, string[]>
+  for (const bucket of Object.keys(INSTAGRAM_FILE_PATTERNS) as InstagramArchiveBucket[]) {
+    files[bucket] = findArchivePaths(paths, INSTAGRAM_FILE_PATTERNS[bucket])
+  }
+  return files
+}
+
+function toMediaRefs(mediaItems: unknown): ArchiveMediaRef[] {
+  return toList(mediaItems)
+    .map((media) => toArchiveMediaRef(toRecord(media).uri))
+    .filter((ref): ref is ArchiveMediaRef => Boolean(ref))
+}
+
+function mediaIdFromPath(path: string | undefined): string {
+  return path?.split('/').pop()?.replace(/\.[^.]+$/, '') || ''
+}
+
+function normalizeInstagramPost(item: unknown, kind: InstagramPost['kind'], index: number): InstagramPost | null {
+  const record = toRecord(item)
+  // Stories are single media records; posts and reels group their carousel under `media`.
+  const mediaItems = Array.isArray(record.media) ? record.media : [record]
+  const media = toMediaRefs(mediaItems)
+  const first = toRecord(mediaItems[0])
+  const caption = decodeMetaText(record.title || first.title)
+  if (media.length === 0 && !caption) return null
+
+  return {
+    id: mediaIdFromPath(media[0]?.archive_path) || `${kind}-${index}`,
+    kind,
+    caption,
+    created_at: toIsoFromSeconds(record.creation_timestamp ?? first.creation_timestamp),
+    media,
+  }
+}
+
+function byNewestFirst<T extends { created_at: string | null }>(a: T, b: T) {
+  return (b.created_at || '').localeCompare(a.created_at || '')
+}
+
+function normalizeInstagramConnection(item: unknown): ArchiveConnection | null {
+  const record = toRecord(item)
+  const entry = toRecord(toList(record.string_list_data)[0])
+  const href = typeof entry.href === 'string' ? entry.href : ''
+  const hrefUsername = href.match(/instagram\.com\/(?:_u\/)?([A-Za-z0-9._]+)/)?.[1] || ''
+  const username = decodeMetaText(entry.value) || decodeMetaText(record.title) || hrefUsername
+  if (!username) return null
+
+  return {
+    username,
+    profile_url: `https://www.instagram.com/${username}`,
+    followed_at: toIsoFromSeconds(entry.timestamp),
+  }
+}
+
+function normalizeInstagramComment(item: unknown, kind: InstagramComment['kind']): InstagramComment | null {
+  const text = stringMapValue(item, 'Comment')
+  if (!text) return null
+  return {
+    kind,
+    text,
+    media_owner: stringMapValue(item, 'Media Owner') || null,
+    created_at: toIsoFromSeconds(stringMapEntry(item, 'Time').timestamp),
+  }
+}
+
+function normalizeInstagramSavedItem(item: unknown): InstagramSavedItem | null {
+  const savedOn = stringMapEntry(item, 'Saved on')
+  const url = typeof savedOn.href === 'string' ? savedOn.href : null
+  const owner = decodeMetaText(toRecord(item).title) || null
+  if (!url && !owner) return null
+  return {
+    owner,
+    url,
+    saved_at: toIsoFromSeconds(savedOn.timestamp),
+  }
+}
+
+function collectAttachmentPaths(message: Record<string, unknown>): string[] {
+  return ['photos', 'videos', 'audio_files', 'gifs']
+    .flatMap((key) => toList(message[key]))
+    .map((media) => toRecord(media).uri)
+    .filter((uri): uri is string => typeof uri === 'string' && uri.length > 0)
+}
+
+/**
+ * Threads are split across `message_1.json`, `message_2.json`, ... in one inbox folder, newest
+ * messages first. They are merged per folder and returned oldest first.
+ */
+export async function extractInstagramConversations(reader: ArchiveFileReader): Promise<ArchiveConversation[]> {
+  const paths = findArchivePaths(reader.paths, INSTAGRAM_FILE_PATTERNS.messages)
+  const threads = new Map<string, { title: string; participants: Set<string>; messages: ArchiveMessage[] }>()
+
+  for (const path of paths) {
+    const json = await readArchiveJson(reader, path)
+    if (!json || typeof json !== 'object') continue
+    const parsed = toRecord(json)
+    const folder = path.split('/').slice(-2, -1)[0] || path
+    const conversationId = typeof parsed.thread_path === 'string' && parsed.thread_path ? parsed.thread_path : folder
+    const thread = threads.get(conversationId) || { title: '', participants: new Set<string>(), messages: [] }
+    thread.title = thread.title || decodeMetaText(parsed.title)
+
+    for (const participant of toList(parsed.participants)) {
+      const name = decodeMetaText(toRecord(participant).name)
+      if (name) thread.participants.add(name)
+    }
+
+    for (const item of toList(parsed.messages)) {
+      const message = toRecord(item)
+      const share = toRecord(message.share)
+      const shareUrl = typeof share.link === 'string' ? share.link : undefined
+      const text = decodeMetaText(message.content) || decodeMetaText(share.share_text)
+      const attachments = collectAttachmentPaths(message)
+      if (!text && !shareUrl && attachments.length === 0) continue
+      thread.messages.push({
+        sender_name: decodeMetaText(message.sender_name),
+        text,
+        created_at: toIsoFromMilliseconds(message.timestamp_ms),
+        ...(shareUrl ? { share_url: shareUrl } : {}),
+        attachments,
+      })
+    }
+
+    threads.set(conversationId, thread)
+  }
+
+  return [...threads.entries()].map(([conversationId, thread]) => {
+    const messages = thread.messages.sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+    const participants = [...thread.participants]
+    return {
+      conversation_id: conversationId,
+      title: thread.title || participants.join(', '),
+      participants,
+      messages,
+      message_count: messages.length,
+    }
+  })
+}
+
+export function normalizeInstagramImportSelection(input: unknown): InstagramImportSelection {
+  return normalizeArchiveSelection(input, DEFAULT_INSTAGRAM_IMPORT_SELECTION)
+}
+
+async function previewInstagramArchive(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData> {
+  const files = findInstagramFiles(reader.paths)
+  const mediaPaths = reader.paths.filter((path) => INSTAGRAM_MEDIA_PATTERN.test(path))
+
+  const posts = await readMetaLists(reader, files.posts, [])
+  const reels = await readMetaLists(reader, files.reels, ['ig_reels_media'])
+  const stories = await readMetaLists(reader, files.stories, ['ig_stories'])
+  const comments = await readMetaLists(reader, files.comments, ['comments_media_comments', 'comments_reels_comments'])
+  const followers = await readMetaLists(reader, files.followers, ['relationships_followers'])
+  const following = await readMetaLists(reader, files.following, ['relationships_following'])
+  const saved = await readMetaLists(reader, files.saved, ['saved_saved_media'])
+  const conversations = await extractInstagramConversations(reader)
+
+  return {
+    recognized: files.profile.length > 0 || files.posts.length > 0 || files.followers.length > 0 || files.messages.length > 0,
+    stats: {
+      posts: posts.length,
+      reels: reels.length,
+      stories: stories.length,
+      comments: comments.length,
+      followers: followers.length,
+      following: following.length,
+      saved: saved.length,
+      direct_messages: conversations.reduce((sum, conversation) => sum + conversation.message_count, 0),
+      media: mediaPaths.length,
+    },
+    available: {
+      posts: files.posts.length > 0,
+      reels: files.reels.length > 0,
+      stories: files.stories.length > 0,
+      comments: files.comments.length > 0,
+      followers: files.followers.length > 0,
+      following: files.following.length > 0,
+      saved: files.saved.length > 0,
+      direct_messages: files.messages.length > 0,
+      media: mediaPaths.length > 0,
+    },
+  }
+}
+
+/**
+ * Messages are not part of the parsed content: they are extracted and encrypted in the browser
+ * (see `extractInstagramConversations`) and reach the job as an encrypted payload.
+ */
+async function parseInstagramArchive(
+  reader: ArchiveFileReader,
+  selection: InstagramImportSelection,
+): Promise<PlatformArchiveContent> {
+  const files = findInstagramFiles(reader.paths)
+
+  const profileRecord = unwrapMetaList(
+    files.profile.length > 0 ? await readArchiveJson(reader, files.profile[0]) : null,
+    ['profile_user'],
+  )[0]
+  const username = stringMapValue(profileRecord, 'Username')
+  const profileImage = toArchiveMediaRef(toRecord(toRecord(toRecord(profileRecord).media_map_data)['Profile Photo']).uri)
+
+  const posts = selection.posts
+    ? (await readMetaLists(reader, files.posts, []))
+        .map((item, index) => normalizeInstagramPost(item, 'post', index))
+        .filter((post): post is InstagramPost => Boolean(post))
+        .sort(byNewestFirst)
+    : []
+  const reels = selection.reels
+    ? (await readMetaLists(reader, files.reels, ['ig_reels_media']))
+        .map((item, index) => normalizeInstagramPost(item, 'reel', index))
+        .filter((post): post is InstagramPost => Boolean(post))
+        .sort(byNewestFirst)
+    : []
+  const stories = selection.stories
+    ? (await readMetaLists(reader, files.stories, ['ig_stories']))
+        .map((item, index) => normalizeInstagramPost(item, 'story', index))
+        .filter((post): post is InstagramPost => Boolean(post))
+        .sort(byNewestFirst)
+    : []
+
+  const comments: InstagramComment[] = []
+  if (selection.comments) {
+    for (const path of files.comments) {
+      const kind = /reels_comments\.json$/i.test(path) ? 'reel' : 'post'
+      const items = unwrapMetaList(await readArchiveJson(reader, path), ['comments_media_comments', 'comments_reels_comments'])
+      comments.push(
+        ...items
+          .map((item) => normalizeInstagramComment(item, kind))
+          .filter((comment): comment is InstagramComment => Boolean(comment)),
+      )
+    }
+    comments.sort(byNewestFirst)
+  }
+
+  const savedItems = selection.saved
+    ? (await readMetaLists(reader, files.saved, ['saved_saved_media']))
+        .map(normalizeInstagramSavedItem)
+        .filter((item): item is InstagramSavedItem => Boolean(item))
+    : []
+
+  const followers = selection.followers
+    ? (await readMetaLists(reader, files.followers, ['relationships_followers']))
+        .map(normalizeInstagramConnection)
+        .filter((connection): connection is ArchiveConnection => Boolean(connection))
+    : []
+  const following = selection.following
+    ? (await readMetaLists(reader, files.following, ['relationships_following']))
+        .map(normalizeInstagramConnection)
+        .filter((connection): connection is ArchiveConnection => Boolean(connection))
+    : []
+
+  return {
+    profile: {
+      username,
+      displayName: stringMapValue(profileRecord, 'Name') || undefined,
+      bio: stringMapValue(profileRecord, 'Bio') || undefined,
+      profileUrl: username ? `https://www.instagram.com/${username}` : undefined,
+      profileImage,
+    },
+    stats: {
+      posts: posts.length,
+      reels: reels.length,
+      stories: stories.length,
+      comments: comments.length,
+      followers: followers.length,
+      following: following.length,
+      saved: savedItems.length,
+    },
+    data: {
+      posts,
+      reels,
+      stories,
+      comments,
+      saved_items: savedItems,
+    },
+    ...(selection.followers ? { followers } : {}),
+    ...(selection.following ? { following } : {}),
+  }
+}
+
+export const instagramArchiveImporter: PlatformArchiveImporter<InstagramImportSelection> = {
+  platform: 'instagram',
+  archiveLabel: 'Instagram data download',
+  unrecognizedMessage:
+    "This doesn't look like an Instagram data download. Request your information in JSON format and upload that ZIP.",
+  normalizeSelection: normalizeInstagramImportSelection,
+  preview: previewInstagramArchive,
+  parse: parseInstagramArchive,
+}
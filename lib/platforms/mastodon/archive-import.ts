@@ -0,0 +1,413 @@
+import {
+  findArchivePaths,
+  normalizeArchiveSelection,
+  readArchiveJson,
+  toArchiveMediaRef,
+  toList,
+  toRecord,
+  type ArchiveConnection,
+  type ArchiveFileReader,
+  type ArchiveMediaRef,
+  type PlatformArchiveContent,
+  type PlatformArchiveImporter,
+  type PlatformArchivePreviewData,
+} from '@/lib/platforms/archive-import'
+
+/**
+ * Parser for Mastodon's account archive (Settings → Import and export → Request your archive): a ZIP
+ * of ActivityStreams JSON (`outbox.json`, `actor.json`, `likes.json`, `bookmarks.json`) plus
+ * `media_attachments/`. The follower/following CSVs from the export page are picked up when they are
+ * added to the ZIP. Posts are mapped to the tweet-shaped records `BackupViewer` renders.
+ */
+
+export type MastodonImportSection = 'posts' | 'likes' | 'bookmarks' | 'followers' | 'following' | 'media'
+
+export type MastodonImportSelection = Record<MastodonImportSection, boolean>
+
+export const DEFAULT_MASTODON_IMPORT_SELECTION: MastodonImportSelection = {
+  posts: true,
+  likes: true,
+  bookmarks: true,
+  followers: true,
+  following: true,
+  media: true,
+}
+
+export const MASTODON_IMPORT_SECTION_LABELS: Record<MastodonImportSection, string> = {
+  posts: 'Posts and boosts',
+  likes: 'Favourites',
+  bookmarks: 'Bookmarks',
+  followers: 'Followers',
+  following: 'Following',
+  media: 'Media attachments',
+}
+
+export type MastodonVisibility = 'public' | 'unlisted' | 'private' | 'direct'
+
+export type MastodonMediaItem = ArchiveMediaRef & {
+  type: 'photo' | 'video' | 'animated_gif' | 'audio'
+  alt_text: string | null
+}
+
+// Tweet-shaped so posts page through `backup_tweets` and render in `TweetCard`.
+export type MastodonPost = {
+  id: string
+  id_str: string
+  tweet_url: string
+  full_text: string
+  created_at: string | null
+  // Boosts carry only the boosted post's URL.
+  retweeted: boolean
+  in_reply_to_status_id: string | null
+  in_reply_to_screen_name: string | null
+  in_reply_to_url: string | null
+  content_warning: string | null
+  visibility: MastodonVisibility
+  sensitive: boolean
+  media: MastodonMediaItem[]
+}
+
+const ACTIVITYSTREAMS_PUBLIC = new Set(['https://www.w3.org/ns/activitystreams#Public', 'as:Public', 'Public'])
+
+const MASTODON_FILE_PATTERNS = {
+  outbox: /(?:^|\/)outbox\.json$/i,
+  actor: /(?:^|\/)actor\.json$/i,
+  likes: /(?:^|\/)likes\.json$/i,
+  bookmarks: /(?:^|\/)bookmarks\.json$/i,
+  followers: /(?:^|\/)followers(?:_accounts)?\.csv$/i,
+  following: /(?:^|\/)(?:following_accounts|following|follows)\.csv$/i,
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+// Mastodon stores post bodies and bios as sanitized HTML made of paragraphs, line breaks and links.
+function htmlToText(html: unknown): string {
+  if (typeof html !== 'string') return ''
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? Number.parseInt(entity.slice(2), 16) : Number.parseInt(entity.slice(1), 10)
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match
+      }
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match
+    })
+    .trim()
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null
+  const parsed = Date.parse(value)
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null
+}
+
+function asStringList(value: unknown): string[] {
+  if (typeof value === 'string') return [value]
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+function linkValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  const record = toRecord(value)
+  if (typeof record.id === 'string') return record.id
+  if (typeof record.href === 'string') return record.href
+  return ''
+}
+
+// Status ids are the last path segment of the status URI (`.../statuses/<id>` or `.../statuses/<id>/activity`).
+function statusIdFromUri(uri: string): string {
+  const segments = uri.replace(/\/activity\/?$/, '').split(/[?#]/)[0].split('/').filter(Boolean)
+  return segments[segments.length - 1] || uri
+}
+
+// `https://host/users/alice/statuses/1` or `https://host/@alice/1` -> `alice@host`.
+function accountFromStatusUri(uri: string): string | null {
+  try {
+    const url = new URL(uri)
+    const match = url.pathname.match(/^\/users\/([^/]+)\//) || url.pathname.match(/^\/@([^/]+)\//)
+    return match ? `${decodeURIComponent(match[1])}@${url.host}` : null
+  } catch {
+    return null
+  }
+}
+
+function visibilityFor(activity: Record<string, unknown>, followersUri: string): MastodonVisibility {
+  const to = asStringList(activity.to)
+  const cc = asStringList(activity.cc)
+  if (to.some((target) => ACTIVITYSTREAMS_PUBLIC.has(target))) return 'public'
+  if (cc.some((target) => ACTIVITYSTREAMS_PUBLIC.has(target))) return 'unlisted'
+  if (followersUri && to.includes(followersUri)) return 'private'
+  return 'direct'
+}
+
+function normalizeMastodonMedia(value: unknown): MastodonMediaItem | null {
+  const item = toRecord(value)
+  const ref = toArchiveMediaRef(linkValue(item.url))
+  if (!ref) return null
+  const mimeType = typeof item.mediaType === 'string' ? item.mediaType.toLowerCase() : ''
+  const type: MastodonMediaItem['type'] =
+    ref.media_type === 'audio'
+      ? 'audio'
+      : ref.media_type === 'video'
+        ? (mimeType === 'image/gif' || item.type === 'Gifv' ? 'animated_gif' : 'video')
+        : 'photo'
+  return {
+    ...ref,
+    ...(mimeType ? { mime_type: mimeType } : {}),
+    type,
+    alt_text: typeof item.name === 'string' && item.name.trim() ? item.name.trim() : null,
+  }
+}
+
+function normalizeMastodonActivity(value: unknown, followersUri: string, includeMedia: boolean): MastodonPost | null {
+  const activity = toRecord(value)
+  if (activity.type === 'Announce') {
+    const target = linkValue(activity.object)
+    const activityId = linkValue(activity)
+    if (!target || !activityId) return null
+    const id = statusIdFromUri(activityId)
+    return {
+      id,
+      id_str: id,
+      tweet_url: target,
+      full_text: target,
+      created_at: toIsoDate(activity.published),
+      retweeted: true,
+      in_reply_to_status_id: null,
+      in_reply_to_screen_name: null,
+      in_reply_to_url: null,
+      content_warning: null,
+      visibility: visibilityFor(activity, followersUri),
+      sensitive: false,
+      media: [],
+    }
+  }
+
+  const note = activity.type === 'Create' ? toRecord(activity.object) : {}
+  if (note.type !== 'Note' && note.type !== 'Question') return null
+  const uri = linkValue(note)
+  if (!uri) return null
+  const id = statusIdFromUri(uri)
+  const inReplyTo = linkValue(note.inReplyTo) || null
+  const pollOptions = Array.isArray(note.oneOf) ? note.oneOf : toList(note.anyOf)
+  const pollText = pollOptions
+    .map((option) => toRecord(option).name)
+    .map((name) => (typeof name === 'string' ? `○ ${name}` : ''))
+    .filter(Boolean)
+    .join('\n')
+  const text = [htmlToText(note.content), pollText].filter(Boolean).join('\n\n')
+
+  return {
+    id,
+    id_str: id,
+    tweet_url: linkValue(note.url) || uri,
+    full_text: text,
+    created_at: toIsoDate(note.published || activity.published),
+    retweeted: false,
+    in_reply_to_status_id: inReplyTo ? statusIdFromUri(inReplyTo) : null,
+    in_reply_to_screen_name: inReplyTo ? accountFromStatusUri(inReplyTo) : null,
+    in_reply_to_url: inReplyTo,
+    content_warning: typeof note.summary === 'string' && note.summary.trim() ? htmlToText(note.summary) : null,
+    visibility: visibilityFor(note, followersUri),
+    sensitive: note.sensitive === true,
+    media: (includeMedia ? toList(note.attachment) : [])
+      .map(normalizeMastodonMedia)
+      .filter((item): item is MastodonMediaItem => Boolean(item)),
+  }
+}
+
+// Minimal RFC 4180 reader: quoted fields may hold commas, newlines and doubled quotes.
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index]
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index += 1
+      row.push(field)
+      if (row.some((value) => value.trim())) rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  if (row.some((value) => value.trim())) rows.push(row)
+  return rows
+}
+
+// `alice@example.social` (optionally with a leading `@`) -> connection row linking to the profile.
+function normalizeMastodonAccountAddress(address: string): ArchiveConnection | null {
+  const handle = address.trim().replace(/^@/, '')
+  const [name, host] = handle.split('@')
+  if (!name || !host) return null
+  return {
+    username: `${name}@${host}`,
+    profile_url: `https://${host}/@${encodeURIComponent(name)}`,
+    followed_at: null,
+  }
+}
+
+async function readMastodonConnections(reader: ArchiveFileReader, pattern: RegExp): Promise<ArchiveConnection[]> {
+  const [path] = findArchivePaths(reader.paths, [pattern])
+  if (!path) return []
+  const rows = parseCsv((await reader.readText(path)).replace(/^\uFEFF/, ''))
+  if (rows.length === 0) return []
+  const header = rows[0].map((value) => value.trim().toLowerCase())
+  const hasHeader = header.includes('account address')
+  const column = hasHeader ? header.indexOf('account address') : 0
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((row) => normalizeMastodonAccountAddress(row[column] || ''))
+    .filter((connection): connection is ArchiveConnection => Boolean(connection))
+}
+
+async function readMastodonJson(reader: ArchiveFileReader, pattern: RegExp): Promise<Record<string, unknown>> {
+  const [path] = findArchivePaths(reader.paths, [pattern])
+  return toRecord(path ? await readArchiveJson(reader, path) : null)
+}
+
+function orderedItems(collection: Record<string, unknown>): unknown[] {
+  if (Array.isArray(collection.orderedItems)) return collection.orderedItems
+  return toList(collection.items)
+}
+
+// Favourites and bookmarks are collections of status URIs.
+function statusLinks(collection: Record<string, unknown>): string[] {
+  return orderedItems(collection)
+    .map(linkValue)
+    .filter(Boolean)
+}
+
+function countMediaFiles(paths: string[]): number {
+  return paths.filter((path) => /(?:^|\/)media_attachments\//i.test(path) && toArchiveMediaRef(path)).length
+}
+
+export function normalizeMastodonImportSelection(input: unknown): MastodonImportSelection {
+  return normalizeArchiveSelection(input, DEFAULT_MASTODON_IMPORT_SELECTION)
+}
+
+async function previewMastodonArchive(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData> {
+  const outbox = await readMastodonJson(reader, MASTODON_FILE_PATTERNS.outbox)
+  const actor = await readMastodonJson(reader, MASTODON_FILE_PATTERNS.actor)
+  const activities = orderedItems(outbox).filter((item) => {
+    const type = toRecord(item).type
+    return type === 'Create' || type === 'Announce'
+  })
+  const likes = statusLinks(await readMastodonJson(reader, MASTODON_FILE_PATTERNS.likes))
+  const bookmarks = statusLinks(await readMastodonJson(reader, MASTODON_FILE_PATTERNS.bookmarks))
+  const followers = await readMastodonConnections(reader, MASTODON_FILE_PATTERNS.followers)
+  const following = await readMastodonConnections(reader, MASTODON_FILE_PATTERNS.following)
+  const mediaFiles = countMediaFiles(reader.paths)
+
+  return {
+    recognized: outbox.type === 'OrderedCollection' || typeof actor.preferredUsername === 'string',
+    stats: {
+      posts: activities.length,
+      likes: likes.length,
+      bookmarks: bookmarks.length,
+      followers: followers.length,
+      following: following.length,
+      media: mediaFiles,
+    },
+    available: {
+      posts: activities.length > 0,
+      likes: likes.length > 0,
+      bookmarks: bookmarks.length > 0,
+      followers: followers.length > 0,
+      following: following.length > 0,
+      media: mediaFiles > 0,
+    },
+  }
+}
+
+async function parseMastodonArchive(
+  reader: ArchiveFileReader,
+  selection: MastodonImportSelection,
+): Promise<PlatformArchiveContent> {
+  const actor = await readMastodonJson(reader, MASTODON_FILE_PATTERNS.actor)
+  const actorUri = linkValue(actor)
+  const followersUri = typeof actor.followers === 'string' ? actor.followers : actorUri ? `${actorUri}/followers` : ''
+  let host = ''
+  try {
+    host = actorUri ? new URL(actorUri).host : ''
+  } catch {
+    host = ''
+  }
+  const preferredUsername = typeof actor.preferredUsername === 'string' ? actor.preferredUsername : ''
+  const username = preferredUsername && host ? `${preferredUsername}@${host}` : preferredUsername
+
+  const posts = selection.posts
+    ? orderedItems(await readMastodonJson(reader, MASTODON_FILE_PATTERNS.outbox))
+        .map((activity) => normalizeMastodonActivity(activity, followersUri, selection.media))
+        .filter((post): post is MastodonPost => Boolean(post))
+        .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))
+    : []
+  const likes = selection.likes ? statusLinks(await readMastodonJson(reader, MASTODON_FILE_PATTERNS.likes)) : []
+  const bookmarks = selection.bookmarks ? statusLinks(await readMastodonJson(reader, MASTODON_FILE_PATTERNS.bookmarks)) : []
+  const followers = selection.followers ? await readMastodonConnections(reader, MASTODON_FILE_PATTERNS.followers) : []
+  const following = selection.following ? await readMastodonConnections(reader, MASTODON_FILE_PATTERNS.following) : []
+  const avatar = selection.media ? toArchiveMediaRef(linkValue(toRecord(actor.icon).url)) : null
+
+  return {
+    profile: {
+      username,
+      displayName: typeof actor.name === 'string' && actor.name.trim() ? actor.name.trim() : undefined,
+      bio: htmlToText(actor.summary) || undefined,
+      platformUserId: actorUri || undefined,
+      profileUrl: linkValue(actor.url) || actorUri || undefined,
+      profileImage: avatar,
+    },
+    stats: {
+      tweets: posts.filter((post) => !post.in_reply_to_status_id).length,
+      replies: posts.filter((post) => post.in_reply_to_status_id).length,
+      boosts: posts.filter((post) => post.retweeted).length,
+      likes: likes.length,
+      bookmarks: bookmarks.length,
+      followers: followers.length,
+      following: following.length,
+    },
+    data: {
+      favourites: likes,
+      bookmarks,
+    },
+    ...(selection.posts ? { tweets: posts } : {}),
+    ...(selection.followers ? { followers } : {}),
+    ...(selection.following ? { following } : {}),
+  }
+}
+
+export const mastodonArchiveImporter: PlatformArchiveImporter<MastodonImportSelection> = {
+  platform: 'mastodon',
+  archiveLabel: 'Mastodon account archive',
+  unrecognizedMessage:
+    "This doesn't look like a Mastodon account archive. Upload the ZIP from Preferences → Import and export → Request your archive.",
+  normalizeSelection: normalizeMastodonImportSelection,
+  preview: previewMastodonArchive,
+  parse: parseMastodonArchive,
+}
@@ -0,0 +1,549 @@
+import {
+  findArchivePaths,
+  normalizeArchiveSelection,
+  readArchiveJson,
+  toArchiveMediaRef,
+  toList,
+  toRecord,
+  type ArchiveConnection,
+  type ArchiveFileReader,
+  type ArchiveMediaRef,
+  type PlatformArchiveContent,
+  type PlatformArchiveImporter,
+  type PlatformArchivePreviewData,
+} from '@/lib/platforms/archive-import'
+import { decodeMetaText, readMetaLists, toIsoFromSeconds, unwrapMetaList } from '@/lib/platforms/meta/dyi'
+
+/**
+ * Parsers for the Threads and Facebook parts of Meta's "Download your information" export in JSON
+ * format. An Accounts Center export can hold both, so the same ZIP may be imported once per
+ * platform; each importer only reads its own files. Both produce the same backup data shape, which
+ * `MetaBackupViewer` renders.
+ */
+
+export type MetaPost = {
+  id: string
+  text: string
+  created_at: string | null
+  media: ArchiveMediaRef[]
+  // Link shared in the post, when there is one.
+  link: string | null
+}
+
+export type MetaComment = {
+  text: string
+  created_at: string | null
+  // Meta's description of the comment, e.g. "Alex commented on Sam's post."
+  context: string | null
+}
+
+export type MetaReaction = {
+  reaction: string
+  created_at: string | null
+  context: string | null
+  url: string | null
+}
+
+// Photos and videos from albums, outside of any post.
+export type MetaMediaItem = {
+  media: ArchiveMediaRef
+  caption: string
+  album: string | null
+  created_at: string | null
+}
+
+export type ThreadsImportSection = 'posts' | 'reactions' | 'followers' | 'following' | 'media'
+
+export type ThreadsImportSelection = Record<ThreadsImportSection, boolean>
+
+export const DEFAULT_THREADS_IMPORT_SELECTION: ThreadsImportSelection = {
+  posts: true,
+  reactions: true,
+  followers: true,
+  following: true,
+  media: true,
+}
+
+export const THREADS_IMPORT_SECTION_LABELS: Record<ThreadsImportSection, string> = {
+  posts: 'Threads and replies',
+  reactions: 'Liked threads',
+  followers: 'Followers',
+  following: 'Following',
+  media: 'Photos & videos',
+}
+
+export type FacebookImportSection = 'posts' | 'comments' | 'reactions' | 'friends' | 'followers' | 'following' | 'media'
+
+export type FacebookImportSelection = Record<FacebookImportSection, boolean>
+
+export const DEFAULT_FACEBOOK_IMPORT_SELECTION: FacebookImportSelection = {
+  posts: true,
+  comments: true,
+  reactions: true,
+  friends: true,
+  followers: true,
+  following: true,
+  media: true,
+}
+
+export const FACEBOOK_IMPORT_SECTION_LABELS: Record<FacebookImportSection, string> = {
+  posts: 'Posts',
+  comments: 'Comments',
+  reactions: 'Reactions',
+  friends: 'Friends',
+  followers: 'Followers',
+  following: 'Following',
+  media: 'Photos & videos',
+}
+
+type MetaFileSet<Bucket extends string> = Record<Bucket, { patterns: RegExp[]; keys: string[] }>
+
+// Threads data sits under `threads/` (or `your_instagram_activity/threads/` in Instagram exports).
+const THREADS_FILES: MetaFileSet<'profile' | 'instagram_profile' | 'posts' | 'reactions' | 'followers' | 'following'> = {
+  profile: { patterns: [/(?:^|\/)threads\/(?:threads_)?profile(?:_information)?\.json$/i], keys: ['text_post_app_profile', 'profile_user'] },
+  instagram_profile: {
+    patterns: [/(?:^|\/)(?:personal_information\/personal_information|account_information)\/personal_information\.json$/i],
+    keys: ['profile_user'],
+  },
+  posts: { patterns: [/(?:^|\/)threads\/threads_and_replies(?:_\d+)?\.json$/i], keys: ['text_post_app_text_posts'] },
+  reactions: { patterns: [/(?:^|\/)threads\/liked_threads\.json$/i], keys: ['text_post_app_media_likes'] },
+  followers: { patterns: [/(?:^|\/)threads\/followers(?:_\d+)?\.json$/i], keys: ['text_post_app_text_app_followers'] },
+  following: { patterns: [/(?:^|\/)threads\/following(?:_\d+)?\.json$/i], keys: ['text_post_app_text_app_following'] },
+}
+
+// Current exports nest everything under `your_facebook_activity/` and `connections/`; older ones are flat.
+const FACEBOOK_FILES: MetaFileSet<'profile' | 'posts' | 'comments' | 'reactions' | 'friends' | 'followers' | 'following' | 'albums' | 'videos' | 'photos'> = {
+  profile: { patterns: [/(?:^|\/)profile_information\/profile_information\.json$/i], keys: [] },
+  posts: { patterns: [/(?:^|\/)posts\/your_posts(?:__check_ins__photos_and_videos)?_\d+\.json$/i], keys: ['status_updates_v2'] },
+  comments: { patterns: [/(?:^|\/)comments(?:_and_reactions)?\/comments\.json$/i], keys: ['comments_v2', 'comments'] },
+  reactions: {
+    patterns: [/(?:^|\/)(?:comments_and_reactions|likes_and_reactions)\/(?:likes_and_reactions(?:_\d+)?|posts_and_comments)\.json$/i],
+    keys: ['reactions_v2', 'reactions'],
+  },
+  friends: { patterns: [/(?:^|\/)friends\/(?:your_)?friends\.json$/i], keys: ['friends_v2', 'friends'] },
+  followers: {
+    patterns: [/(?:^|\/)(?:followers|followers_and_following)\/(?:people_who_follow_you|followers)(?:_\d+)?\.json$/i],
+    keys: ['followers_v2', 'followers'],
+  },
+  following: {
+    patterns: [/(?:^|\/)(?:followers|followers_and_following)\/(?:who_you've_followed|following)\.json$/i],
+    keys: ['following_v3', 'following_v2', 'following'],
+  },
+  albums: { patterns: [/(?:^|\/)(?:posts|photos_and_videos)\/album\/\d+\.json$/i], keys: [] },
+  videos: { patterns: [/(?:^|\/)(?:posts|photos_and_videos)\/your_videos\.json$/i], keys: ['videos_v2', 'videos'] },
+  photos: { patterns: [/(?:^|\/)(?:posts|photos_and_videos)\/your_uncategorized_photos\.json$/i], keys: ['other_photos_v2', 'other_photos'] },
+}
+
+function findMetaFiles<Bucket extends string>(paths: string[], files: MetaFileSet<Bucket>): Record<Bucket, string[]> {
+  const found = {} as Record<Bucket, string[]>
+  for (const bucket of Object.keys(files) as Bucket[]) {
+    found[bucket] = findArchivePaths(paths, files[bucket].patterns)
+  }
+  return found
+}
+
+function byNewestFirst<T extends { created_at: string | null }>(a: T, b: T) {
+  return (b.created_at || '').localeCompare(a.created_at || '')
+}
+
+function stringMapEntry(item: Record<string, unknown>, key: string): Record<string, unknown> {
+  return toRecord(toRecord(item.string_map_data)[key])
+}
+
+function stringMapValue(item: Record<string, unknown>, key: string): string {
+  return decodeMetaText(stringMapEntry(item, key).value)
+}
+
+// Newer Facebook files describe records as `label_values: [{ label, value }]` instead of nested data.
+function labelValue(item: Record<string, unknown>, label: string): string {
+  const entry = toRecord(toList(item.label_values).find((candidate) => toRecord(candidate).label === label))
+  return decodeMetaText(entry.value ?? entry.href)
+}
+
+function toMediaRefs(mediaItems: unknown[]): ArchiveMediaRef[] {
+  return mediaItems
+    .map((media) => toArchiveMediaRef(toRecord(media).uri))
+    .filter((ref): ref is ArchiveMediaRef => Boolean(ref))
+}
+
+function countStoredMedia(reader: ArchiveFileReader, refs: ArchiveMediaRef[]): number {
+  return new Set(refs.map((ref) => reader.resolve(ref.archive_path)).filter(Boolean)).size
+}
+
+// Instagram-style relationship rows (`string_list_data`) or Facebook's `{ name, timestamp }`.
+function normalizeMetaConnection(value: unknown, profileUrl?: (username: string) => string): ArchiveConnection | null {
+  const item = toRecord(value)
+  const [firstEntry] = toList(item.string_list_data)
+  if (firstEntry) {
+    const entry = toRecord(firstEntry)
+    const href = typeof entry.href === 'string' ? entry.href : ''
+    const hrefUsername = href.match(/\/@?([A-Za-z0-9._]+)\/?$/)?.[1] || ''
+    const username = decodeMetaText(entry.value) || decodeMetaText(item.title) || hrefUsername
+    if (!username) return null
+    return { username, profile_url: href || profileUrl?.(username) || '', followed_at: toIsoFromSeconds(entry.timestamp) }
+  }
+
+  const name = decodeMetaText(item.name) || labelValue(item, 'Name')
+  if (!name) return null
+  return { username: name, display_name: name, profile_url: '', followed_at: toIsoFromSeconds(item.timestamp) }
+}
+
+function threadsProfileUrl(username: string) {
+  return `https://www.threads.net/@${encodeURIComponent(username)}`
+}
+
+function normalizeThreadsPost(value: unknown, index: number): MetaPost | null {
+  const item = toRecord(value)
+  const mediaItems = toList(item.media)
+  const first = toRecord(mediaItems[0])
+  const text = decodeMetaText(item.title || first.title) || stringMapValue(item, 'Text')
+  const media = toMediaRefs(mediaItems)
+  if (!text && media.length === 0) return null
+  const createdAt = toIsoFromSeconds(
+    item.creation_timestamp ?? first.creation_timestamp ?? stringMapEntry(item, 'Time').timestamp,
+  )
+
+  return {
+    id: `threads-${createdAt || index}-${index}`,
+    text,
+    created_at: createdAt,
+    media,
+    link: null,
+  }
+}
+
+function normalizeThreadsLike(value: unknown): MetaReaction | null {
+  const item = toRecord(value)
+  const entry = toRecord(toList(item.string_list_data)[0])
+  const url = typeof entry.href === 'string' ? entry.href : null
+  const owner = decodeMetaText(item.title)
+  if (!url && !owner) return null
+  return {
+    reaction: 'like',
+    created_at: toIsoFromSeconds(entry.timestamp),
+    context: owner ? `@${owner}` : null,
+    url,
+  }
+}
+
+function normalizeFacebookPost(value: unknown, index: number): MetaPost | null {
+  const item = toRecord(value)
+  const data = toList(item.data).map(toRecord)
+  const attachmentData = toList(item.attachments)
+    .flatMap((attachment) => toList(toRecord(attachment).data))
+    .map(toRecord)
+  const text = decodeMetaText(data.find((entry) => typeof entry.post === 'string')?.post)
+  const media = toMediaRefs(attachmentData.map((entry) => entry.media).filter(Boolean))
+  const externalUrl = attachmentData
+    .map((entry) => toRecord(entry.external_context).url)
+    .find((url): url is string => typeof url === 'string')
+  const title = decodeMetaText(item.title)
+  if (!text && media.length === 0 && !externalUrl && !title) return null
+  const createdAt = toIsoFromSeconds(item.timestamp)
+
+  return {
+    id: `facebook-${createdAt || index}-${index}`,
+    // Status updates without text (check-ins, shared links) keep Meta's one-line description.
+    text: text || title,
+    created_at: createdAt,
+    media,
+    link: externalUrl || null,
+  }
+}
+
+function normalizeFacebookComment(value: unknown): MetaComment | null {
+  const item = toRecord(value)
+  const data = toList(item.data).map(toRecord)
+  const comment = toRecord(data.find((entry) => entry.comment)?.comment)
+  const text = decodeMetaText(comment.comment) || labelValue(item, 'Comment')
+  if (!text) return null
+  return {
+    text,
+    created_at: toIsoFromSeconds(comment.timestamp ?? item.timestamp),
+    context: decodeMetaText(item.title) || null,
+  }
+}
+
+function normalizeFacebookReaction(value: unknown): MetaReaction | null {
+  const item = toRecord(value)
+  const data = toList(item.data).map(toRecord)
+  const reaction =
+    decodeMetaText(toRecord(data.find((entry) => entry.reaction)?.reaction).reaction) || labelValue(item, 'Reaction')
+  const context = decodeMetaText(item.title) || labelValue(item, 'Name')
+  if (!reaction && !context) return null
+  return {
+    reaction: (reaction || 'like').toLowerCase(),
+    created_at: toIsoFromSeconds(item.timestamp),
+    context: context || null,
+    url: labelValue(item, 'URL') || null,
+  }
+}
+
+function normalizeFacebookMediaItem(value: unknown, album: string | null): MetaMediaItem | null {
+  const item = toRecord(value)
+  const media = toArchiveMediaRef(item.uri)
+  if (!media) return null
+  return {
+    media,
+    caption: decodeMetaText(item.description || item.title),
+    album,
+    created_at: toIsoFromSeconds(item.creation_timestamp),
+  }
+}
+
+async function readFacebookMediaItems(
+  reader: ArchiveFileReader,
+  files: Record<keyof typeof FACEBOOK_FILES, string[]>,
+): Promise<MetaMediaItem[]> {
+  const items: MetaMediaItem[] = []
+  for (const path of files.albums) {
+    const album = toRecord(await readArchiveJson(reader, path))
+    const name = decodeMetaText(album.name) || null
+    for (const photo of toList(album.photos)) {
+      const item = normalizeFacebookMediaItem(photo, name)
+      if (item) items.push(item)
+    }
+  }
+  for (const video of await readMetaLists(reader, files.videos, FACEBOOK_FILES.videos.keys)) {
+    const item = normalizeFacebookMediaItem(video, null)
+    if (item) items.push(item)
+  }
+  for (const photo of await readMetaLists(reader, files.photos, FACEBOOK_FILES.photos.keys)) {
+    const item = normalizeFacebookMediaItem(photo, null)
+    if (item) items.push(item)
+  }
+
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    if (seen.has(item.media.archive_path)) return false
+    seen.add(item.media.archive_path)
+    return true
+  })
+}
+
+function readConnections(items: unknown[], profileUrl?: (username: string) => string): ArchiveConnection[] {
+  return items
+    .map((item) => normalizeMetaConnection(item, profileUrl))
+    .filter((connection): connection is ArchiveConnection => Boolean(connection))
+}
+
+export function normalizeThreadsImportSelection(input: unknown): ThreadsImportSelection {
+  return normalizeArchiveSelection(input, DEFAULT_THREADS_IMPORT_SELECTION)
+}
+
+export function normalizeFacebookImportSelection(input: unknown): FacebookImportSelection {
+  return normalizeArchiveSelection(input, DEFAULT_FACEBOOK_IMPORT_SELECTION)
+}
+
+async function previewThreadsArchive(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData> {
+  const files = findMetaFiles(reader.paths, THREADS_FILES)
+  const posts = (await readMetaLists(reader, files.posts, THREADS_FILES.posts.keys))
+    .map(normalizeThreadsPost)
+    .filter((post): post is MetaPost => Boolean(post))
+  const reactions = await readMetaLists(reader, files.reactions, THREADS_FILES.reactions.keys)
+  const followers = await readMetaLists(reader, files.followers, THREADS_FILES.followers.keys)
+  const following = await readMetaLists(reader, files.following, THREADS_FILES.following.keys)
+  const mediaCount = countStoredMedia(reader, posts.flatMap((post) => post.media))
+
+  return {
+    recognized: files.posts.length > 0 || files.followers.length > 0 || files.following.length > 0 || files.profile.length > 0,
+    stats: {
+      posts: posts.length,
+      reactions: reactions.length,
+      followers: followers.length,
+      following: following.length,
+      media: mediaCount,
+    },
+    available: {
+      posts: posts.length > 0,
+      reactions: reactions.length > 0,
+      followers: followers.length > 0,
+      following: following.length > 0,
+      media: mediaCount > 0,
+    },
+  }
+}
+
+async function parseThreadsArchive(
+  reader: ArchiveFileReader,
+  selection: ThreadsImportSelection,
+): Promise<PlatformArchiveContent> {
+  const files = findMetaFiles(reader.paths, THREADS_FILES)
+  // Threads profiles mirror the Instagram account, so the Instagram profile file is the fallback.
+  const profilePath = files.profile[0] || files.instagram_profile[0]
+  const profileRecord = toRecord(
+    unwrapMetaList(profilePath ? await readArchiveJson(reader, profilePath) : null, [
+      ...THREADS_FILES.profile.keys,
+      ...THREADS_FILES.instagram_profile.keys,
+    ])[0],
+  )
+  const username = stringMapValue(profileRecord, 'Username')
+
+  const posts = selection.posts
+    ? (await readMetaLists(reader, files.posts, THREADS_FILES.posts.keys))
+        .map(normalizeThreadsPost)
+        .filter((post): post is MetaPost => Boolean(post))
+        .sort(byNewestFirst)
+    : []
+  const reactions = selection.reactions
+    ? (await readMetaLists(reader, files.reactions, THREADS_FILES.reactions.keys))
+        .map(normalizeThreadsLike)
+        .filter((reaction): reaction is MetaReaction => Boolean(reaction))
+        .sort(byNewestFirst)
+    : []
+  const followers = selection.followers
+    ? readConnections(await readMetaLists(reader, files.followers, THREADS_FILES.followers.keys), threadsProfileUrl)
+    : []
+  const following = selection.following
+    ? readConnections(await readMetaLists(reader, files.following, THREADS_FILES.following.keys), threadsProfileUrl)
+    : []
+
+  return {
+    profile: {
+      username,
+      displayName: stringMapValue(profileRecord, 'Name') || undefined,
+      bio: stringMapValue(profileRecord, 'Bio') || undefined,
+      profileUrl: username ? threadsProfileUrl(username) : undefined,
+      profileImage: toArchiveMediaRef(toRecord(toRecord(profileRecord.media_map_data)['Profile Photo']).uri),
+    },
+    stats: {
+      posts: posts.length,
+      reactions: reactions.length,
+      followers: followers.length,
+      following: following.length,
+    },
+    data: {
+      posts,
+      reactions,
+    },
+    ...(selection.followers ? { followers } : {}),
+    ...(selection.following ? { following } : {}),
+  }
+}
+
+async function previewFacebookArchive(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData> {
+  const files = findMetaFiles(reader.paths, FACEBOOK_FILES)
+  const posts = (await readMetaLists(reader, files.posts, FACEBOOK_FILES.posts.keys))
+    .map(normalizeFacebookPost)
+    .filter((post): post is MetaPost => Boolean(post))
+  const comments = await readMetaLists(reader, files.comments, FACEBOOK_FILES.comments.keys)
+  const reactions = await readMetaLists(reader, files.reactions, FACEBOOK_FILES.reactions.keys)
+  const friends = await readMetaLists(reader, files.friends, FACEBOOK_FILES.friends.keys)
+  const followers = await readMetaLists(reader, files.followers, FACEBOOK_FILES.followers.keys)
+  const following = await readMetaLists(reader, files.following, FACEBOOK_FILES.following.keys)
+  const mediaItems = await readFacebookMediaItems(reader, files)
+  const mediaCount = countStoredMedia(reader, [
+    ...posts.flatMap((post) => post.media),
+    ...mediaItems.map((item) => item.media),
+  ])
+
+  return {
+    recognized: files.profile.length > 0 || files.posts.length > 0 || files.friends.length > 0 || files.comments.length > 0,
+    stats: {
+      posts: posts.length,
+      comments: comments.length,
+      reactions: reactions.length,
+      friends: friends.length,
+      followers: followers.length,
+      following: following.length,
+      media: mediaCount,
+    },
+    available: {
+      posts: posts.length > 0,
+      comments: comments.length > 0,
+      reactions: reactions.length > 0,
+      friends: friends.length > 0,
+      followers: followers.length > 0,
+      following: following.length > 0,
+      media: mediaCount > 0,
+    },
+  }
+}
+
+async function parseFacebookArchive(
+  reader: ArchiveFileReader,
+  selection: FacebookImportSelection,
+): Promise<PlatformArchiveContent> {
+  const files = findMetaFiles(reader.paths, FACEBOOK_FILES)
+  const profileFile = toRecord(files.profile[0] ? await readArchiveJson(reader, files.profile[0]) : null)
+  const profile = toRecord(profileFile.profile_v2 || profileFile.profile)
+  const profileUri = typeof profile.profile_uri === 'string' ? profile.profile_uri : ''
+  const fullName = decodeMetaText(toRecord(profile.name).full_name)
+  const username = decodeMetaText(profile.username) || profileUri.match(/facebook\.com\/([^/?#]+)/)?.[1] || fullName
+
+  const posts = selection.posts
+    ? (await readMetaLists(reader, files.posts, FACEBOOK_FILES.posts.keys))
+        .map(normalizeFacebookPost)
+        .filter((post): post is MetaPost => Boolean(post))
+        .sort(byNewestFirst)
+    : []
+  const comments = selection.comments
+    ? (await readMetaLists(reader, files.comments, FACEBOOK_FILES.comments.keys))
+        .map(normalizeFacebookComment)
+        .filter((comment): comment is MetaComment => Boolean(comment))
+        .sort(byNewestFirst)
+    : []
+  const reactions = selection.reactions
+    ? (await readMetaLists(reader, files.reactions, FACEBOOK_FILES.reactions.keys))
+        .map(normalizeFacebookReaction)
+        .filter((reaction): reaction is MetaReaction => Boolean(reaction))
+        .sort(byNewestFirst)
+    : []
+  const friends = selection.friends
+    ? readConnections(await readMetaLists(reader, files.friends, FACEBOOK_FILES.friends.keys))
+    : []
+  const followers = selection.followers
+    ? readConnections(await readMetaLists(reader, files.followers, FACEBOOK_FILES.followers.keys))
+    : []
+  const following = selection.following
+    ? readConnections(await readMetaLists(reader, files.following, FACEBOOK_FILES.following.keys))
+    : []
+  const mediaItems = selection.media ? (await readFacebookMediaItems(reader, files)).sort(byNewestFirst) : []
+
+  return {
+    profile: {
+      username,
+      displayName: fullName || undefined,
+      bio: decodeMetaText(profile.intro_bio) || undefined,
+      profileUrl: profileUri || undefined,
+    },
+    stats: {
+      posts: posts.length,
+      comments: comments.length,
+      reactions: reactions.length,
+      friends: friends.length,
+      followers: followers.length,
+      following: following.length,
+      photos_and_videos: mediaItems.length,
+    },
+    data: {
+      posts,
+      comments,
+      reactions,
+      friends,
+      photos_and_videos: mediaItems,
+    },
+    ...(selection.followers ? { followers } : {}),
+    ...(selection.following ? { following } : {}),
+  }
+}
+
+export const threadsArchiveImporter: PlatformArchiveImporter<ThreadsImportSelection> = {
+  platform: 'threads',
+  archiveLabel: 'Threads data download',
+  unrecognizedMessage:
+    "This doesn't look like a Threads data download. In Accounts Center, download your Threads information as JSON and upload the ZIP.",
+  normalizeSelection: normalizeThreadsImportSelection,
+  preview: previewThreadsArchive,
+  parse: parseThreadsArchive,
+}
+
+export const facebookArchiveImporter: PlatformArchiveImporter<FacebookImportSelection> = {
+  platform: 'facebook',
+  archiveLabel: 'Facebook data download',
+  unrecognizedMessage:
+    "This doesn't look like a Facebook data download. In Accounts Center, download your Facebook information as JSON and upload the ZIP.",
+  normalizeSelection: normalizeFacebookImportSelection,
+  preview: previewFacebookArchive,
+  parse: parseFacebookArchive,
+}
@@ -0,0 +1,54 @@
+import { readArchiveJson, toRecord, type ArchiveFileReader } from '@/lib/platforms/archive-import'
+
+/**
+ * Helpers shared by the importers for Meta's "Download your information" exports (Instagram,
+ * Threads and Facebook), which use the same JSON conventions and the same text encoding bug.
+ */
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Meta exports write UTF-8 bytes as individual `\u00XX` escapes, so "café" arrives as "cafÃ©".
+ * Strings made only of Latin-1 code points are re-read as UTF-8; anything that does not decode
+ * cleanly is left alone.
+ */
+export function decodeMetaText(value: unknown): string {
+  if (typeof value !== 'string') return ''
+  let hasHighByte = false
+  for (let index = 0; index < value.length; index += 1) {
+    const code = value.charCodeAt(index)
+    if (code > 0xff) return value
+    if (code >= 0x80) hasHighByte = true
+  }
+  if (!hasHighByte) return value
+  try {
+    return utf8Decoder.decode(Uint8Array.from(value, (char) => char.charCodeAt(0)))
+  } catch {
+    return value
+  }
+}
+
+export function toIsoFromSeconds(value: unknown): string | null {
+  const seconds = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10)
+  if (!Number.isFinite(seconds) || seconds <= 0) return null
+  return new Date(seconds * 1000).toISOString()
+}
+
+// Exports wrap record lists either as a bare array or under a single key such as `ig_stories`.
+export function unwrapMetaList(parsed: unknown, keys: string[]): unknown[] {
+  if (Array.isArray(parsed)) return parsed
+  const record = toRecord(parsed)
+  for (const key of keys) {
+    const list = record[key]
+    if (Array.isArray(list)) return list
+  }
+  return []
+}
+
+export async function readMetaLists(reader: ArchiveFileReader, paths: string[], keys: string[]): Promise<unknown[]> {
+  const items: unknown[] = []
+  for (const path of paths) {
+    items.push(...unwrapMetaList(await readArchiveJson(reader, path), keys))
+  }
+  return items
+}
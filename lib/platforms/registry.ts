@@ -12,16 +12,44 @@ export const PLATFORM_REGISTRY: Record<PlatformId, PlatformDefinition> = {
     id: 'instagram',
     label: 'Instagram',
     shortLabel: 'Instagram',
-    enabled: false,
+    enabled: true,
     backupSources: ['instagram_archive', 'instagram_api'],
   },
   tiktok: {
     id: 'tiktok',
     label: 'TikTok',
     shortLabel: 'TikTok',
-    enabled: false,
+    enabled: true,
     backupSources: ['tiktok_archive', 'tiktok_api'],
   },
+  bluesky: {
+    id: 'bluesky',
+    label: 'Bluesky',
+    shortLabel: 'Bluesky',
+    enabled: true,
+    backupSources: ['bluesky_archive'],
+  },
+  mastodon: {
+    id: 'mastodon',
+    label: 'Mastodon',
+    shortLabel: 'Mastodon',
+    enabled: true,
+    backupSources: ['mastodon_archive'],
+  },
+  threads: {
+    id: 'threads',
+    label: 'Threads',
+    shortLabel: 'Threads',
+    enabled: true,
+    backupSources: ['threads_archive'],
+  },
+  facebook: {
+    id: 'facebook',
+    label: 'Facebook',
+    shortLabel: 'Facebook',
+    enabled: true,
+    backupSources: ['facebook_archive'],
+  },
 }
 
 export function getPlatformDefinition(platformId: PlatformId) {
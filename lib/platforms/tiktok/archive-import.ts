@@ -0,0 +1,412 @@
+import {
+  findArchivePaths,
+  inferArchiveMediaType,
+  normalizeArchiveSelection,
+  readArchiveJson,
+  toList,
+  toRecord,
+  type ArchiveConnection,
+  type ArchiveConversation,
+  type ArchiveFileReader,
+  type ArchiveMediaRef,
+  type ArchiveMessage,
+  type PlatformArchiveContent,
+  type PlatformArchiveImporter,
+  type PlatformArchivePreviewData,
+} from '@/lib/platforms/archive-import'
+
+/**
+ * Parser for TikTok's "Download your data" export in JSON format: a single `user_data.json`
+ * (`user_data_tiktok.json` in newer exports), either zipped or uploaded on its own. Section names
+ * moved between export versions, so each list is looked up under every known path.
+ */
+
+export type TikTokImportSection =
+  | 'videos'
+  | 'favorites'
+  | 'comments'
+  | 'followers'
+  | 'following'
+  | 'watch_history'
+  | 'direct_messages'
+  | 'media'
+
+export type TikTokImportSelection = Record<TikTokImportSection, boolean>
+
+export const DEFAULT_TIKTOK_IMPORT_SELECTION: TikTokImportSelection = {
+  videos: true,
+  favorites: true,
+  comments: true,
+  followers: true,
+  following: true,
+  watch_history: true,
+  direct_messages: true,
+  media: true,
+}
+
+export const TIKTOK_IMPORT_SECTION_LABELS: Record<TikTokImportSection, string> = {
+  videos: 'Videos',
+  favorites: 'Favorites',
+  comments: 'Comments',
+  followers: 'Followers',
+  following: 'Following',
+  watch_history: 'Watch history',
+  direct_messages: 'Messages',
+  media: 'Video files',
+}
+
+export type TikTokVideo = {
+  id: string
+  caption: string
+  created_at: string | null
+  link: string | null
+  // The video file when the ZIP contains one named after the video id.
+  media: ArchiveMediaRef | null
+  // True when the export only carries a link to the video.
+  link_only: boolean
+  likes: number | null
+  sound: string | null
+  location: string | null
+}
+
+// Favorites and watch history entries: TikTok only records the link and when it happened.
+export type TikTokVideoLink = {
+  video_id: string | null
+  link: string
+  date: string | null
+}
+
+export type TikTokComment = {
+  text: string
+  created_at: string | null
+  photo_url: string | null
+}
+
+export const TIKTOK_USER_DATA_FILE_NAME = 'user_data.json'
+
+const TIKTOK_USER_DATA_PATTERN = /(?:^|\/)user_data(?:_tiktok)?\.json$/i
+const TIKTOK_VIDEO_FILE_PATTERN = /\.(?:mp4|mov|webm)$/i
+
+const TIKTOK_SECTION_PATHS = {
+  profile: [
+    ['Profile', 'Profile Information', 'ProfileMap'],
+    ['Profile And Settings', 'Profile Info', 'ProfileMap'],
+  ],
+  videos: [
+    ['Video', 'Videos', 'VideoList'],
+    ['Post', 'Posts', 'VideoList'],
+  ],
+  favorites: [
+    ['Activity', 'Favorite Videos', 'FavoriteVideoList'],
+    ['Likes and Favorites', 'Favorite Videos', 'FavoriteVideoList'],
+    ['Your Activity', 'Favorite Videos', 'FavoriteVideoList'],
+  ],
+  comments: [
+    ['Comment', 'Comments', 'CommentsList'],
+  ],
+  followers: [
+    ['Activity', 'Follower List', 'FansList'],
+    ['Your Activity', 'Follower', 'FansList'],
+    ['Profile And Settings', 'Follower', 'FansList'],
+  ],
+  following: [
+    ['Activity', 'Following List', 'Following'],
+    ['Your Activity', 'Following', 'Following'],
+    ['Profile And Settings', 'Following', 'Following'],
+  ],
+  watch_history: [
+    ['Activity', 'Video Browsing History', 'VideoList'],
+    ['Your Activity', 'Watch History', 'VideoList'],
+  ],
+  messages: [
+    ['Direct Messages', 'Chat History', 'ChatHistory'],
+    ['Direct Message', 'Direct Messages', 'ChatHistory'],
+  ],
+} satisfies Record<string, string[][]>
+
+function findChildKey(node: unknown, key: string): string | null {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) return null
+  if (key in node) return key
+  const lowered = key.toLowerCase()
+  return Object.keys(node).find((candidate) => candidate.toLowerCase() === lowered) || null
+}
+
+// Returns the value at the first of `paths` that exists. Keys are matched case-insensitively.
+function pickSection(root: unknown, paths: string[][]): unknown {
+  for (const path of paths) {
+    let node: unknown = root
+    for (const key of path) {
+      const match = findChildKey(node, key)
+      node = match === null ? undefined : toRecord(node)[match]
+      if (node === undefined) break
+    }
+    if (node !== undefined && node !== null) return node
+  }
+  return undefined
+}
+
+function pickList(root: unknown, paths: string[][]): unknown[] {
+  return toList(pickSection(root, paths))
+}
+
+function readString(item: unknown, keys: string[]): string {
+  for (const key of keys) {
+    const match = findChildKey(item, key)
+    const value = match === null ? undefined : toRecord(item)[match]
+    if (typeof value === 'string' && value.trim() && value.trim() !== 'N/A') return value.trim()
+  }
+  return ''
+}
+
+// Export dates look like "2023-05-01 12:34:56" and are in UTC.
+function toIsoFromTikTokDate(value: string): string | null {
+  if (!value) return null
+  const parsed = Date.parse(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value)
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null
+}
+
+function extractVideoId(link: string): string | null {
+  const match = link.match(/\/(?:video|v)\/(\d+)/) || link.match(/[?&](?:item_id|video_id)=(\d+)/)
+  return match ? match[1] : null
+}
+
+function readCountValue(item: unknown, key: string): number | null {
+  const raw = readString(item, [key])
+  const parsed = Number.parseInt(raw.replace(/[^\d]/g, ''), 10)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function byNewestFirst<T extends { created_at: string | null }>(a: T, b: T) {
+  return (b.created_at || '').localeCompare(a.created_at || '')
+}
+
+async function readTikTokUserData(reader: ArchiveFileReader): Promise<Record<string, unknown> | null> {
+  const [path] = findArchivePaths(reader.paths, [TIKTOK_USER_DATA_PATTERN])
+  if (!path) return null
+  const parsed = await readArchiveJson(reader, path)
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null
+}
+
+function normalizeTikTokVideo(item: unknown, index: number, videoFiles: Map<string, string>): TikTokVideo {
+  const link = readString(item, ['Link', 'VideoLink', 'Url'])
+  const linkedId = link ? extractVideoId(link) : null
+  const createdAt = toIsoFromTikTokDate(readString(item, ['Date']))
+  const id = linkedId || readString(item, ['VideoId', 'Id']) || `video-${createdAt || index}`
+  const filePath = videoFiles.get(id)
+  const mediaType = filePath ? inferArchiveMediaType(filePath) : null
+
+  return {
+    id,
+    caption: readString(item, ['Title', 'Desc', 'Description', 'Caption']),
+    created_at: createdAt,
+    link: link || null,
+    media: filePath && mediaType ? { archive_path: filePath, media_type: mediaType } : null,
+    link_only: !filePath,
+    likes: readCountValue(item, 'Likes'),
+    sound: readString(item, ['Sound']) || null,
+    location: readString(item, ['Location']) || null,
+  }
+}
+
+function normalizeTikTokVideoLink(item: unknown): TikTokVideoLink | null {
+  const link = readString(item, ['Link', 'VideoLink', 'Url'])
+  if (!link) return null
+  return {
+    video_id: extractVideoId(link),
+    link,
+    date: toIsoFromTikTokDate(readString(item, ['Date'])),
+  }
+}
+
+function normalizeTikTokConnection(item: unknown): ArchiveConnection | null {
+  const username = readString(item, ['UserName', 'Username', 'userName'])
+  if (!username) return null
+  return {
+    username,
+    profile_url: `https://www.tiktok.com/@${encodeURIComponent(username)}`,
+    followed_at: toIsoFromTikTokDate(readString(item, ['Date'])),
+  }
+}
+
+function normalizeTikTokComment(item: unknown): TikTokComment | null {
+  const text = readString(item, ['Comment', 'comment'])
+  if (!text) return null
+  return {
+    text,
+    created_at: toIsoFromTikTokDate(readString(item, ['Date'])),
+    photo_url: readString(item, ['Photo', 'Url']) || null,
+  }
+}
+
+// Chat keys read "Chat History with <username>:".
+function conversationTitleFromKey(key: string): string {
+  return key.replace(/^chat history with\s*/i, '').replace(/:\s*$/, '').trim() || key
+}
+
+function conversationsFromUserData(userData: Record<string, unknown> | null): ArchiveConversation[] {
+  const chats = pickSection(userData, TIKTOK_SECTION_PATHS.messages)
+  if (!chats || typeof chats !== 'object' || Array.isArray(chats)) return []
+
+  const conversations: ArchiveConversation[] = []
+  for (const [key, value] of Object.entries(chats as Record<string, unknown>)) {
+    if (!Array.isArray(value)) continue
+    const messages: ArchiveMessage[] = value
+      .map((item) => ({
+        sender_name: readString(item, ['From']),
+        text: readString(item, ['Content', 'Message']),
+        created_at: toIsoFromTikTokDate(readString(item, ['Date'])),
+      }))
+      .filter((message) => message.text || message.sender_name)
+      .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+    if (messages.length === 0) continue
+
+    const title = conversationTitleFromKey(key)
+    conversations.push({
+      conversation_id: title,
+      title,
+      participants: Array.from(new Set(messages.map((message) => message.sender_name).filter(Boolean))),
+      messages,
+      message_count: messages.length,
+    })
+  }
+  return conversations
+}
+
+export async function extractTikTokConversations(reader: ArchiveFileReader): Promise<ArchiveConversation[]> {
+  return conversationsFromUserData(await readTikTokUserData(reader))
+}
+
+// Video files in the ZIP, keyed by file name without extension (TikTok video ids).
+function findTikTokVideoFiles(paths: string[]): Map<string, string> {
+  const files = new Map<string, string>()
+  for (const path of paths) {
+    if (!TIKTOK_VIDEO_FILE_PATTERN.test(path)) continue
+    const baseName = (path.split('/').pop() || '').replace(/\.[^.]+$/, '')
+    if (baseName && !files.has(baseName)) files.set(baseName, path)
+  }
+  return files
+}
+
+export function normalizeTikTokImportSelection(input: unknown): TikTokImportSelection {
+  return normalizeArchiveSelection(input, DEFAULT_TIKTOK_IMPORT_SELECTION)
+}
+
+async function previewTikTokArchive(reader: ArchiveFileReader): Promise<PlatformArchivePreviewData> {
+  const userData = await readTikTokUserData(reader)
+  const videos = pickList(userData, TIKTOK_SECTION_PATHS.videos)
+  const videoFiles = findTikTokVideoFiles(reader.paths)
+  const lists = {
+    favorites: pickList(userData, TIKTOK_SECTION_PATHS.favorites),
+    comments: pickList(userData, TIKTOK_SECTION_PATHS.comments),
+    followers: pickList(userData, TIKTOK_SECTION_PATHS.followers),
+    following: pickList(userData, TIKTOK_SECTION_PATHS.following),
+    watch_history: pickList(userData, TIKTOK_SECTION_PATHS.watch_history),
+  }
+  const conversations = conversationsFromUserData(userData)
+
+  return {
+    recognized: Boolean(userData) && Object.values(TIKTOK_SECTION_PATHS).some((paths) => pickSection(userData, paths) !== undefined),
+    stats: {
+      videos: videos.length,
+      favorites: lists.favorites.length,
+      comments: lists.comments.length,
+      followers: lists.followers.length,
+      following: lists.following.length,
+      watch_history: lists.watch_history.length,
+      direct_messages: conversations.reduce((sum, conversation) => sum + conversation.message_count, 0),
+      media: videoFiles.size,
+    },
+    available: {
+      videos: videos.length > 0,
+      favorites: lists.favorites.length > 0,
+      comments: lists.comments.length > 0,
+      followers: lists.followers.length > 0,
+      following: lists.following.length > 0,
+      watch_history: lists.watch_history.length > 0,
+      direct_messages: conversations.length > 0,
+      media: videoFiles.size > 0,
+    },
+  }
+}
+
+/**
+ * Messages are not part of the parsed content: they are extracted and encrypted in the browser
+ * (see `extractTikTokConversations`) and reach the job as an encrypted payload.
+ */
+async function parseTikTokArchive(
+  reader: ArchiveFileReader,
+  selection: TikTokImportSelection,
+): Promise<PlatformArchiveContent> {
+  const userData = await readTikTokUserData(reader)
+  const profileMap = pickSection(userData, TIKTOK_SECTION_PATHS.profile)
+  const username = readString(profileMap, ['userName', 'UserName'])
+  const videoFiles = selection.media ? findTikTokVideoFiles(reader.paths) : new Map<string, string>()
+
+  const videos = selection.videos
+    ? pickList(userData, TIKTOK_SECTION_PATHS.videos)
+        .map((item, index) => normalizeTikTokVideo(item, index, videoFiles))
+        .sort(byNewestFirst)
+    : []
+  const favorites = selection.favorites
+    ? pickList(userData, TIKTOK_SECTION_PATHS.favorites)
+        .map(normalizeTikTokVideoLink)
+        .filter((item): item is TikTokVideoLink => Boolean(item))
+    : []
+  const watchHistory = selection.watch_history
+    ? pickList(userData, TIKTOK_SECTION_PATHS.watch_history)
+        .map(normalizeTikTokVideoLink)
+        .filter((item): item is TikTokVideoLink => Boolean(item))
+    : []
+  const comments = selection.comments
+    ? pickList(userData, TIKTOK_SECTION_PATHS.comments)
+        .map(normalizeTikTokComment)
+        .filter((comment): comment is TikTokComment => Boolean(comment))
+        .sort(byNewestFirst)
+    : []
+  const followers = selection.followers
+    ? pickList(userData, TIKTOK_SECTION_PATHS.followers)
+        .map(normalizeTikTokConnection)
+        .filter((connection): connection is ArchiveConnection => Boolean(connection))
+    : []
+  const following = selection.following
+    ? pickList(userData, TIKTOK_SECTION_PATHS.following)
+        .map(normalizeTikTokConnection)
+        .filter((connection): connection is ArchiveConnection => Boolean(connection))
+    : []
+
+  return {
+    profile: {
+      username,
+      bio: readString(profileMap, ['bioDescription']) || undefined,
+      profileUrl: username ? `https://www.tiktok.com/@${encodeURIComponent(username)}` : undefined,
+    },
+    stats: {
+      videos: videos.length,
+      link_only_videos: videos.filter((video) => video.link_only).length,
+      favorites: favorites.length,
+      comments: comments.length,
+      followers: followers.length,
+      following: following.length,
+      watch_history: watchHistory.length,
+    },
+    data: {
+      videos,
+      favorites,
+      comments,
+      watch_history: watchHistory,
+    },
+    ...(selection.followers ? { followers } : {}),
+    ...(selection.following ? { following } : {}),
+  }
+}
+
+export const tiktokArchiveImporter: PlatformArchiveImporter<TikTokImportSelection> = {
+  platform: 'tiktok',
+  archiveLabel: 'TikTok data export',
+  unrecognizedMessage:
+    "This doesn't look like a TikTok data export. Request your data in JSON format and upload the ZIP or user_data.json.",
+  singleFileName: TIKTOK_USER_DATA_FILE_NAME,
+  normalizeSelection: normalizeTikTokImportSelection,
+  preview: previewTikTokArchive,
+  parse: parseTikTokArchive,
+}
@@ -1,3 +1,12 @@
+import {
+  countGrokChatMessages,
+  isSensitiveAccountHistoryEvent,
+  normalizeAccountHistoryItems,
+  normalizeGrokChatItems,
+  type ArchiveAccountHistoryEvent,
+  type ArchiveGrokChat,
+} from '@/lib/platforms/twitter/archive-import'
+
 let zipJsConfigured = false
 
 async function loadZipJs() {
@@ -15,6 +24,17 @@ const DIRECT_MESSAGE_PATTERNS = [
   /^data\/direct_messages(?:-part\d+)?\.js$/i,
 ]
 
+const GROK_CHAT_PATTERNS = [
+  /^data\/grok-chat-item(?:-part\d+)?\.js$/i,
+  /^data\/grok_chat_item(?:-part\d+)?\.js$/i,
+]
+
+const SENSITIVE_ACCOUNT_HISTORY_PATTERNS = [
+  /^data\/email-address-change(?:-part\d+)?\.js$/i,
+  /^data\/ip-audit(?:-part\d+)?\.js$/i,
+  /^data\/device-token(?:-part\d+)?\.js$/i,
+]
+
 function normalizeZipEntryName(fileName: string): string {
   return fileName.replace(/\\/g, '/').replace(/^\.\//, '').trim()
 }
@@ -157,7 +177,7 @@ function mapDirectMessages(rawItems: unknown[]): unknown[] {
     .filter((entry) => typeof (entry as { conversation_id?: unknown }).conversation_id === 'string' && (entry as { conversation_id: string }).conversation_id)
 }
 
-export async function extractDirectMessagesFromArchiveFile(file: File): Promise<{ directMessages: unknown[]; messageCount: number }> {
+async function readArchiveItems(file: File, patterns: RegExp[]): Promise<unknown[]> {
   const zipJs = await loadZipJs()
   const reader = new zipJs.ZipReader(new zipJs.BlobReader(file), {
     useWebWorkers: false,
@@ -165,11 +185,11 @@ export async function extractDirectMessagesFromArchiveFile(file: File): Promise<
 
   const entries = await reader.getEntries()
 
-  const directMessageEntries = entries
+  const matchingEntries = entries
     .filter((entry) => {
       if (entry.directory) return false
       const relativePath = toArchiveRelativePath(entry.filename)
-      return DIRECT_MESSAGE_PATTERNS.some((pattern) => pattern.test(relativePath))
+      return patterns.some((pattern) => pattern.test(relativePath))
     })
     .sort((a, b) => {
       const relA = toArchiveRelativePath(a.filename)
@@ -182,25 +202,48 @@ export async function extractDirectMessagesFromArchiveFile(file: File): Promise<
 
   try {
     const parsedItems: unknown[] = []
-    for (const entry of directMessageEntries) {
+    for (const entry of matchingEntries) {
       if (entry.directory) continue
       const content = await entry.getData(new zipJs.TextWriter())
       if (!content) continue
       parsedItems.push(...parseTwitterJSON(content))
     }
-
-    const directMessages = mapDirectMessages(parsedItems)
-    const messageCount = directMessages.reduce<number>((sum, entry) => {
-      if (!entry || typeof entry !== 'object') return sum
-      const messageCount = (entry as { message_count?: unknown }).message_count
-      return sum + (typeof messageCount === 'number' && Number.isFinite(messageCount) ? messageCount : 0)
-    }, 0)
-
-    return {
-      directMessages,
-      messageCount,
-    }
+    return parsedItems
   } finally {
     await reader.close()
   }
 }
+
+export async function extractDirectMessagesFromArchiveFile(file: File): Promise<{ directMessages: unknown[]; messageCount: number }> {
+  const parsedItems = await readArchiveItems(file, DIRECT_MESSAGE_PATTERNS)
+
+  const directMessages = mapDirectMessages(parsedItems)
+  const messageCount = directMessages.reduce<number>((sum, entry) => {
+    if (!entry || typeof entry !== 'object') return sum
+    const messageCount = (entry as { message_count?: unknown }).message_count
+    return sum + (typeof messageCount === 'number' && Number.isFinite(messageCount) ? messageCount : 0)
+  }, 0)
+
+  return {
+    directMessages,
+    messageCount,
+  }
+}
+
+export async function extractGrokChatsFromArchiveFile(file: File): Promise<{ grokChats: ArchiveGrokChat[]; messageCount: number }> {
+  const parsedItems = await readArchiveItems(file, GROK_CHAT_PATTERNS)
+  const grokChats = normalizeGrokChatItems(parsedItems)
+
+  return {
+    grokChats,
+    messageCount: countGrokChatMessages(grokChats),
+  }
+}
+
+export async function extractSensitiveAccountHistoryFromArchiveFile(file: File): Promise<{ events: ArchiveAccountHistoryEvent[] }> {
+  const parsedItems = await readArchiveItems(file, SENSITIVE_ACCOUNT_HISTORY_PATTERNS)
+
+  return {
+    events: normalizeAccountHistoryItems(parsedItems).filter(isSensitiveAccountHistoryEvent),
+  }
+}
@@ -3,7 +3,16 @@ export type ArchiveImportSelection = {
   followers: boolean
   following: boolean
   likes: boolean
+  lists: boolean
+  blocks: boolean
+  mutes: boolean
+  deleted_tweets: boolean
+  community_tweets: boolean
+  moments: boolean
+  broadcasts: boolean
   direct_messages: boolean
+  grok_chats: boolean
+  account_history: boolean
   media: boolean
 }
 
@@ -12,7 +21,16 @@ export const DEFAULT_ARCHIVE_IMPORT_SELECTION: ArchiveImportSelection = {
   followers: true,
   following: true,
   likes: true,
+  lists: true,
+  blocks: true,
+  mutes: true,
+  deleted_tweets: true,
+  community_tweets: true,
+  moments: true,
+  broadcasts: true,
   direct_messages: true,
+  grok_chats: true,
+  account_history: true,
   media: true,
 }
 
@@ -21,7 +39,16 @@ const EMPTY_ARCHIVE_IMPORT_SELECTION: ArchiveImportSelection = {
   followers: false,
   following: false,
   likes: false,
+  lists: false,
+  blocks: false,
+  mutes: false,
+  deleted_tweets: false,
+  community_tweets: false,
+  moments: false,
+  broadcasts: false,
   direct_messages: false,
+  grok_chats: false,
+  account_history: false,
   media: false,
 }
 
@@ -30,7 +57,17 @@ export type ArchivePreviewStats = {
   followers: number
   following: number
   likes: number
+  lists: number
+  blocks: number
+  mutes: number
+  deleted_tweets: number
+  community_tweets: number
+  community_notes: number
+  moments: number
+  broadcasts: number
   dms: number
+  grok_chats: number
+  account_history: number
   media_files: number
 }
 
@@ -66,6 +103,8 @@ export type EncryptedDirectMessagesPayload = {
   metadata: {
     conversation_count: number
     message_count: number
+    // Set on account-history payloads, whose items are events rather than conversations.
+    event_count?: number
     encrypted_at: string
   }
 }
@@ -74,9 +113,67 @@ export type DmEncryptionUploadMetadata = {
   encrypted_input_path: string
   conversation_count: number
   message_count: number
+  event_count?: number
   version: number
 }
 
+export type ArchiveGrokChatMessage = {
+  sender: 'user' | 'grok'
+  text: string
+  created_at: string
+  mode?: string
+  media: string[]
+}
+
+export type ArchiveGrokChat = {
+  chat_id: string
+  messages: ArchiveGrokChatMessage[]
+  message_count: number
+}
+
+export type ArchiveAccountHistoryEventType =
+  | 'screen_name_change'
+  | 'email_change'
+  | 'login'
+  | 'connected_app'
+  | 'device_token'
+
+export type ArchiveAccountHistoryEvent = {
+  type: ArchiveAccountHistoryEventType
+  occurred_at: string
+  from?: string
+  to?: string
+  ip?: string
+  app_name?: string
+  organization?: string
+  permissions?: string[]
+  last_seen_at?: string
+}
+
+export type ArchiveBroadcastSource = 'space' | 'periscope'
+
+export type ArchiveBroadcast = {
+  source: ArchiveBroadcastSource
+  broadcast_id: string
+  title?: string
+  state?: string
+  created_at?: string
+  started_at?: string
+  ended_at?: string
+  host_user_ids: string[]
+  speaker_user_ids: string[]
+  participant_count?: number
+  replay_available: boolean
+  replay_url: string
+}
+
+// Email addresses, login IPs and device registrations are the fields that can be encrypted client-side.
+const SENSITIVE_ACCOUNT_HISTORY_EVENT_TYPES: ReadonlySet<ArchiveAccountHistoryEventType> = new Set([
+  'email_change',
+  'login',
+  'device_token',
+])
+
 function toBoolean(value: unknown, fallback: boolean): boolean {
   if (typeof value === 'boolean') return value
   if (typeof value === 'number') return value > 0
@@ -109,7 +206,16 @@ export function normalizeArchiveImportSelection(input: unknown): ArchiveImportSe
     followers: toBoolean(raw.followers, DEFAULT_ARCHIVE_IMPORT_SELECTION.followers),
     following: toBoolean(raw.following, DEFAULT_ARCHIVE_IMPORT_SELECTION.following),
     likes: toBoolean(raw.likes, DEFAULT_ARCHIVE_IMPORT_SELECTION.likes),
+    lists: toBoolean(raw.lists, DEFAULT_ARCHIVE_IMPORT_SELECTION.lists),
+    blocks: toBoolean(raw.blocks, DEFAULT_ARCHIVE_IMPORT_SELECTION.blocks),
+    mutes: toBoolean(raw.mutes, DEFAULT_ARCHIVE_IMPORT_SELECTION.mutes),
+    deleted_tweets: toBoolean(raw.deleted_tweets, DEFAULT_ARCHIVE_IMPORT_SELECTION.deleted_tweets),
+    community_tweets: toBoolean(raw.community_tweets, DEFAULT_ARCHIVE_IMPORT_SELECTION.community_tweets),
+    moments: toBoolean(raw.moments, DEFAULT_ARCHIVE_IMPORT_SELECTION.moments),
+    broadcasts: toBoolean(raw.broadcasts, DEFAULT_ARCHIVE_IMPORT_SELECTION.broadcasts),
     direct_messages: toBoolean(raw.direct_messages, DEFAULT_ARCHIVE_IMPORT_SELECTION.direct_messages),
+    grok_chats: toBoolean(raw.grok_chats, DEFAULT_ARCHIVE_IMPORT_SELECTION.grok_chats),
+    account_history: toBoolean(raw.account_history, DEFAULT_ARCHIVE_IMPORT_SELECTION.account_history),
     media: toBoolean(raw.media, DEFAULT_ARCHIVE_IMPORT_SELECTION.media),
   }
 }
@@ -126,7 +232,16 @@ function normalizeArchiveImportAvailability(input: unknown): ArchiveImportSelect
     followers: toBoolean(raw.followers, EMPTY_ARCHIVE_IMPORT_SELECTION.followers),
     following: toBoolean(raw.following, EMPTY_ARCHIVE_IMPORT_SELECTION.following),
     likes: toBoolean(raw.likes, EMPTY_ARCHIVE_IMPORT_SELECTION.likes),
+    lists: toBoolean(raw.lists, EMPTY_ARCHIVE_IMPORT_SELECTION.lists),
+    blocks: toBoolean(raw.blocks, EMPTY_ARCHIVE_IMPORT_SELECTION.blocks),
+    mutes: toBoolean(raw.mutes, EMPTY_ARCHIVE_IMPORT_SELECTION.mutes),
+    deleted_tweets: toBoolean(raw.deleted_tweets, EMPTY_ARCHIVE_IMPORT_SELECTION.deleted_tweets),
+    community_tweets: toBoolean(raw.community_tweets, EMPTY_ARCHIVE_IMPORT_SELECTION.community_tweets),
+    moments: toBoolean(raw.moments, EMPTY_ARCHIVE_IMPORT_SELECTION.moments),
+    broadcasts: toBoolean(raw.broadcasts, EMPTY_ARCHIVE_IMPORT_SELECTION.broadcasts),
     direct_messages: toBoolean(raw.direct_messages, EMPTY_ARCHIVE_IMPORT_SELECTION.direct_messages),
+    grok_chats: toBoolean(raw.grok_chats, EMPTY_ARCHIVE_IMPORT_SELECTION.grok_chats),
+    account_history: toBoolean(raw.account_history, EMPTY_ARCHIVE_IMPORT_SELECTION.account_history),
     media: toBoolean(raw.media, EMPTY_ARCHIVE_IMPORT_SELECTION.media),
   }
 }
@@ -147,7 +262,17 @@ export function normalizeArchivePreviewData(input: unknown): ArchivePreviewData
       followers: parseCount(statsRecord.followers),
       following: parseCount(statsRecord.following),
       likes: parseCount(statsRecord.likes),
+      lists: parseCount(statsRecord.lists),
+      blocks: parseCount(statsRecord.blocks),
+      mutes: parseCount(statsRecord.mutes),
+      deleted_tweets: parseCount(statsRecord.deleted_tweets),
+      community_tweets: parseCount(statsRecord.community_tweets),
+      community_notes: parseCount(statsRecord.community_notes),
+      moments: parseCount(statsRecord.moments),
+      broadcasts: parseCount(statsRecord.broadcasts),
       dms: parseCount(statsRecord.dms),
+      grok_chats: parseCount(statsRecord.grok_chats),
+      account_history: parseCount(statsRecord.account_history),
       media_files: parseCount(statsRecord.media_files),
     },
     available: normalizeArchiveImportAvailability(rawAvailable),
@@ -160,7 +285,16 @@ export function deriveDefaultArchiveImportSelection(available: ArchiveImportSele
     followers: available.followers,
     following: available.following,
     likes: available.likes,
+    lists: available.lists,
+    blocks: available.blocks,
+    mutes: available.mutes,
+    deleted_tweets: available.deleted_tweets,
+    community_tweets: available.community_tweets,
+    moments: available.moments,
+    broadcasts: available.broadcasts,
     direct_messages: available.direct_messages,
+    grok_chats: available.grok_chats,
+    account_history: available.account_history,
     media: available.media,
   }
 }
@@ -184,6 +318,7 @@ export function normalizeDmEncryptionUploadMetadata(input: unknown): DmEncryptio
     encrypted_input_path: encryptedInputPath,
     conversation_count: parseCount(raw.conversation_count),
     message_count: parseCount(raw.message_count),
+    ...(raw.event_count !== undefined ? { event_count: parseCount(raw.event_count) } : {}),
     version: parseCount(raw.version) || 1,
   }
 }
@@ -253,6 +388,7 @@ export function normalizeEncryptedDirectMessagesPayload(input: unknown): Encrypt
     metadata: {
       conversation_count: parseCount(metadataRecord.conversation_count),
       message_count: parseCount(metadataRecord.message_count),
+      ...(metadataRecord.event_count !== undefined ? { event_count: parseCount(metadataRecord.event_count) } : {}),
       encrypted_at: parseString(metadataRecord.encrypted_at),
     },
   }
@@ -264,3 +400,260 @@ export function normalizeEncryptedDirectMessagesPayload(input: unknown): Encrypt
 
   return normalized
 }
+
+function parseGrokChatSender(value: unknown, accountId: string): ArchiveGrokChatMessage['sender'] {
+  const raw =
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? parseString((value as Record<string, unknown>).name) || String((value as Record<string, unknown>).id ?? '')
+      : String(value ?? '')
+  const normalized = raw.trim().toLowerCase()
+  if (!normalized) return 'grok'
+  if (normalized === 'user' || normalized === 'human' || (accountId && normalized === accountId)) return 'user'
+  return 'grok'
+}
+
+/**
+ * Groups `grokChatItem` rows from `data/grok-chat-item.js` into conversations.
+ * The archive stores one row per message, so messages are grouped by chat id and
+ * ordered oldest first; conversations are ordered by their latest message.
+ */
+export function normalizeGrokChatItems(rawItems: unknown[]): ArchiveGrokChat[] {
+  const chatsById = new Map<string, ArchiveGrokChatMessage[]>()
+
+  for (const entry of rawItems) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue
+    const wrapper = entry as Record<string, unknown>
+    const item = (
+      wrapper.grokChatItem && typeof wrapper.grokChatItem === 'object' ? wrapper.grokChatItem : wrapper
+    ) as Record<string, unknown>
+
+    const chatId = String(item.chatId ?? '').trim()
+    if (!chatId) continue
+
+    const accountId = String(item.accountId ?? '').trim()
+    const rawMedia = Array.isArray(item.mediaUrls) ? item.mediaUrls : Array.isArray(item.media) ? item.media : []
+    const message: ArchiveGrokChatMessage = {
+      sender: parseGrokChatSender(item.sender, accountId),
+      text: parseString(item.message) || parseString(item.text),
+      created_at: parseString(item.createdAt),
+      media: rawMedia.filter((url): url is string => typeof url === 'string' && url.length > 0),
+    }
+    const mode = parseString(item.grokMode).trim()
+    if (mode) message.mode = mode
+
+    const messages = chatsById.get(chatId)
+    if (messages) messages.push(message)
+    else chatsById.set(chatId, [message])
+  }
+
+  const toTime = (value: string) => {
+    const parsed = Date.parse(value)
+    return Number.isFinite(parsed) ? parsed : 0
+  }
+
+  return Array.from(chatsById.entries())
+    .map(([chatId, messages]) => {
+      const ordered = [...messages].sort((a, b) => toTime(a.created_at) - toTime(b.created_at))
+      return {
+        chat_id: chatId,
+        messages: ordered,
+        message_count: ordered.length,
+      }
+    })
+    .sort((a, b) => {
+      const latestA = toTime(a.messages[a.messages.length - 1]?.created_at || '')
+      const latestB = toTime(b.messages[b.messages.length - 1]?.created_at || '')
+      return latestB - latestA
+    })
+}
+
+export function countGrokChatMessages(chats: ArchiveGrokChat[]): number {
+  return chats.reduce((sum, chat) => sum + chat.message_count, 0)
+}
+
+export function isSensitiveAccountHistoryEvent(event: ArchiveAccountHistoryEvent): boolean {
+  return SENSITIVE_ACCOUNT_HISTORY_EVENT_TYPES.has(event.type)
+}
+
+function unwrapArchiveItem(entry: Record<string, unknown>, key: string): Record<string, unknown> | null {
+  const value = entry[key]
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+}
+
+function withOptionalFields(
+  event: ArchiveAccountHistoryEvent,
+  fields: Partial<Record<'from' | 'to' | 'ip' | 'app_name' | 'organization' | 'last_seen_at', string>>,
+): ArchiveAccountHistoryEvent {
+  for (const [key, value] of Object.entries(fields) as Array<[keyof typeof fields, string | undefined]>) {
+    const trimmed = value?.trim()
+    if (trimmed) event[key] = trimmed
+  }
+  return event
+}
+
+/**
+ * Normalizes rows from `screen-name-change.js`, `email-address-change.js`, `ip-audit.js`,
+ * `connected-application.js` and `device-token.js` into one timeline, newest first.
+ * Rows are told apart by their wrapper key, so the files can be passed in together.
+ * Raw device tokens are dropped; only the app and dates are kept.
+ */
+export function normalizeAccountHistoryItems(rawItems: unknown[]): ArchiveAccountHistoryEvent[] {
+  const events: ArchiveAccountHistoryEvent[] = []
+
+  for (const entry of rawItems) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) continue
+    const wrapper = entry as Record<string, unknown>
+
+    const screenNameChange = unwrapArchiveItem(wrapper, 'screenNameChange')
+    if (screenNameChange) {
+      const change = unwrapArchiveItem(screenNameChange, 'screenNameChange') || screenNameChange
+      events.push(
+        withOptionalFields(
+          { type: 'screen_name_change', occurred_at: parseString(change.changedAt) },
+          { from: parseString(change.changedFrom), to: parseString(change.changedTo) },
+        ),
+      )
+      continue
+    }
+
+    const emailAddressChange = unwrapArchiveItem(wrapper, 'emailAddressChange')
+    if (emailAddressChange) {
+      const change = unwrapArchiveItem(emailAddressChange, 'emailChange') || emailAddressChange
+      events.push(
+        withOptionalFields(
+          { type: 'email_change', occurred_at: parseString(change.changedAt) },
+          { from: parseString(change.changedFrom), to: parseString(change.changedTo) },
+        ),
+      )
+      continue
+    }
+
+    const ipAudit = unwrapArchiveItem(wrapper, 'ipAudit')
+    if (ipAudit) {
+      events.push(
+        withOptionalFields(
+          { type: 'login', occurred_at: parseString(ipAudit.createdAt) },
+          { ip: parseString(ipAudit.loginIp) },
+        ),
+      )
+      continue
+    }
+
+    const connectedApplication = unwrapArchiveItem(wrapper, 'connectedApplication')
+    if (connectedApplication) {
+      const organization = unwrapArchiveItem(connectedApplication, 'organization')
+      const event = withOptionalFields(
+        { type: 'connected_app', occurred_at: parseString(connectedApplication.approvedAt) },
+        { app_name: parseString(connectedApplication.name), organization: parseString(organization?.name) },
+      )
+      const permissions = Array.isArray(connectedApplication.permissions)
+        ? connectedApplication.permissions.filter((permission): permission is string => typeof permission === 'string')
+        : []
+      if (permissions.length > 0) event.permissions = permissions
+      events.push(event)
+      continue
+    }
+
+    const deviceToken = unwrapArchiveItem(wrapper, 'deviceToken')
+    if (deviceToken) {
+      events.push(
+        withOptionalFields(
+          { type: 'device_token', occurred_at: parseString(deviceToken.createdDate) },
+          {
+            app_name: parseString(deviceToken.clientApplicationName),
+            last_seen_at: parseString(deviceToken.lastSeenDate),
+          },
+        ),
+      )
+    }
+  }
+
+  const toTime = (value: string) => {
+    const parsed = Date.parse(value)
+    return Number.isFinite(parsed) ? parsed : 0
+  }
+
+  return events.sort((a, b) => toTime(b.occurred_at) - toTime(a.occurred_at))
+}
+
+function parseUserIdList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  const ids = value
+    .map((item) => {
+      if (typeof item === 'string' || typeof item === 'number') return String(item).trim()
+      if (item && typeof item === 'object') return parseString((item as Record<string, unknown>).userId).trim()
+      return ''
+    })
+    .filter(Boolean)
+  return [...new Set(ids)]
+}
+
+function parseArchiveFlag(value: unknown): boolean {
+  return value === true || value === 'true'
+}
+
+function parseArchiveTimestamp(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return new Date(value).toISOString()
+  const raw = parseString(value).trim()
+  // Periscope writes epoch milliseconds as strings; Spaces already use ISO dates.
+  if (/^\d{12,}$/.test(raw)) return new Date(Number(raw)).toISOString()
+  return raw
+}
+
+/**
+ * Normalizes rows from `spaces-metadata.js` and `periscope-broadcast-metadata.js` into one list of
+ * broadcasts, newest first. Rows are told apart by their `space`/`spaces` or `broadcast` wrapper key.
+ */
+export function normalizeBroadcastItems(rawItems: unknown[]): ArchiveBroadcast[] {
+  const broadcasts: ArchiveBroadcast[] = []
+  const seen = new Set<string>()
+
+  for (const rawItem of rawItems) {
+    if (!rawItem || typeof rawItem !== 'object') continue
+    const wrapper = rawItem as Record<string, unknown>
+
+    const space = unwrapArchiveItem(wrapper, 'spaces') || unwrapArchiveItem(wrapper, 'space')
+    const broadcast = space ? null : unwrapArchiveItem(wrapper, 'broadcast')
+    const item = space || broadcast
+    if (!item) continue
+
+    const source: ArchiveBroadcastSource = space ? 'space' : 'periscope'
+    const broadcastId = parseString(item.id).trim()
+    if (!broadcastId || seen.has(`${source}:${broadcastId}`)) continue
+    seen.add(`${source}:${broadcastId}`)
+
+    const hostUserIds = space
+      ? parseUserIdList(item.hostUserIds)
+      : parseUserIdList([item.userId, item.twitterUserId].filter(Boolean))
+    const participantCount = parseCount(space ? item.totalParticipated ?? item.totalParticipating : item.totalWatched)
+    const normalized: ArchiveBroadcast = {
+      source,
+      broadcast_id: broadcastId,
+      host_user_ids: hostUserIds,
+      speaker_user_ids: parseUserIdList(item.speakers),
+      replay_available: parseArchiveFlag(item.isAvailableForReplay ?? item.availableForReplay),
+      replay_url: source === 'space' ? `https://x.com/i/spaces/${broadcastId}` : `https://x.com/i/broadcasts/${broadcastId}`,
+    }
+
+    const optionalFields = {
+      title: parseString(item.title ?? item.status).trim(),
+      state: parseString(item.state).trim(),
+      created_at: parseArchiveTimestamp(item.createdAt),
+      started_at: parseArchiveTimestamp(item.startedAt ?? item.start),
+      ended_at: parseArchiveTimestamp(item.endedAt ?? item.end),
+    }
+    for (const [key, value] of Object.entries(optionalFields) as Array<[keyof typeof optionalFields, string]>) {
+      if (value) normalized[key] = value
+    }
+    if (participantCount > 0) normalized.participant_count = participantCount
+
+    broadcasts.push(normalized)
+  }
+
+  const toTime = (broadcast: ArchiveBroadcast) => {
+    const parsed = Date.parse(broadcast.started_at || broadcast.created_at || '')
+    return Number.isFinite(parsed) ? parsed : 0
+  }
+
+  return broadcasts.sort((a, b) => toTime(b) - toTime(a))
+}
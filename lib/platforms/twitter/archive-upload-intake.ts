@@ -5,6 +5,7 @@ import {
   markBackupJobFailed,
   mergeBackupJobPayload,
 } from '@/lib/jobs/backup-jobs'
+import { getSingleFileExtension, isSingleFileUpload } from '@/lib/platforms/archive-import'
 import {
   normalizeDmEncryptionUploadMetadata,
   normalizeArchiveImportSelection,
@@ -28,18 +29,22 @@ export type ArchiveUploadValidationInput = {
   fileName: string
   fileType?: string | null
   fileSize: number
+  // Shown in the invalid-type error; other platforms reuse this check for their exports.
+  archiveLabel?: string
+  // Also accept a bare file with this name's extension (`PlatformArchiveImporter.singleFileName`).
+  singleFileName?: string
 }
 
 export async function validateArchiveUploadRequest(input: ArchiveUploadValidationInput): Promise<void> {
-  const { userId, fileName, fileType, fileSize } = input
+  const { userId, fileName, fileType, fileSize, archiveLabel = 'Twitter archive file', singleFileName } = input
 
   const activeJob = await findActiveBackupJobForUser(supabase, userId)
   if (activeJob) {
     throw new Error('A backup job is already in progress. Please wait for it to finish before starting another one.')
   }
 
-  if (!isZipUpload(fileName, fileType || '')) {
-    throw new Error('Invalid upload type. Please upload a .zip Twitter archive file.')
+  if (!isZipUpload(fileName, fileType || '') && !isSingleFileUpload(fileName, singleFileName)) {
+    throw new Error(`Invalid upload type. Please upload a .zip${singleFileName ? ` or .${getSingleFileExtension(singleFileName)}` : ''} ${archiveLabel}.`)
   }
 
   if (fileSize <= 0) {
@@ -51,10 +56,15 @@ export async function validateArchiveUploadRequest(input: ArchiveUploadValidatio
   }
 
   const storageSummary = await calculateUserStorageSummary(supabase, userId)
-  const projectedTotalBytes = storageSummary.totalBytes + fileSize
-  if (projectedTotalBytes > USER_STORAGE_LIMITS.maxTotalBytes) {
+  const remainingBytes = Math.max(0, USER_STORAGE_LIMITS.maxTotalBytes - storageSummary.totalBytes)
+  if (remainingBytes <= 0) {
     throw new Error(
-      `Storage limit exceeded. Current usage: ${storageSummary.totalBytes} bytes. Upload would raise usage to ${projectedTotalBytes} bytes, above the ${USER_STORAGE_LIMITS.maxTotalBytes} byte limit.`,
+      `Storage limit exceeded. Current usage: ${storageSummary.totalBytes} bytes, limit: ${USER_STORAGE_LIMITS.maxTotalBytes} bytes.`,
+    )
+  }
+  if (fileSize > remainingBytes) {
+    throw new Error(
+      `Archive does not fit in your remaining storage. It is ${fileSize} bytes and ${remainingBytes} of your ${USER_STORAGE_LIMITS.maxTotalBytes} bytes are left.`,
     )
   }
 }
@@ -75,6 +85,8 @@ export async function enqueueArchiveUploadJob(params: {
   stagedInputPath: string
   importSelection?: unknown
   dmEncryption?: unknown
+  grokChatEncryption?: unknown
+  accountHistoryEncryption?: unknown
   preserveArchiveFile?: boolean
 }) {
   const { userId, username, fileName, fileSize, stagedInputPath } = params
@@ -93,6 +105,29 @@ export async function enqueueArchiveUploadJob(params: {
   if (importSelection.direct_messages && !dmEncryption) {
     throw new Error('DM encryption is required when importing chats.')
   }
+  const hasGrokChatEncryptionPayload = params.grokChatEncryption !== undefined && params.grokChatEncryption !== null
+  const parsedGrokChatEncryption = normalizeDmEncryptionUploadMetadata(params.grokChatEncryption)
+  if (hasGrokChatEncryptionPayload && !parsedGrokChatEncryption) {
+    throw new Error('Invalid Grok chat encryption payload.')
+  }
+  const grokChatEncryption = parsedGrokChatEncryption
+    ? {
+        ...parsedGrokChatEncryption,
+        encrypted_input_path: ensureUserScopedStagedPath(parsedGrokChatEncryption.encrypted_input_path, userId),
+      }
+    : null
+  const hasAccountHistoryEncryptionPayload =
+    params.accountHistoryEncryption !== undefined && params.accountHistoryEncryption !== null
+  const parsedAccountHistoryEncryption = normalizeDmEncryptionUploadMetadata(params.accountHistoryEncryption)
+  if (hasAccountHistoryEncryptionPayload && !parsedAccountHistoryEncryption) {
+    throw new Error('Invalid account history encryption payload.')
+  }
+  const accountHistoryEncryption = parsedAccountHistoryEncryption
+    ? {
+        ...parsedAccountHistoryEncryption,
+        encrypted_input_path: ensureUserScopedStagedPath(parsedAccountHistoryEncryption.encrypted_input_path, userId),
+      }
+    : null
   const preserveArchiveFile =
     typeof params.preserveArchiveFile === 'boolean'
       ? params.preserveArchiveFile
@@ -108,6 +143,8 @@ export async function enqueueArchiveUploadJob(params: {
       upload_file_size: fileSize,
       import_selection: importSelection,
       dm_encryption: dmEncryption,
+      grok_chat_encryption: grokChatEncryption,
+      account_history_encryption: accountHistoryEncryption,
       preserve_archive_file: preserveArchiveFile,
     },
   })
@@ -117,6 +154,8 @@ export async function enqueueArchiveUploadJob(params: {
     lifecycle_state: 'queued',
     import_selection: importSelection,
     dm_encryption: dmEncryption,
+    grok_chat_encryption: grokChatEncryption,
+    account_history_encryption: accountHistoryEncryption,
     preserve_archive_file: preserveArchiveFile,
   })
 
@@ -135,6 +174,8 @@ export async function enqueueArchiveUploadJob(params: {
         inputStoragePath: stagedInputPath,
         importSelection,
         dmEncryption,
+        grokChatEncryption,
+        accountHistoryEncryption,
         preserveArchiveFile,
       },
     })
@@ -154,6 +195,8 @@ export async function enqueueArchiveUploadJob(params: {
     await deleteObjectsFromR2([
       stagedInputPath,
       ...(dmEncryption ? [dmEncryption.encrypted_input_path] : []),
+      ...(grokChatEncryption ? [grokChatEncryption.encrypted_input_path] : []),
+      ...(accountHistoryEncryption ? [accountHistoryEncryption.encrypted_input_path] : []),
     ]).catch(() => {})
     throw enqueueError
   }
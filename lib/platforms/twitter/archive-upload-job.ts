@@ -1,6 +1,4 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import fs from 'node:fs'
-import yauzl from 'yauzl'
 import {
   isBackupJobCancellationRequested,
   markBackupJobCompleted,
@@ -10,24 +8,36 @@ import {
   markBackupJobProgress,
   mergeBackupJobPayload,
 } from '@/lib/jobs/backup-jobs'
+import { replaceBackupContent } from '@/lib/backups/backup-content'
 import { deleteBackupAndStorageById } from '@/lib/backups/delete-backup-data'
 import { recalculateAndPersistBackupStorage } from '@/lib/storage/usage'
 import { createAdminClient } from '@/lib/supabase/admin'
 import {
+  countGrokChatMessages,
+  normalizeAccountHistoryItems,
   normalizeArchiveImportSelection,
+  normalizeBroadcastItems,
   normalizeDmEncryptionUploadMetadata,
   normalizeEncryptedDirectMessagesPayload,
+  normalizeGrokChatItems,
+  type ArchiveAccountHistoryEvent,
+  type ArchiveBroadcast,
+  type ArchiveGrokChat,
   type ArchiveImportSelection,
   type DmEncryptionUploadMetadata,
   type EncryptedDirectMessagesPayload,
 } from '@/lib/platforms/twitter/archive-import'
 import { TWITTER_UPLOAD_LIMITS } from '@/lib/platforms/twitter/limits'
+import { ensureMediaBlobStored, hashMediaBuffer, storeMediaBlob, type StoredMediaBlob } from '@/lib/storage/media-blobs'
 import { buildInternalMediaUrl } from '@/lib/storage/media-url'
+import type { TwitterList, TwitterListRelationship } from '@/lib/twitter/types'
 import {
+  copyObjectInR2,
   deleteObjectsFromR2,
   downloadObjectFromR2,
   uploadObjectToR2,
 } from '@/lib/storage/r2'
+import { openR2ZipArchive, type R2ZipArchive } from '@/lib/storage/r2-zip'
 
 const supabase = createAdminClient()
 
@@ -46,6 +56,7 @@ type MediaMetadataRecord = {
   file_size: number
   mime_type: string
   media_type: string
+  content_sha256?: string
 }
 
 type ArchiveMetadataBucket =
@@ -54,7 +65,21 @@ type ArchiveMetadataBucket =
   | 'followers'
   | 'following'
   | 'likes'
+  | 'listsCreated'
+  | 'listsMember'
+  | 'listsSubscribed'
+  | 'blocks'
+  | 'mutes'
+  | 'deletedTweets'
+  | 'communityTweets'
+  | 'communityNotes'
+  | 'moments'
+  | 'broadcasts'
+  | 'noteTweets'
   | 'directMessages'
+  | 'grokChats'
+  | 'accountHistory'
+  | 'accountHistorySensitive'
 
 const ARCHIVE_METADATA_FILE_PATTERNS: Record<ArchiveMetadataBucket, RegExp[]> = {
   account: [/^data\/account(?:-part\d+)?\.js$/i],
@@ -62,12 +87,51 @@ const ARCHIVE_METADATA_FILE_PATTERNS: Record<ArchiveMetadataBucket, RegExp[]> =
   followers: [/^data\/followers?(?:-part\d+)?\.js$/i],
   following: [/^data\/following(?:-part\d+)?\.js$/i],
   likes: [/^data\/likes?(?:-part\d+)?\.js$/i],
+  listsCreated: [/^data\/lists[-_]created(?:-part\d+)?\.js$/i],
+  listsMember: [/^data\/lists[-_]member(?:-part\d+)?\.js$/i],
+  listsSubscribed: [/^data\/lists[-_]subscribed(?:-part\d+)?\.js$/i],
+  blocks: [/^data\/block(?:-part\d+)?\.js$/i],
+  mutes: [/^data\/mute(?:-part\d+)?\.js$/i],
+  deletedTweets: [
+    /^data\/deleted-tweets?(?:-part\d+)?\.js$/i,
+    /^data\/deleted_tweets?(?:-part\d+)?\.js$/i,
+  ],
+  noteTweets: [
+    /^data\/note-tweets?(?:-part\d+)?\.js$/i,
+    /^data\/note_tweets?(?:-part\d+)?\.js$/i,
+  ],
+  communityTweets: [
+    /^data\/community-tweet(?:-part\d+)?\.js$/i,
+    /^data\/community_tweet(?:-part\d+)?\.js$/i,
+  ],
+  communityNotes: [/^data\/community-note(?:-rating)?(?:-part\d+)?\.js$/i],
+  moments: [/^data\/moments?(?:-part\d+)?\.js$/i],
+  broadcasts: [
+    /^data\/spaces-metadata(?:-part\d+)?\.js$/i,
+    /^data\/periscope-broadcast-metadata(?:-part\d+)?\.js$/i,
+  ],
   directMessages: [
     /^data\/direct-messages(?:-part\d+)?\.js$/i,
     /^data\/direct_messages(?:-part\d+)?\.js$/i,
   ],
+  grokChats: [
+    /^data\/grok-chat-item(?:-part\d+)?\.js$/i,
+    /^data\/grok_chat_item(?:-part\d+)?\.js$/i,
+  ],
+  accountHistory: [
+    /^data\/screen-name-change(?:-part\d+)?\.js$/i,
+    /^data\/connected-application(?:-part\d+)?\.js$/i,
+  ],
+  // Encryptable history: these files are read in the browser instead when encryption is on.
+  accountHistorySensitive: [
+    /^data\/email-address-change(?:-part\d+)?\.js$/i,
+    /^data\/ip-audit(?:-part\d+)?\.js$/i,
+    /^data\/device-token(?:-part\d+)?\.js$/i,
+  ],
 }
 
+const BACKUP_SCOPED_MEDIA_TYPES = new Set(['moments_media', 'moments_tweets_media'])
+
 function normalizeZipEntryName(fileName: string): string {
   return fileName.replace(/\\/g, '/').replace(/^\.\//, '').trim()
 }
@@ -183,6 +247,9 @@ async function insertMediaFileRecord(record: MediaMetadataRecord): Promise<boole
   }
 
   const attempts: Array<Record<string, unknown>> = [
+    ...(record.content_sha256
+      ? [{ ...basePayload, mime_type: record.mime_type, media_type: record.media_type, content_sha256: record.content_sha256 }]
+      : []),
     { ...basePayload, mime_type: record.mime_type, media_type: record.media_type },
     { ...basePayload, mime_type: record.mime_type },
     { ...basePayload, file_type: record.mime_type, media_type: record.media_type },
@@ -268,119 +335,8 @@ async function ensureArchiveJobNotCancelled(jobId: string) {
   }
 }
 
-async function listZipEntries(zipPath: string): Promise<any[]> {
-  const zipfile: any = await new Promise((resolve, reject) => {
-    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zf) => {
-      if (err) reject(err)
-      else resolve(zf)
-    })
-  })
-
-  return new Promise<any[]>((resolve, reject) => {
-    const entries: any[] = []
-    let settled = false
-
-    const finishResolve = () => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      resolve(entries)
-    }
-
-    const finishReject = (error: unknown) => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      reject(error instanceof Error ? error : new Error('Failed to read ZIP entries'))
-    }
-
-    zipfile.on('entry', (entry: any) => {
-      entries.push(entry)
-      if (entries.length > TWITTER_UPLOAD_LIMITS.maxZipEntries) {
-        finishReject(
-          new Error(
-            `Archive contains too many entries (${entries.length}). Limit is ${TWITTER_UPLOAD_LIMITS.maxZipEntries}.`,
-          ),
-        )
-        return
-      }
-      zipfile.readEntry()
-    })
-
-    zipfile.on('error', finishReject)
-    zipfile.on('end', finishResolve)
-    zipfile.readEntry()
-  })
-}
-
-async function readZipEntryBufferWithLimit(
-  zipPath: string,
-  targetFileName: string,
-  maxBytes: number,
-): Promise<Buffer | null> {
-  const zipfile: any = await new Promise((resolve, reject) => {
-    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zf) => {
-      if (err) reject(err)
-      else resolve(zf)
-    })
-  })
-
-  return new Promise<Buffer | null>((resolve, reject) => {
-    let settled = false
-
-    const finishResolve = (value: Buffer | null) => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      resolve(value)
-    }
-
-    const finishReject = (error: unknown) => {
-      if (settled) return
-      settled = true
-      zipfile.close()
-      reject(error instanceof Error ? error : new Error('Failed to read ZIP entry'))
-    }
-
-    zipfile.on('entry', (entry: any) => {
-      if (entry.fileName !== targetFileName) {
-        zipfile.readEntry()
-        return
-      }
-
-      zipfile.openReadStream(entry, (err: any, stream: any) => {
-        if (err || !stream) {
-          finishReject(err || new Error(`Could not open ZIP stream for ${targetFileName}`))
-          return
-        }
-
-        const chunks: Buffer[] = []
-        let totalBytes = 0
-
-        stream.on('data', (chunk: Buffer) => {
-          totalBytes += chunk.length
-          if (totalBytes > maxBytes) {
-            stream.destroy(
-              new Error(`Entry ${targetFileName} exceeds max allowed size of ${maxBytes} bytes.`),
-            )
-            return
-          }
-          chunks.push(chunk)
-        })
-
-        stream.on('end', () => finishResolve(Buffer.concat(chunks)))
-        stream.on('error', finishReject)
-      })
-    })
-
-    zipfile.on('error', finishReject)
-    zipfile.on('end', () => finishResolve(null))
-    zipfile.readEntry()
-  })
-}
-
 async function extractMediaFiles(
-  zipPath: string,
+  archive: R2ZipArchive,
   userId: string,
   backupId: string,
   onProgress?: (processed: number, total: number) => Promise<void>,
@@ -401,9 +357,7 @@ async function extractMediaFiles(
   const mediaFiles: MediaMetadataRecord[] = []
   let uploadedCount = 0
 
-  const entries = await listZipEntries(zipPath)
-
-  const mediaEntries = entries.filter((entry: any) => {
+  const mediaEntries = archive.entries.filter((entry: any) => {
     const relativePath = toArchiveRelativePath(entry.fileName)
     return mediaFolders.some((folder) => relativePath.startsWith(`${folder}/`)) && !relativePath.endsWith('/')
   })
@@ -439,19 +393,11 @@ async function extractMediaFiles(
   for (const entry of mediaEntries) {
     if (ensureActive) await ensureActive()
     try {
-      const fileBuffer = await readZipEntryBufferWithLimit(
-        zipPath,
-        entry.fileName,
-        TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes,
-      )
-      if (!fileBuffer) {
-        throw new Error(`Archive entry not found while reading media: ${entry.fileName}`)
-      }
+      const fileBuffer = await archive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMediaEntryBytes)
 
       const relativePath = toArchiveRelativePath(entry.fileName)
       const mediaType = relativePath.split('/')[1] || 'unknown_media'
       const fileName = (relativePath.split('/').pop() || relativePath).replace(/\\/g, '_')
-      const storagePath = `${userId}/${mediaType}/${fileName}`
 
       const ext = fileName.split('.').pop()?.toLowerCase()
       const mimeTypes: { [key: string]: string } = {
@@ -465,12 +411,16 @@ async function extractMediaFiles(
       }
       const mimeType = mimeTypes[ext || ''] || 'application/octet-stream'
 
-      const uploadResult = await uploadObjectToR2({
-        key: storagePath,
-        body: fileBuffer,
-        contentType: mimeType,
-        upsert: false,
-      })
+      // Moment media is kept under the backup's own prefix; everything else is shared by content hash.
+      let blob: StoredMediaBlob | null = null
+      let storagePath: string
+      if (BACKUP_SCOPED_MEDIA_TYPES.has(mediaType)) {
+        storagePath = `${userId}/${mediaType}/${backupId}/${fileName}`
+        await uploadObjectToR2({ key: storagePath, body: fileBuffer, contentType: mimeType, upsert: false })
+      } else {
+        blob = await storeMediaBlob({ userId, body: fileBuffer, contentType: mimeType, fileName })
+        storagePath = blob.storagePath
+      }
 
       const metadataRecord = {
         user_id: userId,
@@ -480,6 +430,7 @@ async function extractMediaFiles(
         file_size: fileBuffer.length,
         mime_type: mimeType,
         media_type: mediaType,
+        content_sha256: blob?.sha256 || hashMediaBuffer(fileBuffer),
       }
 
       const { data: existingForBackup } = await supabase
@@ -497,8 +448,8 @@ async function extractMediaFiles(
         uploadedCount++
       }
 
-      if (uploadResult.alreadyExists) {
-        console.log(`File ${fileName} already exists in R2`) // no-op
+      if (blob) {
+        await ensureMediaBlobStored(supabase, blob, { body: fileBuffer, contentType: mimeType })
       }
 
       if (uploadedCount % 10 === 0) {
@@ -522,10 +473,23 @@ async function extractMediaFiles(
 }
 
 function updateMediaUrls(
-  tweets: any[],
-  directMessages: any[],
+  payload: {
+    tweets: any[]
+    deletedTweets: any[]
+    communityTweets: any[]
+    moments: ArchiveMoment[]
+    directMessages: any[]
+    grokChats: ArchiveGrokChat[]
+  },
   mediaFiles: MediaMetadataRecord[],
-): { tweets: any[]; directMessages: any[] } {
+): {
+  tweets: any[]
+  deletedTweets: any[]
+  communityTweets: any[]
+  moments: ArchiveMoment[]
+  directMessages: any[]
+  grokChats: ArchiveGrokChat[]
+} {
   const fileMap = new Map<string, string>()
   mediaFiles.forEach((media) => {
     fileMap.set(media.file_name, media.file_path)
@@ -539,12 +503,21 @@ function updateMediaUrls(
     return match ? match[1] : null
   }
 
-  const updatedTweets = tweets.map((tweet) => {
+  // Archive media files are stored as `<tweetId>-<cdnFilename>`, so prefer that exact match.
+  const resolveStoragePath = (url: string, ownerId?: string): string | null => {
+    const filename = extractFilename(url)
+    if (!filename) return null
+    if (ownerId && fileMap.has(`${ownerId}-${filename}`)) return fileMap.get(`${ownerId}-${filename}`)!
+    return fileMap.get(filename) || null
+  }
+
+  const updateTweet = (tweet: any) => {
+    const tweetId = tweet.id_str || (tweet.id ? String(tweet.id) : undefined)
+
     if (tweet.extended_entities?.media) {
       tweet.extended_entities.media = tweet.extended_entities.media.map((media: any) => {
-        const filename = extractFilename(media.media_url || media.media_url_https)
-        if (filename && fileMap.has(filename)) {
-          const storagePath = fileMap.get(filename)!
+        const storagePath = resolveStoragePath(media.media_url || media.media_url_https, tweetId)
+        if (storagePath) {
           const mediaUrl = getMediaUrl(storagePath)
           return { ...media, media_url: mediaUrl, media_url_https: mediaUrl }
         }
@@ -554,9 +527,8 @@ function updateMediaUrls(
 
     if (tweet.entities?.media) {
       tweet.entities.media = tweet.entities.media.map((media: any) => {
-        const filename = extractFilename(media.media_url || media.media_url_https)
-        if (filename && fileMap.has(filename)) {
-          const storagePath = fileMap.get(filename)!
+        const storagePath = resolveStoragePath(media.media_url || media.media_url_https, tweetId)
+        if (storagePath) {
           const mediaUrl = getMediaUrl(storagePath)
           return { ...media, media_url: mediaUrl, media_url_https: mediaUrl }
         }
@@ -566,9 +538,8 @@ function updateMediaUrls(
 
     if (tweet.media) {
       tweet.media = tweet.media.map((media: any) => {
-        const filename = extractFilename(media.media_url || media.url)
-        if (filename && fileMap.has(filename)) {
-          const storagePath = fileMap.get(filename)!
+        const storagePath = resolveStoragePath(media.media_url || media.url, tweetId)
+        if (storagePath) {
           const mediaUrl = getMediaUrl(storagePath)
           return { ...media, media_url: mediaUrl, url: mediaUrl }
         }
@@ -577,16 +548,31 @@ function updateMediaUrls(
     }
 
     return tweet
+  }
+
+  // Covers live in `moments_media` keyed by moment id; tweet media in `moments_tweets_media` keyed by tweet id.
+  const updatedMoments = payload.moments.map((moment) => {
+    const coverPath = moment.cover_media_url ? resolveStoragePath(moment.cover_media_url, moment.moment_id) : null
+    return {
+      ...moment,
+      cover_media_url: coverPath ? getMediaUrl(coverPath) : moment.cover_media_url,
+      tweets: moment.tweets.map((tweet) => ({
+        ...tweet,
+        media: tweet.media.map((url) => {
+          const storagePath = resolveStoragePath(url, tweet.tweet_id)
+          return storagePath ? getMediaUrl(storagePath) : url
+        }),
+      })),
+    }
   })
 
-  const updatedDMs = directMessages.map((dm) => {
+  const updatedDMs = payload.directMessages.map((dm) => {
     if (dm.messages) {
       dm.messages = dm.messages.map((msg: any) => {
         if (msg.media && Array.isArray(msg.media)) {
           msg.media = msg.media.map((media: any) => {
-            const filename = extractFilename(media.url)
-            if (filename && fileMap.has(filename)) {
-              const storagePath = fileMap.get(filename)!
+            const storagePath = resolveStoragePath(media.url)
+            if (storagePath) {
               const mediaUrl = getMediaUrl(storagePath)
               return { ...media, url: mediaUrl }
             }
@@ -599,7 +585,316 @@ function updateMediaUrls(
     return dm
   })
 
-  return { tweets: updatedTweets, directMessages: updatedDMs }
+  const updatedGrokChats = payload.grokChats.map((chat) => ({
+    ...chat,
+    messages: chat.messages.map((msg) => ({
+      ...msg,
+      media: msg.media.map((url) => {
+        const storagePath = resolveStoragePath(url, chat.chat_id)
+        return storagePath ? getMediaUrl(storagePath) : url
+      }),
+    })),
+  }))
+
+  return {
+    tweets: payload.tweets.map(updateTweet),
+    deletedTweets: payload.deletedTweets.map(updateTweet),
+    communityTweets: payload.communityTweets.map(updateTweet),
+    moments: updatedMoments,
+    directMessages: updatedDMs,
+    grokChats: updatedGrokChats,
+  }
+}
+
+// The archive only records list URLs (`userListInfo.url`); names and counts are not exported.
+function normalizeArchiveLists(items: any[], relationship: TwitterListRelationship): TwitterList[] {
+  const seen = new Set<string>()
+  const lists: TwitterList[] = []
+
+  for (const item of items) {
+    const url = typeof item?.userListInfo?.url === 'string' ? item.userListInfo.url.trim() : ''
+    const listId = url.match(/\/lists\/(\d+)/)?.[1]
+    if (!listId || seen.has(listId)) continue
+    seen.add(listId)
+    lists.push({
+      list_id: listId,
+      relationship,
+      url: `https://x.com/i/lists/${listId}`,
+    })
+  }
+
+  return lists
+}
+
+type ArchiveCommunityNote = {
+  kind: 'note' | 'rating'
+  note_id: string
+  tweet_id: string | null
+  created_at: string | null
+  summary?: string
+  classification?: string
+  helpfulness?: string
+}
+
+// Community Notes written (`community-note.js`) and rated (`community-note-rating.js`) by the account.
+function normalizeCommunityNotes(items: any[]): ArchiveCommunityNote[] {
+  const notes: ArchiveCommunityNote[] = []
+
+  for (const item of items) {
+    const note = item?.communityNote
+    if (note?.noteId) {
+      notes.push({
+        kind: 'note',
+        note_id: String(note.noteId),
+        tweet_id: note.tweetId ? String(note.tweetId) : null,
+        created_at: note.createdAt || null,
+        summary: typeof note.summary === 'string' ? note.summary : undefined,
+        classification: typeof note.classification === 'string' ? note.classification : undefined,
+      })
+      continue
+    }
+
+    const rating = item?.communityNoteRating
+    if (rating?.noteId) {
+      notes.push({
+        kind: 'rating',
+        note_id: String(rating.noteId),
+        tweet_id: rating.tweetId ? String(rating.tweetId) : null,
+        created_at: rating.createdAt || null,
+        helpfulness: typeof rating.helpfulnessLevel === 'string' ? rating.helpfulnessLevel : undefined,
+      })
+    }
+  }
+
+  return notes
+}
+
+type ArchiveMomentTweet = {
+  tweet_id: string
+  text: string
+  created_at: string | null
+  media: string[]
+}
+
+type ArchiveMoment = {
+  moment_id: string
+  title: string
+  description: string
+  created_at: string | null
+  cover_media_url: string | null
+  tweets: ArchiveMomentTweet[]
+}
+
+function collectMediaUrls(value: any): string[] {
+  const candidates = Array.isArray(value) ? value : []
+  return candidates
+    .map((media: any) => (typeof media === 'string' ? media : media?.mediaUrl || media?.media_url_https || media?.url))
+    .filter((url: unknown): url is string => typeof url === 'string' && url.length > 0)
+}
+
+/**
+ * Moments keep their tweets in curated order, so the archive order is preserved as-is.
+ * Moment tweets use the newer `coreData` shape rather than the classic tweet object.
+ */
+function normalizeArchiveMoments(items: any[]): ArchiveMoment[] {
+  const moments: ArchiveMoment[] = []
+
+  for (const item of items) {
+    const moment = item?.moment || item
+    const momentId = moment?.momentId ? String(moment.momentId) : ''
+    if (!momentId) continue
+
+    const tweets: ArchiveMomentTweet[] = (Array.isArray(moment.tweets) ? moment.tweets : [])
+      .map((entry: any) => {
+        const tweet = entry?.tweet || entry
+        const coreData = tweet?.coreData || {}
+        const tweetId = tweet?.tweetId || tweet?.id || entry?.tweetId
+        return {
+          tweet_id: tweetId ? String(tweetId) : '',
+          text: coreData.text || tweet?.text || tweet?.full_text || '',
+          created_at: coreData.createdAt || tweet?.created_at || null,
+          media: collectMediaUrls(tweet?.media || coreData.mediaEntities || tweet?.mediaUrls),
+        }
+      })
+      .filter((tweet: ArchiveMomentTweet) => tweet.tweet_id)
+
+    const coverMediaUrls = collectMediaUrls(moment.coverMediaUrls)
+    moments.push({
+      moment_id: momentId,
+      title: typeof moment.title === 'string' ? moment.title : '',
+      description: typeof moment.description === 'string' ? moment.description : '',
+      created_at: moment.createdAt || null,
+      cover_media_url: coverMediaUrls[0] || null,
+      tweets,
+    })
+  }
+
+  return moments
+}
+
+type ArchiveNoteTweet = {
+  id: string
+  text: string
+  createdAtMs: number
+  entities: {
+    urls: Array<{ shortUrl?: string; expandedUrl?: string; displayUrl?: string; fromIndex?: number; toIndex?: number }>
+    mentions: Array<{ screenName?: string; fromIndex?: number; toIndex?: number }>
+    hashtags: Array<{ text?: string; fromIndex?: number; toIndex?: number }>
+    cashtags: Array<{ text?: string; fromIndex?: number; toIndex?: number }>
+  }
+  styleTags: Array<{ fromIndex: number; toIndex: number; styles: string[] }>
+}
+
+function toIndexNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+function normalizeNoteTweet(item: any): ArchiveNoteTweet | null {
+  const note = item?.noteTweet || item
+  const core = note?.core || {}
+  const id = note?.noteTweetId ? String(note.noteTweetId) : ''
+  const text = typeof core.text === 'string' ? core.text : ''
+  if (!id || !text) return null
+
+  const createdAtMs = new Date(note?.createdAt || note?.updatedAt || '').getTime()
+  const withRange = (entry: any) => ({
+    fromIndex: toIndexNumber(entry?.fromIndex),
+    toIndex: toIndexNumber(entry?.toIndex),
+  })
+
+  return {
+    id,
+    text,
+    createdAtMs: Number.isFinite(createdAtMs) ? createdAtMs : 0,
+    entities: {
+      urls: (Array.isArray(core.urls) ? core.urls : []).map((entry: any) => ({
+        shortUrl: entry?.shortUrl,
+        expandedUrl: entry?.expandedUrl,
+        displayUrl: entry?.displayUrl,
+        ...withRange(entry),
+      })),
+      mentions: (Array.isArray(core.mentions) ? core.mentions : []).map((entry: any) => ({
+        screenName: entry?.screenName,
+        ...withRange(entry),
+      })),
+      hashtags: (Array.isArray(core.hashtags) ? core.hashtags : []).map((entry: any) => ({
+        text: entry?.text,
+        ...withRange(entry),
+      })),
+      cashtags: (Array.isArray(core.cashtags) ? core.cashtags : []).map((entry: any) => ({
+        text: entry?.text,
+        ...withRange(entry),
+      })),
+    },
+    styleTags: (Array.isArray(core.styletags) ? core.styletags : [])
+      .map((entry: any) => ({
+        fromIndex: toIndexNumber(entry?.fromIndex) ?? -1,
+        toIndex: toIndexNumber(entry?.toIndex) ?? -1,
+        styles: (Array.isArray(entry?.styleTypes) ? entry.styleTypes : [])
+          .map((style: any) => (typeof style === 'string' ? style : style?.name))
+          .filter((style: unknown): style is string => typeof style === 'string' && style.length > 0)
+          .map((style: string) => style.toLowerCase()),
+      }))
+      .filter((entry: { fromIndex: number; toIndex: number; styles: string[] }) =>
+        entry.fromIndex >= 0 && entry.toIndex > entry.fromIndex && entry.styles.length > 0),
+  }
+}
+
+function toComparableTweetText(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\bhttps?:\/\/t\.co\/[A-Za-z0-9]+\b/g, '')
+    .replace(/\u2026$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// tweets.js only keeps the truncated text of long posts. Notes are matched by id when the
+// archive shares one, otherwise by creation time (within a minute) and truncated-text prefix.
+function mergeNoteTweets(tweets: any[], notes: ArchiveNoteTweet[]): number {
+  if (tweets.length === 0 || notes.length === 0) return 0
+
+  const notesById = new Map<string, ArchiveNoteTweet>()
+  const notesByMinute = new Map<number, ArchiveNoteTweet[]>()
+  for (const note of notes) {
+    notesById.set(note.id, note)
+    if (!note.createdAtMs) continue
+    const minute = Math.floor(note.createdAtMs / 60_000)
+    const bucket = notesByMinute.get(minute) || []
+    bucket.push(note)
+    notesByMinute.set(minute, bucket)
+  }
+
+  const usedNoteIds = new Set<string>()
+  let mergedCount = 0
+
+  for (const tweet of tweets) {
+    const tweetId = tweet.id_str || (tweet.id ? String(tweet.id) : '')
+    let match = tweetId ? notesById.get(tweetId) : undefined
+
+    if (!match) {
+      const createdAtMs = new Date(tweet.created_at || '').getTime()
+      const truncated = toComparableTweetText(tweet.full_text || tweet.text || '')
+      if (!Number.isFinite(createdAtMs) || !truncated) continue
+
+      const minute = Math.floor(createdAtMs / 60_000)
+      const candidates = [minute - 1, minute, minute + 1].flatMap((key) => notesByMinute.get(key) || [])
+      match = candidates.find(
+        (note) =>
+          !usedNoteIds.has(note.id)
+          && Math.abs(note.createdAtMs - createdAtMs) <= 60_000
+          && toComparableTweetText(note.text).startsWith(truncated),
+      )
+    }
+
+    if (!match || usedNoteIds.has(match.id)) continue
+    usedNoteIds.add(match.id)
+    mergedCount += 1
+
+    tweet.note_tweet = {
+      id: match.id,
+      truncated_text: tweet.full_text || tweet.text || '',
+      entities: match.entities,
+      style_tags: match.styleTags,
+    }
+    tweet.text = match.text
+    tweet.full_text = match.text
+  }
+
+  return mergedCount
+}
+
+function normalizeArchiveTweet(
+  item: any,
+  author: { username: string; name: string; profileImageUrl?: string },
+): any {
+  const tweet = item?.tweet || item
+  const tweetId = tweet?.id_str || tweet?.id
+  return {
+    id: tweetId,
+    id_str: tweet?.id_str || (tweetId ? String(tweetId) : undefined),
+    text: tweet?.full_text || tweet?.text,
+    full_text: tweet?.full_text || tweet?.text,
+    created_at: tweet?.created_at,
+    retweet_count: tweet?.retweet_count,
+    favorite_count: tweet?.favorite_count,
+    reply_count: tweet?.reply_count,
+    quote_count: tweet?.quote_count,
+    conversation_id_str: tweet?.conversation_id_str,
+    in_reply_to_status_id: tweet?.in_reply_to_status_id_str || tweet?.in_reply_to_status_id || null,
+    in_reply_to_status_id_str: tweet?.in_reply_to_status_id_str || null,
+    in_reply_to_user_id: tweet?.in_reply_to_user_id_str || tweet?.in_reply_to_user_id || null,
+    in_reply_to_user_id_str: tweet?.in_reply_to_user_id_str || null,
+    in_reply_to_screen_name: tweet?.in_reply_to_screen_name || null,
+    extended_entities: tweet?.extended_entities,
+    entities: tweet?.entities,
+    media: tweet?.extended_entities?.media || tweet?.entities?.media,
+    tweet_url: tweetId && author.username ? `https://x.com/${author.username}/status/${tweetId}` : undefined,
+    author,
+  }
 }
 
 export async function processArchiveUploadJob(params: {
@@ -609,6 +904,8 @@ export async function processArchiveUploadJob(params: {
   inputStoragePath: string
   importSelection?: ArchiveImportSelection
   dmEncryption?: DmEncryptionUploadMetadata | null
+  grokChatEncryption?: DmEncryptionUploadMetadata | null
+  accountHistoryEncryption?: DmEncryptionUploadMetadata | null
   preserveArchiveFile?: boolean
 }) {
   const { jobId, userId, username, inputStoragePath } = params
@@ -618,27 +915,37 @@ export async function processArchiveUploadJob(params: {
   if (importSelection.direct_messages && !dmEncryption) {
     throw new Error('DM encryption metadata missing for chat import.')
   }
+  // Grok chat encryption is optional: without metadata the chats are imported as plain data.
+  const grokChatEncryption = normalizeDmEncryptionUploadMetadata(params.grokChatEncryption)
+  const hasEncryptedGrokChatImport = Boolean(importSelection.grok_chats && grokChatEncryption)
+  const accountHistoryEncryption = normalizeDmEncryptionUploadMetadata(params.accountHistoryEncryption)
+  const hasEncryptedAccountHistoryImport = Boolean(importSelection.account_history && accountHistoryEncryption)
   const preserveArchiveFile =
     typeof params.preserveArchiveFile === 'boolean'
       ? params.preserveArchiveFile
       : true
 
-  let tmpPath = ''
+  let archive: R2ZipArchive | null = null
   let createdBackupId: string | null = null
   let archiveContainsDirectMessages = false
 
   try {
-    await markBackupJobProcessing(supabase, jobId, 5, 'Downloading uploaded archive...')
+    await markBackupJobProcessing(supabase, jobId, 5, 'Reading uploaded archive...')
     await mergeBackupJobPayload(supabase, jobId, { lifecycle_state: 'processing' })
     await ensureArchiveJobNotCancelled(jobId)
 
-    const buffer = await downloadObjectFromR2(inputStoragePath)
-    if (!buffer) {
+    try {
+      archive = await openR2ZipArchive(inputStoragePath, {
+        maxEntries: TWITTER_UPLOAD_LIMITS.maxZipEntries,
+      })
+    } catch (error) {
+      console.error('[Archive Job] Failed to open staged archive:', error)
+      throw new Error('Failed to extract archive')
+    }
+    if (!archive) {
       throw new Error('Failed to load uploaded archive payload')
     }
-
-    tmpPath = `/tmp/archive-${jobId}.zip`
-    fs.writeFileSync(tmpPath, buffer)
+    const zipArchive = archive
 
     await markBackupJobProgress(supabase, jobId, 15, 'Extracting archive files...')
     await ensureArchiveJobNotCancelled(jobId)
@@ -649,12 +956,26 @@ export async function processArchiveUploadJob(params: {
       followers: [],
       following: [],
       likes: [],
+      listsCreated: [],
+      listsMember: [],
+      listsSubscribed: [],
+      blocks: [],
+      mutes: [],
+      deletedTweets: [],
+      communityTweets: [],
+      communityNotes: [],
+      moments: [],
+      broadcasts: [],
+      noteTweets: [],
       directMessages: [],
+      grokChats: [],
+      accountHistory: [],
+      accountHistorySensitive: [],
     }
     let hasCoreArchiveFiles = false
 
     try {
-      const entries = await listZipEntries(tmpPath)
+      const entries = zipArchive.entries
 
       const metadataEntriesByBucket: Record<ArchiveMetadataBucket, any[]> = {
         account: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.account),
@@ -662,7 +983,21 @@ export async function processArchiveUploadJob(params: {
         followers: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.followers),
         following: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.following),
         likes: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.likes),
+        listsCreated: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.listsCreated),
+        listsMember: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.listsMember),
+        listsSubscribed: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.listsSubscribed),
+        blocks: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.blocks),
+        mutes: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.mutes),
+        deletedTweets: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.deletedTweets),
+        communityTweets: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.communityTweets),
+        communityNotes: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.communityNotes),
+        moments: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.moments),
+        broadcasts: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.broadcasts),
+        noteTweets: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.noteTweets),
         directMessages: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.directMessages),
+        grokChats: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.grokChats),
+        accountHistory: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.accountHistory),
+        accountHistorySensitive: findMetadataEntries(entries, ARCHIVE_METADATA_FILE_PATTERNS.accountHistorySensitive),
       }
       archiveContainsDirectMessages = metadataEntriesByBucket.directMessages.length > 0
       hasCoreArchiveFiles =
@@ -674,7 +1009,21 @@ export async function processArchiveUploadJob(params: {
         followers: importSelection.followers,
         following: importSelection.following,
         likes: importSelection.likes,
+        listsCreated: importSelection.lists,
+        listsMember: importSelection.lists,
+        listsSubscribed: importSelection.lists,
+        blocks: importSelection.blocks,
+        mutes: importSelection.mutes,
+        deletedTweets: importSelection.deleted_tweets,
+        communityTweets: importSelection.community_tweets,
+        communityNotes: importSelection.community_tweets,
+        moments: importSelection.moments,
+        broadcasts: importSelection.broadcasts,
+        noteTweets: importSelection.tweets || importSelection.deleted_tweets || importSelection.community_tweets,
         directMessages: importSelection.direct_messages && !hasEncryptedDmImport,
+        grokChats: importSelection.grok_chats && !hasEncryptedGrokChatImport,
+        accountHistory: importSelection.account_history,
+        accountHistorySensitive: importSelection.account_history && !hasEncryptedAccountHistoryImport,
       }
 
       for (const [bucket, bucketEntries] of Object.entries(metadataEntriesByBucket) as Array<[
@@ -685,12 +1034,8 @@ export async function processArchiveUploadJob(params: {
         for (const entry of bucketEntries) {
           await ensureArchiveJobNotCancelled(jobId)
 
-          const contentBuffer = await readZipEntryBufferWithLimit(
-            tmpPath,
-            entry.fileName,
-            TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes,
-          )
-          const content = contentBuffer ? contentBuffer.toString('utf8') : ''
+          const contentBuffer = await zipArchive.readEntry(entry, TWITTER_UPLOAD_LIMITS.maxMetadataEntryBytes)
+          const content = contentBuffer.toString('utf8')
           if (content) {
             files[bucket].push(content)
           }
@@ -708,7 +1053,7 @@ export async function processArchiveUploadJob(params: {
       throw new Error("This doesn't look like a Twitter archive. Upload the ZIP file downloaded from Twitter.")
     }
 
-    const stats = { tweets: 0, followers: 0, following: 0, likes: 0, dms: 0 }
+    const stats = { tweets: 0, followers: 0, following: 0, likes: 0, lists: 0, blocks: 0, mutes: 0, deleted_tweets: 0, community_tweets: 0, community_notes: 0, moments: 0, broadcasts: 0, dms: 0, grok_chats: 0, account_history: 0 }
 
     const extractUsernameFromUrl = (url: string): string | undefined => {
       if (!url) return undefined
@@ -738,43 +1083,77 @@ export async function processArchiveUploadJob(params: {
       }
     }
 
+    const archiveAuthor = {
+      username: accountProfile.username || username,
+      name: accountProfile.displayName || username,
+      profileImageUrl: accountProfile.avatarMediaUrl,
+    }
+
     let tweets: any[] = []
     if (importSelection.tweets && files.tweets.length > 0) {
       const tweetsData = files.tweets.flatMap(parseTwitterJSON)
       tweets = tweetsData
+        .map((item: any) => normalizeArchiveTweet(item, archiveAuthor))
+        .filter((t: any) => t.id)
+      stats.tweets = tweets.length
+    }
+
+    let deletedTweets: any[] = []
+    if (importSelection.deleted_tweets && files.deletedTweets.length > 0) {
+      const deletedTweetsData = files.deletedTweets.flatMap(parseTwitterJSON)
+      deletedTweets = deletedTweetsData
         .map((item: any) => {
           const tweet = item?.tweet || item
-          const tweetId = tweet?.id_str || tweet?.id
-          const authorUsername = accountProfile.username || username
           return {
-            id: tweetId,
-            id_str: tweet?.id_str || (tweetId ? String(tweetId) : undefined),
-            text: tweet?.full_text || tweet?.text,
-            full_text: tweet?.full_text || tweet?.text,
-            created_at: tweet?.created_at,
-            retweet_count: tweet?.retweet_count,
-            favorite_count: tweet?.favorite_count,
-            reply_count: tweet?.reply_count,
-            quote_count: tweet?.quote_count,
-            conversation_id_str: tweet?.conversation_id_str,
-            in_reply_to_status_id: tweet?.in_reply_to_status_id_str || tweet?.in_reply_to_status_id || null,
-            in_reply_to_status_id_str: tweet?.in_reply_to_status_id_str || null,
-            in_reply_to_user_id: tweet?.in_reply_to_user_id_str || tweet?.in_reply_to_user_id || null,
-            in_reply_to_user_id_str: tweet?.in_reply_to_user_id_str || null,
-            in_reply_to_screen_name: tweet?.in_reply_to_screen_name || null,
-            extended_entities: tweet?.extended_entities,
-            entities: tweet?.entities,
-            media: tweet?.extended_entities?.media || tweet?.entities?.media,
-            tweet_url: tweetId && authorUsername ? `https://x.com/${authorUsername}/status/${tweetId}` : undefined,
-            author: {
-              username: authorUsername,
-              name: accountProfile.displayName || username,
-              profileImageUrl: accountProfile.avatarMediaUrl,
-            },
+            ...normalizeArchiveTweet(item, archiveAuthor),
+            deleted_at: tweet?.deleted_at || null,
           }
         })
         .filter((t: any) => t.id)
-      stats.tweets = tweets.length
+      stats.deleted_tweets = deletedTweets.length
+    }
+
+    let communityTweets: any[] = []
+    let communityNotes: ArchiveCommunityNote[] = []
+    if (importSelection.community_tweets) {
+      communityTweets = files.communityTweets
+        .flatMap(parseTwitterJSON)
+        .map((item: any) => {
+          const tweet = item?.tweet || item
+          const communityId = tweet?.community_id_str || tweet?.community_id || tweet?.communityId
+          return {
+            ...normalizeArchiveTweet(item, archiveAuthor),
+            community_id: communityId ? String(communityId) : null,
+          }
+        })
+        .filter((t: any) => t.id)
+      communityNotes = normalizeCommunityNotes(files.communityNotes.flatMap(parseTwitterJSON))
+      stats.community_tweets = communityTweets.length
+      stats.community_notes = communityNotes.length
+    }
+
+    let moments: ArchiveMoment[] = []
+    if (importSelection.moments && files.moments.length > 0) {
+      moments = normalizeArchiveMoments(files.moments.flatMap(parseTwitterJSON))
+      stats.moments = moments.length
+    }
+
+    let broadcasts: ArchiveBroadcast[] = []
+    if (importSelection.broadcasts && files.broadcasts.length > 0) {
+      broadcasts = normalizeBroadcastItems(files.broadcasts.flatMap(parseTwitterJSON))
+      stats.broadcasts = broadcasts.length
+    }
+
+    if (files.noteTweets.length > 0 && (tweets.length > 0 || deletedTweets.length > 0 || communityTweets.length > 0)) {
+      const noteTweets = files.noteTweets
+        .flatMap(parseTwitterJSON)
+        .map(normalizeNoteTweet)
+        .filter((note): note is ArchiveNoteTweet => Boolean(note))
+      const mergedNoteCount =
+        mergeNoteTweets(tweets, noteTweets)
+        + mergeNoteTweets(deletedTweets, noteTweets)
+        + mergeNoteTweets(communityTweets, noteTweets)
+      console.log(`[Archive Job] Merged ${mergedNoteCount}/${noteTweets.length} note tweets into archived tweets`)
     }
 
     let followers: any[] = []
@@ -815,6 +1194,54 @@ export async function processArchiveUploadJob(params: {
       stats.following = following.length
     }
 
+    let lists: TwitterList[] = []
+    if (importSelection.lists) {
+      lists = [
+        ...normalizeArchiveLists(files.listsCreated.flatMap(parseTwitterJSON), 'owned'),
+        ...normalizeArchiveLists(files.listsMember.flatMap(parseTwitterJSON), 'member'),
+        ...normalizeArchiveLists(files.listsSubscribed.flatMap(parseTwitterJSON), 'subscribed'),
+      ]
+      stats.lists = lists.length
+    }
+
+    let blocks: any[] = []
+    if (importSelection.blocks && files.blocks.length > 0) {
+      const blocksData = files.blocks.flatMap(parseTwitterJSON)
+      blocks = blocksData
+        .map((item: any) => {
+          const accountId = item.blocking?.accountId
+          const rawLink = item.blocking?.userLink || ''
+          const extractedUsername = extractUsernameFromUrl(rawLink)
+          return {
+            user_id: accountId,
+            username: extractedUsername,
+            name: extractedUsername,
+            userLink: rawLink || `https://twitter.com/intent/user?user_id=${accountId}`,
+          }
+        })
+        .filter((b: any) => b.user_id)
+      stats.blocks = blocks.length
+    }
+
+    let mutes: any[] = []
+    if (importSelection.mutes && files.mutes.length > 0) {
+      const mutesData = files.mutes.flatMap(parseTwitterJSON)
+      mutes = mutesData
+        .map((item: any) => {
+          const accountId = item.muting?.accountId
+          const rawLink = item.muting?.userLink || ''
+          const extractedUsername = extractUsernameFromUrl(rawLink)
+          return {
+            user_id: accountId,
+            username: extractedUsername,
+            name: extractedUsername,
+            userLink: rawLink || `https://twitter.com/intent/user?user_id=${accountId}`,
+          }
+        })
+        .filter((m: any) => m.user_id)
+      stats.mutes = mutes.length
+    }
+
     let likes: any[] = []
     if (importSelection.likes && files.likes.length > 0) {
       const likesData = files.likes.flatMap(parseTwitterJSON)
@@ -845,6 +1272,61 @@ export async function processArchiveUploadJob(params: {
       stats.dms = dmEncryption.message_count || parsedEncryptedDmPayload.metadata.message_count
     }
 
+    let encryptedGrokChats: EncryptedDirectMessagesPayload | null = null
+    if (hasEncryptedGrokChatImport && grokChatEncryption) {
+      const encryptedGrokBuffer = await downloadObjectFromR2(grokChatEncryption.encrypted_input_path)
+      if (!encryptedGrokBuffer) {
+        throw new Error('Failed to load encrypted Grok chat payload.')
+      }
+
+      const parsedEncryptedGrokPayload = normalizeEncryptedDirectMessagesPayload(
+        JSON.parse(encryptedGrokBuffer.toString('utf8')),
+      )
+      if (!parsedEncryptedGrokPayload) {
+        throw new Error('Encrypted Grok chat payload is invalid.')
+      }
+
+      encryptedGrokChats = parsedEncryptedGrokPayload
+      stats.grok_chats = grokChatEncryption.message_count || parsedEncryptedGrokPayload.metadata.message_count
+    }
+
+    let grokChats: ArchiveGrokChat[] = []
+    if (importSelection.grok_chats && !hasEncryptedGrokChatImport && files.grokChats.length > 0) {
+      grokChats = normalizeGrokChatItems(files.grokChats.flatMap(parseTwitterJSON))
+      stats.grok_chats = countGrokChatMessages(grokChats)
+    }
+
+    let encryptedAccountHistory: EncryptedDirectMessagesPayload | null = null
+    if (hasEncryptedAccountHistoryImport && accountHistoryEncryption) {
+      const encryptedHistoryBuffer = await downloadObjectFromR2(accountHistoryEncryption.encrypted_input_path)
+      if (!encryptedHistoryBuffer) {
+        throw new Error('Failed to load encrypted account history payload.')
+      }
+
+      const parsedEncryptedHistoryPayload = normalizeEncryptedDirectMessagesPayload(
+        JSON.parse(encryptedHistoryBuffer.toString('utf8')),
+      )
+      if (!parsedEncryptedHistoryPayload) {
+        throw new Error('Encrypted account history payload is invalid.')
+      }
+
+      encryptedAccountHistory = parsedEncryptedHistoryPayload
+      // Payloads encrypted before event_count existed stored one event per "conversation".
+      stats.account_history =
+        accountHistoryEncryption.event_count ??
+        parsedEncryptedHistoryPayload.metadata.event_count ??
+        parsedEncryptedHistoryPayload.metadata.conversation_count
+    }
+
+    let accountHistory: ArchiveAccountHistoryEvent[] = []
+    if (importSelection.account_history) {
+      accountHistory = normalizeAccountHistoryItems([
+        ...files.accountHistory.flatMap(parseTwitterJSON),
+        ...files.accountHistorySensitive.flatMap(parseTwitterJSON),
+      ])
+      stats.account_history += accountHistory.length
+    }
+
     let directMessages: any[] = []
     if (importSelection.direct_messages && !hasEncryptedDmImport && files.directMessages.length > 0) {
       const dmsData = files.directMessages.flatMap(parseTwitterJSON)
@@ -903,8 +1385,6 @@ export async function processArchiveUploadJob(params: {
           .single()
       : { data: null }
 
-    const initialStoredDirectMessages = hasEncryptedDmImport ? [] : directMessages
-
     const { data: backupData, error: backupError } = await supabase
       .from('backups')
       .insert({
@@ -913,12 +1393,19 @@ export async function processArchiveUploadJob(params: {
         backup_type: 'full_archive',
         source: 'archive',
         data: {
-          tweets,
-          followers,
-          following,
-          likes,
-          direct_messages: initialStoredDirectMessages,
+          deleted_tweets: deletedTweets,
+          community_tweets: communityTweets,
+          community_notes: communityNotes,
+          moments,
+          broadcasts,
+          lists,
+          blocks,
+          mutes,
           encrypted_direct_messages: encryptedDirectMessages,
+          grok_chats: grokChats,
+          encrypted_grok_chats: encryptedGrokChats,
+          account_history: accountHistory,
+          encrypted_account_history: encryptedAccountHistory,
           import_selection: importSelection,
           archive_contains_direct_messages: archiveContainsDirectMessages,
         },
@@ -943,7 +1430,7 @@ export async function processArchiveUploadJob(params: {
       await markBackupJobProgress(supabase, jobId, 55, 'Uploading archive media files...')
 
       const mediaResult = await extractMediaFiles(
-        tmpPath,
+        zipArchive,
         userId,
         backupId,
         async (processed, total) => {
@@ -966,11 +1453,15 @@ export async function processArchiveUploadJob(params: {
     await ensureArchiveJobNotCancelled(jobId)
 
     const mediaUpdatedPayload = importSelection.media
-      ? updateMediaUrls(tweets, directMessages, mediaFiles)
-      : { tweets, directMessages }
+      ? updateMediaUrls({ tweets, deletedTweets, communityTweets, moments, directMessages, grokChats }, mediaFiles)
+      : { tweets, deletedTweets, communityTweets, moments, directMessages, grokChats }
     const updatedTweets = mediaUpdatedPayload.tweets
+    const updatedDeletedTweets = mediaUpdatedPayload.deletedTweets
+    const updatedCommunityTweets = mediaUpdatedPayload.communityTweets
+    const updatedMoments = mediaUpdatedPayload.moments
     const updatedDMs = mediaUpdatedPayload.directMessages
     const persistedDirectMessages = hasEncryptedDmImport ? [] : updatedDMs
+    const updatedGrokChats = mediaUpdatedPayload.grokChats
 
     const profileMediaFiles = mediaFiles.filter((f) => f.media_type === 'profile_media')
     const getMediaUrl = (storagePath: string): string => buildInternalMediaUrl(storagePath)
@@ -1020,12 +1511,7 @@ export async function processArchiveUploadJob(params: {
     let archiveStoragePath: string | null = null
     if (preserveArchiveFile) {
       archiveStoragePath = `${userId}/archives/${backupId}.zip`
-      await uploadObjectToR2({
-        key: archiveStoragePath,
-        body: buffer,
-        contentType: 'application/zip',
-        upsert: false,
-      })
+      await copyObjectInR2(inputStoragePath, archiveStoragePath, { contentType: 'application/zip' })
 
       const { data: existingArchiveRecord } = await supabase
         .from('media_files')
@@ -1040,7 +1526,7 @@ export async function processArchiveUploadJob(params: {
           backup_id: backupId,
           file_path: archiveStoragePath,
           file_name: `${backupId}.zip`,
-          file_size: buffer.length,
+          file_size: zipArchive.sizeBytes,
           mime_type: 'application/zip',
           media_type: 'archive_file',
         }
@@ -1051,20 +1537,33 @@ export async function processArchiveUploadJob(params: {
       }
     }
 
+    await replaceBackupContent(supabase, {
+      backupId,
+      userId,
+      content: { tweets: updatedTweets, likes, followers, following, direct_messages: persistedDirectMessages },
+    })
+
     const backupDataUpdate = {
       data: {
-        tweets: updatedTweets,
-        followers,
-        following,
-        likes,
-        direct_messages: persistedDirectMessages,
+        deleted_tweets: updatedDeletedTweets,
+        community_tweets: updatedCommunityTweets,
+        community_notes: communityNotes,
+        moments: updatedMoments,
+        broadcasts,
+        lists,
+        blocks,
+        mutes,
         encrypted_direct_messages: encryptedDirectMessages,
+        grok_chats: updatedGrokChats,
+        encrypted_grok_chats: encryptedGrokChats,
+        account_history: accountHistory,
+        encrypted_account_history: encryptedAccountHistory,
         profile: archiveProfile,
         stats: updatedStats,
         import_selection: importSelection,
         archive_contains_direct_messages: archiveContainsDirectMessages,
         archive_file_path: archiveStoragePath,
-        uploaded_file_size: preserveArchiveFile ? buffer.length : 0,
+        uploaded_file_size: preserveArchiveFile ? zipArchive.sizeBytes : 0,
       },
     }
 
@@ -1133,14 +1632,14 @@ export async function processArchiveUploadJob(params: {
       error instanceof Error ? error.message : 'Archive processing failed',
     )
   } finally {
-    if (tmpPath && fs.existsSync(tmpPath)) {
-      fs.unlinkSync(tmpPath)
-    }
+    archive?.close()
 
     try {
       await deleteObjectsFromR2([
         inputStoragePath,
         ...(dmEncryption?.encrypted_input_path ? [dmEncryption.encrypted_input_path] : []),
+        ...(grokChatEncryption?.encrypted_input_path ? [grokChatEncryption.encrypted_input_path] : []),
+        ...(accountHistoryEncryption?.encrypted_input_path ? [accountHistoryEncryption.encrypted_input_path] : []),
       ])
     } catch (removeInputError) {
       console.warn(`[Archive Job] Failed to clean up staged input ${inputStoragePath}:`, removeInputError)
@@ -5,6 +5,7 @@ import {
   normalizeArchiveImportSelection,
   type ArchiveImportSelection,
 } from '@/lib/platforms/twitter/archive-import'
+import type { PlatformId } from '@/lib/platforms/types'
 
 export type DirectUploadJobSummary = {
   id: string
@@ -152,9 +153,10 @@ async function uploadBlobViaXhr(params: {
 
 async function uploadSinglePartToStaging(params: {
   file: File
+  platform?: PlatformId
   onProgress?: (progress: DirectUploadProgress) => void
 }): Promise<StagedArchiveUploadResult> {
-  const { file, onProgress } = params
+  const { file, platform, onProgress } = params
 
   emitProgress(onProgress, {
     phase: 'preparing',
@@ -171,6 +173,7 @@ async function uploadSinglePartToStaging(params: {
       fileName: file.name,
       fileType: file.type,
       fileSize: file.size,
+      platform,
     }),
   })
 
@@ -225,9 +228,10 @@ async function uploadSinglePartToStaging(params: {
 
 async function uploadMultipartToStaging(params: {
   file: File
+  platform?: PlatformId
   onProgress?: (progress: DirectUploadProgress) => void
 }): Promise<StagedArchiveUploadResult> {
-  const { file, onProgress } = params
+  const { file, platform, onProgress } = params
 
   emitProgress(onProgress, {
     phase: 'preparing',
@@ -245,6 +249,7 @@ async function uploadMultipartToStaging(params: {
       fileName: file.name,
       fileType: file.type,
       fileSize: file.size,
+      platform,
     }),
   })
 
@@ -409,18 +414,23 @@ async function uploadMultipartToStaging(params: {
   }
 }
 
+/**
+ * Uploads a ZIP to the user's staging area. Other platforms' exports are staged through the same
+ * routes; pass `platform` so validation errors name the right export.
+ */
 export async function uploadTwitterArchiveToStaging(params: {
   file: File
+  platform?: PlatformId
   onProgress?: (progress: DirectUploadProgress) => void
 }): Promise<StagedArchiveUploadResult> {
-  const { file, onProgress } = params
+  const { file, platform, onProgress } = params
 
   try {
     if (file.size >= MULTIPART_MIN_BYTES) {
-      return await uploadMultipartToStaging({ file, onProgress })
+      return await uploadMultipartToStaging({ file, platform, onProgress })
     }
 
-    return await uploadSinglePartToStaging({ file, onProgress })
+    return await uploadSinglePartToStaging({ file, platform, onProgress })
   } catch (error) {
     return {
       success: false,
@@ -437,6 +447,8 @@ export async function startTwitterArchiveImport(params: {
   username?: string
   importSelection?: unknown
   dmEncryption?: DmEncryptionUploadMetadata | null
+  grokChatEncryption?: DmEncryptionUploadMetadata | null
+  accountHistoryEncryption?: DmEncryptionUploadMetadata | null
   preserveArchiveFile?: boolean
 }): Promise<DirectUploadResult> {
   const importSelection = normalizeArchiveImportSelection(
@@ -455,6 +467,8 @@ export async function startTwitterArchiveImport(params: {
         username: params.username,
         importSelection,
         dmEncryption: params.dmEncryption || null,
+        grokChatEncryption: params.grokChatEncryption || null,
+        accountHistoryEncryption: params.accountHistoryEncryption || null,
         preserveArchiveFile: params.preserveArchiveFile,
       }),
     })
@@ -125,9 +125,9 @@ async function decryptBytesWithAesKey(key: CryptoKey, ciphertext: Uint8Array, iv
   return new Uint8Array(plaintextBuffer)
 }
 
-function countDmMessages(directMessages: unknown[]): { conversationCount: number; messageCount: number } {
-  const conversationCount = directMessages.length
-  const messageCount = directMessages.reduce<number>((sum, entry) => {
+function countConversationMessages(conversations: unknown[]): { conversationCount: number; messageCount: number } {
+  const conversationCount = conversations.length
+  const messageCount = conversations.reduce<number>((sum, entry) => {
     if (!entry || typeof entry !== 'object') return sum
     const messages = (entry as { messages?: unknown }).messages
     if (!Array.isArray(messages)) return sum
@@ -163,22 +163,23 @@ export function normalizeRecoveryKey(value: string): string {
   return formatRecoveryKey(compact)
 }
 
-export async function encryptDirectMessagesForClientStorage(params: {
-  directMessages: unknown[]
+async function encryptConversationsForClientStorage(params: {
+  conversations: unknown[]
   passphrase: string
   recoveryKey: string
+  label: string
 }): Promise<EncryptedDirectMessagesPayload> {
   const passphrase = params.passphrase.trim()
   if (!passphrase) {
-    throw new Error('Passphrase is required to encrypt direct messages.')
+    throw new Error(`Passphrase is required to encrypt ${params.label}.`)
   }
 
   const normalizedRecoveryKey = normalizeRecoveryKey(params.recoveryKey)
   const recoveryKeySecret = sanitizeRecoveryKey(normalizedRecoveryKey)
 
-  const { conversationCount, messageCount } = countDmMessages(params.directMessages)
-  const directMessagesJson = JSON.stringify(params.directMessages)
-  const payloadBytes = utf8ToBytes(directMessagesJson)
+  const { conversationCount, messageCount } = countConversationMessages(params.conversations)
+  const conversationsJson = JSON.stringify(params.conversations)
+  const payloadBytes = utf8ToBytes(conversationsJson)
 
   const dataKeyBytes = randomBytes(32)
   const dataKey = await importAesKey(dataKeyBytes, ['encrypt'])
@@ -225,6 +226,52 @@ export async function encryptDirectMessagesForClientStorage(params: {
   }
 }
 
+export async function encryptDirectMessagesForClientStorage(params: {
+  directMessages: unknown[]
+  passphrase: string
+  recoveryKey: string
+}): Promise<EncryptedDirectMessagesPayload> {
+  return encryptConversationsForClientStorage({
+    conversations: params.directMessages,
+    passphrase: params.passphrase,
+    recoveryKey: params.recoveryKey,
+    label: 'direct messages',
+  })
+}
+
+// Grok chats use the same envelope as DMs, so they decrypt with the DM helpers below.
+export async function encryptGrokChatsForClientStorage(params: {
+  grokChats: unknown[]
+  passphrase: string
+  recoveryKey: string
+}): Promise<EncryptedDirectMessagesPayload> {
+  return encryptConversationsForClientStorage({
+    conversations: params.grokChats,
+    passphrase: params.passphrase,
+    recoveryKey: params.recoveryKey,
+    label: 'Grok chats',
+  })
+}
+
+// Sensitive account-history events (emails, login IPs, devices) share the DM envelope too; the
+// metadata carries an event count, since the conversation and message counts mean nothing here.
+export async function encryptAccountHistoryForClientStorage(params: {
+  events: unknown[]
+  passphrase: string
+  recoveryKey: string
+}): Promise<EncryptedDirectMessagesPayload> {
+  const encrypted = await encryptConversationsForClientStorage({
+    conversations: params.events,
+    passphrase: params.passphrase,
+    recoveryKey: params.recoveryKey,
+    label: 'account history',
+  })
+  return {
+    ...encrypted,
+    metadata: { ...encrypted.metadata, event_count: params.events.length },
+  }
+}
+
 async function decryptDirectMessagesWithSecret(params: {
   payload: EncryptedDirectMessagesPayload
   wrappedKeyType: 'passphrase' | 'recovery'
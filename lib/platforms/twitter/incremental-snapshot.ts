@@ -0,0 +1,190 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadBackupContentItems } from '@/lib/backups/backup-content'
+import { isGuestBackupExpired } from '@/lib/backups/retention'
+import { maxTweetId } from '@/lib/twitter/tweet-ids'
+import type { Tweet, TwitterScrapeTargets } from '@/lib/twitter/types'
+
+const BASE_CANDIDATE_LIMIT = 20
+const NEWEST_TWEET_SAMPLE_SIZE = 50
+const MEDIA_CARRY_OVER_BATCH_SIZE = 500
+
+export type IncrementalSnapshotBase = {
+  backupId: string
+  sinceTweetId: string
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {}
+}
+
+function readTimeValue(value: string | undefined): number {
+  const parsed = Date.parse(value || '')
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/**
+ * Finds the newest snapshot of `username` this user owns that covers the requested timeline targets,
+ * along with the newest non-pinned tweet id it holds. Returns null when a full scrape is needed.
+ */
+export async function findIncrementalSnapshotBase(
+  supabase: SupabaseClient,
+  params: {
+    userId: string
+    username: string
+    targets: TwitterScrapeTargets
+  },
+): Promise<IncrementalSnapshotBase | null> {
+  const { userId, username, targets } = params
+  if (!targets.tweets && !targets.replies) return null
+
+  const { data: backups, error } = await supabase
+    .from('backups')
+    .select('id, profile:data->profile, scrape:data->scrape, retention:data->retention')
+    .eq('user_id', userId)
+    .eq('backup_type', 'snapshot')
+    .order('created_at', { ascending: false })
+    .limit(BASE_CANDIDATE_LIMIT)
+
+  if (error) {
+    throw new Error(`Failed to load previous snapshots: ${error.message}`)
+  }
+
+  const requestedHandle = username.trim().toLowerCase()
+  const base = (backups || []).find((backup) => {
+    const profileUsername = toRecord(backup.profile).username
+    if (typeof profileUsername !== 'string' || profileUsername.trim().toLowerCase() !== requestedHandle) return false
+    if (isGuestBackupExpired({ retention: backup.retention })) return false
+    const baseTargets = toRecord(toRecord(backup.scrape).targets)
+    return (!targets.tweets || baseTargets.tweets === true) && (!targets.replies || baseTargets.replies === true)
+  })
+  if (!base) return null
+
+  const { data: newestRows, error: newestError } = await supabase
+    .from('backup_tweets')
+    .select('tweet_id')
+    .eq('backup_id', base.id)
+    .eq('is_pinned', false)
+    .not('tweet_id', 'is', null)
+    .order('tweeted_at', { ascending: false, nullsFirst: false })
+    .limit(NEWEST_TWEET_SAMPLE_SIZE)
+
+  if (newestError) {
+    throw new Error(`Failed to load newest snapshot tweet: ${newestError.message}`)
+  }
+
+  const sinceTweetId = maxTweetId((newestRows || []).map((row) => String(row.tweet_id)))
+  return sinceTweetId ? { backupId: base.id, sinceTweetId } : null
+}
+
+function applyPinnedTweetIds(tweet: Tweet, pinnedRankById: Map<string, number> | null): Tweet {
+  if (!pinnedRankById) return tweet
+  const pinnedRank = pinnedRankById.get(tweet.id)
+  return {
+    ...tweet,
+    is_pinned: pinnedRank !== undefined || undefined,
+    pinned_rank: pinnedRank,
+  }
+}
+
+function sortNewestFirst(tweets: Tweet[], pinnedFirst: boolean): Tweet[] {
+  return [...tweets].sort((a, b) => {
+    if (pinnedFirst && Boolean(a.is_pinned) !== Boolean(b.is_pinned)) return a.is_pinned ? -1 : 1
+    if (pinnedFirst && a.is_pinned && b.is_pinned) {
+      const rankDiff = (a.pinned_rank ?? Number.MAX_SAFE_INTEGER) - (b.pinned_rank ?? Number.MAX_SAFE_INTEGER)
+      if (rankDiff !== 0) return rankDiff
+    }
+    return readTimeValue(b.created_at) - readTimeValue(a.created_at)
+  })
+}
+
+/**
+ * Combines freshly scraped tweets and replies with the ones stored in the base snapshot. New copies win
+ * so counts and media stay current, and pinned flags follow `pinnedTweetIds` when the scrape saw any.
+ */
+export async function mergeIncrementalTimeline(
+  supabase: SupabaseClient,
+  params: {
+    baseBackupId: string
+    targets: TwitterScrapeTargets
+    tweets: Tweet[]
+    replies: Tweet[]
+    pinnedTweetIds?: string[]
+  },
+): Promise<{ tweets: Tweet[]; replies: Tweet[] }> {
+  const { baseBackupId, targets, tweets, replies, pinnedTweetIds } = params
+  const [baseTweets, baseReplies] = await Promise.all([
+    targets.tweets ? loadBackupContentItems(supabase, baseBackupId, 'tweets') : Promise.resolve([]),
+    targets.replies ? loadBackupContentItems(supabase, baseBackupId, 'replies') : Promise.resolve([]),
+  ])
+
+  const pinnedRankById =
+    pinnedTweetIds && pinnedTweetIds.length > 0
+      ? new Map(pinnedTweetIds.map((id, index) => [id, index]))
+      : null
+
+  const merge = (fresh: Tweet[], stored: unknown[]) => {
+    const seen = new Set(fresh.map((tweet) => tweet.id))
+    const carried = (stored as Tweet[]).filter((tweet) => tweet?.id && !seen.has(tweet.id))
+    return [...fresh, ...carried].map((tweet) => applyPinnedTweetIds(tweet, pinnedRankById))
+  }
+
+  return {
+    tweets: sortNewestFirst(merge(tweets, baseTweets), true),
+    replies: sortNewestFirst(merge(replies, baseReplies), false),
+  }
+}
+
+/**
+ * Gives the new snapshot its own `media_files` rows for tweet media carried over from the base snapshot.
+ * The rows point at the same content-addressed blobs, so nothing is copied in R2 and deleting either
+ * snapshot leaves the other's media in place.
+ */
+export async function carryOverSnapshotMedia(
+  supabase: SupabaseClient,
+  params: {
+    fromBackupId: string
+    toBackupId: string
+  },
+): Promise<number> {
+  const { fromBackupId, toBackupId } = params
+  let carried = 0
+
+  for (let offset = 0; ; offset += MEDIA_CARRY_OVER_BATCH_SIZE) {
+    // `*` keeps this working on schemas that predate optional columns such as tweet_id or content_sha256.
+    const { data: rows, error } = await supabase
+      .from('media_files')
+      .select('*')
+      .eq('backup_id', fromBackupId)
+      .eq('media_type', 'scraped_media')
+      .order('file_path', { ascending: true })
+      .range(offset, offset + MEDIA_CARRY_OVER_BATCH_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load snapshot media: ${error.message}`)
+    }
+
+    const page = (rows || []) as Array<Record<string, unknown>>
+    if (page.length > 0) {
+      const copies = page.map((row) => {
+        const { id: _id, created_at: _createdAt, ...rest } = row
+        void _id
+        void _createdAt
+        return { ...rest, backup_id: toBackupId }
+      })
+      const { error: insertError } = await supabase
+        .from('media_files')
+        .upsert(copies, { onConflict: 'backup_id,file_path', ignoreDuplicates: true })
+
+      if (insertError) {
+        throw new Error(`Failed to carry over snapshot media: ${insertError.message}`)
+      }
+      carried += page.length
+    }
+
+    if (page.length < MEDIA_CARRY_OVER_BATCH_SIZE) break
+  }
+
+  return carried
+}
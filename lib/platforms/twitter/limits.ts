@@ -18,7 +18,7 @@ function readPositiveFloatEnv(name: string, fallback: number): number {
 }
 
 export const TWITTER_UPLOAD_LIMITS = {
-  maxArchiveBytes: readPositiveIntEnv('TWITTER_MAX_ARCHIVE_BYTES', 1 * GB),
+  maxArchiveBytes: readPositiveIntEnv('TWITTER_MAX_ARCHIVE_BYTES', 5 * GB),
   maxZipEntries: readPositiveIntEnv('TWITTER_MAX_ARCHIVE_ZIP_ENTRIES', 50_000),
   maxMediaFiles: readPositiveIntEnv('TWITTER_MAX_ARCHIVE_MEDIA_FILES', 20_000),
   maxMediaBytes: readPositiveIntEnv('TWITTER_MAX_ARCHIVE_MEDIA_BYTES', 5 * GB),
@@ -38,6 +38,8 @@ export const TWITTER_SCRAPE_LIMITS = {
   defaultTweets: readPositiveIntEnv('TWITTER_SCRAPE_DEFAULT_TWEETS', 5_000),
   maxTweetsAndReplies: readPositiveIntEnv('TWITTER_SCRAPE_FREE_MAX_TWEETS_AND_REPLIES', 5_000),
   maxFollowersAndFollowing: readPositiveIntEnv('TWITTER_SCRAPE_FREE_MAX_FOLLOWERS_AND_FOLLOWING', 50_000),
+  maxLists: readPositiveIntEnv('TWITTER_SCRAPE_MAX_LISTS', 500),
+  maxListMembers: readPositiveIntEnv('TWITTER_SCRAPE_MAX_LIST_MEMBERS', 1_000),
 }
 
 export const TWITTER_SCRAPE_API_LIMITS = {
@@ -51,10 +53,19 @@ export const TWITTER_SCRAPE_API_LIMITS = {
     'TWITTER_APIFY_SOCIAL_GRAPH_ITEM_USD',
     readPositiveFloatEnv('TWITTER_APIFY_USER_ITEM_USD', 0.0001),
   ),
+  // TWITTER_APIFY_LISTS_ACTOR_ID is user-configured, so its per-result price is too; one result per list.
+  listItemUsd: readPositiveFloatEnv('TWITTER_APIFY_LIST_ITEM_USD', 0.0004),
   maxCostPerRunUsd: readPositiveFloatEnv('TWITTER_SCRAPE_API_MAX_COST_PER_RUN_USD', 25),
   maxCostPerMonthUsd: readPositiveFloatEnv('TWITTER_SCRAPE_API_MAX_COST_PER_MONTH_USD', 20),
 }
 
+export const TWITTER_API_PRICING = {
+  // X API v2 pay-per-use defaults: each post or user object returned is billed once.
+  postReadUsd: readPositiveFloatEnv('TWITTER_API_POST_READ_USD', 0.005),
+  userReadUsd: readPositiveFloatEnv('TWITTER_API_USER_READ_USD', 0.01),
+  listReadUsd: readPositiveFloatEnv('TWITTER_API_LIST_READ_USD', 0.01),
+}
+
 export function isZipUpload(fileName: string, mimeType: string | undefined): boolean {
   const normalizedName = fileName.toLowerCase()
   const normalizedType = (mimeType || '').toLowerCase()
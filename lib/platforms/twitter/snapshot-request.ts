@@ -0,0 +1,315 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inngest } from '@/lib/inngest/client'
+import { createBackupJob, markBackupJobFailed, mergeBackupJobPayload, type BackupJob } from '@/lib/jobs/backup-jobs'
+import { TWITTER_SCRAPE_API_LIMITS, TWITTER_SCRAPE_LIMITS } from '@/lib/platforms/twitter/limits'
+import { roundUsd } from '@/lib/twitter/apify-pricing'
+import type { TwitterScrapePricing } from '@/lib/twitter/scrape-pricing'
+import type { TwitterScrapeTargets } from '@/lib/twitter/types'
+
+const GUEST_BACKUP_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+export const DEFAULT_SCRAPE_TARGETS: TwitterScrapeTargets = {
+  profile: true,
+  tweets: true,
+  replies: true,
+  followers: true,
+  following: true,
+}
+
+export type BackupRetention = {
+  mode: 'account' | 'guest_30d'
+  expiresAtIso: string | null
+}
+
+export type SnapshotScrapePlan = {
+  tweetsToScrape: number
+  socialGraphMaxItems?: number
+  effectiveRunBudgetUsd: number
+  estimatedTimelineCostUsd: number
+  estimatedSocialGraphCostUsd: number
+  estimatedMaxRunCostUsd: number
+}
+
+export type SnapshotScrapePlanResult =
+  | { ok: true; plan: SnapshotScrapePlan }
+  | { ok: false; error: string }
+
+export type SnapshotApifyWebhookConfig = {
+  enabled: boolean
+  baseUrl: string | null
+  token?: string
+}
+
+function extractInngestEventIds(response: unknown): string[] {
+  if (!response || typeof response !== 'object') return []
+  const ids = (response as { ids?: unknown }).ids
+  if (!Array.isArray(ids)) return []
+  return ids.filter((id): id is string => typeof id === 'string' && id.length > 0)
+}
+
+export function parseScrapeTargets(value: unknown): TwitterScrapeTargets | null {
+  if (value === undefined || value === null) return { ...DEFAULT_SCRAPE_TARGETS }
+  if (typeof value !== 'object' || Array.isArray(value)) return null
+
+  const source = value as Record<string, unknown>
+  const read = (key: keyof TwitterScrapeTargets) => {
+    if (source[key] === undefined) return DEFAULT_SCRAPE_TARGETS[key]
+    return Boolean(source[key])
+  }
+
+  return {
+    profile: read('profile'),
+    tweets: read('tweets'),
+    replies: read('replies'),
+    followers: read('followers'),
+    following: read('following'),
+  }
+}
+
+export async function resolveBackupRetention(
+  supabase: SupabaseClient,
+  actorId: string,
+  forceGuestRetention: boolean,
+): Promise<BackupRetention> {
+  if (forceGuestRetention) {
+    return {
+      mode: 'guest_30d',
+      expiresAtIso: new Date(Date.now() + GUEST_BACKUP_TTL_MS).toISOString(),
+    }
+  }
+
+  try {
+    const { data, error } = await supabase.auth.admin.getUserById(actorId)
+    if (error || !data?.user) {
+      return { mode: 'account', expiresAtIso: null }
+    }
+    const metadata =
+      data.user.user_metadata && typeof data.user.user_metadata === 'object' && !Array.isArray(data.user.user_metadata)
+        ? (data.user.user_metadata as Record<string, unknown>)
+        : {}
+    const isGuest = metadata.is_guest === true
+    if (!isGuest) {
+      return { mode: 'account', expiresAtIso: null }
+    }
+    return {
+      mode: 'guest_30d',
+      expiresAtIso: new Date(Date.now() + GUEST_BACKUP_TTL_MS).toISOString(),
+    }
+  } catch {
+    return { mode: 'account', expiresAtIso: null }
+  }
+}
+
+/**
+ * Sizes a snapshot run to fit `runBudgetUsd` at the scraping provider's prices: the timeline takes its share
+ * first and followers/following get whatever budget is left, capped at the free-tier limits.
+ */
+export function planSnapshotScrape(params: {
+  targets: TwitterScrapeTargets
+  pricing: TwitterScrapePricing
+  explicitTweetLimit?: number | null
+  runBudgetUsd?: number
+}): SnapshotScrapePlanResult {
+  const { targets, pricing, explicitTweetLimit } = params
+  const needsTimelineScrape = targets.tweets || targets.replies
+  const includesSocialGraph = targets.followers || targets.following
+  const freeTimelineItemsLimit = Math.max(1, Math.floor(TWITTER_SCRAPE_LIMITS.maxTweetsAndReplies))
+  const freeSocialGraphItemsLimit = Math.max(200, Math.floor(TWITTER_SCRAPE_LIMITS.maxFollowersAndFollowing))
+  const effectiveRunBudgetUsd = roundUsd(
+    Math.min(params.runBudgetUsd ?? TWITTER_SCRAPE_API_LIMITS.maxCostPerRunUsd, TWITTER_SCRAPE_API_LIMITS.maxCostPerRunUsd),
+  )
+  const minimumSocialGraphItems =
+    targets.followers && targets.following
+      ? 400
+      : 200
+
+  let tweetsToScrape = 0
+  if (needsTimelineScrape) {
+    if (typeof explicitTweetLimit === 'number') {
+      tweetsToScrape = explicitTweetLimit
+    } else if (includesSocialGraph) {
+      // Keep timeline broad, but avoid starving followers/following budget in mixed runs: a timeline that
+      // cannot take the default size leaves room for the minimum social graph.
+      const preferredDefaultTweets = Math.max(1, TWITTER_SCRAPE_LIMITS.defaultTweets)
+      const preferredDefaultCostUsd = pricing.estimateTimelineCostUsd(preferredDefaultTweets)
+      tweetsToScrape =
+        preferredDefaultCostUsd <= effectiveRunBudgetUsd
+          ? preferredDefaultTweets
+          : pricing.maxTimelineItemsForBudget(
+              effectiveRunBudgetUsd - pricing.estimateSocialGraphCostUsd(minimumSocialGraphItems),
+            )
+    } else {
+      tweetsToScrape = pricing.maxTimelineItemsForBudget(effectiveRunBudgetUsd)
+    }
+    tweetsToScrape = Math.max(1, Math.min(Math.floor(tweetsToScrape), freeTimelineItemsLimit))
+  } else if (targets.profile) {
+    tweetsToScrape = 1
+  }
+
+  const requestedTimelineItems = needsTimelineScrape ? tweetsToScrape : targets.profile ? 1 : 0
+  const estimatedTimelineCostUsd = pricing.estimateTimelineCostUsd(requestedTimelineItems)
+
+  if (estimatedTimelineCostUsd > effectiveRunBudgetUsd) {
+    return { ok: false, error: 'Requested scrape size exceeds current run budget. Try a lower maxTweets value.' }
+  }
+
+  const budgetForSocialGraphUsd = Math.max(0, effectiveRunBudgetUsd - estimatedTimelineCostUsd)
+  let socialGraphMaxItems: number | undefined
+  let estimatedSocialGraphCostUsd = 0
+
+  if (includesSocialGraph) {
+    socialGraphMaxItems = Math.min(
+      pricing.maxSocialGraphItemsForBudget(budgetForSocialGraphUsd),
+      freeSocialGraphItemsLimit,
+    )
+    if (socialGraphMaxItems <= 0) {
+      return { ok: false, error: 'Current run budget cannot fetch followers/following in this run.' }
+    }
+    if (socialGraphMaxItems < minimumSocialGraphItems) {
+      return {
+        ok: false,
+        error: `Current run budget cannot fetch followers/following in this run. Minimum required social graph items: ${minimumSocialGraphItems}.`,
+      }
+    }
+    estimatedSocialGraphCostUsd = pricing.estimateSocialGraphCostUsd(socialGraphMaxItems)
+  }
+
+  return {
+    ok: true,
+    plan: {
+      tweetsToScrape,
+      socialGraphMaxItems,
+      effectiveRunBudgetUsd,
+      estimatedTimelineCostUsd,
+      estimatedSocialGraphCostUsd,
+      estimatedMaxRunCostUsd: roundUsd(estimatedTimelineCostUsd + estimatedSocialGraphCostUsd),
+    },
+  }
+}
+
+/**
+ * Creates the snapshot job row and sends `backup/snapshot-scrape.requested`. If the event cannot be sent
+ * the job is marked failed before the error is rethrown.
+ */
+export async function enqueueSnapshotScrapeJob(
+  supabase: SupabaseClient,
+  params: {
+    userId: string
+    username: string
+    targets: TwitterScrapeTargets
+    includeMedia: boolean
+    incremental: boolean
+    retention: BackupRetention
+    plan: SnapshotScrapePlan
+    apifyWebhook: SnapshotApifyWebhookConfig
+    monthlyBudget?: {
+      spentUsd: number
+      limitUsd: number
+      remainingUsd: number
+    }
+    message?: string
+    payload?: Record<string, unknown>
+  },
+): Promise<BackupJob> {
+  const { userId, username, targets, includeMedia, incremental, retention, plan, apifyWebhook, monthlyBudget } = params
+  const perRunLimitUsd = roundUsd(TWITTER_SCRAPE_API_LIMITS.maxCostPerRunUsd)
+
+  const job = await createBackupJob(supabase, {
+    userId,
+    jobType: 'snapshot_scrape',
+    message: params.message || 'Snapshot requested. Waiting to start...',
+    payload: {
+      lifecycle_state: 'queued',
+      username,
+      max_tweets: plan.tweetsToScrape,
+      targets,
+      include_media: includeMedia,
+      incremental,
+      retention_mode: retention.mode,
+      retention_expires_at: retention.expiresAtIso,
+      social_graph_max_items: plan.socialGraphMaxItems ?? null,
+      partial_backup_id: null,
+      apify_webhook: {
+        enabled: apifyWebhook.enabled,
+        base_url: apifyWebhook.baseUrl,
+        has_token: Boolean(apifyWebhook.token),
+        callback_path: '/api/platforms/twitter/apify-webhook',
+      },
+      apify_runs: {
+        timeline_run_id: null,
+        social_graph_run_id: null,
+      },
+      live_metrics: {
+        phase: 'queued',
+        tweets_fetched: 0,
+        replies_fetched: 0,
+        followers_fetched: 0,
+        following_fetched: 0,
+        media_processed: 0,
+        media_total: 0,
+        api_cost_usd: 0,
+      },
+      api_budget: {
+        monthly_spent_usd: monthlyBudget?.spentUsd ?? 0,
+        monthly_limit_usd: monthlyBudget?.limitUsd ?? 0,
+        monthly_remaining_usd: monthlyBudget?.remainingUsd ?? 0,
+        per_run_limit_usd: perRunLimitUsd,
+        effective_run_budget_usd: plan.effectiveRunBudgetUsd,
+        estimated_timeline_cost_usd: plan.estimatedTimelineCostUsd,
+        estimated_social_graph_cost_usd: plan.estimatedSocialGraphCostUsd,
+        estimated_max_run_cost_usd: plan.estimatedMaxRunCostUsd,
+      },
+      ...params.payload,
+    },
+  })
+
+  try {
+    const sendResult = await inngest.send({
+      name: 'backup/snapshot-scrape.requested',
+      data: {
+        jobId: job.id,
+        userId,
+        username,
+        tweetsToScrape: plan.tweetsToScrape,
+        targets,
+        includeMedia,
+        incremental,
+        retention,
+        socialGraphMaxItems: plan.socialGraphMaxItems,
+        apifyWebhook:
+          apifyWebhook.enabled && apifyWebhook.baseUrl
+            ? {
+                baseUrl: apifyWebhook.baseUrl,
+                token: apifyWebhook.token,
+              }
+            : undefined,
+        apiBudget: {
+          monthlySpentBeforeRunUsd: monthlyBudget?.spentUsd ?? 0,
+          monthlyLimitUsd: monthlyBudget?.limitUsd ?? 0,
+          monthlyRemainingUsd: monthlyBudget?.remainingUsd ?? 0,
+          perRunLimitUsd,
+          effectiveRunBudgetUsd: plan.effectiveRunBudgetUsd,
+          estimatedTimelineCostUsd: plan.estimatedTimelineCostUsd,
+          estimatedSocialGraphCostUsd: plan.estimatedSocialGraphCostUsd,
+          estimatedMaxRunCostUsd: plan.estimatedMaxRunCostUsd,
+        },
+      },
+    })
+
+    const eventIds = extractInngestEventIds(sendResult)
+    if (eventIds.length > 0) {
+      await mergeBackupJobPayload(supabase, job.id, {
+        inngest_event_ids: eventIds,
+      })
+    }
+  } catch (enqueueError) {
+    await markBackupJobFailed(
+      supabase,
+      job.id,
+      `Failed to queue background processing: ${enqueueError instanceof Error ? enqueueError.message : 'Unknown error'}`,
+    )
+    throw enqueueError
+  }
+
+  return job
+}
@@ -0,0 +1,327 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { findActiveBackupJobForUser } from '@/lib/jobs/backup-jobs'
+import { resolveConfiguredAppBaseUrl } from '@/lib/notifications/backup-ready-email'
+import { getTwitterApiUsageSummary } from '@/lib/platforms/twitter/api-usage'
+import { USER_STORAGE_LIMITS } from '@/lib/platforms/twitter/limits'
+import {
+  DEFAULT_SCRAPE_TARGETS,
+  enqueueSnapshotScrapeJob,
+  planSnapshotScrape,
+  resolveBackupRetention,
+} from '@/lib/platforms/twitter/snapshot-request'
+import { calculateUserStorageSummary } from '@/lib/storage/usage'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getTwitterScrapePricing, type TwitterScrapePricing } from '@/lib/twitter/scrape-pricing'
+import { getTwitterProvider } from '@/lib/twitter/twitter-service'
+import type { TwitterScrapeTargets } from '@/lib/twitter/types'
+
+export type SnapshotScheduleFrequency = 'daily' | 'weekly' | 'monthly'
+
+export const SNAPSHOT_SCHEDULE_FREQUENCIES: readonly SnapshotScheduleFrequency[] = ['daily', 'weekly', 'monthly']
+
+export type SnapshotScheduleRunStatus =
+  | 'queued'
+  | 'skipped_budget'
+  | 'skipped_storage'
+  | 'skipped_active_job'
+  | 'failed'
+
+export type SnapshotSchedule = {
+  id: string
+  user_id: string
+  username: string
+  frequency: SnapshotScheduleFrequency
+  targets: TwitterScrapeTargets
+  include_media: boolean
+  incremental: boolean
+  enabled: boolean
+  next_run_at: string
+  last_run_at: string | null
+  last_run_status: SnapshotScheduleRunStatus | null
+  last_run_message: string | null
+  last_job_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type SnapshotScheduleInput = {
+  username: string
+  frequency: SnapshotScheduleFrequency
+  targets: TwitterScrapeTargets
+  includeMedia: boolean
+  incremental: boolean
+  enabled: boolean
+}
+
+export type SnapshotScheduleRunSummary = {
+  queued: number
+  skipped: number
+  failed: number
+}
+
+const ACTIVE_JOB_RETRY_MS = 60 * 60 * 1000
+
+export function isSnapshotScheduleFrequency(value: unknown): value is SnapshotScheduleFrequency {
+  return typeof value === 'string' && (SNAPSHOT_SCHEDULE_FREQUENCIES as readonly string[]).includes(value)
+}
+
+/** Monthly schedules keep their day of month, clamped to the last day of shorter months. */
+export function computeNextSnapshotRunAt(frequency: SnapshotScheduleFrequency, from: Date = new Date()): Date {
+  const next = new Date(from.getTime())
+  if (frequency === 'daily') {
+    next.setUTCDate(next.getUTCDate() + 1)
+  } else if (frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + 7)
+  } else {
+    const day = next.getUTCDate()
+    next.setUTCDate(1)
+    next.setUTCMonth(next.getUTCMonth() + 1)
+    const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate()
+    next.setUTCDate(Math.min(day, lastDay))
+  }
+  return next
+}
+
+// Handles are matched case-insensitively by X, so schedules store them lowercased to keep one per handle.
+export function normalizeScheduleUsername(username: string): string {
+  return username.trim().replace(/^@/, '').toLowerCase()
+}
+
+export async function listSnapshotSchedulesForUser(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<SnapshotSchedule[]> {
+  const { data, error } = await supabase
+    .from('snapshot_schedules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load snapshot schedules: ${error.message}`)
+  }
+
+  return (data || []) as SnapshotSchedule[]
+}
+
+/**
+ * Creates or replaces the user's schedule for `input.username`; each handle has its own schedule. The
+ * next run stays put unless the frequency changes or the schedule is switched back on, in which case it
+ * is one period from now.
+ */
+export async function saveSnapshotSchedule(
+  supabase: SupabaseClient,
+  userId: string,
+  input: SnapshotScheduleInput,
+): Promise<SnapshotSchedule> {
+  const username = normalizeScheduleUsername(input.username)
+  const { data: existing, error: existingError } = await supabase
+    .from('snapshot_schedules')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('username', username)
+    .maybeSingle()
+
+  if (existingError) {
+    throw new Error(`Failed to load snapshot schedule: ${existingError.message}`)
+  }
+
+  const current = existing as SnapshotSchedule | null
+  const keepNextRun =
+    current
+    && current.frequency === input.frequency
+    && (current.enabled || !input.enabled)
+  const nextRunAt = keepNextRun
+    ? current.next_run_at
+    : computeNextSnapshotRunAt(input.frequency).toISOString()
+
+  const { data, error } = await supabase
+    .from('snapshot_schedules')
+    .upsert(
+      {
+        user_id: userId,
+        username,
+        frequency: input.frequency,
+        targets: input.targets,
+        include_media: input.includeMedia,
+        incremental: input.incremental,
+        enabled: input.enabled,
+        next_run_at: nextRunAt,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,username' },
+    )
+    .select('*')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to save snapshot schedule: ${error?.message || 'Unknown error'}`)
+  }
+
+  return data as SnapshotSchedule
+}
+
+export async function deleteSnapshotSchedule(
+  supabase: SupabaseClient,
+  userId: string,
+  scheduleId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from('snapshot_schedules')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', scheduleId)
+
+  if (error) {
+    throw new Error(`Failed to delete snapshot schedule: ${error.message}`)
+  }
+}
+
+async function recordScheduleRun(
+  supabase: SupabaseClient,
+  scheduleId: string,
+  patch: {
+    status: SnapshotScheduleRunStatus
+    message: string
+    nextRunAt: Date
+    jobId?: string
+  },
+) {
+  const nowIso = new Date().toISOString()
+  const { error } = await supabase
+    .from('snapshot_schedules')
+    .update({
+      last_run_at: nowIso,
+      last_run_status: patch.status,
+      last_run_message: patch.message,
+      next_run_at: patch.nextRunAt.toISOString(),
+      ...(patch.jobId ? { last_job_id: patch.jobId } : {}),
+      updated_at: nowIso,
+    })
+    .eq('id', scheduleId)
+
+  if (error) {
+    console.error(`[Snapshot Schedule] Failed to record run for schedule ${scheduleId}:`, error)
+  }
+}
+
+async function runSnapshotSchedule(
+  supabase: SupabaseClient,
+  schedule: SnapshotSchedule,
+  pricing: TwitterScrapePricing,
+  apifyWebhookEnabled: boolean,
+): Promise<SnapshotScheduleRunStatus> {
+  const now = new Date()
+  const nextRunAt = computeNextSnapshotRunAt(schedule.frequency, now)
+  const targets = { ...DEFAULT_SCRAPE_TARGETS, ...schedule.targets }
+
+  // A running job only delays the schedule, so it is picked up again on a later tick.
+  const activeJob = await findActiveBackupJobForUser(supabase, schedule.user_id)
+  if (activeJob) {
+    await recordScheduleRun(supabase, schedule.id, {
+      status: 'skipped_active_job',
+      message: 'Another backup job was still running. Retrying shortly.',
+      nextRunAt: new Date(now.getTime() + ACTIVE_JOB_RETRY_MS),
+    })
+    return 'skipped_active_job'
+  }
+
+  const storageSummary = await calculateUserStorageSummary(supabase, schedule.user_id)
+  if (storageSummary.totalBytes >= USER_STORAGE_LIMITS.maxTotalBytes) {
+    await recordScheduleRun(supabase, schedule.id, {
+      status: 'skipped_storage',
+      message: 'Skipped because your storage limit has been reached.',
+      nextRunAt,
+    })
+    return 'skipped_storage'
+  }
+
+  // Size the run to what is left of this month's budget and skip it when even that cannot fit.
+  const usage = await getTwitterApiUsageSummary(supabase, schedule.user_id)
+  const planResult = planSnapshotScrape({ targets, pricing, runBudgetUsd: usage.remainingUsd })
+  if (!planResult.ok || planResult.plan.estimatedMaxRunCostUsd > usage.remainingUsd) {
+    await recordScheduleRun(supabase, schedule.id, {
+      status: 'skipped_budget',
+      message: `Skipped because it could cost more than the $${usage.remainingUsd.toFixed(2)} left in this month's budget.`,
+      nextRunAt,
+    })
+    return 'skipped_budget'
+  }
+
+  const appBaseUrl = resolveConfiguredAppBaseUrl()
+  const apifyWebhookToken = process.env.APIFY_WEBHOOK_SECRET?.trim() || undefined
+  const retention = await resolveBackupRetention(supabase, schedule.user_id, false)
+  const job = await enqueueSnapshotScrapeJob(supabase, {
+    userId: schedule.user_id,
+    username: schedule.username,
+    targets,
+    includeMedia: schedule.include_media,
+    incremental: schedule.incremental,
+    retention,
+    plan: planResult.plan,
+    apifyWebhook: {
+      enabled: apifyWebhookEnabled && Boolean(appBaseUrl) && Boolean(apifyWebhookToken),
+      baseUrl: appBaseUrl,
+      token: apifyWebhookToken,
+    },
+    monthlyBudget: usage,
+    message: 'Scheduled snapshot queued. Waiting to start...',
+    payload: {
+      snapshot_schedule_id: schedule.id,
+    },
+  })
+
+  await recordScheduleRun(supabase, schedule.id, {
+    status: 'queued',
+    message: 'Scheduled snapshot queued.',
+    nextRunAt,
+    jobId: job.id,
+  })
+  return 'queued'
+}
+
+/** Enqueues every enabled schedule whose next run is due. Called by the hourly Inngest cron. */
+export async function runDueSnapshotSchedules(limit: number = 100): Promise<SnapshotScheduleRunSummary> {
+  const supabase = createAdminClient()
+  const summary: SnapshotScheduleRunSummary = { queued: 0, skipped: 0, failed: 0 }
+
+  const { data, error } = await supabase
+    .from('snapshot_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load due snapshot schedules: ${error.message}`)
+  }
+
+  const schedules = (data || []) as SnapshotSchedule[]
+  if (schedules.length === 0) return summary
+
+  const twitter = getTwitterProvider()
+  if (!twitter.isConfigured()) {
+    throw new Error(`${twitter.getProviderName()} is not configured. Please set up API keys.`)
+  }
+  const pricing = getTwitterScrapePricing(twitter)
+  const apifyWebhookEnabled = twitter.getProviderName() === 'apify'
+
+  for (const schedule of schedules) {
+    try {
+      const status = await runSnapshotSchedule(supabase, schedule, pricing, apifyWebhookEnabled)
+      if (status === 'queued') summary.queued += 1
+      else summary.skipped += 1
+    } catch (runError) {
+      console.error(`[Snapshot Schedule] Failed to run schedule ${schedule.id}:`, runError)
+      summary.failed += 1
+      await recordScheduleRun(supabase, schedule.id, {
+        status: 'failed',
+        message: runError instanceof Error ? runError.message : 'Failed to queue scheduled snapshot.',
+        nextRunAt: computeNextSnapshotRunAt(schedule.frequency),
+      })
+    }
+  }
+
+  return summary
+}
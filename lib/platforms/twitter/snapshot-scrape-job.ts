@@ -9,14 +9,21 @@ import {
   markBackupJobProgress,
   mergeBackupJobPayload,
 } from '@/lib/jobs/backup-jobs'
+import { replaceBackupContent } from '@/lib/backups/backup-content'
 import { deleteBackupAndStorageById } from '@/lib/backups/delete-backup-data'
 import { resolveConfiguredAppBaseUrl, sendBackupReadyEmail } from '@/lib/notifications/backup-ready-email'
 import { recalculateAndPersistBackupStorage } from '@/lib/storage/usage'
 import { getTwitterProvider } from '@/lib/twitter/twitter-service'
-import type { Tweet, TwitterScrapeTargets } from '@/lib/twitter/types'
+import type { Tweet, TwitterList, TwitterScrapeTarget, TwitterScrapeTargets } from '@/lib/twitter/types'
+import {
+  carryOverSnapshotMedia,
+  findIncrementalSnapshotBase,
+  mergeIncrementalTimeline,
+} from '@/lib/platforms/twitter/incremental-snapshot'
+import { TWITTER_SCRAPE_LIMITS } from '@/lib/platforms/twitter/limits'
 import { roundUsd } from '@/lib/twitter/apify-pricing'
 import { buildInternalMediaUrl } from '@/lib/storage/media-url'
-import { uploadObjectToR2 } from '@/lib/storage/r2'
+import { ensureMediaBlobStored, storeMediaBlob } from '@/lib/storage/media-blobs'
 
 const supabase = createAdminClient()
 
@@ -26,6 +33,7 @@ const OPTIONAL_MEDIA_FILE_COLUMNS = new Set([
   'mime_type',
   'media_type',
   'tweet_id',
+  'content_sha256',
 ])
 const DEFAULT_MEDIA_WORKER_COUNT = 6
 const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -78,6 +86,11 @@ function isCancellationError(error: unknown): boolean {
   return error.name === 'RunCancelledError' || message.includes('cancelled by user') || message.includes('cancellation requested')
 }
 
+function buildSingleProviderTargets(targets: TwitterScrapeTargets, provider: string) {
+  const selected = (Object.keys(targets) as TwitterScrapeTarget[]).filter((target) => targets[target])
+  return Object.fromEntries(selected.map((target) => [target, provider]))
+}
+
 function buildLiveMessage(metrics: SnapshotLiveMetrics): string {
   const phaseLabel = metrics.phase || 'running'
   return `In progress (${phaseLabel})`
@@ -156,13 +169,8 @@ async function processScrapedProfileMedia(
       const buffer = Buffer.from(arrayBuffer)
       const contentType = response.headers.get('content-type') || 'image/jpeg'
 
-      const storagePath = `${userId}/profile_media/${backupId}/${filename}`
-      await uploadObjectToR2({
-        key: storagePath,
-        body: buffer,
-        contentType,
-        upsert: true,
-      })
+      const blob = await storeMediaBlob({ userId, body: buffer, contentType, fileName: filename })
+      const storagePath = blob.storagePath
 
       const { data: existing } = await supabase
         .from('media_files')
@@ -180,11 +188,13 @@ async function processScrapedProfileMedia(
           file_size: buffer.length,
           mime_type: contentType,
           media_type: 'profile_media',
+          content_sha256: blob.sha256,
         })
         if (insertError) {
           console.error(`[Profile Media] DB insert error for ${filename}:`, insertError)
         }
       }
+      await ensureMediaBlobStored(supabase, blob, { body: buffer, contentType })
 
       return storagePath
     } catch (err) {
@@ -307,13 +317,8 @@ async function processScrapedMedia(
       const filename = urlParts[urlParts.length - 1] || `${tweetId}-${media.type}`
 
       const mimeType = media.type === 'photo' ? 'image/jpeg' : media.type === 'video' ? 'video/mp4' : 'image/gif'
-      const storagePath = `${userId}/scraped_media/${filename}`
-      await uploadObjectToR2({
-        key: storagePath,
-        body: buffer,
-        contentType: mimeType,
-        upsert: true,
-      })
+      const blob = await storeMediaBlob({ userId, body: buffer, contentType: mimeType, fileName: filename })
+      const storagePath = blob.storagePath
 
       if (!seenStoragePaths.has(storagePath)) {
         seenStoragePaths.add(storagePath)
@@ -326,6 +331,7 @@ async function processScrapedMedia(
           mime_type: mimeType,
           media_type: 'scraped_media',
           tweet_id: tweetId,
+          content_sha256: blob.sha256,
         }
 
         const { data: existing } = await supabase
@@ -343,6 +349,7 @@ async function processScrapedMedia(
             return
           }
         }
+        await ensureMediaBlobStored(supabase, blob, { body: buffer, contentType: mimeType })
       }
 
       const internalUrl = buildInternalMediaUrl(storagePath)
@@ -377,6 +384,8 @@ export async function processSnapshotScrapeJob(params: {
   tweetsToScrape: number
   targets: TwitterScrapeTargets
   includeMedia?: boolean
+  // Start from the newest tweet in the user's previous snapshot of this account and merge into it.
+  incremental?: boolean
   retention?: {
     mode: 'account' | 'guest_30d'
     expiresAtIso: string | null
@@ -397,7 +406,19 @@ export async function processSnapshotScrapeJob(params: {
     estimatedMaxRunCostUsd: number
   }
 }) {
-  const { jobId, userId, username, tweetsToScrape, targets, includeMedia, retention, socialGraphMaxItems, apifyWebhook, apiBudget } = params
+  const {
+    jobId,
+    userId,
+    username,
+    tweetsToScrape,
+    targets,
+    includeMedia,
+    incremental,
+    retention,
+    socialGraphMaxItems,
+    apifyWebhook,
+    apiBudget,
+  } = params
   const shouldIncludeMedia = includeMedia !== false
   let backupId: string | null = null
   const apifyRuns: SnapshotApifyRuns = {
@@ -483,12 +504,20 @@ export async function processSnapshotScrapeJob(params: {
       throw new Error(`${twitter.getProviderName()} is not configured. Please set up API keys.`)
     }
 
+    const incrementalBase = incremental
+      ? await findIncrementalSnapshotBase(supabase, { userId, username, targets })
+      : null
+    if (incremental && !incrementalBase) {
+      console.log(`[Scrape Job] No earlier snapshot of @${username} to build on; running a full scrape.`)
+    }
+
     await syncLiveMetrics({ phase: 'scraping' })
     await ensureSnapshotJobNotCancelled(jobId)
 
     const result = await twitter.scrapeAll(username, tweetsToScrape, {
       targets,
       socialGraphMaxItems,
+      sinceTweetId: incrementalBase?.sinceTweetId,
       shouldCancel: async () => isBackupJobCancellationRequested(supabase, jobId),
       apifyWebhook: apifyWebhook
         ? {
@@ -526,6 +555,53 @@ export async function processSnapshotScrapeJob(params: {
     })
     await ensureSnapshotJobNotCancelled(jobId)
 
+    // Lists ride along with the social graph targets and get whatever the scrape left of the run budget.
+    // A failed or capped list scrape only marks the run partial.
+    let lists: TwitterList[] = []
+    if ((targets.followers || targets.following) && twitter.scrapeLists) {
+      const markListsPartial = (reason: string) => {
+        result.metadata.partial_reasons = [...(result.metadata.partial_reasons || []), reason]
+        result.metadata.is_partial = true
+      }
+      const listsBudgetUsd = roundUsd(apiBudget.effectiveRunBudgetUsd - result.cost.total_cost)
+      if (listsBudgetUsd <= 0) {
+        markListsPartial('lists_budget_cap_reached')
+      } else {
+        try {
+          const listScrape = await twitter.scrapeLists(username, {
+            maxItems: TWITTER_SCRAPE_LIMITS.maxLists,
+            maxMembersPerList: TWITTER_SCRAPE_LIMITS.maxListMembers,
+            maxCostUsd: listsBudgetUsd,
+            shouldCancel: async () => isBackupJobCancellationRequested(supabase, jobId),
+          })
+          lists = listScrape.lists
+          if (listScrape.cost_usd > 0) {
+            result.cost.total_cost = roundUsd(result.cost.total_cost + listScrape.cost_usd)
+            result.cost.breakdown = { ...result.cost.breakdown, lists: listScrape.cost_usd }
+            await syncLiveMetrics({ api_cost_usd: result.cost.total_cost })
+          }
+          if (listScrape.is_partial) markListsPartial('lists_limit_reached')
+        } catch (listsError) {
+          if (isCancellationError(listsError)) throw listsError
+          console.warn(`[Scrape Job] List scrape failed for @${username}:`, listsError)
+          markListsPartial('lists_unavailable')
+        }
+      }
+      await ensureSnapshotJobNotCancelled(jobId)
+    }
+
+    // Only newly scraped items need their media downloaded; carried-over tweets already point at stored blobs.
+    const timeline = incrementalBase
+      ? await mergeIncrementalTimeline(supabase, {
+          baseBackupId: incrementalBase.backupId,
+          targets,
+          tweets: result.tweets,
+          replies: result.replies,
+          pinnedTweetIds: result.metadata.pinned_tweet_ids,
+        })
+      : { tweets: result.tweets, replies: result.replies }
+    await ensureSnapshotJobNotCancelled(jobId)
+
     const timelineItems = [...result.tweets, ...result.replies]
     const timelineItemsWithMedia = timelineItems.filter((t) => t.media && t.media.length > 0)
     const tweetMediaCount = timelineItemsWithMedia.reduce((sum, t) => sum + (t.media?.length || 0), 0)
@@ -556,12 +632,7 @@ export async function processSnapshotScrapeJob(params: {
       backup_type: 'snapshot',
       source: 'scrape',
       data: {
-        tweets: result.tweets,
-        replies: result.replies,
-        followers: result.followers,
-        following: result.following,
-        likes: [],
-        direct_messages: [],
+        lists,
         profile: {
           username: result.metadata.username,
           displayName: result.metadata.displayName,
@@ -574,10 +645,11 @@ export async function processSnapshotScrapeJob(params: {
           statusesCount: result.metadata.profileStatusesCount,
         },
         stats: {
-          tweets: result.tweets.length,
-          replies: result.replies.length,
+          tweets: timeline.tweets.length,
+          replies: timeline.replies.length,
           followers: followersDisplayCount,
           following: followingDisplayCount,
+          lists: lists.length,
           likes: 0,
           dms: 0,
           media_files: totalMediaCount,
@@ -585,12 +657,26 @@ export async function processSnapshotScrapeJob(params: {
         scrape: {
           provider: result.cost.provider,
           total_cost: result.cost.total_cost,
+          ...(result.cost.breakdown ? { cost_breakdown: result.cost.breakdown } : {}),
           scraped_at: result.metadata.scraped_at,
           is_partial: result.metadata.is_partial,
           partial_reasons: result.metadata.partial_reasons || [],
           timeline_limit_hit: Boolean(result.metadata.timeline_limit_hit),
           social_graph_limit_hit: Boolean(result.metadata.social_graph_limit_hit),
           targets,
+          target_providers: result.metadata.target_providers ?? buildSingleProviderTargets(targets, result.cost.provider),
+          ...(result.metadata.provider_fallbacks?.length ? { provider_fallbacks: result.metadata.provider_fallbacks } : {}),
+          ...(incrementalBase
+            ? {
+                incremental: {
+                  base_backup_id: incrementalBase.backupId,
+                  since_tweet_id: incrementalBase.sinceTweetId,
+                  new_tweets: result.tweets.length,
+                  new_replies: result.replies.length,
+                  reached_known_tweets: Boolean(result.metadata.incremental?.reached_known_tweets),
+                },
+              }
+            : {}),
           budget: {
             monthly_spent_before_run_usd: apiBudget.monthlySpentBeforeRunUsd,
             monthly_limit_usd: apiBudget.monthlyLimitUsd,
@@ -680,30 +766,25 @@ export async function processSnapshotScrapeJob(params: {
       )
     }
 
-    if (tweetMediaCount > 0) {
-      const { data: currentBackup } = await supabase
-        .from('backups')
-        .select('data')
-        .eq('id', insertedBackup.id)
-        .maybeSingle()
-
-      const currentData =
-        currentBackup?.data && typeof currentBackup.data === 'object' && !Array.isArray(currentBackup.data)
-          ? (currentBackup.data as Record<string, unknown>)
-          : {}
-
-      await supabase
-        .from('backups')
-        .update({
-          data: {
-            ...currentData,
-            tweets: result.tweets,
-            replies: result.replies,
-          },
-        })
-        .eq('id', insertedBackup.id)
+    if (incrementalBase) {
+      await carryOverSnapshotMedia(supabase, {
+        fromBackupId: incrementalBase.backupId,
+        toBackupId: insertedBackup.id,
+      })
     }
 
+    // Written after media processing so the rows carry rewritten media URLs.
+    await replaceBackupContent(supabase, {
+      backupId: insertedBackup.id,
+      userId,
+      content: {
+        tweets: timeline.tweets,
+        replies: timeline.replies,
+        followers: result.followers,
+        following: result.following,
+      },
+    })
+
     await syncLiveMetrics({ phase: 'finalizing' })
     await ensureSnapshotJobNotCancelled(jobId)
     await recalculateAndPersistBackupStorage(supabase, insertedBackup.id)
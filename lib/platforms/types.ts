@@ -1,4 +1,4 @@
-export const PLATFORM_IDS = ['twitter', 'instagram', 'tiktok'] as const
+export const PLATFORM_IDS = ['twitter', 'instagram', 'tiktok', 'bluesky', 'mastodon', 'threads', 'facebook'] as const
 
 export type PlatformId = (typeof PLATFORM_IDS)[number]
 
@@ -0,0 +1,133 @@
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { deleteObjectsFromR2, uploadObjectToR2 } from '@/lib/storage/r2'
+
+export type StoredMediaBlob = {
+  userId: string
+  storagePath: string
+  sha256: string
+  alreadyExists: boolean
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+}
+
+export function hashMediaBuffer(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex')
+}
+
+// The extension is kept so viewers can still tell videos from images by URL.
+export function resolveMediaExtension(fileName: string | null | undefined, contentType?: string | null): string | null {
+  const fromName = fileName?.split('?')[0].split('.').pop()?.toLowerCase() || ''
+  if (fileName?.includes('.') && /^[a-z0-9]{1,8}$/.test(fromName)) return fromName
+  const mime = contentType?.split(';')[0].trim().toLowerCase() || ''
+  return MIME_EXTENSIONS[mime] || null
+}
+
+export function buildMediaBlobPath(userId: string, sha256: string, extension?: string | null): string {
+  return `${userId}/blobs/${sha256.slice(0, 2)}/${sha256}${extension ? `.${extension}` : ''}`
+}
+
+export function isMediaBlobPath(storagePath: string): boolean {
+  return /^[^/]+\/blobs\//.test(storagePath)
+}
+
+const CLAIM_RETRY_DELAY_MS = 2000
+const MAX_CLAIM_ATTEMPTS = 30
+
+/**
+ * Stores media once per user under its SHA-256, so every backup that saves the same file shares one
+ * object. Callers record the returned path on their `media_files` rows; the blob is deleted only when
+ * no row references it any more.
+ */
+export async function storeMediaBlob(input: {
+  userId: string
+  body: Buffer
+  contentType: string
+  fileName?: string | null
+}): Promise<StoredMediaBlob> {
+  const sha256 = hashMediaBuffer(input.body)
+  const storagePath = buildMediaBlobPath(input.userId, sha256, resolveMediaExtension(input.fileName, input.contentType))
+  const { alreadyExists } = await uploadObjectToR2({
+    key: storagePath,
+    body: input.body,
+    contentType: input.contentType,
+    upsert: false,
+  })
+  return { userId: input.userId, storagePath, sha256, alreadyExists }
+}
+
+/**
+ * Call once the caller's `media_files` row for the blob exists. Registers the blob in `media_blobs`;
+ * when a backup delete has released it, waits for that delete to finish and uploads it again.
+ */
+export async function ensureMediaBlobStored(
+  supabase: SupabaseClient,
+  blob: StoredMediaBlob,
+  input: { body: Buffer; contentType: string },
+): Promise<void> {
+  for (let attempt = 1; ; attempt += 1) {
+    const { data: claim, error } = await supabase.rpc('claim_media_blob', {
+      p_storage_path: blob.storagePath,
+      p_user_id: blob.userId,
+      p_content_sha256: blob.sha256,
+    })
+    if (error) {
+      throw new Error(`Failed to register media blob: ${error.message}`)
+    }
+    if (claim === 'stored') return
+    // A new registration means any delete is done; re-upload unless this caller just wrote a fresh object.
+    if (claim === 'created') {
+      if (!blob.alreadyExists && attempt === 1) return
+      await uploadObjectToR2({
+        key: blob.storagePath,
+        body: input.body,
+        contentType: input.contentType,
+        upsert: true,
+      })
+      return
+    }
+    if (attempt >= MAX_CLAIM_ATTEMPTS) {
+      throw new Error(`Media blob ${blob.storagePath} is still being deleted.`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, CLAIM_RETRY_DELAY_MS))
+  }
+}
+
+/**
+ * Deletes the blobs no `media_files` row references any more. The reference check and the release
+ * happen in one statement, so an import that inserts its row first keeps the blob, and one that
+ * inserts it later waits in `ensureMediaBlobStored` until the object is gone. Returns the deleted paths.
+ */
+export async function deleteUnreferencedMediaBlobs(supabase: SupabaseClient, storagePaths: string[]): Promise<string[]> {
+  const { data, error } = await supabase.rpc('release_unreferenced_media_blobs', { p_storage_paths: storagePaths })
+  if (error) {
+    throw new Error(`Failed to release media blobs: ${error.message}`)
+  }
+  const released = ((data || []) as unknown[]).filter((path): path is string => typeof path === 'string')
+  if (released.length === 0) return []
+
+  try {
+    await deleteObjectsFromR2(released)
+  } catch (deleteError) {
+    // The objects are still there, so hand them back instead of leaving imports waiting on the release.
+    await supabase.from('media_blobs').update({ released_at: null }).in('storage_path', released)
+    throw deleteError
+  }
+
+  const { error: forgetError } = await supabase
+    .from('media_blobs')
+    .delete()
+    .in('storage_path', released)
+    .not('released_at', 'is', null)
+  if (forgetError) {
+    throw new Error(`Failed to forget deleted media blobs: ${forgetError.message}`)
+  }
+  return released
+}
@@ -0,0 +1,296 @@
+import { PassThrough, type Readable } from 'node:stream'
+import yauzl from 'yauzl'
+import {
+  getObjectMetadataFromR2,
+  normalizeStoragePath,
+  openObjectRangeStreamFromR2,
+  readObjectRangeFromR2,
+} from '@/lib/storage/r2'
+
+export type R2ZipArchive = {
+  key: string
+  sizeBytes: number
+  entries: yauzl.Entry[]
+  readEntry: (entry: yauzl.Entry, maxBytes: number) => Promise<Buffer>
+  close: () => void
+}
+
+// Small reads (local headers, and the data of small entries right after them) are served from
+// read-ahead blocks, so only large entry data gets a range request of its own.
+const READ_AHEAD_MAX_READ_BYTES = 16 * 1024
+const READ_AHEAD_BLOCK_BYTES = 256 * 1024
+const READ_AHEAD_MAX_BLOCKS = 8
+// Where yauzl looks for the end of central directory record: the record, its comment and a ZIP64 locator.
+const ZIP_TAIL_BYTES = 22 + 0xffff + 20
+// Central directories above this are listed through read-ahead blocks instead of one buffer.
+const MAX_PRELOADED_CENTRAL_DIRECTORY_BYTES = 64 * 1024 * 1024
+
+// yauzl asks for byte ranges synchronously and expects a stream back, so each range
+// is served through a PassThrough that is fed from memory or once the R2 range request resolves.
+class R2RangeReader extends yauzl.RandomAccessReader {
+  private readonly key: string
+  private readonly sizeBytes: number
+  private readonly regions: Array<{ start: number; data: Buffer }> = []
+  private readonly blocks = new Map<number, Promise<Buffer>>()
+
+  constructor(key: string, sizeBytes: number) {
+    super()
+    this.key = key
+    this.sizeBytes = sizeBytes
+  }
+
+  // Keeps a range read up front (the archive tail, the central directory) for yauzl to read from.
+  preload(start: number, data: Buffer) {
+    this.regions.push({ start, data })
+  }
+
+  findPreloaded(start: number, end: number): Buffer | null {
+    for (const region of this.regions) {
+      if (start >= region.start && end <= region.start + region.data.length) {
+        return region.data.subarray(start - region.start, end - region.start)
+      }
+    }
+    return null
+  }
+
+  private readBlock(blockStart: number): Promise<Buffer> {
+    const cached = this.blocks.get(blockStart)
+    if (cached) {
+      this.blocks.delete(blockStart)
+      this.blocks.set(blockStart, cached)
+      return cached
+    }
+
+    const block = readObjectRangeFromR2(this.key, blockStart, Math.min(this.sizeBytes, blockStart + READ_AHEAD_BLOCK_BYTES))
+    block.catch(() => this.blocks.delete(blockStart))
+    this.blocks.set(blockStart, block)
+    if (this.blocks.size > READ_AHEAD_MAX_BLOCKS) {
+      const oldest = this.blocks.keys().next().value
+      if (oldest !== undefined) this.blocks.delete(oldest)
+    }
+    return block
+  }
+
+  private async readThroughBlocks(start: number, end: number): Promise<Buffer> {
+    const firstBlock = Math.floor(start / READ_AHEAD_BLOCK_BYTES) * READ_AHEAD_BLOCK_BYTES
+    const parts: Buffer[] = []
+    for (let blockStart = firstBlock; blockStart < end; blockStart += READ_AHEAD_BLOCK_BYTES) {
+      parts.push(await this.readBlock(blockStart))
+    }
+    const combined = parts.length === 1 ? parts[0] : Buffer.concat(parts)
+    return combined.subarray(start - firstBlock, end - firstBlock)
+  }
+
+  _readStreamForRange(start: number, end: number): Readable {
+    const output = new PassThrough()
+    if (end <= start) {
+      output.end()
+      return output
+    }
+
+    const preloaded = this.findPreloaded(start, end)
+    if (preloaded) {
+      output.end(preloaded)
+      return output
+    }
+
+    if (end - start <= READ_AHEAD_MAX_READ_BYTES) {
+      this.readThroughBlocks(start, end)
+        .then((data) => {
+          if (!output.destroyed) output.end(data)
+        })
+        .catch((error) => output.destroy(error instanceof Error ? error : new Error(String(error))))
+      return output
+    }
+
+    openObjectRangeStreamFromR2(this.key, start, end)
+      .then((source) => {
+        if (output.destroyed) {
+          source.destroy()
+          return
+        }
+        source.on('error', (error) => output.destroy(error))
+        output.on('close', () => source.destroy())
+        source.pipe(output)
+      })
+      .catch((error) => output.destroy(error instanceof Error ? error : new Error(String(error))))
+
+    return output
+  }
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  return Number(buffer.readBigUInt64LE(offset))
+}
+
+/**
+ * Reads the archive tail and the whole central directory with one range request each, so
+ * listing entries does not cost a request per header. Anything unexpected is left for yauzl
+ * to report when it parses the same bytes.
+ */
+async function preloadCentralDirectory(reader: R2RangeReader, key: string, sizeBytes: number): Promise<void> {
+  const tailStart = Math.max(0, sizeBytes - ZIP_TAIL_BYTES)
+  const tail = await readObjectRangeFromR2(key, tailStart, sizeBytes)
+  reader.preload(tailStart, tail)
+
+  let eocdIndex = -1
+  for (let index = tail.length - 22; index >= 0; index -= 1) {
+    if (tail.readUInt32LE(index) === 0x06054b50) {
+      eocdIndex = index
+      break
+    }
+  }
+  if (eocdIndex < 0) return
+
+  let directorySize = tail.readUInt32LE(eocdIndex + 12)
+  let directoryOffset = tail.readUInt32LE(eocdIndex + 16)
+  const locatorIndex = eocdIndex - 20
+  if (locatorIndex >= 0 && tail.readUInt32LE(locatorIndex) === 0x07064b50) {
+    const zip64RecordOffset = readUInt64(tail, locatorIndex + 8)
+    if (zip64RecordOffset + 56 > sizeBytes) return
+    let zip64Record = reader.findPreloaded(zip64RecordOffset, zip64RecordOffset + 56)
+    if (!zip64Record) {
+      zip64Record = await readObjectRangeFromR2(key, zip64RecordOffset, zip64RecordOffset + 56)
+      reader.preload(zip64RecordOffset, zip64Record)
+    }
+    if (zip64Record.readUInt32LE(0) !== 0x06064b50) return
+    directorySize = readUInt64(zip64Record, 40)
+    directoryOffset = readUInt64(zip64Record, 48)
+  }
+
+  if (directorySize <= 0 || directorySize > MAX_PRELOADED_CENTRAL_DIRECTORY_BYTES) return
+  if (directoryOffset + directorySize > sizeBytes) return
+  if (reader.findPreloaded(directoryOffset, directoryOffset + directorySize)) return
+  reader.preload(directoryOffset, await readObjectRangeFromR2(key, directoryOffset, directoryOffset + directorySize))
+}
+
+function openZipFile(reader: R2RangeReader, sizeBytes: number): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromRandomAccessReader(reader, sizeBytes, { lazyEntries: true, autoClose: false }, (error, zipfile) => {
+      if (error || !zipfile) {
+        reject(error || new Error('Failed to open ZIP archive'))
+        return
+      }
+      resolve(zipfile)
+    })
+  })
+}
+
+function listEntries(zipfile: yauzl.ZipFile, maxEntries: number): Promise<yauzl.Entry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: yauzl.Entry[] = []
+    let settled = false
+
+    const fail = (error: Error) => {
+      if (settled) return
+      settled = true
+      reject(error)
+    }
+
+    zipfile.on('entry', (entry: yauzl.Entry) => {
+      if (settled) return
+      entries.push(entry)
+      if (entries.length > maxEntries) {
+        fail(new Error(`Archive contains too many entries (${entries.length}). Limit is ${maxEntries}.`))
+        return
+      }
+      zipfile.readEntry()
+    })
+    zipfile.on('end', () => {
+      if (settled) return
+      settled = true
+      resolve(entries)
+    })
+    zipfile.on('error', fail)
+    zipfile.readEntry()
+  })
+}
+
+function readEntryWithLimit(zipfile: yauzl.ZipFile, entry: yauzl.Entry, maxBytes: number): Promise<Buffer> {
+  if (entry.uncompressedSize > maxBytes) {
+    return Promise.reject(
+      new Error(`Entry ${entry.fileName} exceeds max allowed size of ${maxBytes} bytes.`),
+    )
+  }
+
+  return new Promise((resolve, reject) => {
+    zipfile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error || new Error(`Failed to open ZIP entry ${entry.fileName}`))
+        return
+      }
+
+      const chunks: Buffer[] = []
+      let totalBytes = 0
+      let settled = false
+
+      stream.on('data', (chunk: Buffer) => {
+        if (settled) return
+        totalBytes += chunk.length
+        if (totalBytes > maxBytes) {
+          settled = true
+          stream.destroy()
+          reject(new Error(`Entry ${entry.fileName} exceeds max allowed size of ${maxBytes} bytes.`))
+          return
+        }
+        chunks.push(chunk)
+      })
+      stream.on('end', () => {
+        if (settled) return
+        settled = true
+        resolve(Buffer.concat(chunks))
+      })
+      stream.on('error', (streamError) => {
+        if (settled) return
+        settled = true
+        reject(streamError)
+      })
+    })
+  })
+}
+
+/**
+ * Opens a ZIP stored in R2 without downloading it: the central directory is read
+ * in one range request, and entries are fetched as they are read.
+ * Returns null when the object does not exist.
+ */
+export async function openR2ZipArchive(
+  key: string,
+  options: {
+    maxEntries: number
+  },
+): Promise<R2ZipArchive | null> {
+  const normalizedKey = normalizeStoragePath(key)
+  const metadata = await getObjectMetadataFromR2(normalizedKey)
+  if (!metadata) return null
+
+  const sizeBytes = metadata.contentLength || 0
+  if (sizeBytes <= 0) {
+    throw new Error('Archive file is empty')
+  }
+
+  const reader = new R2RangeReader(normalizedKey, sizeBytes)
+  await preloadCentralDirectory(reader, normalizedKey, sizeBytes)
+  const zipfile = await openZipFile(reader, sizeBytes)
+
+  let entries: yauzl.Entry[]
+  try {
+    entries = await listEntries(zipfile, options.maxEntries)
+  } catch (error) {
+    zipfile.close()
+    throw error
+  }
+
+  let closed = false
+  return {
+    key: normalizedKey,
+    sizeBytes,
+    entries,
+    readEntry: (entry, maxBytes) => readEntryWithLimit(zipfile, entry, maxBytes),
+    close: () => {
+      if (closed) return
+      closed = true
+      zipfile.close()
+    },
+  }
+}
@@ -1,6 +1,8 @@
+import { Readable } from 'node:stream'
 import {
   AbortMultipartUploadCommand,
   CompleteMultipartUploadCommand,
+  CopyObjectCommand,
   CreateMultipartUploadCommand,
   DeleteObjectsCommand,
   GetObjectCommand,
@@ -9,10 +11,14 @@ import {
   PutObjectCommand,
   S3Client,
   UploadPartCommand,
+  UploadPartCopyCommand,
 } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 
 const DEFAULT_SIGNED_URL_TTL_SECONDS = 3600
+// S3-compatible CopyObject rejects sources above 5GB; larger objects are copied part by part.
+const MAX_SINGLE_COPY_BYTES = 5 * 1024 * 1024 * 1024
+const MULTIPART_COPY_PART_BYTES = 512 * 1024 * 1024
 
 type UploadObjectInput = {
   key: string
@@ -198,6 +204,113 @@ export async function downloadObjectFromR2(key: string): Promise<Buffer | null>
   }
 }
 
+/**
+ * Opens a stream over a byte range of an object. `end` is exclusive, matching
+ * Node stream conventions rather than the inclusive HTTP Range header.
+ */
+export async function openObjectRangeStreamFromR2(key: string, start: number, end: number): Promise<Readable> {
+  const client = getR2Client()
+  const { bucket } = getR2Config()
+  const normalizedKey = normalizeStoragePath(key)
+
+  if (start < 0 || end <= start) {
+    throw new Error(`Invalid byte range ${start}-${end} for ${normalizedKey}`)
+  }
+
+  const response = await client.send(
+    new GetObjectCommand({
+      Bucket: bucket,
+      Key: normalizedKey,
+      Range: `bytes=${start}-${end - 1}`,
+    }),
+  )
+
+  const body = response.Body as unknown
+  if (body && typeof (body as Readable).pipe === 'function') {
+    return body as Readable
+  }
+
+  return Readable.from([await bodyToBuffer(body)])
+}
+
+// Same range semantics as `openObjectRangeStreamFromR2`, for ranges small enough to hold in memory.
+export async function readObjectRangeFromR2(key: string, start: number, end: number): Promise<Buffer> {
+  const buffer = await bodyToBuffer(await openObjectRangeStreamFromR2(key, start, end))
+  if (buffer.length !== end - start) {
+    throw new Error(`Expected ${end - start} bytes from ${normalizeStoragePath(key)} at ${start}, got ${buffer.length}`)
+  }
+  return buffer
+}
+
+function encodeCopySource(bucket: string, key: string): string {
+  return `${bucket}/${key.split('/').map((segment) => encodeURIComponent(segment)).join('/')}`
+}
+
+export async function copyObjectInR2(
+  sourceKey: string,
+  destinationKey: string,
+  options?: {
+    contentType?: string
+  },
+): Promise<{ contentLength: number }> {
+  const client = getR2Client()
+  const { bucket } = getR2Config()
+  const normalizedSourceKey = normalizeStoragePath(sourceKey)
+  const normalizedDestinationKey = normalizeStoragePath(destinationKey)
+
+  const metadata = await getObjectMetadataFromR2(normalizedSourceKey)
+  if (!metadata) {
+    throw new Error(`Source object not found: ${normalizedSourceKey}`)
+  }
+
+  const contentLength = metadata.contentLength || 0
+  const contentType = options?.contentType || metadata.contentType || undefined
+  const copySource = encodeCopySource(bucket, normalizedSourceKey)
+
+  if (contentLength <= MAX_SINGLE_COPY_BYTES) {
+    await client.send(
+      new CopyObjectCommand({
+        Bucket: bucket,
+        Key: normalizedDestinationKey,
+        CopySource: copySource,
+        ContentType: contentType,
+        MetadataDirective: options?.contentType ? 'REPLACE' : undefined,
+      }),
+    )
+    return { contentLength }
+  }
+
+  const { uploadId } = await createMultipartUpload(normalizedDestinationKey, { contentType })
+  try {
+    const parts: MultipartUploadPart[] = []
+    for (let start = 0, partNumber = 1; start < contentLength; start += MULTIPART_COPY_PART_BYTES, partNumber += 1) {
+      const end = Math.min(contentLength, start + MULTIPART_COPY_PART_BYTES) - 1
+      const response = await client.send(
+        new UploadPartCopyCommand({
+          Bucket: bucket,
+          Key: normalizedDestinationKey,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          CopySource: copySource,
+          CopySourceRange: `bytes=${start}-${end}`,
+        }),
+      )
+      const etag = response.CopyPartResult?.ETag
+      if (!etag) {
+        throw new Error(`Missing ETag for copied part ${partNumber}`)
+      }
+      parts.push({ partNumber, etag })
+    }
+
+    await completeMultipartUpload(normalizedDestinationKey, { uploadId, parts })
+  } catch (error) {
+    await abortMultipartUpload(normalizedDestinationKey, { uploadId }).catch(() => {})
+    throw error
+  }
+
+  return { contentLength }
+}
+
 export async function deleteObjectsFromR2(keys: string[]): Promise<void> {
   if (keys.length === 0) return
 
@@ -1,4 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchBackupContentBytes } from '@/lib/backups/backup-content'
 
 type JsonRecord = Record<string, unknown>
 
@@ -129,13 +130,15 @@ function buildUpdatedBackupData(
   }
 }
 
+// Tweets, likes and the social graph live in their own tables; `contentBytes` is their size as reported by Postgres.
 export function calculateBackupStorageBreakdown(
   backupData: unknown,
   mediaRows: MediaFileRow[],
+  contentBytes = 0,
 ): BackupStorageBreakdown {
   const parsedData = toRecord(backupData)
   const payloadSource = pruneStorageMetadataForSize(parsedData)
-  const payloadBytes = calculateJsonBytes(payloadSource)
+  const payloadBytes = calculateJsonBytes(payloadSource) + contentBytes
   const mediaRowsSafe = Array.isArray(mediaRows) ? mediaRows : []
   let mediaBytes = 0
   let mediaFiles = 0
@@ -185,17 +188,24 @@ export async function recalculateAndPersistBackupStorage(
     return null
   }
 
-  const { data: mediaRows, error: mediaError } = await supabase
-    .from('media_files')
-    .select('file_size, file_path')
-    .eq('backup_id', backupId)
+  const [{ data: mediaRows, error: mediaError }, contentBytes] = await Promise.all([
+    supabase
+      .from('media_files')
+      .select('file_size, file_path')
+      .eq('backup_id', backupId),
+    fetchBackupContentBytes(supabase, [backupId]),
+  ])
 
   if (mediaError) {
     console.error('[Storage] Failed to fetch media rows for recalc:', mediaError)
     return null
   }
 
-  const breakdown = calculateBackupStorageBreakdown(backup.data, (mediaRows || []) as MediaFileRow[])
+  const breakdown = calculateBackupStorageBreakdown(
+    backup.data,
+    (mediaRows || []) as MediaFileRow[],
+    contentBytes.get(backupId) || 0,
+  )
   const updatedData = buildUpdatedBackupData(toRecord(backup.data), breakdown)
 
   const { error: updateError } = await supabase
@@ -235,7 +245,9 @@ export async function calculateUserStorageSummary(
 
   const backupRows = ((backups || []) as BackupRow[])
   const mediaRowsSafe = ((mediaRows || []) as MediaFileRow[])
+  const contentBytes = await fetchBackupContentBytes(supabase, backupRows.map((backup) => backup.id))
 
+  // Media blobs are content-addressed, so backups that saved the same file share one path and count once.
   const uniquePathUsage = new Map<string, PathUsage>()
 
   for (const media of mediaRowsSafe) {
@@ -264,7 +276,7 @@ export async function calculateUserStorageSummary(
     else uniqueMediaBytes += usage.size
   }
   for (const backup of backupRows) {
-    payloadBytes += calculateJsonBytes(pruneStorageMetadataForSize(toRecord(backup.data)))
+    payloadBytes += calculateJsonBytes(pruneStorageMetadataForSize(toRecord(backup.data))) + (contentBytes.get(backup.id) || 0)
   }
 
   return {
@@ -39,6 +39,19 @@ export function maxApifySocialGraphItemsForBudget(budgetUsd: number): number {
   return Math.max(0, Math.floor(safeBudget / TWITTER_SCRAPE_API_LIMITS.socialGraphItemUsd))
 }
 
+export function estimateApifyListsCostUsd(listItems: number): number {
+  const safeItems = Math.max(0, Math.floor(clampNonNegativeNumber(listItems)))
+  if (safeItems <= 0) return 0
+  return roundUsd(safeItems * TWITTER_SCRAPE_API_LIMITS.listItemUsd)
+}
+
+export function maxApifyListItemsForBudget(budgetUsd: number): number {
+  const safeBudget = clampNonNegativeNumber(budgetUsd)
+  if (safeBudget <= 0) return 0
+  if (TWITTER_SCRAPE_API_LIMITS.listItemUsd <= 0) return Number.MAX_SAFE_INTEGER
+  return Math.max(0, Math.floor(safeBudget / TWITTER_SCRAPE_API_LIMITS.listItemUsd))
+}
+
 export function maxApifyTimelineItemsForBudget(budgetUsd: number): number {
   const safeBudget = clampNonNegativeNumber(budgetUsd)
   if (safeBudget <= 0) return 0
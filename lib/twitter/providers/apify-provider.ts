@@ -5,17 +5,25 @@ import {
   Following,
   Tweet,
   TweetMedia,
+  TwitterList,
+  TwitterListMember,
+  TwitterListRelationship,
+  TwitterListScrapeOptions,
+  TwitterListScrapeResult,
   TwitterScrapeOptions,
   TwitterScrapeProgressUpdate,
   TwitterScrapeResult,
   TwitterScrapeTargets,
 } from '../types'
 import {
+  estimateApifyListsCostUsd,
   estimateApifySocialGraphCostUsd,
   estimateApifyTimelineCostUsd,
   estimateApifyTimelineExtraItemsCostUsd,
+  maxApifyListItemsForBudget,
   roundUsd,
 } from '../apify-pricing'
+import { compareTweetIds } from '../tweet-ids'
 
 type ProfileMetadata = {
   profileImageUrl?: string
@@ -32,6 +40,8 @@ type TimelineScrape = {
   replies: Tweet[]
   profile: ProfileMetadata
   totalItems: number
+  pinnedTweetIds: string[]
+  reachedKnownTweets: boolean
 }
 
 type SocialGraphScrape = {
@@ -52,6 +62,7 @@ type SocialUser = {
 type RunDatasetPollResult = {
   items: Record<string, unknown>[]
   finalStatus: string
+  stoppedEarly: boolean
 }
 
 class RunCancelledError extends Error {
@@ -79,6 +90,7 @@ const APIFY_TERMINAL_WEBHOOK_EVENTS = [
 const KAITO_RELATION_MIN_ITEMS = 200
 const KAITO_RELATION_DEFAULT_ITEMS = 100_000
 const USERNAME_VALIDATION_MAX_ITEMS = 5
+const LISTS_DEFAULT_MAX_ITEMS = 500
 
 type TimelineProgress = {
   tweets: number
@@ -101,6 +113,13 @@ type SocialGraphProgress = {
  * - apidojo/twitter-scraper-lite (targeted pinned tweet recovery by status URL)
  * - kaitoeasyapi/premium-x-follower-scraper-following-data (followers, following)
  * - apidojo/twitter-user-scraper (fallback profile metadata when sparse accounts return no owner row)
+ * - TWITTER_APIFY_LISTS_ACTOR_ID (optional; owned, member and subscribed Lists)
+ *
+ * There is no default lists actor, so any configured one must follow this contract. Input:
+ * `{ twitterHandles: [handle], maxItems }`. Output: one dataset item per list with `list_id` (or `id`),
+ * `relationship` (`owned`, `member` or `subscribed`), `name`, `description`, `owner.userName`,
+ * `member_count`, `subscriber_count` and, for owned lists, `members` as `[{ id, userName, name }]`.
+ * Each item is billed at TWITTER_APIFY_LIST_ITEM_USD.
  */
 export class ApifyProvider implements TwitterProvider {
   private apiKey: string
@@ -112,6 +131,7 @@ export class ApifyProvider implements TwitterProvider {
   private userActorId =
     process.env.TWITTER_APIFY_SOCIAL_GRAPH_ACTOR_ID
     || 'kaitoeasyapi/premium-x-follower-scraper-following-data'
+  private listsActorId = process.env.TWITTER_APIFY_LISTS_ACTOR_ID?.trim() || ''
   private client: ApifyClient
 
   constructor() {
@@ -151,6 +171,73 @@ export class ApifyProvider implements TwitterProvider {
     return result.following
   }
 
+  async scrapeLists(username: string, options?: TwitterListScrapeOptions): Promise<TwitterListScrapeResult> {
+    if (!this.isConfigured()) {
+      throw new Error('Apify API key not configured')
+    }
+    if (!this.listsActorId) {
+      console.log('[Apify] No lists actor configured; skipping list scrape')
+      return { lists: [], cost_usd: 0, is_partial: false }
+    }
+
+    const requestedMaxItems =
+      typeof options?.maxItems === 'number' && Number.isFinite(options.maxItems)
+        ? Math.max(1, Math.floor(options.maxItems))
+        : LISTS_DEFAULT_MAX_ITEMS
+    const maxItems =
+      typeof options?.maxCostUsd === 'number'
+        ? Math.min(requestedMaxItems, maxApifyListItemsForBudget(options.maxCostUsd))
+        : requestedMaxItems
+    if (maxItems <= 0) {
+      return { lists: [], cost_usd: 0, is_partial: true }
+    }
+    const maxMembersPerList =
+      typeof options?.maxMembersPerList === 'number' && Number.isFinite(options.maxMembersPerList)
+        ? Math.max(0, Math.floor(options.maxMembersPerList))
+        : undefined
+
+    const run = await this.client.actor(this.listsActorId).start({
+      twitterHandles: [this.normalizeHandle(username)],
+      maxItems,
+    })
+
+    if (!run.id || !run.defaultDatasetId) {
+      throw new Error('Lists actor did not return run metadata.')
+    }
+
+    const polled = await this.pollRunDatasetItems({
+      runId: run.id,
+      datasetId: run.defaultDatasetId,
+      maxItems,
+      shouldCancel: options?.shouldCancel,
+    })
+
+    if (polled.finalStatus !== 'SUCCEEDED') {
+      throw new Error(`Lists actor finished with status ${polled.finalStatus}.`)
+    }
+
+    const seen = new Set<string>()
+    const lists: TwitterList[] = []
+    let membersTruncated = false
+    for (const item of polled.items) {
+      const list = this.mapListItem(item)
+      if (!list) continue
+      const key = `${list.relationship}:${list.list_id}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      if (list.members && maxMembersPerList !== undefined && list.members.length > maxMembersPerList) {
+        list.members = list.members.slice(0, maxMembersPerList)
+        membersTruncated = true
+      }
+      lists.push(list)
+    }
+    return {
+      lists,
+      cost_usd: estimateApifyListsCostUsd(polled.items.length),
+      is_partial: polled.items.length >= maxItems || membersTruncated,
+    }
+  }
+
   async scrapeProfile(username: string): Promise<ProfileMetadata> {
     if (!this.isConfigured()) {
       throw new Error('Apify API key not configured')
@@ -221,6 +308,7 @@ export class ApifyProvider implements TwitterProvider {
     const onProgress = options?.onProgress
     const shouldCancel = options?.shouldCancel
     const apifyWebhook = options?.apifyWebhook
+    const sinceTweetId = options?.sinceTweetId?.trim() || undefined
     const startTime = Date.now()
 
     console.log(`[Apify] Starting selective scrape for @${username}`, targets)
@@ -230,6 +318,8 @@ export class ApifyProvider implements TwitterProvider {
     let followers: Follower[] = []
     let following: Following[] = []
     let profile: ProfileMetadata = {}
+    let pinnedTweetIds: string[] = []
+    let reachedKnownTweets = false
     let timelineItemCount = 0
     let socialGraphItemCount = 0
 
@@ -298,6 +388,7 @@ export class ApifyProvider implements TwitterProvider {
           },
           shouldCancel,
           apifyWebhook,
+          sinceTweetId,
         )
       : Promise.resolve(null)
 
@@ -331,6 +422,8 @@ export class ApifyProvider implements TwitterProvider {
       if (targets.tweets) tweets = timeline.tweets
       if (targets.replies) replies = timeline.replies
       if (targets.profile) profile = timeline.profile
+      pinnedTweetIds = timeline.pinnedTweetIds
+      reachedKnownTweets = timeline.reachedKnownTweets
       liveTimelineProgress.tweets = tweets.length
       liveTimelineProgress.replies = replies.length
       liveTimelineProgress.totalItems = Math.max(liveTimelineProgress.totalItems, timeline.totalItems)
@@ -393,8 +486,10 @@ export class ApifyProvider implements TwitterProvider {
       ? socialGraphItemCount >= socialGraphMaxItems
       : false
     const timelineSourceTotal = this.readOptionalCount(profile.statusesCount) ?? 0
+    // An incremental run only fetches new items, so falling short of the profile's status count is expected.
     const timelineSourceGap =
       timelinePostsRequested
+      && !sinceTweetId
       && timelineSourceTotal > 0
       && timelineReturned < timelineSourceTotal
     const partialReasons: string[] = []
@@ -454,6 +549,10 @@ export class ApifyProvider implements TwitterProvider {
         profileFollowersCount: profile.followersCount,
         profileFollowingCount: profile.followingCount,
         profileStatusesCount: profile.statusesCount,
+        pinned_tweet_ids: pinnedTweetIds,
+        ...(sinceTweetId
+          ? { incremental: { since_tweet_id: sinceTweetId, reached_known_tweets: reachedKnownTweets } }
+          : {}),
         selected_targets: targets,
       },
     }
@@ -485,17 +584,27 @@ export class ApifyProvider implements TwitterProvider {
     onProgress?: (progress: TimelineProgress) => Promise<void>,
     shouldCancel?: () => Promise<boolean> | boolean,
     apifyWebhook?: TwitterScrapeOptions['apifyWebhook'],
+    sinceTweetId?: string,
   ): Promise<TimelineScrape> {
-    console.log(`[Apify] Scraping timeline/profile for @${username} (maxItems=${maxItems})`)
+    console.log(
+      `[Apify] Scraping timeline/profile for @${username} (maxItems=${maxItems}${sinceTweetId ? `, since=${sinceTweetId}` : ''})`,
+    )
 
-    try {
-      const run = await this.client.actor(this.profileActorId).start(
-        {
+    // Incremental runs search for newer posts and replies instead of walking the whole profile.
+    const timelineSources = sinceTweetId
+      ? { searchTerms: [`from:${username} since_id:${sinceTweetId}`] }
+      : {
           twitterHandles: [username],
           startUrls: [
             `https://twitter.com/${username}`,
             `https://twitter.com/${username}/with_replies`,
           ],
+        }
+
+    try {
+      const run = await this.client.actor(this.profileActorId).start(
+        {
+          ...timelineSources,
           maxItems: Math.max(1, maxItems),
           sort: 'Latest',
           includeSearchTerms: false,
@@ -531,12 +640,14 @@ export class ApifyProvider implements TwitterProvider {
       let processedItems = 0
       let nextEmitAt = PROGRESS_UPDATE_ITEM_INTERVAL
       let hasInitialProgressEmission = false
+      let reachedKnownTweets = false
 
       const polled = await this.pollRunDatasetItems({
         runId: run.id,
         datasetId: run.defaultDatasetId,
         maxItems: Math.max(1, maxItems),
         shouldCancel,
+        shouldStop: () => reachedKnownTweets,
         onBatch: async (batch) => {
           for (const item of batch) {
             normalizedItems.push(item)
@@ -554,6 +665,11 @@ export class ApifyProvider implements TwitterProvider {
 
             const mapped = this.mapTimelineItem(item, username)
             if (!mapped.id || seenTweetIds.has(mapped.id)) continue
+            if (sinceTweetId && this.isKnownTweetId(mapped.id, sinceTweetId)) {
+              // Pinned posts can be older than the cutoff without meaning the rest of the feed is.
+              if (!mapped.is_pinned) reachedKnownTweets = true
+              continue
+            }
             seenTweetIds.add(mapped.id)
             if (this.isReplyItem(item, mapped)) {
               replies.push(mapped)
@@ -582,7 +698,7 @@ export class ApifyProvider implements TwitterProvider {
         },
       })
 
-      if (polled.finalStatus !== 'SUCCEEDED') {
+      if (polled.finalStatus !== 'SUCCEEDED' && !polled.stoppedEarly) {
         throw new Error(`Apify profile scraper finished with status ${polled.finalStatus}.`)
       }
 
@@ -591,7 +707,9 @@ export class ApifyProvider implements TwitterProvider {
       pinnedTweetIds.forEach((id, index) => {
         pinnedTweetRankById.set(id, index)
       })
-      const missingPinnedTweetIds = pinnedTweetIds.filter((id) => !seenTweetIds.has(id))
+      const missingPinnedTweetIds = pinnedTweetIds.filter(
+        (id) => !seenTweetIds.has(id) && !(sinceTweetId && this.isKnownTweetId(id, sinceTweetId)),
+      )
       if (missingPinnedTweetIds.length > 0) {
         try {
           const pinnedItems = await this.fetchPinnedTweetsById(username, missingPinnedTweetIds, shouldCancel)
@@ -640,6 +758,8 @@ export class ApifyProvider implements TwitterProvider {
         replies,
         profile: this.extractProfileMetadata(normalizedItems, username),
         totalItems: normalizedItems.length,
+        pinnedTweetIds,
+        reachedKnownTweets,
       }
     } catch (error) {
       if (error instanceof RunCancelledError) {
@@ -944,6 +1064,11 @@ export class ApifyProvider implements TwitterProvider {
     return sorted
   }
 
+  private isKnownTweetId(tweetId: string, sinceTweetId: string): boolean {
+    const comparison = compareTweetIds(tweetId, sinceTweetId)
+    return comparison !== null && comparison <= 0
+  }
+
   private extractMedia(item: Record<string, unknown>): TweetMedia[] {
     const mediaCandidates: unknown[] = []
     const seen = new Set<string>()
@@ -1407,6 +1532,48 @@ export class ApifyProvider implements TwitterProvider {
     }
   }
 
+  private mapListItem(item: Record<string, unknown>): TwitterList | null {
+    const listId = this.asNullableString(item.list_id ?? item.listId ?? item.id_str ?? item.id)
+    if (!listId) return null
+
+    const owner = (item.owner || item.user) as Record<string, unknown> | undefined
+    const relation = (this.readOptionalText(item.relationship, item.relation, item.type) || '').toLowerCase()
+    const relationship: TwitterListRelationship =
+      relation === 'owned' || relation === 'owner' || relation === 'created'
+        ? 'owned'
+        : relation === 'subscribed' || relation === 'subscriber' || relation === 'subscription'
+          ? 'subscribed'
+          : 'member'
+
+    return {
+      list_id: listId,
+      relationship,
+      url: this.readOptionalText(item.url) || `https://x.com/i/lists/${listId}`,
+      name: this.readOptionalText(item.name),
+      description: this.readOptionalText(item.description),
+      owner_username: this.readOptionalText(owner?.userName, owner?.screen_name, owner?.username, item.ownerUsername),
+      member_count: this.readOptionalCount(item.member_count ?? item.memberCount),
+      subscriber_count: this.readOptionalCount(item.subscriber_count ?? item.subscriberCount),
+      ...(relationship === 'owned' && Array.isArray(item.members) ? { members: this.mapListMembers(item.members) } : {}),
+    }
+  }
+
+  private mapListMembers(items: unknown[]): TwitterListMember[] {
+    const members: TwitterListMember[] = []
+    for (const entry of items) {
+      if (!entry || typeof entry !== 'object') continue
+      const member = entry as Record<string, unknown>
+      const username = this.readOptionalText(member.userName, member.screen_name, member.username)
+      if (!username) continue
+      members.push({
+        user_id: this.asNullableString(member.id_str ?? member.id) || undefined,
+        username,
+        name: this.readOptionalText(member.name),
+      })
+    }
+    return members
+  }
+
   private readOptionalText(...values: unknown[]): string | undefined {
     for (const value of values) {
       if (typeof value !== 'string') continue
@@ -1496,9 +1663,11 @@ export class ApifyProvider implements TwitterProvider {
     datasetId: string
     maxItems?: number
     shouldCancel?: () => Promise<boolean> | boolean
+    // Checked after each batch; stops the run once the caller has everything it needs.
+    shouldStop?: () => boolean
     onBatch?: (batch: Record<string, unknown>[]) => Promise<void>
   }): Promise<RunDatasetPollResult> {
-    const { runId, datasetId, maxItems, shouldCancel, onBatch } = params
+    const { runId, datasetId, maxItems, shouldCancel, shouldStop, onBatch } = params
     const pageSize = 1000
     const allItems: Record<string, unknown>[] = []
     const runClient = this.client.run(runId)
@@ -1554,6 +1723,21 @@ export class ApifyProvider implements TwitterProvider {
         await abortRunAndThrow()
       }
 
+      if (shouldStop?.()) {
+        if (!this.isRunTerminalStatus(currentStatus)) {
+          try {
+            await runClient.abort({ gracefully: true })
+          } catch (abortError) {
+            console.warn(`[Apify] Failed to stop run ${runId}:`, abortError)
+          }
+        }
+        return {
+          items: allItems,
+          finalStatus: (currentStatus || 'ABORTED').toUpperCase(),
+          stoppedEarly: true,
+        }
+      }
+
       const terminal = this.isRunTerminalStatus(currentStatus)
       if (terminal && batch.length === 0) {
         break
@@ -1572,6 +1756,7 @@ export class ApifyProvider implements TwitterProvider {
     return {
       items: allItems,
       finalStatus: (currentStatus || 'SUCCEEDED').toUpperCase(),
+      stoppedEarly: false,
     }
   }
 }
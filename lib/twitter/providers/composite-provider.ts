@@ -0,0 +1,369 @@
+import { TwitterProvider } from '../twitter-provider.interface'
+import {
+  Tweet,
+  Follower,
+  Following,
+  TwitterListScrapeOptions,
+  TwitterListScrapeResult,
+  TwitterProviderFallback,
+  TwitterProviderRoute,
+  TwitterScrapeCost,
+  TwitterScrapeOptions,
+  TwitterScrapeProgressUpdate,
+  TwitterScrapeResult,
+  TwitterScrapeTarget,
+  TwitterScrapeTargets,
+} from '../types'
+import { roundUsd } from '../apify-pricing'
+
+export type TwitterProviderRoutes = Record<TwitterProviderRoute, TwitterProvider[]>
+
+type RouteSegment = {
+  routes: TwitterProviderRoute[]
+  chain: TwitterProvider[]
+  targets: TwitterScrapeTargets
+}
+
+type SegmentResult = {
+  segment: RouteSegment
+  provider: TwitterProvider
+  result: TwitterScrapeResult
+}
+
+type SegmentProgress = Omit<TwitterScrapeProgressUpdate, 'phase'>
+
+const DEFAULT_TARGETS: TwitterScrapeTargets = {
+  profile: true,
+  tweets: true,
+  replies: true,
+  followers: true,
+  following: true,
+}
+
+const ROUTE_ORDER: TwitterProviderRoute[] = ['profile', 'timeline', 'social_graph']
+
+const ROUTE_TARGETS: Record<TwitterProviderRoute, TwitterScrapeTarget[]> = {
+  profile: ['profile'],
+  timeline: ['tweets', 'replies'],
+  social_graph: ['followers', 'following'],
+}
+
+const EMPTY_PROGRESS: SegmentProgress = {
+  tweets_fetched: 0,
+  replies_fetched: 0,
+  followers_fetched: 0,
+  following_fetched: 0,
+  api_cost_usd: 0,
+}
+
+class NoProviderAvailableError extends Error {
+  constructor(route: TwitterProviderRoute[], fallbacks: TwitterProviderFallback[]) {
+    const tried = fallbacks.map((fallback) => `${fallback.provider}: ${fallback.reason}`).join('; ')
+    super(`No Twitter provider could scrape ${route.join(' + ')}${tried ? ` (${tried})` : ''}`)
+    this.name = 'NoProviderAvailableError'
+  }
+}
+
+/**
+ * Composite Provider
+ * Routes profile, timeline and social graph targets to their own provider chains. Each chain is tried in
+ * order: providers that are not configured or that fail are skipped for the next one. Targets whose chains
+ * are identical share one scrapeAll call, so a single-chain setup behaves like the plain provider.
+ *
+ * Cancellation is never retried on another provider.
+ */
+export class CompositeProvider implements TwitterProvider {
+  private routes: TwitterProviderRoutes
+
+  constructor(routes: TwitterProviderRoutes) {
+    this.routes = routes
+  }
+
+  async validateUsername(username: string): Promise<{ exists: boolean; reason?: string }> {
+    let lastError: unknown = null
+    for (const provider of this.routes.profile) {
+      if (!provider.isConfigured() || typeof provider.validateUsername !== 'function') continue
+      try {
+        return await provider.validateUsername(username)
+      } catch (error) {
+        console.warn(`[Composite Provider] ${provider.getProviderName()} could not validate @${username}:`, error)
+        lastError = error
+      }
+    }
+    if (lastError) throw lastError
+    // No provider in the chain can validate, which is the same as a provider omitting the method.
+    return { exists: true }
+  }
+
+  async scrapeTweets(username: string, maxTweets: number): Promise<Tweet[]> {
+    return this.runWithFallback('timeline', (provider) => provider.scrapeTweets(username, maxTweets))
+  }
+
+  async scrapeReplies(username: string, maxTweets: number): Promise<Tweet[]> {
+    return this.runWithFallback('timeline', (provider) => provider.scrapeReplies(username, maxTweets))
+  }
+
+  async scrapeFollowers(username: string): Promise<Follower[]> {
+    return this.runWithFallback('social_graph', (provider) => provider.scrapeFollowers(username))
+  }
+
+  async scrapeFollowing(username: string): Promise<Following[]> {
+    return this.runWithFallback('social_graph', (provider) => provider.scrapeFollowing(username))
+  }
+
+  async scrapeLists(username: string, options?: TwitterListScrapeOptions): Promise<TwitterListScrapeResult> {
+    const listProviders = this.routes.social_graph.filter((provider) => typeof provider.scrapeLists === 'function')
+    if (listProviders.length === 0) return { lists: [], cost_usd: 0, is_partial: false }
+    return this.runWithFallback(
+      'social_graph',
+      (provider) =>
+        provider.scrapeLists
+          ? provider.scrapeLists(username, options)
+          : Promise.resolve({ lists: [], cost_usd: 0, is_partial: false }),
+      listProviders,
+    )
+  }
+
+  async scrapeProfile(username: string): Promise<{ profileImageUrl?: string; coverImageUrl?: string; displayName?: string }> {
+    return this.runWithFallback('profile', (provider) => provider.scrapeProfile(username))
+  }
+
+  async scrapeAll(username: string, maxTweets: number = 3200, options?: TwitterScrapeOptions): Promise<TwitterScrapeResult> {
+    const targets = options?.targets ? { ...options.targets } : { ...DEFAULT_TARGETS }
+    const segments = this.planSegments(targets)
+    const fallbacks: TwitterProviderFallback[] = []
+    const completed: SegmentResult[] = []
+    const finishedProgress: SegmentProgress = { ...EMPTY_PROGRESS }
+    // Runs that fail part-way have usually already spent money, so their last reported cost stays on the bill.
+    let failedRunsCost = 0
+
+    console.log(
+      `[Composite Provider] Scraping @${username} in ${segments.length} segment(s)`,
+      segments.map((segment) => ({ routes: segment.routes, chain: segment.chain.map((provider) => provider.getProviderName()) })),
+    )
+
+    for (const segment of segments) {
+      let segmentResult: SegmentResult | null = null
+
+      for (const [index, provider] of segment.chain.entries()) {
+        const providerName = provider.getProviderName()
+        if (!provider.isConfigured()) {
+          for (const route of segment.routes) fallbacks.push({ route, provider: providerName, reason: 'not_configured' })
+          continue
+        }
+
+        let current: SegmentProgress = { ...EMPTY_PROGRESS }
+        let callbackError: unknown = null
+        const hasFallback = index < segment.chain.length - 1
+
+        try {
+          const result = await provider.scrapeAll(username, maxTweets, {
+            ...options,
+            targets: segment.targets,
+            // The Apify webhook fails the whole job on a failed run, which would pre-empt the fallback.
+            apifyWebhook: hasFallback ? undefined : options?.apifyWebhook,
+            onProgress: async (update) => {
+              current = {
+                tweets_fetched: update.tweets_fetched,
+                replies_fetched: update.replies_fetched,
+                followers_fetched: update.followers_fetched,
+                following_fetched: update.following_fetched,
+                api_cost_usd: update.api_cost_usd,
+              }
+              // Segment completions are folded into the single completion reported after merging.
+              if (update.phase === 'complete' || !options?.onProgress) return
+              try {
+                await options.onProgress({
+                  ...update,
+                  tweets_fetched: finishedProgress.tweets_fetched + update.tweets_fetched,
+                  replies_fetched: finishedProgress.replies_fetched + update.replies_fetched,
+                  followers_fetched: finishedProgress.followers_fetched + update.followers_fetched,
+                  following_fetched: finishedProgress.following_fetched + update.following_fetched,
+                  api_cost_usd: roundUsd(finishedProgress.api_cost_usd + failedRunsCost + update.api_cost_usd),
+                })
+              } catch (error) {
+                callbackError = error
+                throw error
+              }
+            },
+          })
+          segmentResult = { segment, provider, result }
+        } catch (error) {
+          // Errors raised by the caller's progress callback (e.g. the job was cancelled) are not provider failures.
+          if (callbackError || this.isCancellationError(error)) throw error
+          if (options?.shouldCancel && (await options.shouldCancel())) throw error
+
+          const reason = error instanceof Error ? error.message : String(error)
+          console.warn(`[Composite Provider] ${providerName} failed for ${segment.routes.join(' + ')}:`, reason)
+          for (const route of segment.routes) fallbacks.push({ route, provider: providerName, reason })
+          failedRunsCost += current.api_cost_usd
+          continue
+        }
+        break
+      }
+
+      if (!segmentResult) {
+        throw new NoProviderAvailableError(segment.routes, fallbacks.filter((fallback) => segment.routes.includes(fallback.route)))
+      }
+
+      completed.push(segmentResult)
+      finishedProgress.tweets_fetched += segmentResult.result.tweets.length
+      finishedProgress.replies_fetched += segmentResult.result.replies.length
+      finishedProgress.followers_fetched += segmentResult.result.followers.length
+      finishedProgress.following_fetched += segmentResult.result.following.length
+      finishedProgress.api_cost_usd += segmentResult.result.cost.total_cost
+    }
+
+    const merged = this.mergeResults(username, targets, completed, failedRunsCost)
+    if (fallbacks.length > 0) merged.metadata.provider_fallbacks = fallbacks
+
+    if (options?.onProgress) {
+      await options.onProgress({
+        phase: 'complete',
+        tweets_fetched: merged.tweets.length,
+        replies_fetched: merged.replies.length,
+        followers_fetched: merged.followers.length,
+        following_fetched: merged.following.length,
+        api_cost_usd: merged.cost.total_cost,
+      })
+    }
+
+    return merged
+  }
+
+  getProviderName(): string {
+    return 'composite'
+  }
+
+  /** Names of the providers a route falls back through, in order. */
+  getRouteProviderNames(route: TwitterProviderRoute): string[] {
+    return this.routes[route].map((provider) => provider.getProviderName())
+  }
+
+  isConfigured(): boolean {
+    return ROUTE_ORDER.every((route) => this.routes[route].some((provider) => provider.isConfigured()))
+  }
+
+  private async runWithFallback<T>(
+    route: TwitterProviderRoute,
+    run: (provider: TwitterProvider) => Promise<T>,
+    chain: TwitterProvider[] = this.routes[route],
+  ): Promise<T> {
+    const fallbacks: TwitterProviderFallback[] = []
+    for (const provider of chain) {
+      const providerName = provider.getProviderName()
+      if (!provider.isConfigured()) {
+        fallbacks.push({ route, provider: providerName, reason: 'not_configured' })
+        continue
+      }
+      try {
+        return await run(provider)
+      } catch (error) {
+        if (this.isCancellationError(error)) throw error
+        const reason = error instanceof Error ? error.message : String(error)
+        console.warn(`[Composite Provider] ${providerName} failed for ${route}:`, reason)
+        fallbacks.push({ route, provider: providerName, reason })
+      }
+    }
+    throw new NoProviderAvailableError([route], fallbacks)
+  }
+
+  // Groups the selected targets by provider chain so targets sharing a chain are scraped in one run.
+  private planSegments(targets: TwitterScrapeTargets): RouteSegment[] {
+    const segments = new Map<string, RouteSegment>()
+    for (const route of ROUTE_ORDER) {
+      const routeTargets = ROUTE_TARGETS[route].filter((target) => targets[target])
+      if (routeTargets.length === 0) continue
+
+      const chain = this.routes[route]
+      const key = chain.map((provider) => provider.getProviderName()).join(',')
+      const segment = segments.get(key) || {
+        routes: [],
+        chain,
+        targets: { profile: false, tweets: false, replies: false, followers: false, following: false },
+      }
+      segment.routes.push(route)
+      for (const target of routeTargets) segment.targets[target] = true
+      segments.set(key, segment)
+    }
+    return [...segments.values()]
+  }
+
+  private mergeResults(
+    username: string,
+    targets: TwitterScrapeTargets,
+    completed: SegmentResult[],
+    failedRunsCost: number,
+  ): TwitterScrapeResult {
+    const forRoute = (route: TwitterProviderRoute) => completed.find((entry) => entry.segment.routes.includes(route))
+    const timeline = forRoute('timeline')
+    const socialGraph = forRoute('social_graph')
+    // Providers return profile fields alongside other targets, so use the profile route's answer first.
+    const profileSources = [forRoute('profile'), timeline, socialGraph, ...completed]
+      .filter((entry): entry is SegmentResult => Boolean(entry))
+      .map((entry) => entry.result.metadata)
+    const pickProfile = <K extends keyof TwitterScrapeResult['metadata']>(key: K) =>
+      profileSources.map((metadata) => metadata[key]).find((value) => value !== undefined && value !== '')
+
+    const targetProviders: Partial<Record<TwitterScrapeTarget, string>> = {}
+    for (const entry of completed) {
+      for (const route of entry.segment.routes) {
+        for (const target of ROUTE_TARGETS[route]) {
+          if (targets[target]) targetProviders[target] = entry.provider.getProviderName()
+        }
+      }
+    }
+
+    const breakdown: NonNullable<TwitterScrapeCost['breakdown']> = {}
+    for (const entry of completed) {
+      for (const [key, value] of Object.entries(entry.result.cost.breakdown || {})) {
+        const field = key as keyof typeof breakdown
+        if (typeof value === 'number') breakdown[field] = roundUsd((breakdown[field] || 0) + value)
+      }
+    }
+
+    const partialReasons = [...new Set(completed.flatMap((entry) => entry.result.metadata.partial_reasons || []))]
+    const tweets = timeline?.result.tweets || []
+    const replies = timeline?.result.replies || []
+
+    return {
+      tweets,
+      replies,
+      followers: socialGraph?.result.followers || [],
+      following: socialGraph?.result.following || [],
+      cost: {
+        provider: (timeline || completed[0])?.result.cost.provider ?? 'apify',
+        total_cost: roundUsd(completed.reduce((sum, entry) => sum + entry.result.cost.total_cost, 0) + failedRunsCost),
+        tweets_count: tweets.length + replies.length,
+        breakdown,
+      },
+      metadata: {
+        username: pickProfile('username') || username,
+        scraped_at: new Date().toISOString(),
+        is_partial: completed.some((entry) => entry.result.metadata.is_partial),
+        partial_reasons: partialReasons,
+        timeline_limit_hit: Boolean(timeline?.result.metadata.timeline_limit_hit),
+        social_graph_limit_hit: Boolean(socialGraph?.result.metadata.social_graph_limit_hit),
+        tweets_requested: timeline?.result.metadata.tweets_requested ?? 0,
+        tweets_received: timeline?.result.metadata.tweets_received ?? 0,
+        profileImageUrl: pickProfile('profileImageUrl'),
+        coverImageUrl: pickProfile('coverImageUrl'),
+        displayName: pickProfile('displayName'),
+        profileBio: pickProfile('profileBio'),
+        profileFollowersCount: pickProfile('profileFollowersCount'),
+        profileFollowingCount: pickProfile('profileFollowingCount'),
+        profileStatusesCount: pickProfile('profileStatusesCount'),
+        pinned_tweet_ids: timeline?.result.metadata.pinned_tweet_ids ?? pickProfile('pinned_tweet_ids'),
+        ...(timeline?.result.metadata.incremental ? { incremental: timeline.result.metadata.incremental } : {}),
+        selected_targets: targets,
+        target_providers: targetProviders,
+      },
+    }
+  }
+
+  private isCancellationError(error: unknown): boolean {
+    if (!(error instanceof Error)) return false
+    const message = error.message.toLowerCase()
+    return error.name === 'RunCancelledError' || message.includes('cancelled by user') || message.includes('cancellation requested')
+  }
+}
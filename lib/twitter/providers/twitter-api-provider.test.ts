@@ -0,0 +1,251 @@
+import assert from 'node:assert/strict'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { TwitterApiProvider } from '@/lib/twitter/providers/twitter-api-provider'
+import {
+  estimateTwitterApiPostReadsCostUsd,
+  estimateTwitterApiUserReadsCostUsd,
+} from '@/lib/twitter/twitter-api-pricing'
+import { roundUsd } from '@/lib/twitter/apify-pricing'
+import type { TwitterScrapeProgressUpdate, TwitterScrapeTargets } from '@/lib/twitter/types'
+
+type MockResponse = { status?: number; headers?: Record<string, string>; body: unknown }
+type MockRoute = (url: URL) => MockResponse
+
+const USER_ID = '100'
+
+const TIMELINE_ONLY: TwitterScrapeTargets = { profile: true, tweets: true, replies: true, followers: false, following: false }
+const SOCIAL_GRAPH_ONLY: TwitterScrapeTargets = { profile: false, tweets: false, replies: false, followers: true, following: true }
+
+function apiTweet(id: string, day: number, repliedTo?: string) {
+  return {
+    id,
+    text: `Tweet ${id}`,
+    created_at: new Date(Date.UTC(2024, 0, day)).toISOString(),
+    public_metrics: { retweet_count: 1, like_count: 2, reply_count: 0 },
+    ...(repliedTo ? { referenced_tweets: [{ type: 'replied_to', id: repliedTo }] } : {}),
+  }
+}
+
+function apiUser(id: string) {
+  return { id, username: `user${id}`, name: `User ${id}`, profile_image_url: `https://pbs.twimg.com/${id}_normal.jpg` }
+}
+
+const USER_LOOKUP: MockResponse = {
+  body: {
+    data: {
+      id: USER_ID,
+      username: 'alice',
+      name: 'Alice',
+      description: 'Testing the provider',
+      public_metrics: { followers_count: 3, following_count: 2, tweet_count: 4 },
+      pinned_tweet_id: '1',
+    },
+    includes: { tweets: [apiTweet('1', 1)] },
+  },
+}
+
+// Two timeline pages and two follower pages, so both paginate through `next_token`.
+const DEFAULT_ROUTES: Record<string, MockRoute> = {
+  '/2/users/by/username/alice': () => USER_LOOKUP,
+  [`/2/users/${USER_ID}/tweets`]: (url) =>
+    url.searchParams.get('pagination_token') === 'timeline-2'
+      ? { body: { data: [apiTweet('4', 4)], meta: { result_count: 1 } } }
+      : {
+          body: {
+            data: [apiTweet('3', 3, '2'), apiTweet('2', 2)],
+            meta: { result_count: 2, next_token: 'timeline-2' },
+          },
+        },
+  [`/2/users/${USER_ID}/followers`]: (url) =>
+    url.searchParams.get('pagination_token') === 'followers-2'
+      ? { body: { data: [apiUser('203')], meta: { result_count: 1 } } }
+      : { body: { data: [apiUser('201'), apiUser('202')], meta: { result_count: 2, next_token: 'followers-2' } } },
+  [`/2/users/${USER_ID}/following`]: () => ({
+    body: { data: [apiUser('301'), apiUser('302')], meta: { result_count: 2 } },
+  }),
+}
+
+let server: Server
+let baseUrl = ''
+let routes: Record<string, MockRoute> = {}
+let requests: URL[] = []
+
+function handle(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url || '/', 'http://localhost')
+  requests.push(url)
+  const route = routes[url.pathname]
+  const result: MockResponse = route ? route(url) : { status: 404, body: { title: 'Not Found' } }
+  response.writeHead(result.status ?? 200, { 'content-type': 'application/json', ...result.headers })
+  response.end(JSON.stringify(result.body))
+}
+
+function createProvider(sleeps: number[] = []) {
+  return new TwitterApiProvider({
+    bearerToken: 'test-token',
+    baseUrl,
+    sleep: async (ms) => {
+      sleeps.push(ms)
+    },
+  })
+}
+
+function requestsTo(path: string) {
+  return requests.filter((url) => url.pathname === path)
+}
+
+before(async () => {
+  server = createServer(handle)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/2`
+})
+
+after(async () => {
+  await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+})
+
+beforeEach(() => {
+  routes = { ...DEFAULT_ROUTES }
+  requests = []
+})
+
+describe('TwitterApiProvider', () => {
+  it('pages through the timeline and splits tweets from replies', async () => {
+    const result = await createProvider().scrapeAll('@alice', 100, { targets: TIMELINE_ONLY })
+
+    const timelineRequests = requestsTo(`/2/users/${USER_ID}/tweets`)
+    assert.deepEqual(
+      timelineRequests.map((url) => url.searchParams.get('pagination_token')),
+      [null, 'timeline-2'],
+    )
+    assert.equal(timelineRequests[0].searchParams.get('max_results'), '100')
+    assert.equal(requests[0].searchParams.get('expansions'), 'pinned_tweet_id')
+
+    // The pinned tweet comes from the user lookup and sorts first.
+    assert.deepEqual(result.tweets.map((tweet) => tweet.id), ['1', '4', '2'])
+    assert.equal(result.tweets[0].is_pinned, true)
+    assert.deepEqual(result.replies.map((tweet) => tweet.id), ['3'])
+    assert.equal(result.replies[0].in_reply_to_status_id, '2')
+    assert.equal(result.metadata.displayName, 'Alice')
+    assert.equal(result.metadata.profileStatusesCount, 4)
+    assert.deepEqual(result.metadata.pinned_tweet_ids, ['1'])
+    assert.equal(result.metadata.is_partial, false)
+  })
+
+  it('pages through followers and following', async () => {
+    const result = await createProvider().scrapeAll('alice', 0, { targets: SOCIAL_GRAPH_ONLY })
+
+    assert.deepEqual(
+      requestsTo(`/2/users/${USER_ID}/followers`).map((url) => url.searchParams.get('pagination_token')),
+      [null, 'followers-2'],
+    )
+    assert.deepEqual(result.followers.map((follower) => follower.username), ['user201', 'user202', 'user203'])
+    assert.deepEqual(result.following.map((entry) => entry.user_id), ['301', '302'])
+    assert.equal(result.followers[0].userLink, 'https://x.com/user201')
+    assert.equal(result.followers[0].profileImageUrl, 'https://pbs.twimg.com/201_400x400.jpg')
+    assert.equal(requestsTo(`/2/users/${USER_ID}/tweets`).length, 0)
+  })
+
+  it('caps the social graph at socialGraphMaxItems', async () => {
+    const result = await createProvider().scrapeAll('alice', 0, {
+      targets: { ...SOCIAL_GRAPH_ONLY, following: false },
+      socialGraphMaxItems: 2,
+    })
+
+    assert.equal(result.followers.length, 2)
+    assert.equal(requestsTo(`/2/users/${USER_ID}/followers`).length, 1)
+    assert.equal(result.metadata.social_graph_limit_hit, true)
+    assert.ok(result.metadata.partial_reasons?.includes('social_graph_budget_cap_reached'))
+  })
+
+  it('waits for x-rate-limit-reset after a 429 and retries', async () => {
+    let limited = true
+    routes['/2/users/by/username/alice'] = () => {
+      if (!limited) return USER_LOOKUP
+      limited = false
+      return {
+        status: 429,
+        headers: { 'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) + 60) },
+        body: { title: 'Too Many Requests' },
+      }
+    }
+    const sleeps: number[] = []
+
+    const result = await createProvider(sleeps).scrapeAll('alice', 100, { targets: TIMELINE_ONLY })
+
+    assert.equal(requestsTo('/2/users/by/username/alice').length, 2)
+    assert.equal(result.tweets.length, 3)
+    // The wait runs until just after the reset, in slices short enough to check for cancellation.
+    const waitedMs = sleeps.reduce((total, ms) => total + ms, 0)
+    assert.ok(waitedMs >= 59_000 && waitedMs <= 62_000, `waited ${waitedMs}ms`)
+    assert.ok(sleeps.every((ms) => ms <= 5000))
+  })
+
+  it('gives up after repeated 429s', async () => {
+    routes['/2/users/by/username/alice'] = () => ({ status: 429, body: { title: 'Too Many Requests' } })
+
+    await assert.rejects(
+      createProvider().scrapeAll('alice', 100, { targets: TIMELINE_ONLY }),
+      /rate limit exceeded/,
+    )
+    assert.equal(requestsTo('/2/users/by/username/alice').length, 5)
+  })
+
+  it('stops when shouldCancel turns true', async () => {
+    const shouldCancel = () => requestsTo(`/2/users/${USER_ID}/tweets`).length > 0
+
+    await assert.rejects(
+      createProvider().scrapeAll('alice', 100, { targets: TIMELINE_ONLY, shouldCancel }),
+      { name: 'RunCancelledError' },
+    )
+    assert.equal(requestsTo(`/2/users/${USER_ID}/tweets`).length, 1)
+  })
+
+  it('stops waiting out a rate limit once cancelled', async () => {
+    routes['/2/users/by/username/alice'] = () => ({
+      status: 429,
+      headers: { 'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) + 900) },
+      body: { title: 'Too Many Requests' },
+    })
+    const sleeps: number[] = []
+    const shouldCancel = () => sleeps.length >= 3
+
+    await assert.rejects(
+      createProvider(sleeps).scrapeAll('alice', 100, { targets: TIMELINE_ONLY, shouldCancel }),
+      { name: 'RunCancelledError' },
+    )
+    assert.equal(sleeps.length, 3)
+  })
+
+  it('reports cost and progress per read', async () => {
+    const updates: TwitterScrapeProgressUpdate[] = []
+    const result = await createProvider().scrapeAll('alice', 100, {
+      targets: { ...TIMELINE_ONLY, followers: true, following: true },
+      onProgress: (update) => {
+        updates.push(update)
+      },
+    })
+
+    // One user lookup, the pinned post, three timeline posts and five follower/following users.
+    const expectedCost = roundUsd(estimateTwitterApiPostReadsCostUsd(4) + estimateTwitterApiUserReadsCostUsd(6))
+    assert.equal(result.cost.provider, 'twitter-api')
+    assert.equal(result.cost.total_cost, expectedCost)
+    assert.equal(result.cost.tweets_count, 4)
+    assert.equal(result.cost.breakdown?.followers, estimateTwitterApiUserReadsCostUsd(3))
+    assert.equal(result.cost.breakdown?.following, estimateTwitterApiUserReadsCostUsd(2))
+
+    const phases = [...new Set(updates.map((update) => update.phase))]
+    assert.deepEqual(phases, ['timeline', 'social_graph', 'complete'])
+    const costs = updates.map((update) => update.api_cost_usd)
+    assert.deepEqual(costs, [...costs].sort((a, b) => a - b))
+    assert.deepEqual(updates.at(-1), {
+      phase: 'complete',
+      tweets_fetched: 3,
+      replies_fetched: 1,
+      followers_fetched: 3,
+      following_fetched: 2,
+      api_cost_usd: expectedCost,
+    })
+  })
+})
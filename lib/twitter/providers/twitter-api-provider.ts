@@ -1,56 +1,494 @@
 import { TwitterProvider } from '../twitter-provider.interface'
-import { Tweet, Follower, Following, TwitterScrapeOptions, TwitterScrapeResult } from '../types'
+import {
+  Tweet,
+  TweetMedia,
+  Follower,
+  Following,
+  TwitterList,
+  TwitterListMember,
+  TwitterListRelationship,
+  TwitterListScrapeOptions,
+  TwitterListScrapeResult,
+  TwitterScrapeOptions,
+  TwitterScrapeProgressUpdate,
+  TwitterScrapeResult,
+  TwitterScrapeTargets,
+} from '../types'
+import { roundUsd } from '../apify-pricing'
+import {
+  estimateTwitterApiListReadsCostUsd,
+  estimateTwitterApiPostReadsCostUsd,
+  estimateTwitterApiUserReadsCostUsd,
+} from '../twitter-api-pricing'
+
+type ApiObject = Record<string, unknown>
+
+type ApiPage = {
+  data: ApiObject[]
+  includes: {
+    users: ApiObject[]
+    media: ApiObject[]
+    tweets: ApiObject[]
+  }
+  nextToken?: string
+}
+
+type ApiUser = {
+  id: string
+  username: string
+  name?: string
+  description?: string
+  profileImageUrl?: string
+  coverImageUrl?: string
+  followersCount?: number
+  followingCount?: number
+  statusesCount?: number
+  pinnedTweetId?: string
+  pinnedTweet?: Tweet
+}
+
+type TimelineScrape = {
+  tweets: Tweet[]
+  replies: Tweet[]
+  postsRead: number
+  reachedKnownTweets: boolean
+  limitHit: boolean
+}
+
+type SocialGraphScrape = {
+  users: Array<Follower | Following>
+  limitHit: boolean
+}
+
+type ShouldCancel = TwitterScrapeOptions['shouldCancel']
+
+export type TwitterApiProviderConfig = {
+  bearerToken?: string
+  baseUrl?: string
+  fetch?: typeof fetch
+  sleep?: (ms: number) => Promise<void>
+}
+
+class RunCancelledError extends Error {
+  constructor(message: string = 'Job cancelled by user') {
+    super(message)
+    this.name = 'RunCancelledError'
+  }
+}
+
+class TwitterApiRequestError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'TwitterApiRequestError'
+    this.status = status
+  }
+}
+
+const DEFAULT_TARGETS: TwitterScrapeTargets = {
+  profile: true,
+  tweets: true,
+  replies: true,
+  followers: true,
+  following: true,
+}
+
+const DEFAULT_BASE_URL = 'https://api.x.com/2'
+const TIMELINE_PAGE_SIZE = 100
+const SOCIAL_GRAPH_PAGE_SIZE = 1000
+const LISTS_PAGE_SIZE = 100
+const LISTS_DEFAULT_MAX_ITEMS = 500
+const LIST_MEMBERS_PAGE_SIZE = 100
+const LIST_MEMBERS_DEFAULT_MAX_ITEMS = 1000
+// The user timeline endpoint only reaches the most recent 3,200 posts.
+const TIMELINE_MAX_ITEMS = 3200
+const MAX_REQUEST_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 1000
+const MAX_RATE_LIMIT_WAIT_MS = 15 * 60 * 1000
+const CANCEL_CHECK_INTERVAL_MS = 5000
+
+const TWEET_FIELDS = 'created_at,public_metrics,conversation_id,in_reply_to_user_id,referenced_tweets,attachments,author_id,note_tweet'
+const USER_FIELDS = 'name,username,description,profile_image_url,profile_banner_url,public_metrics,pinned_tweet_id'
+const MEDIA_FIELDS = 'type,url,preview_image_url,variants'
+const TIMELINE_EXPANSIONS = 'attachments.media_keys,in_reply_to_user_id,author_id'
+const LIST_FIELDS = 'name,description,owner_id,member_count,follower_count'
 
 /**
  * Twitter Official API Provider
- * Uses Twitter's official API v2
- * Pricing: $100/month (Basic tier) or $5,000/month (Pro tier)
- * 
- * NOT IMPLEMENTED YET - This is a placeholder for future migration
+ * Uses X API v2 with an app-only bearer token:
+ * - GET /users/by/username/:username (profile, counts, pinned tweet)
+ * - GET /users/:id/tweets (timeline with replies, paged 100 at a time)
+ * - GET /users/:id/followers and /users/:id/following (paged 1,000 at a time)
+ * - GET /users/:id/owned_lists, /list_memberships and /followed_lists
+ * - GET /lists/:id/members (owned lists only)
+ *
+ * Requests back off on 429s until the rate-limit window resets. Set TWITTER_API_BASE_URL to point the
+ * provider at a local mock server.
  */
 export class TwitterApiProvider implements TwitterProvider {
-  private apiKey: string
-  private apiSecret: string
   private bearerToken: string
+  private baseUrl: string
+  private fetchImpl: typeof fetch
+  private sleepImpl: (ms: number) => Promise<void>
 
-  constructor() {
-    this.apiKey = process.env.TWITTER_API_KEY || ''
-    this.apiSecret = process.env.TWITTER_API_SECRET || ''
-    this.bearerToken = process.env.TWITTER_BEARER_TOKEN || ''
+  constructor(config: TwitterApiProviderConfig = {}) {
+    this.bearerToken = config.bearerToken ?? (process.env.TWITTER_BEARER_TOKEN || '')
+    this.baseUrl = (config.baseUrl ?? (process.env.TWITTER_API_BASE_URL?.trim() || DEFAULT_BASE_URL)).replace(/\/+$/, '')
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init))
+    this.sleepImpl = config.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)))
   }
 
-  async scrapeTweets(_username: string, _maxTweets: number): Promise<Tweet[]> {
-    void _username
-    void _maxTweets
-    throw new Error('Twitter API provider not implemented yet - use Apify for now')
+  async scrapeTweets(username: string, maxTweets: number): Promise<Tweet[]> {
+    const result = await this.scrapeAll(username, maxTweets, {
+      targets: { profile: false, tweets: true, replies: false, followers: false, following: false },
+    })
+    return result.tweets
   }
 
-  async scrapeReplies(_username: string, _maxTweets: number): Promise<Tweet[]> {
-    void _username
-    void _maxTweets
-    throw new Error('Twitter API provider not implemented yet - use Apify for now')
+  async scrapeReplies(username: string, maxTweets: number): Promise<Tweet[]> {
+    const result = await this.scrapeAll(username, maxTweets, {
+      targets: { profile: false, tweets: false, replies: true, followers: false, following: false },
+    })
+    return result.replies
   }
 
-  async scrapeFollowers(_username: string): Promise<Follower[]> {
-    void _username
-    throw new Error('Twitter API provider not implemented yet - use Apify for now')
+  async scrapeFollowers(username: string): Promise<Follower[]> {
+    const result = await this.scrapeAll(username, 0, {
+      targets: { profile: false, tweets: false, replies: false, followers: true, following: false },
+    })
+    return result.followers
+  }
+
+  async scrapeFollowing(username: string): Promise<Following[]> {
+    const result = await this.scrapeAll(username, 0, {
+      targets: { profile: false, tweets: false, replies: false, followers: false, following: true },
+    })
+    return result.following
+  }
+
+  async scrapeLists(username: string, options?: TwitterListScrapeOptions): Promise<TwitterListScrapeResult> {
+    this.assertConfigured()
+
+    const maxItems =
+      typeof options?.maxItems === 'number' && Number.isFinite(options.maxItems)
+        ? Math.max(1, Math.floor(options.maxItems))
+        : LISTS_DEFAULT_MAX_ITEMS
+    const maxMembersPerList =
+      typeof options?.maxMembersPerList === 'number' && Number.isFinite(options.maxMembersPerList)
+        ? Math.max(0, Math.floor(options.maxMembersPerList))
+        : LIST_MEMBERS_DEFAULT_MAX_ITEMS
+    const maxCostUsd = typeof options?.maxCostUsd === 'number' ? options.maxCostUsd : Number.POSITIVE_INFINITY
+    let usersRead = 0
+    let listsRead = 0
+    let isPartial = false
+    const costSoFar = () =>
+      roundUsd(estimateTwitterApiUserReadsCostUsd(usersRead) + estimateTwitterApiListReadsCostUsd(listsRead))
+    const budgetLeft = () => costSoFar() < maxCostUsd
+
+    if (!budgetLeft()) return { lists: [], cost_usd: 0, is_partial: true }
+    const user = await this.lookupUser(username, options?.shouldCancel)
+    usersRead += 1
+    const sources: Array<{ path: string; relationship: TwitterListRelationship }> = [
+      { path: `/users/${user.id}/owned_lists`, relationship: 'owned' },
+      { path: `/users/${user.id}/list_memberships`, relationship: 'member' },
+      { path: `/users/${user.id}/followed_lists`, relationship: 'subscribed' },
+    ]
+
+    const lists: TwitterList[] = []
+    sourceLoop: for (const source of sources) {
+      let nextToken: string | undefined
+      do {
+        const remaining = maxItems - lists.length
+        if (remaining <= 0 || !budgetLeft()) {
+          isPartial = true
+          break sourceLoop
+        }
+        const page = await this.requestPage(
+          source.path,
+          {
+            max_results: String(LISTS_PAGE_SIZE),
+            'list.fields': LIST_FIELDS,
+            expansions: 'owner_id',
+            'user.fields': 'username',
+            pagination_token: nextToken,
+          },
+          options?.shouldCancel,
+        )
+        listsRead += page.data.length
+        const ownersById = this.indexById(page.includes.users)
+        for (const item of page.data.slice(0, remaining)) {
+          const list = this.mapListItem(item, source.relationship, ownersById)
+          if (list) lists.push(list)
+        }
+        if (page.data.length > remaining) isPartial = true
+        nextToken = page.nextToken
+      } while (nextToken)
+    }
+
+    // Members are only fetched for the user's own lists; they are billed as user reads.
+    for (const list of lists) {
+      if (list.relationship !== 'owned' || maxMembersPerList === 0) continue
+      const members: TwitterListMember[] = []
+      let nextToken: string | undefined
+      do {
+        const remaining = maxMembersPerList - members.length
+        if (remaining <= 0 || !budgetLeft()) {
+          isPartial = true
+          break
+        }
+        const page = await this.requestPage(
+          `/lists/${list.list_id}/members`,
+          {
+            max_results: String(Math.max(1, Math.min(LIST_MEMBERS_PAGE_SIZE, remaining))),
+            'user.fields': 'name,username',
+            pagination_token: nextToken,
+          },
+          options?.shouldCancel,
+        )
+        usersRead += page.data.length
+        for (const item of page.data.slice(0, remaining)) {
+          const member = this.mapSocialUser(item)
+          if (member?.username) members.push({ user_id: member.user_id, username: member.username, name: member.name })
+        }
+        nextToken = page.nextToken
+      } while (nextToken)
+      if (members.length > 0) list.members = members
+    }
+
+    return { lists, cost_usd: costSoFar(), is_partial: isPartial }
   }
 
-  async scrapeFollowing(_username: string): Promise<Following[]> {
-    void _username
-    throw new Error('Twitter API provider not implemented yet - use Apify for now')
+  async scrapeProfile(username: string): Promise<{ profileImageUrl?: string; coverImageUrl?: string; displayName?: string }> {
+    this.assertConfigured()
+    const user = await this.lookupUser(username)
+    return {
+      profileImageUrl: user.profileImageUrl,
+      coverImageUrl: user.coverImageUrl,
+      displayName: user.name,
+    }
   }
 
-  async scrapeProfile(_username: string): Promise<{ profileImageUrl?: string; coverImageUrl?: string; displayName?: string }> {
-    void _username
-    throw new Error('Twitter API provider not implemented yet - use Apify for now')
+  async validateUsername(username: string): Promise<{ exists: boolean; reason?: string }> {
+    this.assertConfigured()
+
+    const requested = this.normalizeHandle(username)
+    if (!requested) {
+      return { exists: false, reason: 'invalid_username' }
+    }
+
+    try {
+      await this.lookupUser(requested)
+      return { exists: true }
+    } catch (error) {
+      if (!(error instanceof TwitterApiRequestError)) throw error
+      if (error.status === 404) return { exists: false, reason: 'not_found' }
+      if (error.status === 403 && /suspend/i.test(error.message)) return { exists: false, reason: 'suspended' }
+      if (error.status === 403) return { exists: false, reason: 'unavailable' }
+      throw error
+    }
   }
 
-  async scrapeAll(_username: string, _maxTweets: number, _options?: TwitterScrapeOptions): Promise<TwitterScrapeResult> {
-    void _username
-    void _maxTweets
-    void _options
-    throw new Error('Twitter API provider not implemented yet - use Apify for now')
+  async scrapeAll(username: string, maxTweets: number = 3200, options?: TwitterScrapeOptions): Promise<TwitterScrapeResult> {
+    this.assertConfigured()
+
+    const targets = this.resolveTargets(options)
+    const shouldCancel = options?.shouldCancel
+    const sinceTweetId = options?.sinceTweetId?.trim() || undefined
+    const startTime = Date.now()
+
+    console.log(`[Twitter API] Starting selective scrape for @${username}`, targets)
+
+    const timelinePostsRequested = targets.tweets || targets.replies
+    const socialGraphRequested = targets.followers || targets.following
+    const socialGraphMaxItems =
+      typeof options?.socialGraphMaxItems === 'number' && Number.isFinite(options.socialGraphMaxItems)
+        ? Math.max(1, Math.floor(options.socialGraphMaxItems))
+        : undefined
+    const socialProgressPhase: TwitterScrapeProgressUpdate['phase'] =
+      targets.followers && targets.following ? 'social_graph' : targets.followers ? 'followers' : 'following'
+
+    let tweets: Tweet[] = []
+    let replies: Tweet[] = []
+    let followers: Follower[] = []
+    let following: Following[] = []
+    let postsRead = 0
+    let usersRead = 0
+
+    const costSoFar = () =>
+      roundUsd(estimateTwitterApiPostReadsCostUsd(postsRead) + estimateTwitterApiUserReadsCostUsd(usersRead))
+    const emitProgress = async (phase: TwitterScrapeProgressUpdate['phase']) => {
+      if (!options?.onProgress) return
+      await options.onProgress({
+        phase,
+        tweets_fetched: tweets.length,
+        replies_fetched: replies.length,
+        followers_fetched: followers.length,
+        following_fetched: following.length,
+        api_cost_usd: costSoFar(),
+      })
+    }
+
+    // The user lookup is needed for every other endpoint and also returns the profile and pinned tweet.
+    const user = await this.lookupUser(username, shouldCancel)
+    usersRead += 1
+    if (user.pinnedTweet) postsRead += 1
+
+    const pinnedTweetIds = user.pinnedTweetId ? [user.pinnedTweetId] : []
+    let reachedKnownTweets = false
+    let timelineLimitHit = false
+
+    if (timelinePostsRequested) {
+      const timeline = await this.scrapeTimeline(user, {
+        maxItems: Math.min(Math.max(1, Math.floor(maxTweets)), TIMELINE_MAX_ITEMS),
+        excludeReplies: !targets.replies,
+        sinceTweetId,
+        shouldCancel,
+        onPage: async (page) => {
+          tweets = targets.tweets ? page.tweets : []
+          replies = targets.replies ? page.replies : []
+          postsRead = (user.pinnedTweet ? 1 : 0) + page.postsRead
+          await emitProgress('timeline')
+        },
+      })
+      tweets = targets.tweets ? timeline.tweets : []
+      replies = targets.replies ? timeline.replies : []
+      postsRead = (user.pinnedTweet ? 1 : 0) + timeline.postsRead
+      reachedKnownTweets = timeline.reachedKnownTweets
+      timelineLimitHit = timeline.limitHit
+
+      if (targets.tweets && user.pinnedTweet && !tweets.some((tweet) => tweet.id === user.pinnedTweet?.id)) {
+        tweets = [user.pinnedTweet, ...tweets]
+      }
+      tweets = tweets.map((tweet) => this.applyPinnedRank(tweet, pinnedTweetIds))
+      tweets = this.sortTimelineTweets(tweets)
+      replies = this.sortTimelineTweets(replies)
+      await emitProgress('timeline')
+    }
+
+    let socialGraphLimitHit = false
+    if (socialGraphRequested) {
+      const followersLimit =
+        socialGraphMaxItems === undefined
+          ? undefined
+          : targets.following
+            ? Math.ceil(socialGraphMaxItems / 2)
+            : socialGraphMaxItems
+
+      if (targets.followers) {
+        const graph = await this.scrapeSocialGraph(user, 'followers', followersLimit, shouldCancel, async (users) => {
+          followers = users
+          usersRead = 1 + followers.length + following.length
+          await emitProgress(socialProgressPhase)
+        })
+        followers = graph.users
+        socialGraphLimitHit = socialGraphLimitHit || graph.limitHit
+      }
+
+      if (targets.following) {
+        // Following gets whatever the followers page-through left of the shared budget.
+        const followingLimit =
+          socialGraphMaxItems === undefined ? undefined : Math.max(0, socialGraphMaxItems - followers.length)
+        if (followingLimit === 0) {
+          socialGraphLimitHit = true
+        } else {
+          const graph = await this.scrapeSocialGraph(user, 'following', followingLimit, shouldCancel, async (users) => {
+            following = users
+            usersRead = 1 + followers.length + following.length
+            await emitProgress(socialProgressPhase)
+          })
+          following = graph.users
+          socialGraphLimitHit = socialGraphLimitHit || graph.limitHit
+        }
+      }
+      usersRead = 1 + followers.length + following.length
+      await emitProgress(socialProgressPhase)
+    }
+
+    const timelineReturned = tweets.length + replies.length
+    const profileQueryCost = estimateTwitterApiUserReadsCostUsd(1) + (user.pinnedTweet ? estimateTwitterApiPostReadsCostUsd(1) : 0)
+    const timelineCost = estimateTwitterApiPostReadsCostUsd(Math.max(0, postsRead - (user.pinnedTweet ? 1 : 0)))
+    const timelineDistributionDivisor = Math.max(1, timelineReturned)
+    const tweetCost = timelineCost * (tweets.length / timelineDistributionDivisor)
+    const replyCost = timelineCost * (replies.length / timelineDistributionDivisor)
+    const followerCost = estimateTwitterApiUserReadsCostUsd(followers.length)
+    const followingCost = estimateTwitterApiUserReadsCostUsd(following.length)
+    const totalCost = costSoFar()
+
+    const timelineSourceTotal = user.statusesCount ?? 0
+    // An incremental run only fetches new items, so falling short of the profile's status count is expected.
+    const timelineSourceGap =
+      timelinePostsRequested
+      && !sinceTweetId
+      && !timelineLimitHit
+      && timelineSourceTotal > 0
+      && timelineReturned < Math.min(timelineSourceTotal, TIMELINE_MAX_ITEMS)
+    const partialReasons: string[] = []
+    if (timelineLimitHit) partialReasons.push('timeline_limit_reached')
+    if (socialGraphLimitHit) partialReasons.push('social_graph_budget_cap_reached')
+    if (timelineSourceGap) partialReasons.push('timeline_source_gap')
+
+    if (options?.onProgress) {
+      await options.onProgress({
+        phase: 'complete',
+        tweets_fetched: tweets.length,
+        replies_fetched: replies.length,
+        followers_fetched: followers.length,
+        following_fetched: following.length,
+        api_cost_usd: totalCost,
+      })
+    }
+
+    console.log('[Twitter API] Selective scrape complete', {
+      tweets: tweets.length,
+      replies: replies.length,
+      followers: followers.length,
+      following: following.length,
+      totalCost,
+      elapsedMs: Date.now() - startTime,
+    })
+
+    return {
+      tweets,
+      replies,
+      followers,
+      following,
+      cost: {
+        provider: 'twitter-api',
+        total_cost: totalCost,
+        tweets_count: timelineReturned,
+        breakdown: {
+          profile_query: roundUsd(profileQueryCost),
+          tweets: roundUsd(tweetCost),
+          replies: roundUsd(replyCost),
+          profile: roundUsd(profileQueryCost),
+          followers: followerCost,
+          following: followingCost,
+        },
+      },
+      metadata: {
+        username: user.username,
+        scraped_at: new Date().toISOString(),
+        is_partial: partialReasons.length > 0,
+        partial_reasons: partialReasons,
+        timeline_limit_hit: timelineLimitHit,
+        social_graph_limit_hit: socialGraphLimitHit,
+        tweets_requested: timelinePostsRequested ? maxTweets : 0,
+        tweets_received: timelineReturned,
+        profileImageUrl: user.profileImageUrl,
+        coverImageUrl: user.coverImageUrl,
+        displayName: user.name || user.username,
+        profileBio: user.description,
+        profileFollowersCount: user.followersCount,
+        profileFollowingCount: user.followingCount,
+        profileStatusesCount: user.statusesCount,
+        pinned_tweet_ids: pinnedTweetIds,
+        ...(sinceTweetId
+          ? { incremental: { since_tweet_id: sinceTweetId, reached_known_tweets: reachedKnownTweets } }
+          : {}),
+        selected_targets: targets,
+      },
+    }
   }
 
   getProviderName(): string {
@@ -60,4 +498,441 @@ export class TwitterApiProvider implements TwitterProvider {
   isConfigured(): boolean {
     return !!this.bearerToken && this.bearerToken.length > 0
   }
+
+  private assertConfigured() {
+    if (!this.isConfigured()) {
+      throw new Error('Twitter API bearer token not configured')
+    }
+  }
+
+  private resolveTargets(options?: TwitterScrapeOptions): TwitterScrapeTargets {
+    const requested = options?.targets
+    if (!requested) return { ...DEFAULT_TARGETS }
+    return {
+      profile: !!requested.profile,
+      tweets: !!requested.tweets,
+      replies: !!requested.replies,
+      followers: !!requested.followers,
+      following: !!requested.following,
+    }
+  }
+
+  private async lookupUser(username: string, shouldCancel?: ShouldCancel): Promise<ApiUser> {
+    const handle = this.normalizeHandle(username)
+    const body = await this.request(
+      `/users/by/username/${encodeURIComponent(handle)}`,
+      {
+        'user.fields': USER_FIELDS,
+        expansions: 'pinned_tweet_id',
+        'tweet.fields': TWEET_FIELDS,
+      },
+      shouldCancel,
+    )
+
+    const data = this.asObject(body.data)
+    if (!data || typeof data.id !== 'string') {
+      throw new TwitterApiRequestError(this.describeApiErrors(body) || `User @${handle} not found`, this.resolveErrorStatus(body))
+    }
+
+    const metrics = this.asObject(data.public_metrics) || {}
+    const username_ = typeof data.username === 'string' ? data.username : handle
+    const pinnedTweetId = typeof data.pinned_tweet_id === 'string' ? data.pinned_tweet_id : undefined
+    const includes = this.asObject(body.includes) || {}
+    const pinnedTweetItem = this.asObjectArray(includes.tweets).find((tweet) => tweet.id === pinnedTweetId)
+    const author = {
+      username: username_,
+      name: typeof data.name === 'string' ? data.name : username_,
+      profileImageUrl: this.normalizeProfileImageUrl(data.profile_image_url),
+    }
+
+    return {
+      id: data.id,
+      username: username_,
+      name: author.name,
+      description: typeof data.description === 'string' ? data.description : undefined,
+      profileImageUrl: author.profileImageUrl,
+      coverImageUrl: typeof data.profile_banner_url === 'string' ? data.profile_banner_url : undefined,
+      followersCount: this.readOptionalCount(metrics.followers_count),
+      followingCount: this.readOptionalCount(metrics.following_count),
+      statusesCount: this.readOptionalCount(metrics.tweet_count),
+      pinnedTweetId,
+      pinnedTweet: pinnedTweetItem
+        ? this.mapTweet(pinnedTweetItem, author, { users: new Map(), media: new Map() })
+        : undefined,
+    }
+  }
+
+  private async scrapeTimeline(
+    user: ApiUser,
+    params: {
+      maxItems: number
+      excludeReplies: boolean
+      sinceTweetId?: string
+      shouldCancel?: ShouldCancel
+      onPage: (progress: TimelineScrape) => Promise<void>
+    },
+  ): Promise<TimelineScrape> {
+    const author = { username: user.username, name: user.name || user.username, profileImageUrl: user.profileImageUrl }
+    const tweets: Tweet[] = []
+    const replies: Tweet[] = []
+    const seen = new Set<string>()
+    let postsRead = 0
+    let nextToken: string | undefined
+    let limitHit = false
+    let truncated = false
+
+    do {
+      const remaining = params.maxItems - postsRead
+      if (remaining <= 0) {
+        limitHit = true
+        break
+      }
+
+      const page = await this.requestPage(
+        `/users/${user.id}/tweets`,
+        {
+          // max_results must be between 5 and 100.
+          max_results: String(Math.max(5, Math.min(TIMELINE_PAGE_SIZE, remaining))),
+          'tweet.fields': TWEET_FIELDS,
+          'user.fields': 'username,name,profile_image_url',
+          'media.fields': MEDIA_FIELDS,
+          expansions: TIMELINE_EXPANSIONS,
+          exclude: params.excludeReplies ? 'replies' : undefined,
+          since_id: params.sinceTweetId,
+          pagination_token: nextToken,
+        },
+        params.shouldCancel,
+      )
+
+      const lookups = {
+        users: this.indexById(page.includes.users),
+        media: this.indexMedia(page.includes.media),
+      }
+      if (page.data.length > remaining) truncated = true
+      for (const item of page.data.slice(0, remaining)) {
+        postsRead += 1
+        const tweet = this.mapTweet(item, author, lookups)
+        if (!tweet.id || seen.has(tweet.id)) continue
+        seen.add(tweet.id)
+        if (tweet.in_reply_to_status_id) replies.push(tweet)
+        else tweets.push(tweet)
+      }
+
+      nextToken = page.nextToken
+      await params.onPage({ tweets, replies, postsRead, reachedKnownTweets: false, limitHit: false })
+    } while (nextToken)
+
+    // With since_id the API only returns newer posts, so running out of pages means every new post was seen.
+    return {
+      tweets,
+      replies,
+      postsRead,
+      reachedKnownTweets: Boolean(params.sinceTweetId) && !nextToken && !truncated,
+      limitHit: (limitHit && Boolean(nextToken)) || truncated,
+    }
+  }
+
+  private async scrapeSocialGraph(
+    user: ApiUser,
+    relation: 'followers' | 'following',
+    maxItems: number | undefined,
+    shouldCancel: ShouldCancel,
+    onPage: (users: Array<Follower | Following>) => Promise<void>,
+  ): Promise<SocialGraphScrape> {
+    const users: Array<Follower | Following> = []
+    const seen = new Set<string>()
+    let nextToken: string | undefined
+    let truncated = false
+
+    do {
+      const remaining = maxItems === undefined ? SOCIAL_GRAPH_PAGE_SIZE : maxItems - users.length
+      if (remaining <= 0) break
+
+      const page = await this.requestPage(
+        `/users/${user.id}/${relation}`,
+        {
+          max_results: String(Math.min(SOCIAL_GRAPH_PAGE_SIZE, Math.max(1, remaining))),
+          'user.fields': 'name,username,profile_image_url',
+          pagination_token: nextToken,
+        },
+        shouldCancel,
+      )
+
+      if (page.data.length > remaining) truncated = true
+      for (const item of page.data.slice(0, remaining)) {
+        const mapped = this.mapSocialUser(item)
+        if (!mapped || seen.has(mapped.user_id)) continue
+        seen.add(mapped.user_id)
+        users.push(mapped)
+      }
+
+      nextToken = page.nextToken
+      await onPage(users)
+    } while (nextToken)
+
+    return {
+      users,
+      limitHit: maxItems !== undefined && users.length >= maxItems && (truncated || Boolean(nextToken)),
+    }
+  }
+
+  private async requestPage(
+    path: string,
+    params: Record<string, string | undefined>,
+    shouldCancel?: ShouldCancel,
+  ): Promise<ApiPage> {
+    const body = await this.request(path, params, shouldCancel)
+    const includes = this.asObject(body.includes) || {}
+    const meta = this.asObject(body.meta) || {}
+    const data = this.asObjectArray(body.data)
+
+    // Empty pages come back without `data`; only a body with errors and nothing else is a failure.
+    if (data.length === 0 && Array.isArray(body.errors) && body.errors.length > 0 && meta.result_count === undefined) {
+      throw new TwitterApiRequestError(this.describeApiErrors(body) || `Request to ${path} failed`, this.resolveErrorStatus(body))
+    }
+
+    return {
+      data,
+      includes: {
+        users: this.asObjectArray(includes.users),
+        media: this.asObjectArray(includes.media),
+        tweets: this.asObjectArray(includes.tweets),
+      },
+      nextToken: typeof meta.next_token === 'string' && meta.next_token ? meta.next_token : undefined,
+    }
+  }
+
+  private async request(
+    path: string,
+    params: Record<string, string | undefined>,
+    shouldCancel?: ShouldCancel,
+  ): Promise<ApiObject> {
+    const url = new URL(`${this.baseUrl}${path}`)
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') url.searchParams.set(key, value)
+    }
+
+    for (let attempt = 1; ; attempt += 1) {
+      if (shouldCancel && (await shouldCancel())) throw new RunCancelledError()
+
+      let response: Response
+      try {
+        response = await this.fetchImpl(url.toString(), {
+          headers: {
+            Authorization: `Bearer ${this.bearerToken}`,
+            Accept: 'application/json',
+          },
+          cache: 'no-store',
+        })
+      } catch (networkError) {
+        if (attempt >= MAX_REQUEST_ATTEMPTS) throw networkError
+        await this.wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), shouldCancel)
+        continue
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        if (attempt >= MAX_REQUEST_ATTEMPTS) {
+          throw new TwitterApiRequestError(
+            response.status === 429 ? 'Twitter API rate limit exceeded' : `Twitter API request failed with status ${response.status}`,
+            response.status,
+          )
+        }
+        const delayMs = response.status === 429
+          ? this.resolveRateLimitDelay(response, attempt)
+          : RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+        console.warn(`[Twitter API] ${response.status} from ${path}; retrying in ${Math.round(delayMs / 1000)}s`)
+        await this.wait(delayMs, shouldCancel)
+        continue
+      }
+
+      const body = this.asObject(await response.json().catch(() => null)) || {}
+      if (!response.ok) {
+        throw new TwitterApiRequestError(
+          this.describeApiErrors(body) || `Twitter API request failed with status ${response.status}`,
+          response.status,
+        )
+      }
+      return body
+    }
+  }
+
+  private resolveRateLimitDelay(response: Response, attempt: number): number {
+    const resetSeconds = Number(response.headers.get('x-rate-limit-reset'))
+    if (Number.isFinite(resetSeconds) && resetSeconds > 0) {
+      const untilReset = resetSeconds * 1000 - Date.now()
+      return Math.min(MAX_RATE_LIMIT_WAIT_MS, Math.max(RETRY_BASE_DELAY_MS, untilReset + RETRY_BASE_DELAY_MS))
+    }
+    return Math.min(MAX_RATE_LIMIT_WAIT_MS, RETRY_BASE_DELAY_MS * 2 ** attempt)
+  }
+
+  // Sleeps in short slices so a cancel request does not wait out a full rate-limit window.
+  private async wait(ms: number, shouldCancel?: ShouldCancel) {
+    let remaining = ms
+    while (remaining > 0) {
+      if (shouldCancel && (await shouldCancel())) throw new RunCancelledError()
+      const slice = Math.min(remaining, CANCEL_CHECK_INTERVAL_MS)
+      await this.sleepImpl(slice)
+      remaining -= slice
+    }
+  }
+
+  private mapTweet(
+    item: ApiObject,
+    author: { username: string; name: string; profileImageUrl?: string },
+    lookups: { users: Map<string, ApiObject>; media: Map<string, ApiObject> },
+  ): Tweet {
+    const tweetId = String(item.id || '')
+    const metrics = this.asObject(item.public_metrics) || {}
+    const noteTweet = this.asObject(item.note_tweet)
+    const references = this.asObjectArray(item.referenced_tweets)
+    const repliedTo = references.find((reference) => reference.type === 'replied_to')
+    const inReplyToUserId = typeof item.in_reply_to_user_id === 'string' ? item.in_reply_to_user_id : null
+    const inReplyToUser = inReplyToUserId ? lookups.users.get(inReplyToUserId) : undefined
+    const attachments = this.asObject(item.attachments) || {}
+    const mediaKeys = Array.isArray(attachments.media_keys) ? attachments.media_keys : []
+    const media = mediaKeys
+      .map((key) => lookups.media.get(String(key)))
+      .map((mediaItem) => (mediaItem ? this.mapMediaItem(mediaItem) : null))
+      .filter((mediaItem): mediaItem is TweetMedia => Boolean(mediaItem))
+
+    return {
+      id: tweetId,
+      text: String((noteTweet?.text as string | undefined) || item.text || ''),
+      created_at: String(item.created_at || ''),
+      retweet_count: this.asNumber(metrics.retweet_count),
+      favorite_count: this.asNumber(metrics.like_count),
+      reply_count: this.asNumber(metrics.reply_count),
+      in_reply_to_status_id: repliedTo ? String(repliedTo.id) : null,
+      in_reply_to_user_id: inReplyToUserId,
+      in_reply_to_screen_name: typeof inReplyToUser?.username === 'string' ? inReplyToUser.username : null,
+      tweet_url: `https://x.com/${author.username}/status/${tweetId}`,
+      author,
+      media: media.length > 0 ? media : undefined,
+    }
+  }
+
+  private mapMediaItem(mediaItem: ApiObject): TweetMedia | null {
+    const rawType = String(mediaItem.type || '')
+    const type: TweetMedia['type'] =
+      rawType === 'video' || rawType === 'animated_gif' ? rawType : 'photo'
+    const previewImageUrl =
+      (mediaItem.preview_image_url as string | undefined) || (mediaItem.url as string | undefined)
+    const bestVideoVariant = this.asObjectArray(mediaItem.variants)
+      .filter((variant) => typeof variant.url === 'string' && `${variant.content_type || ''}`.toLowerCase().includes('mp4'))
+      .sort((a, b) => this.asNumber(b.bit_rate) - this.asNumber(a.bit_rate))[0]
+
+    const mediaUrl =
+      type === 'photo'
+        ? (mediaItem.url as string | undefined)
+        : ((bestVideoVariant?.url as string | undefined) || previewImageUrl)
+    if (!mediaUrl) return null
+
+    return {
+      url: mediaUrl,
+      type,
+      media_url: mediaUrl,
+      media_url_https: previewImageUrl,
+    }
+  }
+
+  private mapSocialUser(item: ApiObject): Follower | null {
+    const userId = typeof item.id === 'string' ? item.id : ''
+    if (!userId) return null
+    const username = typeof item.username === 'string' ? item.username : undefined
+    return {
+      user_id: userId,
+      username,
+      name: typeof item.name === 'string' ? item.name : undefined,
+      userLink: username ? `https://x.com/${username}` : `https://twitter.com/intent/user?user_id=${userId}`,
+      profileImageUrl: this.normalizeProfileImageUrl(item.profile_image_url),
+    }
+  }
+
+  private mapListItem(
+    item: ApiObject,
+    relationship: TwitterListRelationship,
+    ownersById: Map<string, ApiObject>,
+  ): TwitterList | null {
+    const listId = typeof item.id === 'string' ? item.id : ''
+    if (!listId) return null
+    const owner = typeof item.owner_id === 'string' ? ownersById.get(item.owner_id) : undefined
+    return {
+      list_id: listId,
+      relationship,
+      url: `https://x.com/i/lists/${listId}`,
+      name: typeof item.name === 'string' ? item.name : undefined,
+      description: typeof item.description === 'string' && item.description ? item.description : undefined,
+      owner_username: typeof owner?.username === 'string' ? owner.username : undefined,
+      member_count: this.readOptionalCount(item.member_count),
+      subscriber_count: this.readOptionalCount(item.follower_count),
+    }
+  }
+
+  private applyPinnedRank(tweet: Tweet, pinnedTweetIds: string[]): Tweet {
+    const pinnedRank = pinnedTweetIds.indexOf(tweet.id)
+    if (pinnedRank < 0) return tweet
+    return { ...tweet, is_pinned: true, pinned_rank: pinnedRank }
+  }
+
+  private sortTimelineTweets(tweets: Tweet[]): Tweet[] {
+    return [...tweets].sort((a, b) => {
+      if (Boolean(a.is_pinned) !== Boolean(b.is_pinned)) return a.is_pinned ? -1 : 1
+      const aTime = new Date(a.created_at || '').getTime()
+      const bTime = new Date(b.created_at || '').getTime()
+      if (Number.isFinite(aTime) && Number.isFinite(bTime) && aTime !== bTime) return bTime - aTime
+      return 0
+    })
+  }
+
+  private indexById(items: ApiObject[]): Map<string, ApiObject> {
+    return new Map(items.filter((item) => typeof item.id === 'string').map((item) => [item.id as string, item]))
+  }
+
+  private indexMedia(items: ApiObject[]): Map<string, ApiObject> {
+    return new Map(
+      items.filter((item) => typeof item.media_key === 'string').map((item) => [item.media_key as string, item]),
+    )
+  }
+
+  private describeApiErrors(body: ApiObject): string {
+    const errors = this.asObjectArray(body.errors)
+    const first = errors[0] || body
+    return String(first.detail || first.message || first.title || '').trim()
+  }
+
+  private resolveErrorStatus(body: ApiObject): number {
+    const first = this.asObjectArray(body.errors)[0] || {}
+    const type = String(first.type || '')
+    if (type.endsWith('/resource-not-found')) return 404
+    if (type.endsWith('/not-authorized-for-resource') || type.endsWith('/resource-unavailable')) return 403
+    return 400
+  }
+
+  private normalizeHandle(handle?: string): string {
+    return (handle || '').trim().replace(/^@/, '')
+  }
+
+  // v2 returns the 48px "_normal" avatar; the 400px variant matches what Apify snapshots store.
+  private normalizeProfileImageUrl(url: unknown): string | undefined {
+    if (typeof url !== 'string' || !url) return undefined
+    return url.replace('_normal.', '_400x400.')
+  }
+
+  private asObject(value: unknown): ApiObject | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as ApiObject) : null
+  }
+
+  private asObjectArray(value: unknown): ApiObject[] {
+    return Array.isArray(value) ? value.filter((item): item is ApiObject => Boolean(this.asObject(item))) : []
+  }
+
+  private asNumber(value: unknown): number {
+    const parsed = typeof value === 'number' ? value : Number(value)
+    return Number.isFinite(parsed) ? parsed : 0
+  }
+
+  private readOptionalCount(value: unknown): number | undefined {
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : Number.NaN
+    return Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : undefined
+  }
 }
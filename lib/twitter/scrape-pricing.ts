@@ -0,0 +1,83 @@
+import {
+  estimateApifySocialGraphCostUsd,
+  estimateApifyTimelineCostUsd,
+  maxApifySocialGraphItemsForBudget,
+  maxApifyTimelineItemsForBudget,
+  roundUsd,
+} from './apify-pricing'
+import {
+  estimateTwitterApiPostReadsCostUsd,
+  estimateTwitterApiUserReadsCostUsd,
+  maxTwitterApiPostReadsForBudget,
+  maxTwitterApiUserReadsForBudget,
+} from './twitter-api-pricing'
+import { CompositeProvider } from './providers/composite-provider'
+import type { TwitterProvider } from './twitter-provider.interface'
+import type { TwitterProviderRoute } from './types'
+
+export type TwitterScrapePricing = {
+  estimateTimelineCostUsd: (timelineItems: number) => number
+  maxTimelineItemsForBudget: (budgetUsd: number) => number
+  estimateSocialGraphCostUsd: (socialGraphItems: number) => number
+  maxSocialGraphItemsForBudget: (budgetUsd: number) => number
+}
+
+// The X API timeline also pays for the user lookup and the pinned post it expands.
+const twitterApiTimelineFixedCostUsd = () =>
+  roundUsd(estimateTwitterApiUserReadsCostUsd(1) + estimateTwitterApiPostReadsCostUsd(1))
+
+const PRICING_BY_PROVIDER: Record<string, TwitterScrapePricing> = {
+  apify: {
+    estimateTimelineCostUsd: estimateApifyTimelineCostUsd,
+    maxTimelineItemsForBudget: maxApifyTimelineItemsForBudget,
+    estimateSocialGraphCostUsd: estimateApifySocialGraphCostUsd,
+    maxSocialGraphItemsForBudget: maxApifySocialGraphItemsForBudget,
+  },
+  'twitter-api': {
+    estimateTimelineCostUsd: (timelineItems) =>
+      timelineItems > 0
+        ? roundUsd(twitterApiTimelineFixedCostUsd() + estimateTwitterApiPostReadsCostUsd(timelineItems))
+        : 0,
+    maxTimelineItemsForBudget: (budgetUsd) => maxTwitterApiPostReadsForBudget(budgetUsd - twitterApiTimelineFixedCostUsd()),
+    estimateSocialGraphCostUsd: estimateTwitterApiUserReadsCostUsd,
+    maxSocialGraphItemsForBudget: maxTwitterApiUserReadsForBudget,
+  },
+}
+
+// Unknown names fall back to Apify, matching getTwitterProvider().
+function pricingForProviderName(name: string): TwitterScrapePricing {
+  return PRICING_BY_PROVIDER[name] ?? PRICING_BY_PROVIDER.apify
+}
+
+// A fallback chain may end up running any of its providers, so it is sized for the most expensive one.
+function pricingForChain(names: string[]): TwitterScrapePricing {
+  const chain = [...new Set(names)].map(pricingForProviderName)
+  if (chain.length === 0) return PRICING_BY_PROVIDER.apify
+  return {
+    estimateTimelineCostUsd: (items) => Math.max(...chain.map((pricing) => pricing.estimateTimelineCostUsd(items))),
+    maxTimelineItemsForBudget: (budget) => Math.min(...chain.map((pricing) => pricing.maxTimelineItemsForBudget(budget))),
+    estimateSocialGraphCostUsd: (items) => Math.max(...chain.map((pricing) => pricing.estimateSocialGraphCostUsd(items))),
+    maxSocialGraphItemsForBudget: (budget) =>
+      Math.min(...chain.map((pricing) => pricing.maxSocialGraphItemsForBudget(budget))),
+  }
+}
+
+/**
+ * Prices a snapshot run for the provider that will scrape it. Composite providers price the timeline
+ * with the profile and timeline chains and the social graph with its own chain.
+ */
+export function getTwitterScrapePricing(provider: TwitterProvider): TwitterScrapePricing {
+  if (!(provider instanceof CompositeProvider)) {
+    return pricingForProviderName(provider.getProviderName())
+  }
+
+  const namesFor = (...routes: TwitterProviderRoute[]) => routes.flatMap((route) => provider.getRouteProviderNames(route))
+  const timeline = pricingForChain(namesFor('profile', 'timeline'))
+  const socialGraph = pricingForChain(namesFor('social_graph'))
+  return {
+    estimateTimelineCostUsd: timeline.estimateTimelineCostUsd,
+    maxTimelineItemsForBudget: timeline.maxTimelineItemsForBudget,
+    estimateSocialGraphCostUsd: socialGraph.estimateSocialGraphCostUsd,
+    maxSocialGraphItemsForBudget: socialGraph.maxSocialGraphItemsForBudget,
+  }
+}
@@ -0,0 +1,23 @@
+const NUMERIC_ID_PATTERN = /^\d{1,20}$/
+
+/**
+ * Orders tweet ids numerically. Snowflake ids outgrow Number precision, so they are compared as BigInt.
+ * Returns null when either id is not numeric.
+ */
+export function compareTweetIds(a: string, b: string): number | null {
+  const left = a.trim()
+  const right = b.trim()
+  if (!NUMERIC_ID_PATTERN.test(left) || !NUMERIC_ID_PATTERN.test(right)) return null
+  const diff = BigInt(left) - BigInt(right)
+  return diff === BigInt(0) ? 0 : diff > BigInt(0) ? 1 : -1
+}
+
+export function maxTweetId(ids: Iterable<string>): string | null {
+  let newest: string | null = null
+  for (const id of ids) {
+    const trimmed = id.trim()
+    if (!NUMERIC_ID_PATTERN.test(trimmed)) continue
+    if (newest === null || (compareTweetIds(trimmed, newest) ?? 0) > 0) newest = trimmed
+  }
+  return newest
+}
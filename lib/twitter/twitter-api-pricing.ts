@@ -0,0 +1,32 @@
+import { TWITTER_API_PRICING } from '@/lib/platforms/twitter/limits'
+import { roundUsd } from './apify-pricing'
+
+function safeCount(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) return 0
+  return Math.floor(value)
+}
+
+export function estimateTwitterApiPostReadsCostUsd(posts: number): number {
+  return roundUsd(safeCount(posts) * TWITTER_API_PRICING.postReadUsd)
+}
+
+export function estimateTwitterApiUserReadsCostUsd(users: number): number {
+  return roundUsd(safeCount(users) * TWITTER_API_PRICING.userReadUsd)
+}
+
+export function estimateTwitterApiListReadsCostUsd(lists: number): number {
+  return roundUsd(safeCount(lists) * TWITTER_API_PRICING.listReadUsd)
+}
+
+export function maxTwitterApiPostReadsForBudget(budgetUsd: number): number {
+  if (!Number.isFinite(budgetUsd) || budgetUsd <= 0) return 0
+  if (TWITTER_API_PRICING.postReadUsd <= 0) return Number.MAX_SAFE_INTEGER
+  // The epsilon keeps float division from dropping an item at an exact budget boundary.
+  return Math.max(0, Math.floor(budgetUsd / TWITTER_API_PRICING.postReadUsd + 1e-9))
+}
+
+export function maxTwitterApiUserReadsForBudget(budgetUsd: number): number {
+  if (!Number.isFinite(budgetUsd) || budgetUsd <= 0) return 0
+  if (TWITTER_API_PRICING.userReadUsd <= 0) return Number.MAX_SAFE_INTEGER
+  return Math.max(0, Math.floor(budgetUsd / TWITTER_API_PRICING.userReadUsd + 1e-9))
+}
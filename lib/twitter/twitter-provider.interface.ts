@@ -1,4 +1,12 @@
-import { Tweet, Follower, Following, TwitterScrapeOptions, TwitterScrapeResult } from './types'
+import {
+  Tweet,
+  Follower,
+  Following,
+  TwitterListScrapeOptions,
+  TwitterListScrapeResult,
+  TwitterScrapeOptions,
+  TwitterScrapeResult,
+} from './types'
 
 /**
  * Abstract interface that all Twitter scraping providers must implement
@@ -41,6 +49,14 @@ export interface TwitterProvider {
    */
   scrapeFollowing(username: string): Promise<Following[]>
 
+  /**
+   * Scrape the Lists a user owns, is a member of, or subscribes to.
+   * Providers that cannot fetch list membership should omit this method.
+   * @param username - Twitter username (without @)
+   * @returns Lists tagged with the user's relationship to each one, and the estimated cost of fetching them
+   */
+  scrapeLists?(username: string, options?: TwitterListScrapeOptions): Promise<TwitterListScrapeResult>
+
   /**
    * Scrape profile-level metadata (avatar, cover, display name)
    * @param username - Twitter username (without @)
@@ -1,33 +1,82 @@
 import { TwitterProvider } from './twitter-provider.interface'
 import { ApifyProvider } from './providers/apify-provider'
 import { TwitterApiProvider } from './providers/twitter-api-provider'
+import { CompositeProvider, TwitterProviderRoutes } from './providers/composite-provider'
+import { TwitterProviderRoute } from './types'
+
+const ROUTE_PROVIDER_ENV: Record<TwitterProviderRoute, string> = {
+  profile: 'TWITTER_SCRAPE_PROVIDER_PROFILE',
+  timeline: 'TWITTER_SCRAPE_PROVIDER_TIMELINE',
+  social_graph: 'TWITTER_SCRAPE_PROVIDER_SOCIAL_GRAPH',
+}
+
+function parseProviderChain(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function createProvider(name: string): TwitterProvider {
+  switch (name) {
+    case 'apify':
+      return new ApifyProvider()
+    
+    case 'twitter-api':
+      return new TwitterApiProvider()
+    
+    default:
+      console.warn(`Unknown provider: ${name}, falling back to Apify`)
+      return new ApifyProvider()
+  }
+}
 
 /**
  * Factory function to get the appropriate Twitter provider
  * Based on the TWITTER_SCRAPE_PROVIDER environment variable
  * 
- * Defaults to 'apify' for now
+ * Defaults to 'apify' for now. A comma-separated list (e.g. `twitter-api,apify`) is a fallback chain, and
+ * TWITTER_SCRAPE_PROVIDER_PROFILE / _TIMELINE / _SOCIAL_GRAPH route those targets to their own chains.
+ * Either one returns a CompositeProvider.
  * 
  * Usage:
  *   const twitter = getTwitterProvider()
  *   const result = await twitter.scrapeAll('elonmusk', 3200)
  */
 export function getTwitterProvider(): TwitterProvider {
-  const provider = process.env.TWITTER_SCRAPE_PROVIDER || 'apify'
+  const defaultChain = parseProviderChain(process.env.TWITTER_SCRAPE_PROVIDER)
+  if (defaultChain.length === 0) defaultChain.push('apify')
 
-  console.log(`[TwitterService] Using provider: ${provider}`)
+  const routeChains = Object.fromEntries(
+    Object.entries(ROUTE_PROVIDER_ENV).map(([route, envName]) => {
+      const chain = parseProviderChain(process.env[envName])
+      return [route, chain.length > 0 ? chain : defaultChain]
+    }),
+  ) as Record<TwitterProviderRoute, string[]>
 
-  switch (provider) {
-    case 'apify':
-      return new ApifyProvider()
-    
-    case 'twitter-api':
-      return new TwitterApiProvider()
-    
-    default:
-      console.warn(`Unknown provider: ${provider}, falling back to Apify`)
-      return new ApifyProvider()
+  const isSingleProvider = Object.values(routeChains).every(
+    (chain) => chain.length === 1 && chain[0] === defaultChain[0],
+  )
+  if (isSingleProvider) {
+    console.log(`[TwitterService] Using provider: ${defaultChain[0]}`)
+    return createProvider(defaultChain[0])
   }
+
+  // Share one instance per backend so targets routed to the same chain run in a single scrape.
+  const instances = new Map<string, TwitterProvider>()
+  const resolve = (name: string) => {
+    const existing = instances.get(name)
+    if (existing) return existing
+    const provider = createProvider(name)
+    instances.set(name, provider)
+    return provider
+  }
+  const routes = Object.fromEntries(
+    Object.entries(routeChains).map(([route, chain]) => [route, [...new Set(chain)].map(resolve)]),
+  ) as TwitterProviderRoutes
+
+  console.log('[TwitterService] Using composite provider:', routeChains)
+  return new CompositeProvider(routes)
 }
 
 /**
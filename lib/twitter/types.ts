@@ -2,6 +2,15 @@
 
 export type TwitterScrapeTarget = 'profile' | 'tweets' | 'replies' | 'followers' | 'following'
 
+// Target groups a composite provider can send to different backends.
+export type TwitterProviderRoute = 'profile' | 'timeline' | 'social_graph'
+
+export interface TwitterProviderFallback {
+  route: TwitterProviderRoute
+  provider: string
+  reason: string
+}
+
 export interface TwitterScrapeTargets {
   profile: boolean
   tweets: boolean
@@ -13,6 +22,8 @@ export interface TwitterScrapeTargets {
 export interface TwitterScrapeOptions {
   targets: TwitterScrapeTargets
   socialGraphMaxItems?: number
+  // Incremental mode: only fetch timeline items newer than this tweet id, stopping once older ones appear.
+  sinceTweetId?: string
   onProgress?: (update: TwitterScrapeProgressUpdate) => Promise<void> | void
   shouldCancel?: () => Promise<boolean> | boolean
   apifyWebhook?: {
@@ -78,6 +89,42 @@ export interface Following {
   profileImageUrl?: string
 }
 
+export type TwitterListRelationship = 'owned' | 'member' | 'subscribed'
+
+export interface TwitterListMember {
+  user_id?: string
+  username: string
+  name?: string
+}
+
+export interface TwitterList {
+  list_id: string
+  relationship: TwitterListRelationship
+  url: string
+  name?: string
+  description?: string
+  owner_username?: string
+  member_count?: number
+  subscriber_count?: number
+  // Only filled for owned lists, and only by providers that can page list members.
+  members?: TwitterListMember[]
+}
+
+export interface TwitterListScrapeOptions {
+  maxItems?: number
+  maxMembersPerList?: number
+  // What is left of the run budget; providers stop fetching once their estimated spend reaches it.
+  maxCostUsd?: number
+  shouldCancel?: () => Promise<boolean> | boolean
+}
+
+export interface TwitterListScrapeResult {
+  lists: TwitterList[]
+  cost_usd: number
+  // Set when `maxItems`, `maxMembersPerList` or `maxCostUsd` cut the scrape short.
+  is_partial: boolean
+}
+
 export interface Like {
   tweet_id: string
   full_text?: string
@@ -96,6 +143,7 @@ export interface TwitterScrapeCost {
     profile?: number
     followers?: number
     following?: number
+    lists?: number
   }
 }
 
@@ -121,6 +169,15 @@ export interface TwitterScrapeResult {
     profileFollowersCount?: number
     profileFollowingCount?: number
     profileStatusesCount?: number
+    // Current pinned ids, so an incremental run can re-flag pinned tweets it did not fetch again.
+    pinned_tweet_ids?: string[]
+    incremental?: {
+      since_tweet_id: string
+      reached_known_tweets: boolean
+    }
     selected_targets: TwitterScrapeTargets
+    // Set by the composite provider: which backend produced each target, and any providers it skipped.
+    target_providers?: Partial<Record<TwitterScrapeTarget, string>>
+    provider_fallbacks?: TwitterProviderFallback[]
   }
 }
@@ -0,0 +1,186 @@
+-- Move tweets, replies, likes, followers and following out of backups.data into indexed tables.
+--
+-- Goals:
+-- 1) Create backup_tweets, backup_likes and backup_connections keyed by backup id.
+-- 2) Backfill them from the existing backups.data JSONB arrays.
+-- 3) Drop the moved arrays from backups.data so list queries and storage accounting stay small.
+-- 4) Expose backup_content_bytes() so storage accounting can size rows without loading them.
+
+begin;
+
+-- Archives use "Wed Oct 10 20:19:24 +0000 2018"; snapshots use ISO 8601.
+create or replace function public.parse_backup_content_timestamp(value text)
+returns timestamptz
+language plpgsql
+stable
+as $$
+begin
+  if value is null or btrim(value) = '' then
+    return null;
+  end if;
+
+  begin
+    return value::timestamptz;
+  exception when others then
+    null;
+  end;
+
+  begin
+    return (
+      split_part(value, ' ', 2) || ' ' ||
+      split_part(value, ' ', 3) || ' ' ||
+      split_part(value, ' ', 6) || ' ' ||
+      split_part(value, ' ', 4) || ' ' ||
+      split_part(value, ' ', 5)
+    )::timestamptz;
+  exception when others then
+    return null;
+  end;
+end
+$$;
+
+-- 1) tables
+create table if not exists public.backup_tweets (
+  backup_id uuid not null references public.backups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('tweet', 'reply')),
+  position integer not null,
+  tweet_id text,
+  tweeted_at timestamptz,
+  data jsonb not null,
+  primary key (backup_id, kind, position)
+);
+
+create index if not exists backup_tweets_backup_kind_tweeted_at_idx
+  on public.backup_tweets (backup_id, kind, tweeted_at desc);
+
+create index if not exists backup_tweets_backup_tweet_id_idx
+  on public.backup_tweets (backup_id, tweet_id);
+
+create table if not exists public.backup_likes (
+  backup_id uuid not null references public.backups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  position integer not null,
+  tweet_id text,
+  data jsonb not null,
+  primary key (backup_id, position)
+);
+
+create index if not exists backup_likes_backup_tweet_id_idx
+  on public.backup_likes (backup_id, tweet_id);
+
+create table if not exists public.backup_connections (
+  backup_id uuid not null references public.backups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  relationship text not null check (relationship in ('follower', 'following')),
+  position integer not null,
+  account_id text,
+  username text,
+  data jsonb not null,
+  primary key (backup_id, relationship, position)
+);
+
+create index if not exists backup_connections_backup_username_idx
+  on public.backup_connections (backup_id, relationship, lower(username));
+
+create index if not exists backup_connections_backup_account_id_idx
+  on public.backup_connections (backup_id, account_id);
+
+alter table public.backup_tweets enable row level security;
+alter table public.backup_likes enable row level security;
+alter table public.backup_connections enable row level security;
+
+drop policy if exists "Users can view their own backup tweets" on public.backup_tweets;
+create policy "Users can view their own backup tweets"
+  on public.backup_tweets for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can view their own backup likes" on public.backup_likes;
+create policy "Users can view their own backup likes"
+  on public.backup_likes for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can view their own backup connections" on public.backup_connections;
+create policy "Users can view their own backup connections"
+  on public.backup_connections for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- 2) backfill from backups.data
+insert into public.backup_tweets (backup_id, user_id, kind, position, tweet_id, tweeted_at, data)
+select
+  b.id,
+  b.user_id,
+  source.kind,
+  (item.ordinality - 1)::integer,
+  coalesce(item.value->>'id_str', item.value->>'id'),
+  public.parse_backup_content_timestamp(item.value->>'created_at'),
+  item.value
+from public.backups b
+cross join lateral (values ('tweet', b.data->'tweets'), ('reply', b.data->'replies')) as source(kind, items)
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(source.items) = 'array' then source.items else '[]'::jsonb end
+) with ordinality as item(value, ordinality)
+where b.user_id is not null
+  and jsonb_typeof(item.value) = 'object'
+on conflict do nothing;
+
+insert into public.backup_likes (backup_id, user_id, position, tweet_id, data)
+select
+  b.id,
+  b.user_id,
+  (item.ordinality - 1)::integer,
+  coalesce(item.value->>'tweet_id', item.value->>'tweetId'),
+  item.value
+from public.backups b
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(b.data->'likes') = 'array' then b.data->'likes' else '[]'::jsonb end
+) with ordinality as item(value, ordinality)
+where b.user_id is not null
+  and jsonb_typeof(item.value) = 'object'
+on conflict do nothing;
+
+insert into public.backup_connections (backup_id, user_id, relationship, position, account_id, username, data)
+select
+  b.id,
+  b.user_id,
+  source.relationship,
+  (item.ordinality - 1)::integer,
+  coalesce(item.value->>'user_id', item.value->>'accountId'),
+  nullif(btrim(item.value->>'username'), ''),
+  item.value
+from public.backups b
+cross join lateral (values ('follower', b.data->'followers'), ('following', b.data->'following')) as source(relationship, items)
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(source.items) = 'array' then source.items else '[]'::jsonb end
+) with ordinality as item(value, ordinality)
+where b.user_id is not null
+  and jsonb_typeof(item.value) = 'object'
+on conflict do nothing;
+
+-- 3) drop the moved arrays from the blob
+update public.backups
+set data = data - 'tweets' - 'replies' - 'likes' - 'followers' - 'following'
+where user_id is not null
+  and data ?| array['tweets', 'replies', 'likes', 'followers', 'following'];
+
+-- 4) storage accounting helper
+create or replace function public.backup_content_bytes(p_backup_ids uuid[])
+returns table (backup_id uuid, content_bytes bigint)
+language sql
+stable
+as $$
+  select content.backup_id, sum(content.bytes)::bigint as content_bytes
+  from (
+    select t.backup_id, octet_length(t.data::text) as bytes from public.backup_tweets t where t.backup_id = any(p_backup_ids)
+    union all
+    select l.backup_id, octet_length(l.data::text) from public.backup_likes l where l.backup_id = any(p_backup_ids)
+    union all
+    select c.backup_id, octet_length(c.data::text) from public.backup_connections c where c.backup_id = any(p_backup_ids)
+  ) content
+  group by content.backup_id
+$$;
+
+commit;
@@ -0,0 +1,35 @@
+-- Add reply and pin flags to backup_tweets so the paginated content API can split posts from replies in SQL.
+--
+-- Goals:
+-- 1) Add is_reply, is_pinned and pinned_rank columns.
+-- 2) Backfill them from the stored tweet JSON using the same rules as the viewer.
+-- 3) Index the post/reply listing order.
+
+begin;
+
+alter table public.backup_tweets
+  add column if not exists is_reply boolean not null default false;
+
+alter table public.backup_tweets
+  add column if not exists is_pinned boolean not null default false;
+
+alter table public.backup_tweets
+  add column if not exists pinned_rank integer;
+
+update public.backup_tweets
+set
+  is_reply = (
+    coalesce(nullif(data->>'in_reply_to_status_id', ''), nullif(data->>'in_reply_to_status_id_str', ''),
+      nullif(data->>'in_reply_to_user_id', ''), nullif(data->>'in_reply_to_user_id_str', ''),
+      nullif(data->>'in_reply_to_screen_name', '')) is not null
+  ),
+  pinned_rank = case when (data->>'pinned_rank') ~ '^-?\d+$' then (data->>'pinned_rank')::integer else null end,
+  is_pinned = (
+    lower(coalesce(data->>'is_pinned', '')) in ('true', '1')
+    or (data->>'pinned_rank') ~ '^-?\d+$'
+  );
+
+create index if not exists backup_tweets_backup_listing_idx
+  on public.backup_tweets (backup_id, kind, is_reply, tweeted_at desc, position desc);
+
+commit;
@@ -0,0 +1,154 @@
+-- Full-text search over backup tweets, replies, likes and the social graph.
+--
+-- Goals:
+-- 1) Add generated search vectors to backup_tweets, backup_likes and backup_connections, indexed with GIN.
+-- 2) Add generated like_count and has_media columns so search operators filter in SQL.
+-- 3) Expose search_backup_content() to search a set of backups in one query.
+
+begin;
+
+-- 1) search vectors
+alter table public.backup_tweets
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('simple'::regconfig, coalesce(data->>'full_text', data->>'text', ''))) stored;
+
+alter table public.backup_likes
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('simple'::regconfig, coalesce(data->>'full_text', data->>'text', ''))) stored;
+
+alter table public.backup_connections
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('simple'::regconfig, coalesce(username, '') || ' ' || coalesce(data->>'name', ''))) stored;
+
+create index if not exists backup_tweets_search_vector_idx
+  on public.backup_tweets using gin (search_vector);
+
+create index if not exists backup_likes_search_vector_idx
+  on public.backup_likes using gin (search_vector);
+
+create index if not exists backup_connections_search_vector_idx
+  on public.backup_connections using gin (search_vector);
+
+-- 2) operator columns
+alter table public.backup_tweets
+  add column if not exists like_count integer
+  generated always as (
+    case when (data->>'favorite_count') ~ '^\d{1,9}$' then (data->>'favorite_count')::integer else null end
+  ) stored;
+
+alter table public.backup_tweets
+  add column if not exists has_media boolean
+  generated always as (
+    coalesce(jsonb_typeof(data->'media') = 'array' and data->'media' <> '[]'::jsonb, false)
+    or coalesce(jsonb_typeof(data->'extended_entities'->'media') = 'array' and data->'extended_entities'->'media' <> '[]'::jsonb, false)
+    or coalesce(jsonb_typeof(data->'entities'->'media') = 'array' and data->'entities'->'media' <> '[]'::jsonb, false)
+  ) stored;
+
+-- 3) search function
+-- Likes and accounts carry no author, date, media or like count, so any of those operators limits results to tweets and replies.
+create or replace function public.search_backup_content(
+  p_backup_ids uuid[],
+  p_text text,
+  p_from text default null,
+  p_to text default null,
+  p_has_media boolean default false,
+  p_before timestamptz default null,
+  p_after timestamptz default null,
+  p_min_likes integer default null,
+  p_limit integer default 50,
+  p_offset integer default 0
+)
+returns table (
+  backup_id uuid,
+  source text,
+  position integer,
+  tweet_id text,
+  tweeted_at timestamptz,
+  data jsonb,
+  rank real
+)
+language sql
+stable
+as $$
+  with params as (
+    select
+      case when coalesce(btrim(p_text), '') = '' then null else websearch_to_tsquery('simple', p_text) end as tsq,
+      array_remove(regexp_split_to_array(lower(coalesce(btrim(p_text), '')), '\s+'), '') as words,
+      (
+        p_from is not null
+        or p_to is not null
+        or coalesce(p_has_media, false)
+        or p_before is not null
+        or p_after is not null
+        or p_min_likes is not null
+      ) as tweet_operators
+  )
+  select hits.*
+  from (
+    select
+      t.backup_id,
+      case when t.kind = 'reply' or t.is_reply then 'reply' else 'tweet' end as source,
+      t.position,
+      t.tweet_id,
+      t.tweeted_at,
+      t.data,
+      coalesce(ts_rank(t.search_vector, p.tsq), 0)::real as rank
+    from public.backup_tweets t
+    cross join params p
+    where t.backup_id = any(p_backup_ids)
+      and (p.tsq is null or t.search_vector @@ p.tsq)
+      and (p_from is null or lower(coalesce(t.data->'author'->>'username', t.data->'user'->>'screen_name')) = lower(p_from))
+      and (p_to is null or lower(t.data->>'in_reply_to_screen_name') = lower(p_to))
+      and (not coalesce(p_has_media, false) or t.has_media)
+      and (p_before is null or t.tweeted_at < p_before)
+      and (p_after is null or t.tweeted_at >= p_after)
+      and (p_min_likes is null or t.like_count >= p_min_likes)
+
+    union all
+
+    select
+      l.backup_id,
+      'like',
+      l.position,
+      l.tweet_id,
+      null::timestamptz,
+      l.data,
+      ts_rank(l.search_vector, p.tsq)::real
+    from public.backup_likes l
+    cross join params p
+    where l.backup_id = any(p_backup_ids)
+      and p.tsq is not null
+      and not p.tweet_operators
+      and l.search_vector @@ p.tsq
+
+    union all
+
+    select
+      c.backup_id,
+      c.relationship,
+      c.position,
+      null::text,
+      null::timestamptz,
+      c.data,
+      -- Handles also match on a substring, which the vector does not score, so those rank last.
+      coalesce(ts_rank(c.search_vector, p.tsq), 0)::real
+    from public.backup_connections c
+    cross join params p
+    where c.backup_id = any(p_backup_ids)
+      and cardinality(p.words) > 0
+      and not p.tweet_operators
+      and not exists (
+        select 1
+        from unnest(p.words) as word
+        where position(
+          ltrim(btrim(word, '"'), '@')
+          in lower(coalesce(c.username, '') || ' ' || coalesce(c.data->>'name', ''))
+        ) = 0
+      )
+  ) hits
+  order by hits.rank desc, hits.tweeted_at desc nulls last, hits.backup_id, hits.source, hits.position
+  limit greatest(p_limit, 1)
+  offset greatest(p_offset, 0)
+$$;
+
+commit;
@@ -0,0 +1,18 @@
+-- Record the SHA-256 of each stored media file so identical media is kept once per user.
+--
+-- Goals:
+-- 1) Add media_files.content_sha256.
+-- 2) Index it per user for dedup lookups and storage accounting.
+--
+-- Existing rows keep their original paths and a null hash; they are cleaned up as before when their backup is deleted.
+
+begin;
+
+alter table public.media_files
+  add column if not exists content_sha256 text;
+
+create index if not exists media_files_user_content_sha256_idx
+  on public.media_files (user_id, content_sha256)
+  where content_sha256 is not null;
+
+commit;
@@ -0,0 +1,61 @@
+-- Recurring snapshot schedules, one per user and handle.
+--
+-- Goals:
+-- 1) Create snapshot_schedules with the handle, frequency and snapshot options to use.
+-- 2) Track the next due time and the outcome of the last scheduled run.
+-- 3) Key schedules on (user_id, username) so a user can schedule several handles.
+-- 4) Index due schedules for the hourly scheduler.
+
+begin;
+
+create table if not exists public.snapshot_schedules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  -- Lowercased, since X matches handles case-insensitively.
+  username text not null,
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  targets jsonb not null default '{}'::jsonb,
+  include_media boolean not null default true,
+  incremental boolean not null default true,
+  enabled boolean not null default true,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  last_run_status text check (last_run_status in ('queued', 'skipped_budget', 'skipped_storage', 'skipped_active_job', 'failed')),
+  last_run_message text,
+  last_job_id uuid references public.backup_jobs(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Databases that ran the first version of this migration have a unique key on user_id alone.
+alter table public.snapshot_schedules
+  drop constraint if exists snapshot_schedules_user_id_key;
+
+update public.snapshot_schedules
+set username = lower(username)
+where username <> lower(username);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'snapshot_schedules_user_id_username_key'
+  ) then
+    alter table public.snapshot_schedules
+      add constraint snapshot_schedules_user_id_username_key unique (user_id, username);
+  end if;
+end;
+$$;
+
+create index if not exists snapshot_schedules_due_idx
+  on public.snapshot_schedules (next_run_at)
+  where enabled;
+
+alter table public.snapshot_schedules enable row level security;
+
+drop policy if exists "Users can view their own snapshot schedule" on public.snapshot_schedules;
+create policy "Users can view their own snapshot schedule"
+  on public.snapshot_schedules for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+commit;
@@ -0,0 +1,21 @@
+-- Allow archive imports for platforms other than Twitter in backup_jobs.
+--
+-- Goals:
+-- 1) Add the platform_archive_import job type used by the Instagram and TikTok importers.
+-- 2) Move Instagram imports queued as archive_upload over to the new type.
+
+begin;
+
+alter table public.backup_jobs
+  drop constraint if exists backup_jobs_job_type_check;
+
+alter table public.backup_jobs
+  add constraint backup_jobs_job_type_check
+  check (job_type in ('archive_upload', 'snapshot_scrape', 'platform_archive_import'));
+
+update public.backup_jobs
+set job_type = 'platform_archive_import'
+where job_type = 'archive_upload'
+  and coalesce(payload->>'platform', 'twitter') <> 'twitter';
+
+commit;
@@ -0,0 +1,93 @@
+-- Move plaintext DM conversations out of backups.data into an indexed table.
+--
+-- Goals:
+-- 1) Create backup_conversations keyed by backup id, with each conversation's latest message time.
+-- 2) Backfill it from the existing backups.data direct_messages (or legacy dms) arrays.
+-- 3) Drop the moved arrays from backups.data.
+-- 4) Count the new rows in backup_content_bytes().
+
+begin;
+
+-- 1) table
+create table if not exists public.backup_conversations (
+  backup_id uuid not null references public.backups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  position integer not null,
+  conversation_id text,
+  last_message_at timestamptz,
+  data jsonb not null,
+  primary key (backup_id, position)
+);
+
+create index if not exists backup_conversations_backup_listing_idx
+  on public.backup_conversations (backup_id, last_message_at desc, position desc);
+
+alter table public.backup_conversations enable row level security;
+
+drop policy if exists "Users can view their own backup conversations" on public.backup_conversations;
+create policy "Users can view their own backup conversations"
+  on public.backup_conversations for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- 2) backfill from backups.data
+insert into public.backup_conversations (backup_id, user_id, position, conversation_id, last_message_at, data)
+select
+  b.id,
+  b.user_id,
+  (item.ordinality - 1)::integer,
+  coalesce(
+    nullif(btrim(item.value->>'conversation_id'), ''),
+    nullif(btrim(item.value->>'conversationId'), ''),
+    nullif(btrim(item.value->>'dmConversationId'), '')
+  ),
+  (
+    select max(public.parse_backup_content_timestamp(
+      coalesce(message.value->>'created_at', message.value->>'createdAt', message.value->'messageCreate'->>'createdAt')
+    ))
+    from jsonb_array_elements(
+      case
+        when jsonb_typeof(item.value->'messages') = 'array' then item.value->'messages'
+        else jsonb_build_array(item.value)
+      end
+    ) as message(value)
+  ),
+  item.value
+from public.backups b
+cross join lateral jsonb_array_elements(
+  case
+    when jsonb_typeof(b.data->'dms') = 'array' then b.data->'dms'
+    when jsonb_typeof(b.data->'direct_messages') = 'array' then b.data->'direct_messages'
+    else '[]'::jsonb
+  end
+) with ordinality as item(value, ordinality)
+where b.user_id is not null
+  and jsonb_typeof(item.value) = 'object'
+on conflict do nothing;
+
+-- 3) drop the moved arrays from the blob
+update public.backups
+set data = data - 'direct_messages' - 'dms'
+where user_id is not null
+  and data ?| array['direct_messages', 'dms'];
+
+-- 4) storage accounting helper
+create or replace function public.backup_content_bytes(p_backup_ids uuid[])
+returns table (backup_id uuid, content_bytes bigint)
+language sql
+stable
+as $$
+  select content.backup_id, sum(content.bytes)::bigint as content_bytes
+  from (
+    select t.backup_id, octet_length(t.data::text) as bytes from public.backup_tweets t where t.backup_id = any(p_backup_ids)
+    union all
+    select l.backup_id, octet_length(l.data::text) from public.backup_likes l where l.backup_id = any(p_backup_ids)
+    union all
+    select c.backup_id, octet_length(c.data::text) from public.backup_connections c where c.backup_id = any(p_backup_ids)
+    union all
+    select d.backup_id, octet_length(d.data::text) from public.backup_conversations d where d.backup_id = any(p_backup_ids)
+  ) content
+  group by content.backup_id
+$$;
+
+commit;
@@ -0,0 +1,93 @@
+-- Track shared media blobs so a backup delete decides which ones to remove in a single statement.
+--
+-- Goals:
+-- 1) Create media_blobs, one row per stored blob path.
+-- 2) Backfill it from the blob paths media_files already lists.
+-- 3) Add claim_media_blob(), which imports call once their media_files row exists.
+-- 4) Add release_unreferenced_media_blobs(), which marks blobs no media_files row references.
+--
+-- A released row stays until the delete has removed the object from R2. Imports that claim it meanwhile
+-- wait for the row to go and then upload the blob again.
+
+begin;
+
+-- 1) table
+create table if not exists public.media_blobs (
+  storage_path text primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  content_sha256 text,
+  -- Set while a backup delete is removing the object.
+  released_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.media_blobs enable row level security;
+
+-- 2) backfill from media_files
+insert into public.media_blobs (storage_path, user_id, content_sha256)
+select distinct on (m.file_path) m.file_path, m.user_id, m.content_sha256
+from public.media_files m
+where m.file_path ~ '^[^/]+/blobs/'
+order by m.file_path, m.content_sha256 nulls last
+on conflict (storage_path) do nothing;
+
+-- 3) claim
+-- Returns 'created' when the caller registered the blob and must make sure the object exists,
+-- 'stored' when it is already registered, and 'releasing' while a delete is removing it.
+create or replace function public.claim_media_blob(
+  p_storage_path text,
+  p_user_id uuid,
+  p_content_sha256 text
+)
+returns text
+language plpgsql
+as $$
+declare
+  v_released_at timestamptz;
+begin
+  loop
+    insert into public.media_blobs (storage_path, user_id, content_sha256)
+    values (p_storage_path, p_user_id, p_content_sha256)
+    on conflict (storage_path) do nothing;
+    if found then
+      return 'created';
+    end if;
+
+    select b.released_at into v_released_at
+    from public.media_blobs b
+    where b.storage_path = p_storage_path
+    for update;
+    -- The row can be removed between the insert and the select; try again.
+    exit when found;
+  end loop;
+
+  if v_released_at is null then
+    return 'stored';
+  end if;
+
+  -- A delete that stopped before removing its row leaves it released; take it over once it is stale.
+  if v_released_at < now() - interval '15 minutes' then
+    update public.media_blobs set released_at = null where storage_path = p_storage_path;
+    return 'created';
+  end if;
+
+  return 'releasing';
+end;
+$$;
+
+-- 4) release
+create or replace function public.release_unreferenced_media_blobs(p_storage_paths text[])
+returns setof text
+language sql
+as $$
+  update public.media_blobs b
+  set released_at = now()
+  where b.storage_path = any(p_storage_paths)
+    and b.released_at is null
+    and not exists (
+      select 1 from public.media_files m where m.file_path = b.storage_path
+    )
+  returning b.storage_path;
+$$;
+
+commit;
@@ -0,0 +1,104 @@
+-- Replace a backup's content rows in one transaction.
+--
+-- Goals:
+-- 1) Create backup_content_staging, where a job uploads the new rows in batches.
+-- 2) Add replace_backup_content(), which swaps the staged rows in for the current ones in one transaction.
+--
+-- A job that fails part-way through staging leaves the backup's existing rows untouched.
+
+begin;
+
+-- 1) staging table
+create table if not exists public.backup_content_staging (
+  upload_id uuid not null,
+  backup_id uuid not null references public.backups(id) on delete cascade,
+  content_key text not null check (
+    content_key in ('tweets', 'replies', 'likes', 'followers', 'following', 'direct_messages')
+  ),
+  position integer not null,
+  -- The target table's row as the job built it, including backup_id, user_id and position.
+  row_data jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (upload_id, content_key, position)
+);
+
+create index if not exists backup_content_staging_created_at_idx
+  on public.backup_content_staging (created_at);
+
+alter table public.backup_content_staging enable row level security;
+
+-- 2) swap
+create or replace function public.replace_backup_content(
+  p_backup_id uuid,
+  p_upload_id uuid,
+  p_keys text[]
+)
+returns void
+language plpgsql
+as $$
+begin
+  if 'tweets' = any(p_keys) then
+    delete from public.backup_tweets where backup_id = p_backup_id and kind = 'tweet';
+  end if;
+  if 'replies' = any(p_keys) then
+    delete from public.backup_tweets where backup_id = p_backup_id and kind = 'reply';
+  end if;
+  if 'likes' = any(p_keys) then
+    delete from public.backup_likes where backup_id = p_backup_id;
+  end if;
+  if 'followers' = any(p_keys) then
+    delete from public.backup_connections where backup_id = p_backup_id and relationship = 'follower';
+  end if;
+  if 'following' = any(p_keys) then
+    delete from public.backup_connections where backup_id = p_backup_id and relationship = 'following';
+  end if;
+  if 'direct_messages' = any(p_keys) then
+    delete from public.backup_conversations where backup_id = p_backup_id;
+  end if;
+
+  insert into public.backup_tweets (
+    backup_id, user_id, kind, position, tweet_id, tweeted_at, is_reply, is_pinned, pinned_rank, data
+  )
+  select p_backup_id, r.user_id, r.kind, r.position, r.tweet_id, r.tweeted_at, r.is_reply, r.is_pinned, r.pinned_rank, r.data
+  from public.backup_content_staging s
+  cross join lateral jsonb_populate_record(null::public.backup_tweets, s.row_data) r
+  where s.upload_id = p_upload_id
+    and s.backup_id = p_backup_id
+    and s.content_key in ('tweets', 'replies')
+    and s.content_key = any(p_keys);
+
+  insert into public.backup_likes (backup_id, user_id, position, tweet_id, data)
+  select p_backup_id, r.user_id, r.position, r.tweet_id, r.data
+  from public.backup_content_staging s
+  cross join lateral jsonb_populate_record(null::public.backup_likes, s.row_data) r
+  where s.upload_id = p_upload_id
+    and s.backup_id = p_backup_id
+    and s.content_key = 'likes'
+    and s.content_key = any(p_keys);
+
+  insert into public.backup_connections (backup_id, user_id, relationship, position, account_id, username, data)
+  select p_backup_id, r.user_id, r.relationship, r.position, r.account_id, r.username, r.data
+  from public.backup_content_staging s
+  cross join lateral jsonb_populate_record(null::public.backup_connections, s.row_data) r
+  where s.upload_id = p_upload_id
+    and s.backup_id = p_backup_id
+    and s.content_key in ('followers', 'following')
+    and s.content_key = any(p_keys);
+
+  insert into public.backup_conversations (backup_id, user_id, position, conversation_id, last_message_at, data)
+  select p_backup_id, r.user_id, r.position, r.conversation_id, r.last_message_at, r.data
+  from public.backup_content_staging s
+  cross join lateral jsonb_populate_record(null::public.backup_conversations, s.row_data) r
+  where s.upload_id = p_upload_id
+    and s.backup_id = p_backup_id
+    and s.content_key = 'direct_messages'
+    and s.content_key = any(p_keys);
+
+  -- Also clears uploads from jobs that died before they could clean up after themselves.
+  delete from public.backup_content_staging
+  where upload_id = p_upload_id
+     or created_at < now() - interval '1 day';
+end;
+$$;
+
+commit;